@@ -1,5 +1,5 @@
 // src/App.tsx
-// v12 - Fix Routing: Add public root route for Landing, change /login to /signin, add route for NewProperty.
+// v17 - Enabled the /properties/:propertyId/edit route (property settings: base currency, approval threshold, usage).
 
 import React, { Suspense, lazy, ComponentType } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate, Outlet } from 'react-router-dom';
@@ -8,6 +8,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import { PropertyProvider } from '@/contexts/PropertyContext';
 import { ExpenseProvider } from '@/contexts/ExpenseContext';
+import { IncomeProvider } from '@/contexts/IncomeContext';
 import { RecurringExpenseProvider } from './contexts/RecurringExpenseContext';
 import { BookingProvider } from './contexts/BookingContext';
 import { MaintenanceProvider } from './contexts/MaintenanceContext';
@@ -53,9 +54,13 @@ const ForgotPassword = lazyLoad('./pages/auth/ForgotPassword.tsx'); // Use lazyL
 const DashboardPage = lazyLoad('./pages/Dashboard.tsx', 'Dashboard');
 const PropertyListPage = lazyLoad('./pages/properties/PropertyList.tsx', 'PropertyList');
 const NewPropertyPage = lazyLoad('./pages/properties/NewProperty.tsx', 'NewPropertyPage'); // ADDED - Ensure correct export name
-const EditPropertyPage = lazyLoad('./pages/properties/EditProperty.tsx', 'EditPropertyPage'); // ADDED (Anticipatory) - Ensure correct export name if needed
+const EditPropertyPage = lazyLoad('./pages/properties/EditProperty.tsx', 'EditPropertyPage');
 const ExpenseListPage = lazyLoad('./pages/expenses/ExpenseList.tsx', 'ExpenseList');
 const RecurringExpensesPage = lazyLoad('./pages/recurring-expenses/RecurringExpensesPage.tsx', 'RecurringExpensesPage');
+const BalancesPage = lazyLoad('./pages/balances/BalancesPage.tsx', 'BalancesPage');
+const IncomePage = lazyLoad('./pages/income/IncomePage.tsx', 'IncomePage');
+const BudgetsPage = lazyLoad('./pages/budgets/BudgetsPage.tsx', 'BudgetsPage');
+const ReportsPage = lazyLoad('./pages/reports/ReportsPage.tsx', 'ReportsPage');
 const CalendarPage = lazyLoad('./pages/calendar/CalendarPage.tsx', 'CalendarPage');
 const MaintenancePage = lazyLoad('./pages/maintenance/MaintenancePage.tsx', 'MaintenancePage');
 const DocumentsPage = lazyLoad('./pages/documents/DocumentsPage.tsx', 'DocumentsPage');
@@ -93,12 +98,15 @@ function App() {
                 {/* Property Routes */}
                 <Route path="/properties" element={<PropertyListPage />} />
                 <Route path="/properties/new" element={<NewPropertyPage />} /> {/* ADDED Route */}
-                {/* Optional: Add Edit route if needed later */}
-                {/* <Route path="/properties/:propertyId/edit" element={<EditPropertyPage />} /> */}
+                <Route path="/properties/:propertyId/edit" element={<EditPropertyPage />} />
                  <Route path="/properties/:propertyId/co-owners" element={<CoOwnersPage />} />
                  {/* Other Authenticated Routes */}
                 <Route path="/expenses" element={<ExpenseListPage />} />
                 <Route path="/recurring-expenses" element={<RecurringExpensesPage />} />
+                <Route path="/balances" element={<BalancesPage />} />
+                <Route path="/income" element={<IncomePage />} />
+                <Route path="/budgets" element={<BudgetsPage />} />
+                <Route path="/reports" element={<ReportsPage />} />
                 <Route path="/calendar" element={<CalendarPage />} />
                 <Route path="/maintenance" element={<MaintenancePage />} />
                 <Route path="/documents" element={<DocumentsPage />} />
@@ -154,6 +162,7 @@ const AuthenticatedAppWrapper = () => (
   <AuthGuard> {/* AuthGuard handles redirect if not authenticated */}
     <PropertyProvider>
       <ExpenseProvider>
+       <IncomeProvider>
          <RecurringExpenseProvider>
              <BookingProvider>
                  <MaintenanceProvider>
@@ -169,6 +178,7 @@ const AuthenticatedAppWrapper = () => (
                  </MaintenanceProvider>
              </BookingProvider>
           </RecurringExpenseProvider>
+       </IncomeProvider>
        </ExpenseProvider>
     </PropertyProvider>
   </AuthGuard>
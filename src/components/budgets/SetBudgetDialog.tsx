@@ -0,0 +1,205 @@
+// src/components/budgets/SetBudgetDialog.tsx
+// v1 - Set (or replace) a category budget for a year: monthly or annual amount and the alert threshold.
+
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogClose,
+} from '@/components/ui/dialog';
+import {
+    Form,
+    FormControl,
+    FormDescription,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { BudgetPeriod, CategoryBudgetRow, ExpenseCategory } from '@/integrations/supabase/types';
+import { BudgetInput } from '@/hooks/useBudgets';
+import { formatCategoryName } from '@/lib/utils';
+
+const budgetSchema = z.object({
+  category: z.nativeEnum(ExpenseCategory, { required_error: "Please select a category." }),
+  year: z.coerce.number().int().min(2000).max(2100),
+  period: z.nativeEnum(BudgetPeriod),
+  amount: z.coerce.number({ invalid_type_error: "Amount must be a number." }).positive("Amount must be greater than 0."),
+  alert_threshold: z.coerce.number({ invalid_type_error: "Threshold must be a number." }).gt(0, "Threshold must be greater than 0%.").max(200, "Threshold cannot exceed 200%."),
+  notes: z.string().max(500, "Notes must not exceed 500 characters.").optional(),
+});
+
+type BudgetFormData = z.infer<typeof budgetSchema>;
+
+interface SetBudgetDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  year: number; // Default year for a new budget
+  budget?: CategoryBudgetRow | null; // Budget being edited, if any
+  onSave: (input: BudgetInput) => Promise<boolean>;
+}
+
+export function SetBudgetDialog({ isOpen, onOpenChange, year, budget, onSave }: SetBudgetDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const form = useForm<BudgetFormData>({ resolver: zodResolver(budgetSchema) });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    form.reset(budget
+      ? { category: budget.category as ExpenseCategory, year: budget.year, period: budget.period as BudgetPeriod, amount: Number(budget.amount), alert_threshold: Number(budget.alert_threshold), notes: budget.notes ?? '' }
+      : { category: undefined, year, period: BudgetPeriod.Monthly, amount: undefined, alert_threshold: 80, notes: '' });
+  }, [isOpen, budget, year, form]);
+
+  const watchedPeriod = form.watch('period');
+
+  const onSubmit = async (data: BudgetFormData) => {
+    setIsSubmitting(true);
+    const saved = await onSave({ category: data.category, year: data.year, period: data.period, amount: data.amount, alertThreshold: data.alert_threshold, notes: data.notes });
+    setIsSubmitting(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!isSubmitting) onOpenChange(open); }}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{budget ? 'Edit Budget' : 'Set Budget'}</DialogTitle>
+          <DialogDescription>
+            One budget per category and year. Saving a category that already has a budget for the year replaces it.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value ?? ''} disabled={!!budget}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.values(ExpenseCategory).map(category => (
+                          <SelectItem key={category} value={category}>{formatCategoryName(category)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="year"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Year</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="1" {...field} value={field.value ?? ''} disabled={!!budget} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="period"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Period</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={BudgetPeriod.Monthly}>Monthly</SelectItem>
+                        <SelectItem value={BudgetPeriod.Annual}>Annual</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{watchedPeriod === BudgetPeriod.Annual ? 'Amount per Year' : 'Amount per Month'}</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="alert_threshold"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Alert Threshold (%)</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="1" min="1" max="200" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormDescription>The dashboard warns once spending for the {watchedPeriod === BudgetPeriod.Annual ? 'year' : 'month'} reaches this share of the budget.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="e.g. Agreed at the March owners' meeting" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Budget
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+// src/components/calendar/AddUsageSeasonDialog.tsx
+// v1 - Add a peak or holiday season whose nights count at a heavier weight against usage entitlements.
+
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogClose,
+} from '@/components/ui/dialog';
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { UsageSeasonKind } from '@/integrations/supabase/types';
+import { DEFAULT_SEASON_WEIGHTS, UsageSeasonInput } from '@/hooks/useUsageSeasons';
+
+const seasonSchema = z.object({
+  name: z.string().trim().min(1, "Please name the season.").max(80, "Name must not exceed 80 characters."),
+  kind: z.nativeEnum(UsageSeasonKind),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Please pick a start date."),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Please pick an end date."),
+  weight: z.coerce.number({ invalid_type_error: "Weight must be a number." }).gt(0, "Weight must be greater than 0.").max(10, "Weight cannot exceed 10."),
+}).refine(data => data.end_date >= data.start_date, { message: "The season must end on or after its start date.", path: ['end_date'] });
+
+type SeasonFormData = z.infer<typeof seasonSchema>;
+
+interface AddUsageSeasonDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  onSave: (input: UsageSeasonInput) => Promise<boolean>;
+}
+
+export function AddUsageSeasonDialog({ isOpen, onOpenChange, onSave }: AddUsageSeasonDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const form = useForm<SeasonFormData>({ resolver: zodResolver(seasonSchema) });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    form.reset({ name: '', kind: UsageSeasonKind.Peak, start_date: '', end_date: '', weight: DEFAULT_SEASON_WEIGHTS.peak });
+  }, [isOpen, form]);
+
+  const onSubmit = async (data: SeasonFormData) => {
+    setIsSubmitting(true);
+    const saved = await onSave({ name: data.name, kind: data.kind, startDate: data.start_date, endDate: data.end_date, weight: data.weight });
+    setIsSubmitting(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!isSubmitting) onOpenChange(open); }}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Add Season</DialogTitle>
+          <DialogDescription>
+            Nights in a peak or holiday season use more of each owner's entitlement. Where seasons overlap, the heaviest weight applies.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Summer 2026, Thanksgiving" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="kind"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={(value: UsageSeasonKind) => { field.onChange(value); form.setValue('weight', DEFAULT_SEASON_WEIGHTS[value]); }} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={UsageSeasonKind.Peak}>Peak</SelectItem>
+                        <SelectItem value={UsageSeasonKind.Holiday}>Holiday</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="weight"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Weight</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.25" min="0.25" max="10" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="start_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>First Night</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="end_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Last Night</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">A weight of 2 means each night stayed in the season counts as two nights.</p>
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add Season
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
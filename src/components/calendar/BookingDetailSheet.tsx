@@ -15,7 +15,7 @@ import { Booking, MemberRole, PropertyMemberWithProfile } from "@/integrations/s
 import { formatDate, formatCategoryName } from '@/lib/utils';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
-import { UserCircle, CheckCircle, XCircle, Loader2, Edit, Trash2 } from 'lucide-react'; // Added Edit, Trash2
+import { UserCircle, CheckCircle, XCircle, Loader2, Edit, Trash2, AlertTriangle } from 'lucide-react'; // Added Edit, Trash2
 
 import { useAuth } from '@/contexts/AuthContext';
 import { useProperty } from '@/contexts/PropertyContext';
@@ -93,6 +93,7 @@ export const BookingDetailSheet: React.FC<BookingDetailSheetProps> = ({
 
   const canApproveReject =
     booking.status === 'pending' &&
+    !booking.request_window_id && // Request window preferences are settled by the lottery
     (currentUserRole === 'owner' || currentUserRole === 'co_owner') &&
     user?.id !== booking.user_id;
 
@@ -230,6 +231,21 @@ export const BookingDetailSheet: React.FC<BookingDetailSheetProps> = ({
             </div>
           </div>
 
+           {/* Set by the database when the dates overlap a maintenance block */}
+           {booking.conflict_note && booking.status === 'pending' && (
+             <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+               <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+               <p>{booking.conflict_note} An owner or co-owner must approve it.</p>
+             </div>
+           )}
+
+           {booking.request_window_id && booking.status === 'pending' && (
+             <p className="text-sm text-gray-600">Preference #{booking.preference_rank} in a request window. The lottery decides it when the window closes.</p>
+           )}
+           {booking.decision_note && (
+             <p className="rounded-md border bg-gray-50 p-3 text-sm text-gray-700">{booking.decision_note}</p>
+           )}
+
            {/* Conditional Approval Buttons */}
            {canApproveReject && (
              <div className="pt-4 border-t mt-4">
@@ -0,0 +1,157 @@
+// src/components/calendar/BookingPreferencesDialog.tsx
+// v1 - Rank up to three stays within a request window's dates; resubmitting replaces earlier preferences.
+
+import React, { useEffect, useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogClose,
+} from '@/components/ui/dialog';
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { BookingPreferenceInput, BookingRow, BookingRequestWindowRow } from '@/integrations/supabase/types';
+import { formatDate } from '@/lib/utils';
+
+const MAX_PREFERENCES = 3;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const preferencesSchema = z.object({
+  preferences: z.array(z.object({
+    start_date: z.string().regex(DATE_PATTERN, "Pick a first night."),
+    end_date: z.string().regex(DATE_PATTERN, "Pick a last night."),
+    num_guests: z.coerce.number().int().min(1, "At least 1 guest."),
+  })
+    .refine(p => p.end_date >= p.start_date, { message: "Must be on or after the first night.", path: ['end_date'] }))
+    .min(1).max(MAX_PREFERENCES),
+});
+
+type PreferencesFormData = z.infer<typeof preferencesSchema>;
+
+interface BookingPreferencesDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  requestWindow: BookingRequestWindowRow | null;
+  currentPreferences: BookingRow[]; // The member's pending preferences for the window, best first
+  onSubmit: (windowId: string, preferences: BookingPreferenceInput[]) => Promise<boolean>;
+}
+
+export function BookingPreferencesDialog({ isOpen, onOpenChange, requestWindow, currentPreferences, onSubmit }: BookingPreferencesDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const form = useForm<PreferencesFormData>({ resolver: zodResolver(preferencesSchema) });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'preferences' });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    form.reset({
+      preferences: currentPreferences.length
+        ? currentPreferences.map(b => ({ start_date: b.start_date, end_date: b.end_date, num_guests: b.num_guests || 1 }))
+        : [{ start_date: '', end_date: '', num_guests: 1 }],
+    });
+  }, [isOpen, currentPreferences, form]);
+
+  const handleSubmit = async (data: PreferencesFormData) => {
+    if (!requestWindow) return;
+    // The window's dates vary, so the range is checked here rather than in the schema
+    const outside = data.preferences.findIndex(p => p.start_date < requestWindow.stay_start || p.end_date > requestWindow.stay_end);
+    if (outside >= 0) { form.setError(`preferences.${outside}.start_date`, { message: "Must fall within the window's dates." }); return; }
+    setIsSubmitting(true);
+    const submitted = await onSubmit(requestWindow.id, data.preferences.map(p => ({ start_date: p.start_date, end_date: p.end_date, num_guests: p.num_guests })));
+    setIsSubmitting(false);
+    if (submitted) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!isSubmitting) onOpenChange(open); }}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Your Preferences{requestWindow ? `: ${requestWindow.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            {requestWindow && `Between ${formatDate(requestWindow.stay_start)} and ${formatDate(requestWindow.stay_end)}, best first. `}
+            When the window closes, members are drawn in turn and each gets their best choice still free.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4 py-2">
+            {fields.map((preference, index) => (
+              <div key={preference.id} className="grid grid-cols-[auto_1fr_1fr_70px_auto] items-start gap-2">
+                <span className={`text-sm font-medium ${index === 0 ? 'mt-9' : 'mt-2'}`}>{index + 1}.</span>
+                <FormField
+                  control={form.control}
+                  name={`preferences.${index}.start_date`}
+                  render={({ field }) => (
+                    <FormItem>
+                      {index === 0 && <FormLabel>First Night</FormLabel>}
+                      <FormControl>
+                        <Input type="date" min={requestWindow?.stay_start} max={requestWindow?.stay_end} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`preferences.${index}.end_date`}
+                  render={({ field }) => (
+                    <FormItem>
+                      {index === 0 && <FormLabel>Last Night</FormLabel>}
+                      <FormControl>
+                        <Input type="date" min={requestWindow?.stay_start} max={requestWindow?.stay_end} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`preferences.${index}.num_guests`}
+                  render={({ field }) => (
+                    <FormItem>
+                      {index === 0 && <FormLabel>Guests</FormLabel>}
+                      <FormControl>
+                        <Input type="number" min="1" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="button" variant="ghost" size="icon" className={index === 0 ? 'mt-8' : ''} disabled={fields.length === 1} title="Remove preference" onClick={() => remove(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {fields.length < MAX_PREFERENCES && (
+              <Button type="button" variant="outline" size="sm" onClick={() => append({ start_date: '', end_date: '', num_guests: 1 })}>
+                <Plus className="mr-1 h-4 w-4" /> Add Choice
+              </Button>
+            )}
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSubmitting || !requestWindow}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Submit Preferences
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
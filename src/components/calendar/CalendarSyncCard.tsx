@@ -0,0 +1,80 @@
+// src/components/calendar/CalendarSyncCard.tsx
+// v1 - Calendar sidebar: the member's private .ics feed link, and importing an .ics file as blocked dates.
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Copy, FileUp, Link2, Loader2, RefreshCw, Unlink } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCalendarSync } from '@/hooks/useCalendarSync';
+import { CalendarImportPreviewRow } from '@/lib/calendarImport';
+import { ImportCalendarDialog } from './ImportCalendarDialog';
+
+interface CalendarSyncCardProps {
+  propertyId: string | null | undefined;
+  canImport: boolean; // Owners and co-owners; imported events block everyone's bookings
+  onImported: () => void;
+}
+
+export function CalendarSyncCard({ propertyId, canImport, onImported }: CalendarSyncCardProps) {
+  const { feedUrl, isLoading, createFeedLink, revokeFeedLink, fetchImportedUids, importBlocks } = useCalendarSync(propertyId);
+  const { toast } = useToast();
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = async (action: () => Promise<boolean>) => { setIsWorking(true); await action(); setIsWorking(false); };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: "Link Copied", description: "Add it to your calendar app as a subscription (\"From URL\")." });
+    } catch (err) {
+      console.error("Error copying feed link:", err);
+      toast({ variant: "destructive", title: "Could Not Copy", description: "Select the link and copy it manually." });
+    }
+  };
+
+  const handleImport = async (rows: CalendarImportPreviewRow[], fileName: string) => {
+    const created = await importBlocks(rows, fileName);
+    if (created) onImported();
+    return created;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar Sync</CardTitle>
+        <CardDescription>See stays and blocked dates in your own calendar app.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {isLoading ? (
+          <div className="flex justify-center py-2"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+        ) : feedUrl ? (
+          <>
+            <div className="flex gap-2">
+              <Input readOnly value={feedUrl} className="h-8 text-xs" onFocus={(e) => e.target.select()} aria-label="Calendar feed link" />
+              <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" title="Copy link" onClick={handleCopy}><Copy className="h-3.5 w-3.5" /></Button>
+            </div>
+            <p className="text-xs text-muted-foreground">Anyone with this link can see the property's calendar. Reset it if it has been shared by mistake.</p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" className="h-7" disabled={isWorking} onClick={() => run(createFeedLink)}><RefreshCw className="mr-1 h-3.5 w-3.5" /> Reset</Button>
+              <Button variant="ghost" size="sm" className="h-7" disabled={isWorking} onClick={() => run(revokeFeedLink)}><Unlink className="mr-1 h-3.5 w-3.5" /> Revoke</Button>
+            </div>
+          </>
+        ) : (
+          <Button variant="outline" size="sm" className="w-full" disabled={isWorking || !propertyId} onClick={() => run(createFeedLink)}>
+            {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />} Create Feed Link
+          </Button>
+        )}
+        {canImport && (
+          <Button variant="outline" size="sm" className="w-full" disabled={!propertyId} onClick={() => setIsImportOpen(true)}>
+            <FileUp className="mr-2 h-4 w-4" /> Import .ics
+          </Button>
+        )}
+      </CardContent>
+      <ImportCalendarDialog isOpen={isImportOpen} onOpenChange={setIsImportOpen} fetchImportedUids={fetchImportedUids} onImport={handleImport} />
+    </Card>
+  );
+}
@@ -0,0 +1,172 @@
+// src/components/calendar/CreatePeakDraftDialog.tsx
+// v1 - Set up a year's peak-week draft: list the premium weeks and preview the rotated pick order.
+
+import React, { useEffect, useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogClose,
+} from '@/components/ui/dialog';
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { PeakDraftWeekInput, PropertyMemberWithProfile } from '@/integrations/supabase/types';
+import { draftMemberName, nextPickOrder } from '@/lib/peakDraft';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const draftSchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+  weeks: z.array(z.object({
+    name: z.string().trim().min(1, "Name the week.").max(80, "Name must not exceed 80 characters."),
+    start_date: z.string().regex(DATE_PATTERN, "Pick a start date."),
+    end_date: z.string().regex(DATE_PATTERN, "Pick an end date."),
+  }).refine(week => week.end_date >= week.start_date, { message: "Must end on or after the start date.", path: ['end_date'] }))
+    .min(1, "Add at least one peak week."),
+});
+
+type DraftFormData = z.infer<typeof draftSchema>;
+
+interface CreatePeakDraftDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  year: number; // Default year for the draft
+  previousOrder: string[] | null; // First-round order of the last draft, rotated for this one
+  members: PropertyMemberWithProfile[];
+  onCreate: (year: number, weeks: PeakDraftWeekInput[]) => Promise<boolean>;
+}
+
+export function CreatePeakDraftDialog({ isOpen, onOpenChange, year, previousOrder, members, onCreate }: CreatePeakDraftDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const form = useForm<DraftFormData>({ resolver: zodResolver(draftSchema) });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'weeks' });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    form.reset({ year, weeks: [{ name: '', start_date: '', end_date: '' }] });
+  }, [isOpen, year, form]);
+
+  const pickOrder = nextPickOrder(previousOrder, members);
+
+  const onSubmit = async (data: DraftFormData) => {
+    setIsSubmitting(true);
+    const created = await onCreate(data.year, data.weeks.map(w => ({ name: w.name, start_date: w.start_date, end_date: w.end_date })));
+    setIsSubmitting(false);
+    if (created) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!isSubmitting) onOpenChange(open); }}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Set Up Peak-Week Draft</DialogTitle>
+          <DialogDescription>
+            Owners and co-owners take turns picking these weeks, snake style: the order reverses each round. Each pick is booked as a confirmed stay.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2">
+            <FormField
+              control={form.control}
+              name="year"
+              render={({ field }) => (
+                <FormItem className="max-w-[140px]">
+                  <FormLabel>Year</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="1" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="space-y-3">
+              {fields.map((week, index) => (
+                <div key={week.id} className="grid grid-cols-[1fr_auto_auto_auto] items-start gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`weeks.${index}.name`}
+                    render={({ field }) => (
+                      <FormItem>
+                        {index === 0 && <FormLabel>Week</FormLabel>}
+                        <FormControl>
+                          <Input placeholder="e.g. Christmas" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`weeks.${index}.start_date`}
+                    render={({ field }) => (
+                      <FormItem>
+                        {index === 0 && <FormLabel>First Night</FormLabel>}
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`weeks.${index}.end_date`}
+                    render={({ field }) => (
+                      <FormItem>
+                        {index === 0 && <FormLabel>Last Night</FormLabel>}
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="button" variant="ghost" size="icon" className={index === 0 ? 'mt-8' : ''} disabled={fields.length === 1} title="Remove week" onClick={() => remove(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={() => append({ name: '', start_date: '', end_date: '' })}>
+                <Plus className="mr-1 h-4 w-4" /> Add Week
+              </Button>
+              {form.formState.errors.weeks?.root?.message && <p className="text-sm font-medium text-destructive">{form.formState.errors.weeks.root.message}</p>}
+            </div>
+            <div className="rounded-md bg-muted p-3 text-sm">
+              <p className="font-medium">First-round order</p>
+              <p className="text-muted-foreground">
+                {pickOrder.map(id => draftMemberName(members.find(m => m.user_id === id))).join(' → ') || 'No owners or co-owners yet.'}
+              </p>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {previousOrder?.length ? "Last year's order moved up one: whoever picked first then picks last now." : 'The first draft goes by ownership stake, largest first.'}
+              </p>
+            </div>
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSubmitting || pickOrder.length === 0}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Draft
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+// src/components/calendar/CreateRequestWindowDialog.tsx
+// v2 - The lottery seed is drawn by the database (only its hash is shown until the draw), so it is no longer entered here.
+
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { endOfDay, format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogClose,
+} from '@/components/ui/dialog';
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Loader2 } from 'lucide-react';
+import { RequestWindowInput } from '@/hooks/useBookingRequestWindows';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const windowSchema = z.object({
+  name: z.string().trim().min(1, "Please name the window.").max(80, "Name must not exceed 80 characters."),
+  stay_start: z.string().regex(DATE_PATTERN, "Pick the first contested night."),
+  stay_end: z.string().regex(DATE_PATTERN, "Pick the last contested night."),
+  closes_on: z.string().regex(DATE_PATTERN, "Pick when preferences close."),
+})
+  .refine(data => data.stay_end >= data.stay_start, { message: "Must be on or after the first night.", path: ['stay_end'] })
+  .refine(data => data.closes_on >= format(new Date(), 'yyyy-MM-dd'), { message: "Cannot close in the past.", path: ['closes_on'] })
+  .refine(data => data.closes_on < data.stay_start, { message: "Must close before the contested dates begin.", path: ['closes_on'] });
+
+type WindowFormData = z.infer<typeof windowSchema>;
+
+interface CreateRequestWindowDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  onCreate: (input: RequestWindowInput) => Promise<boolean>;
+}
+
+export function CreateRequestWindowDialog({ isOpen, onOpenChange, onCreate }: CreateRequestWindowDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const form = useForm<WindowFormData>({ resolver: zodResolver(windowSchema) });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    form.reset({ name: '', stay_start: '', stay_end: '', closes_on: '' });
+  }, [isOpen, form]);
+
+  const onSubmit = async (data: WindowFormData) => {
+    setIsSubmitting(true);
+    // Preferences are accepted through the end of the closing day, in the owner's time zone
+    const created = await onCreate({ name: data.name, stayStart: data.stay_start, stayEnd: data.stay_end, closesAt: endOfDay(parseISO(data.closes_on)).toISOString() });
+    setIsSubmitting(false);
+    if (created) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!isSubmitting) onOpenChange(open); }}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Open Request Window</DialogTitle>
+          <DialogDescription>
+            Until the window closes, members rank up to three stays within these dates instead of booking them. A lottery weighted toward members who stayed less in the past year then assigns them.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Summer 2027" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="stay_start"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>First Night</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="stay_end"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Last Night</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="closes_on"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Preferences Close On</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Open Window
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,140 @@
+// src/components/calendar/ImportCalendarDialog.tsx
+// v1 - .ics import: upload, preview (cancelled, past and already-imported events skipped by UID), create blocks.
+
+import React, { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, FileUp, Loader2, Upload } from 'lucide-react';
+import { cn, formatDate } from '@/lib/utils';
+import { buildCalendarImportPreview, CalendarImportPreviewRow, CalendarImportSkipReason } from '@/lib/calendarImport';
+
+const MAX_FILE_SIZE_MB = 2;
+const SKIP_LABELS: Record<CalendarImportSkipReason, string> = {
+    invalid: 'Invalid', cancelled: 'Cancelled', recurring: 'Repeating', past: 'Past',
+    own_feed: 'CoHaven event', duplicate_existing: 'Already imported', duplicate_in_file: 'Duplicate in file',
+};
+
+interface ImportCalendarDialogProps {
+    isOpen: boolean;
+    onOpenChange: (isOpen: boolean) => void;
+    fetchImportedUids: () => Promise<string[]>;
+    onImport: (rows: CalendarImportPreviewRow[], fileName: string) => Promise<number | null>;
+}
+
+export function ImportCalendarDialog({ isOpen, onOpenChange, fetchImportedUids, onImport }: ImportCalendarDialogProps) {
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [previewRows, setPreviewRows] = useState<CalendarImportPreviewRow[] | null>(null);
+    const [fileError, setFileError] = useState<string | null>(null);
+    const [isReading, setIsReading] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const rowsToCreate = (previewRows ?? []).filter(row => row.skipReason === null);
+
+    const reset = () => {
+        setFileName(null); setPreviewRows(null); setFileError(null);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    const handleOpenChange = (open: boolean) => {
+        if (isImporting) return; // Don't abandon a running import
+        if (!open) reset();
+        onOpenChange(open);
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        setFileError(null);
+        if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) { setFileError(`Max file size is ${MAX_FILE_SIZE_MB}MB.`); return; }
+        setIsReading(true);
+        const [text, importedUids] = await Promise.all([file.text(), fetchImportedUids()]);
+        setIsReading(false);
+        if (!/BEGIN:VCALENDAR/i.test(text)) { setFileError("This is not an iCalendar (.ics) file."); return; }
+        const rows = buildCalendarImportPreview(text, importedUids, format(new Date(), 'yyyy-MM-dd'));
+        if (!rows.length) { setFileError("The file has no events."); return; }
+        setFileName(file.name);
+        setPreviewRows(rows);
+    };
+
+    const handleImport = async () => {
+        setIsImporting(true);
+        const created = await onImport(rowsToCreate, fileName ?? 'an .ics file');
+        setIsImporting(false);
+        if (created !== null) handleOpenChange(false);
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Import Calendar (.ics)</DialogTitle>
+                    <DialogDescription>
+                        {previewRows
+                            ? 'Each new event becomes a maintenance entry that blocks bookings on its dates. Events imported before are recognised by their UID and skipped.'
+                            : 'Upload an iCalendar export, for example from a rental listing, to block the dates it marks as taken.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!previewRows && (
+                    <div className="space-y-3 py-4">
+                        <Label htmlFor="import-ics-input" className="flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed border-input p-10 cursor-pointer hover:bg-accent">
+                            {isReading ? <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /> : <FileUp className="h-8 w-8 text-muted-foreground" />}
+                            <span className="text-sm font-medium">Choose an .ics file</span>
+                            <span className="text-xs text-muted-foreground">Max {MAX_FILE_SIZE_MB}MB.</span>
+                        </Label>
+                        <input id="import-ics-input" ref={fileInputRef} type="file" accept=".ics,text/calendar" className="sr-only" disabled={isReading} onChange={handleFileChange} />
+                        {fileError && <Alert variant="destructive"><AlertCircle className="h-4 w-4" /><AlertDescription>{fileError}</AlertDescription></Alert>}
+                    </div>
+                )}
+
+                {previewRows && (
+                    <div className="space-y-3 py-2">
+                        <div className="flex flex-wrap gap-2">
+                            <Badge variant="default">{rowsToCreate.length} to create</Badge>
+                            <Badge variant="secondary">{previewRows.length - rowsToCreate.length} to skip</Badge>
+                        </div>
+                        <ScrollArea className="h-[45vh] rounded-md border">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Dates</TableHead>
+                                        <TableHead>Title</TableHead>
+                                        <TableHead>Status</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {previewRows.map((row, index) => (
+                                        <TableRow key={`${row.uid ?? 'no-uid'}-${index}`} className={cn(row.skipReason && "text-muted-foreground")}>
+                                            <TableCell className="whitespace-nowrap">{row.start ? `${formatDate(row.start)}${row.end !== row.start ? ` – ${formatDate(row.end)}` : ''}` : '—'}</TableCell>
+                                            <TableCell className="max-w-[260px] truncate" title={row.title}>{row.title}</TableCell>
+                                            <TableCell title={row.message ?? undefined}>
+                                                {row.skipReason ? <Badge variant={row.skipReason === 'invalid' ? 'destructive' : 'outline'}>{SKIP_LABELS[row.skipReason]}</Badge> : <Badge variant="secondary">New</Badge>}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </ScrollArea>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {previewRows && <Button type="button" variant="outline" disabled={isImporting} onClick={reset}>Back</Button>}
+                    {previewRows && (
+                        <Button type="button" disabled={isImporting || rowsToCreate.length === 0} onClick={handleImport}>
+                            {isImporting ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Importing...</> : <><Upload className="mr-2 h-4 w-4" />Import {rowsToCreate.length} Block(s)</>}
+                        </Button>
+                    )}
+                    {!previewRows && <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>Close</Button>}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,112 @@
+// src/components/calendar/PeakDraftCard.tsx
+// v1 - Calendar sidebar: the current peak-week draft (whose turn, weeks left to pick) and past drafts' orders.
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Plus } from 'lucide-react';
+import { PropertyMemberWithProfile } from '@/integrations/supabase/types';
+import { usePeakDrafts } from '@/hooks/usePeakDrafts';
+import { draftMemberName, nextPick } from '@/lib/peakDraft';
+import { cn, formatDate } from '@/lib/utils';
+import { CreatePeakDraftDialog } from './CreatePeakDraftDialog';
+
+interface PeakDraftCardProps {
+  propertyId: string | null | undefined;
+  members: PropertyMemberWithProfile[];
+  currentUserId: string | undefined;
+  canManage: boolean; // Owners and co-owners set up drafts and can pick for a member who is away
+  onPicked: () => void; // Refreshes bookings once a pick is booked
+}
+
+export function PeakDraftCard({ propertyId, members, currentUserId, canManage, onPicked }: PeakDraftCardProps) {
+  const { drafts, weeks, isLoading, createDraft, pickWeek } = usePeakDrafts(propertyId);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [pickingWeekId, setPickingWeekId] = useState<string | null>(null);
+
+  const nameOf = (userId: string | null) => draftMemberName(members.find(m => m.user_id === userId));
+  const currentYear = new Date().getFullYear();
+  const draft = drafts[0] ?? null; // Newest year
+  const draftWeeks = draft ? weeks.filter(w => w.draft_id === draft.id) : [];
+  const turn = draft ? nextPick(draft, draftWeeks) : null;
+  const round = draft && turn ? Math.floor((turn.pickNumber - 1) / draft.pick_order.length) + 1 : null;
+  const canPick = !!turn && (turn.userId === currentUserId || canManage);
+  const history = drafts.slice(draft ? 1 : 0);
+  // The next draft is for the year after the newest one, or this year if there is none yet
+  const nextDraftYear = draft ? Math.max(draft.year + 1, currentYear) : currentYear;
+
+  const handlePick = async (weekId: string) => {
+    setPickingWeekId(weekId);
+    const picked = await pickWeek(weekId);
+    setPickingWeekId(null);
+    if (picked) onPicked();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle>Peak-Week Draft{draft ? ` ${draft.year}` : ''}</CardTitle>
+            <CardDescription>First pick rotates every year; each round reverses the order.</CardDescription>
+          </div>
+          {canManage && (!draft || draft.status === 'completed') && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 shrink-0" onClick={() => setIsDialogOpen(true)}>
+              <Plus className="mr-1 h-3.5 w-3.5" /> {nextDraftYear}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {isLoading && <div className="flex justify-center py-2"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>}
+        {!isLoading && !draft && <p className="text-muted-foreground">No draft yet. {canManage ? 'Set one up to share out the holiday and peak weeks.' : 'An owner can set one up.'}</p>}
+        {!isLoading && draft && (
+          <>
+            <div>
+              <p className="text-xs text-muted-foreground">Order</p>
+              <p>{draft.pick_order.map(id => nameOf(id)).join(' → ')}</p>
+              {turn
+                ? <p className="mt-1 font-medium">{turn.userId === currentUserId ? 'Your pick' : `${nameOf(turn.userId)}'s pick`} <span className="font-normal text-muted-foreground">(pick {turn.pickNumber}, round {round})</span></p>
+                : <p className="mt-1 text-muted-foreground">Draft complete.</p>}
+            </div>
+            <ul className="space-y-2">
+              {draftWeeks.map(week => (
+                <li key={week.id} className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{week.name}</p>
+                    <p className="text-xs text-muted-foreground">{formatDate(week.start_date)} – {formatDate(week.end_date)}</p>
+                  </div>
+                  {week.picked_by
+                    ? <Badge variant="secondary" className="shrink-0">#{week.pick_number} {nameOf(week.picked_by)}</Badge>
+                    : canPick && (
+                      <Button size="sm" variant="outline" className={cn("h-7 shrink-0", turn?.userId !== currentUserId && "text-xs")} disabled={!!pickingWeekId} onClick={() => handlePick(week.id)}>
+                        {pickingWeekId === week.id && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+                        {turn?.userId === currentUserId ? 'Pick' : `Pick for ${nameOf(turn!.userId)}`}
+                      </Button>
+                    )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        {history.length > 0 && (
+          <div className="space-y-1 border-t pt-3">
+            <p className="text-xs text-muted-foreground">Past drafts</p>
+            {history.map(past => (
+              <p key={past.id} className="text-xs"><span className="font-medium">{past.year}:</span> {past.pick_order.map(id => nameOf(id)).join(' → ')}</p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      <CreatePeakDraftDialog
+        isOpen={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        year={nextDraftYear}
+        previousOrder={draft?.pick_order ?? null}
+        members={members}
+        onCreate={createDraft}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+// src/components/calendar/RequestWindowsCard.tsx
+// v2 - Open windows show the committed seed hash; draws show the revealed seed next to it.
+
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dices, Loader2, Plus, Trash2 } from 'lucide-react';
+import { BookingPreferenceInput, BookingRow, PropertyMemberWithProfile } from '@/integrations/supabase/types';
+import { useBookingRequestWindows } from '@/hooks/useBookingRequestWindows';
+import { formatDate } from '@/lib/utils';
+import { CreateRequestWindowDialog } from './CreateRequestWindowDialog';
+import { BookingPreferencesDialog } from './BookingPreferencesDialog';
+
+const RECENT_DRAWS_SHOWN = 2;
+
+interface RequestWindowsCardProps {
+  propertyId: string | null | undefined;
+  bookings: BookingRow[];
+  members: PropertyMemberWithProfile[];
+  currentUserId: string | undefined;
+  canManage: boolean; // Owners and co-owners open windows and run the lottery
+  onBookingsChanged: () => void;
+}
+
+export function RequestWindowsCard({ propertyId, bookings, members, currentUserId, canManage, onBookingsChanged }: RequestWindowsCardProps) {
+  const { windows, isLoading, createWindow, deleteWindow, submitPreferences, closeWindow } = useBookingRequestWindows(propertyId);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [preferencesWindowId, setPreferencesWindowId] = useState<string | null>(null);
+  const [closingWindowId, setClosingWindowId] = useState<string | null>(null);
+
+  const nameOf = (userId: string | null) => members.find(m => m.user_id === userId)?.profile?.first_name || 'Former member';
+  const now = new Date().toISOString();
+  const openWindows = windows.filter(w => w.status === 'open');
+  const recentDraws = windows.filter(w => w.status === 'closed').slice(0, RECENT_DRAWS_SHOWN);
+  const windowBookings = (windowId: string) => bookings.filter(b => b.request_window_id === windowId);
+  const preferencesWindow = windows.find(w => w.id === preferencesWindowId) ?? null;
+  // Memoized so the dialog does not reset while it is open
+  const myPreferences = useMemo(() =>
+    bookings.filter(b => b.request_window_id === preferencesWindowId && b.user_id === currentUserId && b.status === 'pending').sort((a, b) => (a.preference_rank ?? 0) - (b.preference_rank ?? 0)),
+  [bookings, preferencesWindowId, currentUserId]);
+
+  const handleSubmitPreferences = async (windowId: string, preferences: BookingPreferenceInput[]) => {
+    const submitted = await submitPreferences(windowId, preferences);
+    if (submitted) onBookingsChanged();
+    return submitted;
+  };
+
+  const handleClose = async (windowId: string) => {
+    setClosingWindowId(windowId);
+    const closed = await closeWindow(windowId);
+    setClosingWindowId(null);
+    if (closed) onBookingsChanged();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle>Request Windows</CardTitle>
+            <CardDescription>Contested dates go to a lottery instead of first come, first served.</CardDescription>
+          </div>
+          {canManage && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 shrink-0" onClick={() => setIsCreateOpen(true)}>
+              <Plus className="mr-1 h-3.5 w-3.5" /> Open
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {isLoading && <div className="flex justify-center py-2"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>}
+        {!isLoading && windows.length === 0 && <p className="text-muted-foreground">No request windows yet.</p>}
+        {openWindows.map(w => {
+          const entries = windowBookings(w.id).filter(b => b.status === 'pending');
+          const mine = entries.filter(b => b.user_id === currentUserId).sort((a, b) => (a.preference_rank ?? 0) - (b.preference_rank ?? 0));
+          const isAcceptingPreferences = now < w.closes_at;
+          return (
+            <div key={w.id} className="space-y-2 rounded-md border p-3">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{w.name}</p>
+                  <p className="text-xs text-muted-foreground">{formatDate(w.stay_start)} – {formatDate(w.stay_end)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {isAcceptingPreferences ? `Preferences close ${formatDate(w.closes_at)}` : 'Closed for preferences; waiting for the lottery'} · {new Set(entries.map(b => b.user_id)).size} entered
+                  </p>
+                  <p className="text-xs text-muted-foreground break-all" title="SHA-256 of the lottery seed, fixed when the window opened. The seed is revealed with the draw.">Seed hash: {w.seed_hash}</p>
+                </div>
+                {canManage && (
+                  <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" title="Delete window" onClick={() => deleteWindow(w.id)}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+              {mine.length > 0 && (
+                <ol className="space-y-0.5 text-xs">
+                  {mine.map(b => <li key={b.id}>{b.preference_rank}. {formatDate(b.start_date)} – {formatDate(b.end_date)}</li>)}
+                </ol>
+              )}
+              <div className="flex gap-2">
+                {isAcceptingPreferences && (
+                  <Button size="sm" variant="outline" className="h-7" onClick={() => setPreferencesWindowId(w.id)}>
+                    {mine.length ? 'Change Preferences' : 'Submit Preferences'}
+                  </Button>
+                )}
+                {!isAcceptingPreferences && canManage && (
+                  <Button size="sm" className="h-7" disabled={!!closingWindowId} onClick={() => handleClose(w.id)}>
+                    {closingWindowId === w.id ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <Dices className="mr-1 h-3.5 w-3.5" />}
+                    Run Lottery
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        {recentDraws.map(w => {
+          const myOutcome = windowBookings(w.id).filter(b => b.user_id === currentUserId && b.decision_note).sort((a, b) => (a.preference_rank ?? 0) - (b.preference_rank ?? 0));
+          return (
+            <div key={w.id} className="space-y-2 border-t pt-3">
+              <div>
+                <p className="font-medium">{w.name} <span className="font-normal text-muted-foreground">draw</span></p>
+                <p className="text-xs text-muted-foreground break-all">Seed: {w.seed}</p>
+                <p className="text-xs text-muted-foreground break-all">Seed hash (committed on opening): {w.seed_hash}</p>
+              </div>
+              <ol className="space-y-1 text-xs">
+                {(w.draw ?? []).map(entry => {
+                  const granted = entry.booking_id ? bookings.find(b => b.id === entry.booking_id) : undefined;
+                  return (
+                    <li key={entry.user_id} className="flex items-center justify-between gap-2" title={`${entry.past_nights} nights in the past year, weight ${entry.weight}`}>
+                      <span>{entry.position}. {nameOf(entry.user_id)}</span>
+                      {entry.booking_id
+                        ? <Badge variant="secondary" className="px-1.5 py-0 text-[10px]">{granted ? `${formatDate(granted.start_date)} – ${formatDate(granted.end_date)}` : 'Granted'}</Badge>
+                        : <span className="text-muted-foreground">No stay</span>}
+                    </li>
+                  );
+                })}
+              </ol>
+              {myOutcome.map(b => <p key={b.id} className="text-xs text-muted-foreground">{b.preference_rank}. {b.decision_note}</p>)}
+            </div>
+          );
+        })}
+      </CardContent>
+      <CreateRequestWindowDialog isOpen={isCreateOpen} onOpenChange={setIsCreateOpen} onCreate={createWindow} />
+      <BookingPreferencesDialog
+        isOpen={!!preferencesWindowId}
+        onOpenChange={(open) => { if (!open) setPreferencesWindowId(null); }}
+        requestWindow={preferencesWindow}
+        currentPreferences={myPreferences}
+        onSubmit={handleSubmitPreferences}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+// src/components/calendar/UsageEntitlementCard.tsx
+// v1 - Calendar sidebar: each member's nights used and booked against their yearly entitlement, and the seasons.
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2 } from 'lucide-react';
+import { PropertyMemberWithProfile, UsageSeasonRow } from '@/integrations/supabase/types';
+import { MemberUsage } from '@/lib/usageEntitlement';
+import { UsageSeasonInput } from '@/hooks/useUsageSeasons';
+import { cn, formatDate, getInitials } from '@/lib/utils';
+import { AddUsageSeasonDialog } from './AddUsageSeasonDialog';
+
+interface UsageEntitlementCardProps {
+  year: number;
+  members: PropertyMemberWithProfile[];
+  usage: MemberUsage[];
+  nightsPerYear: number | null | undefined;
+  seasons: UsageSeasonRow[];
+  currentUserId: string | undefined;
+  canManageSeasons: boolean;
+  onAddSeason: (input: UsageSeasonInput) => Promise<boolean>;
+  onDeleteSeason: (seasonId: string) => Promise<boolean>;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+function QuotaBar({ usage }: { usage: MemberUsage }) {
+  const entitlement = usage.entitlement ?? 0;
+  const isOver = usage.remaining !== null && usage.remaining < 0;
+  const scale = Math.max(entitlement, usage.used.weighted + usage.booked.weighted, 1);
+  return (
+    <div className="flex h-2 w-full overflow-hidden rounded-full bg-secondary" title={`${usage.used.weighted} used, ${usage.booked.weighted} booked of ${entitlement}`}>
+      <div className={cn("h-full", isOver ? "bg-red-500" : "bg-primary")} style={{ width: `${(usage.used.weighted / scale) * 100}%` }} />
+      <div className={cn("h-full", isOver ? "bg-red-300" : "bg-primary/40")} style={{ width: `${(usage.booked.weighted / scale) * 100}%` }} />
+    </div>
+  );
+}
+
+export function UsageEntitlementCard({ year, members, usage, nightsPerYear, seasons, currentUserId, canManageSeasons, onAddSeason, onDeleteSeason }: UsageEntitlementCardProps) {
+  const [isSeasonDialogOpen, setIsSeasonDialogOpen] = useState(false);
+  const usageByUser = new Map(usage.map(u => [u.user_id, u]));
+  const currentUsage = currentUserId ? usageByUser.get(currentUserId) : undefined;
+  const yearSeasons = seasons.filter(s => s.start_date <= `${year}-12-31` && s.end_date >= `${year}-01-01`);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Usage {year}</CardTitle>
+        <CardDescription>
+          {nightsPerYear
+            ? `Owners share ${plural(nightsPerYear, 'night')} a year by ownership. Peak and holiday nights count at their season's weight.`
+            : 'Nights stayed this year. Set nights per year in the property settings to track entitlements.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {members.length > 0 ? (
+          <ul className="space-y-4">
+            {members.map(member => {
+              const memberUsage = usageByUser.get(member.user_id);
+              if (!member.profile || !memberUsage) return null;
+              const nights = memberUsage.used.nights + memberUsage.booked.nights;
+              const heldNights = Math.round((memberUsage.used.weighted + memberUsage.booked.weighted) * 100) / 100;
+              const seasonal = [memberUsage.used, memberUsage.booked].reduce((sum, t) => ({ peak: sum.peak + t.byKind.peak, holiday: sum.holiday + t.byKind.holiday }), { peak: 0, holiday: 0 });
+              return (
+                <li key={member.user_id} className="space-y-1.5 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Avatar className="h-7 w-7">
+                        <AvatarImage src={member.profile.avatar_url ?? undefined} />
+                        <AvatarFallback className="text-xs">{getInitials(`${member.profile.first_name} ${member.profile.last_name}`)}</AvatarFallback>
+                      </Avatar>
+                      <span className="truncate" title={`${member.profile.first_name} ${member.profile.last_name}`}>{member.profile.first_name}</span>
+                    </div>
+                    <span className="font-medium whitespace-nowrap">
+                      {memberUsage.entitlement !== null ? `${heldNights} / ${memberUsage.entitlement}` : plural(nights, 'night')}
+                    </span>
+                  </div>
+                  {memberUsage.entitlement !== null && (
+                    <>
+                      <QuotaBar usage={memberUsage} />
+                      <p className={cn("text-xs", memberUsage.remaining! < 0 ? "text-red-600" : "text-muted-foreground")}>
+                        {memberUsage.used.weighted} used · {memberUsage.booked.weighted} booked · {memberUsage.remaining! < 0 ? `${-memberUsage.remaining!} over` : `${memberUsage.remaining} left`}
+                      </p>
+                    </>
+                  )}
+                  {(seasonal.peak > 0 || seasonal.holiday > 0) && (
+                    <p className="text-xs text-muted-foreground">
+                      {[seasonal.peak > 0 && plural(seasonal.peak, 'peak night'), seasonal.holiday > 0 && plural(seasonal.holiday, 'holiday night')].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        ) : (<p className="text-sm text-muted-foreground">No members found for this property.</p>)}
+
+        <div className="space-y-2 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Seasons</p>
+            {canManageSeasons && (
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setIsSeasonDialogOpen(true)}>
+                <Plus className="mr-1 h-3.5 w-3.5" /> Add
+              </Button>
+            )}
+          </div>
+          {yearSeasons.length > 0 ? (
+            <ul className="space-y-2">
+              {yearSeasons.map(season => {
+                const share = currentUsage?.seasons.find(s => s.season.id === season.id);
+                return (
+                  <li key={season.id} className="flex items-start justify-between gap-2 text-xs">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-1.5">
+                        <span className="font-medium text-sm truncate">{season.name}</span>
+                        <Badge variant={season.kind === 'holiday' ? 'default' : 'secondary'} className="capitalize px-1.5 py-0 text-[10px]">{season.kind} ×{Number(season.weight)}</Badge>
+                      </div>
+                      <p className="text-muted-foreground">{formatDate(season.start_date)} – {formatDate(season.end_date)}</p>
+                      {share && share.entitlement !== null && (
+                        <p className="text-muted-foreground">Your share: {share.used + share.booked} of {share.entitlement} nights</p>
+                      )}
+                    </div>
+                    {canManageSeasons && (
+                      <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" title="Delete season" onClick={() => onDeleteSeason(season.id)}>
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (<p className="text-xs text-muted-foreground">No peak or holiday seasons in {year}; every night counts once.</p>)}
+        </div>
+      </CardContent>
+      <AddUsageSeasonDialog isOpen={isSeasonDialogOpen} onOpenChange={setIsSeasonDialogOpen} onSave={onAddSeason} />
+    </Card>
+  );
+}
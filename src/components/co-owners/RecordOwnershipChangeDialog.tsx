@@ -0,0 +1,232 @@
+// src/components/co-owners/RecordOwnershipChangeDialog.tsx
+// v1 - Record a stake change in the ownership ledger (transfer, buy-out, new stake or retirement).
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format, parseISO, isValid as isValidDate } from 'date-fns';
+import { useCoOwner } from '@/contexts/CoOwnerContext';
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogTrigger,
+    DialogClose,
+} from '@/components/ui/dialog';
+import {
+    Form,
+    FormControl,
+    FormDescription,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2, ArrowRightLeft } from 'lucide-react';
+import { OwnershipChangeReason } from '@/integrations/supabase/types';
+
+// Select items cannot have an empty value, so "nobody" is its own sentinel
+const NO_MEMBER = 'none';
+
+const ownershipChangeSchema = z.object({
+  from_user_id: z.string(),
+  to_user_id: z.string(),
+  percentage: z.coerce.number({ invalid_type_error: "Percentage must be a number." })
+    .positive("Percentage must be greater than 0.")
+    .max(100, "Percentage cannot exceed 100."),
+  effective_date: z.string().refine(val => isValidDate(parseISO(val)), "Please enter a valid date."),
+  reason: z.nativeEnum(OwnershipChangeReason, { required_error: "Please select a reason." }),
+  note: z.string().max(500, "Note must not exceed 500 characters.").optional(),
+})
+.refine(data => data.from_user_id !== NO_MEMBER || data.to_user_id !== NO_MEMBER, { message: "Choose who gives up and/or who receives the stake.", path: ["to_user_id"] })
+.refine(data => data.from_user_id === NO_MEMBER || data.from_user_id !== data.to_user_id, { message: "The two parties must be different members.", path: ["to_user_id"] });
+
+type OwnershipChangeFormData = z.infer<typeof ownershipChangeSchema>;
+
+const formatReason = (reason: string): string => reason.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+interface RecordOwnershipChangeDialogProps {
+  trigger: React.ReactNode; // The element that opens the dialog
+}
+
+export function RecordOwnershipChangeDialog({ trigger }: RecordOwnershipChangeDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { members, recordOwnershipChange, isLoadingAction } = useCoOwner();
+
+  const defaultValues: OwnershipChangeFormData = {
+    from_user_id: NO_MEMBER,
+    to_user_id: NO_MEMBER,
+    percentage: 0,
+    effective_date: format(new Date(), 'yyyy-MM-dd'),
+    reason: OwnershipChangeReason.Purchase,
+    note: '',
+  };
+
+  const form = useForm<OwnershipChangeFormData>({
+    resolver: zodResolver(ownershipChangeSchema),
+    defaultValues,
+  });
+
+  const memberName = (member: typeof members[number]): string =>
+    [member.profile?.first_name, member.profile?.last_name].filter(Boolean).join(' ') || member.profile?.email || 'Unnamed User';
+
+  const onSubmit = async (data: OwnershipChangeFormData) => {
+    const saved = await recordOwnershipChange({
+      fromUserId: data.from_user_id === NO_MEMBER ? null : data.from_user_id,
+      toUserId: data.to_user_id === NO_MEMBER ? null : data.to_user_id,
+      percentage: data.percentage,
+      effectiveDate: parseISO(data.effective_date),
+      reason: data.reason,
+      note: data.note?.trim() || null,
+    });
+    // CoOwnerContext handles toasts; keep the dialog open on failure so the input isn't lost
+    if (saved) {
+      setIsOpen(false);
+      form.reset(defaultValues);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) form.reset(defaultValues);
+  };
+
+  const renderMemberSelect = (name: 'from_user_id' | 'to_user_id', label: string, noneLabel: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a member" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value={NO_MEMBER}>{noneLabel}</SelectItem>
+              {members.map(member => (
+                <SelectItem key={member.user_id} value={member.user_id}>{memberName(member)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Record Ownership Change</DialogTitle>
+          <DialogDescription>
+            Move a stake between members, e.g. when one co-owner buys another out. Expenses split by ownership use the stakes in effect on their date.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2 pb-4">
+            <div className="grid grid-cols-2 gap-4">
+              {renderMemberSelect('from_user_id', 'From (gives up)', 'Nobody (new stake)')}
+              {renderMemberSelect('to_user_id', 'To (receives)', 'Nobody (stake retired)')}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="percentage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Percentage Points</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" max="100" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="effective_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Effective Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a reason" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.values(OwnershipChangeReason).map(reason => (
+                        <SelectItem key={reason} value={reason}>{formatReason(reason)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="e.g. Purchase price, agreement reference" {...field} />
+                  </FormControl>
+                  <FormDescription>Stakes cannot drop below 0% or exceed 100% on any date.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={isLoadingAction}>
+                {isLoadingAction ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <ArrowRightLeft className="mr-2 h-4 w-4" />
+                )}
+                Record Change
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 // src/components/expenses/AddExpenseDialog.tsx
-// v5 - FIX: Calculate and provide amount/status for Equal splits to prevent P0001 DB error.
+// v12 - Ownership percentages are pre-filled on switching to Ownership and no longer overwritten once adjusted.
 
 import React, { useEffect, useRef, useMemo, useState } from 'react';
 import { useForm, Controller, useWatch } from 'react-hook-form';
@@ -13,25 +13,36 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Loader2, Percent, AlertCircle, Paperclip, XCircle } from 'lucide-react';
+import { Loader2, Percent, AlertCircle, Paperclip, XCircle, ScanText } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useProperty } from '@/contexts/PropertyContext';
+import { useCoOwner } from '@/contexts/CoOwnerContext';
 import { useExpenses, ExpenseFormValues } from '@/contexts/ExpenseContext'; // Context type is updated
 import {
     ExpenseCategory, SplitMethod, Profile, SplitMethodType,
     ExpenseCategoryType, PropertyMemberWithProfile,
-    SplitStatus // Import SplitStatus enum
+    SplitStatus, // Import SplitStatus enum
+    ExchangeRateSource
 } from '@/integrations/supabase/types';
 import { cn, getInitials, formatCurrency, formatCategoryName } from '@/lib/utils';
+import { allocateByWeights, summarizeOwnershipStakes } from '@/lib/splits';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from '@/hooks/use-toast';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { DEFAULT_BASE_CURRENCY, findExchangeRate } from '@/lib/currency';
+import ExpenseCurrencyFields from './ExpenseCurrencyFields';
+import { useVendorCategories } from '@/hooks/useVendorCategories';
+import { extractReceiptText, ReceiptScanProgress } from '@/lib/receiptOcr';
+import { parseReceiptText } from '@/lib/receiptParsing';
 
 
 const MAX_FILE_SIZE_MB = 5;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
 const ACCEPTED_MIME_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp", "application/pdf"];
 const ACCEPTED_FILE_EXTENSIONS = ".jpg, .jpeg, .png, .webp, .pdf";
+// Marks fields pre-filled from a scanned receipt until the user changes them
+const RECEIPT_FILL_HIGHLIGHT = "border-amber-400 bg-amber-50 dark:bg-amber-950/40";
 
 // Schema remains the same - validation happens before DB function check
 const expenseFormSchema = z.object({
@@ -41,6 +52,11 @@ const expenseFormSchema = z.object({
              .multipleOf(0.01, { message: "Amount must have at most two decimal places." })
              .nullable()
              .refine(val => val !== null, { message: "Amount is required." }),
+    currency: z.string().regex(/^[A-Z]{3}$/, { message: "Please select a currency." }),
+    exchange_rate: z.coerce.number({ invalid_type_error: 'Exchange rate must be a number' })
+             .positive({ message: "Exchange rate must be greater than 0." })
+             .nullable()
+             .refine(val => val !== null, { message: "Exchange rate is required." }),
     date: z.date({ required_error: "Date is required.", invalid_type_error: "Invalid date." }),
     category: z.nativeEnum(ExpenseCategory, { required_error: "Please select a category." }),
     paid_by_user_id: z.string().uuid({ message: "Please select who paid." }),
@@ -48,13 +64,14 @@ const expenseFormSchema = z.object({
     notes: z.string().max(500, { message: "Notes must not exceed 500 characters." }).optional().nullable(),
     percentage_splits: z.record(z.string().uuid(), z.coerce.number().nonnegative("Percentage must be non-negative.").nullable()).optional(),
     custom_splits: z.record(z.string().uuid(), z.coerce.number().nonnegative("Amount must be non-negative.").nullable()).optional(),
+    share_splits: z.record(z.string().uuid(), z.coerce.number().int("Shares must be whole numbers.").nonnegative("Shares must be non-negative.").nullable()).optional(),
     receipt_file: z.custom<File | null>( (file) => file === null || file instanceof File, "Invalid file type." )
         .optional().nullable()
         .refine( (file) => !file || file.size <= MAX_FILE_SIZE_BYTES, `Max file size is ${MAX_FILE_SIZE_MB}MB.` )
         .refine( (file) => !file || ACCEPTED_MIME_TYPES.includes(file.type), "Only JPG, PNG, WEBP and PDF files are accepted." ),
 })
 .refine(data => {
-    if (data.split_method === SplitMethod.Percentage) {
+    if (data.split_method === SplitMethod.Percentage || data.split_method === SplitMethod.Ownership) {
         if (!data.percentage_splits) return false;
         const values = Object.values(data.percentage_splits).filter((v): v is number => typeof v === 'number' && v > 0);
         if (values.length === 0) return false;
@@ -72,26 +89,44 @@ const expenseFormSchema = z.object({
         const totalCustomAmount = values.reduce((sum, v) => sum + v, 0);
         return Math.abs(totalCustomAmount - totalAmount) < 0.01;
     } return true;
-}, (data) => ({ message: `Fixed amounts must add up to ${formatCurrency(data.amount)}.`, path: ["custom_splits"] }));
+}, (data) => ({ message: `Fixed amounts must add up to ${formatCurrency(data.amount, data.currency)}.`, path: ["custom_splits"] }))
+.refine(data => {
+    if (data.split_method === SplitMethod.Shares) {
+        return Object.values(data.share_splits ?? {}).some(v => typeof v === 'number' && v > 0);
+    } return true;
+}, { message: "Give at least one member a share.", path: ["share_splits"] });
 
 
 type ExpenseFormData = z.infer<typeof expenseFormSchema>;
 interface AddExpenseDialogProps { isOpen: boolean; onOpenChange: (isOpen: boolean) => void; }
+type ReceiptScanState = { status: 'scanning'; progress: ReceiptScanProgress | null } | { status: 'done' | 'failed'; message: string };
+// What a scan put into the form (date as yyyy-MM-dd); vendor is kept to remember its category on save
+interface ReceiptFill { vendor: string | null; usedRememberedCategory: boolean; values: { description?: string; amount?: number; date?: string; category?: ExpenseCategoryType }; }
 
 
 const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChange }) => {
     const { user } = useAuth();
     const { selectedProperty, propertyMembers } = useProperty();
+    const { getStakesAsOf } = useCoOwner();
     const { addExpenseWithSplits } = useExpenses();
     const { toast } = useToast();
     const [isSubmitting, setIsSubmitting] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [selectedFileName, setSelectedFileName] = useState<string | null>(null);
     const isInitialRenderOrReset = useRef(true);
-
+    const previousSplitMethod = useRef<SplitMethod | null>(null);
+    const ownershipPrefill = useRef<Record<string, number | null> | null>(null); // Last stakes written into the percentages
+    const baseCurrency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
+    const { rates: exchangeRates } = useExchangeRates(selectedProperty?.id);
+    const { categoryForVendor, rememberVendorCategory } = useVendorCategories(selectedProperty?.id);
+    const [receiptScan, setReceiptScan] = useState<ReceiptScanState | null>(null);
+    const [receiptFill, setReceiptFill] = useState<ReceiptFill | null>(null);
+    const receiptScanId = useRef(0); // Results of a scan started before the file changed (or the dialog reset) are dropped
+
+    // propertyMembers spans all of the user's properties; only the selected property's members (and stakes) apply
     const memberProfiles = useMemo(() =>
-        Array.isArray(propertyMembers) ? propertyMembers as PropertyMemberWithProfile[] : [],
-        [propertyMembers]
+        Array.isArray(propertyMembers) && selectedProperty ? (propertyMembers as PropertyMemberWithProfile[]).filter(m => m.property_id === selectedProperty.id) : [],
+        [propertyMembers, selectedProperty]
     );
 
     const uniqueSortedMemberProfiles = useMemo(() => {
@@ -109,19 +144,36 @@ const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChang
         });
     }, [memberProfiles]);
 
-    const { register, handleSubmit, control, reset, formState: { errors, isValid }, setValue, trigger, getValues } = useForm<ExpenseFormData>({
+    const { register, handleSubmit, control, reset, formState: { errors, isValid }, setValue, trigger, getValues, getFieldState } = useForm<ExpenseFormData>({
         resolver: zodResolver(expenseFormSchema),
         defaultValues: {
-            description: "", amount: null, date: new Date(), category: undefined,
+            description: "", amount: null, currency: baseCurrency, exchange_rate: 1, date: new Date(), category: undefined,
             paid_by_user_id: user?.id || undefined,
             split_method: SplitMethod.Equal,
-            notes: "", percentage_splits: {}, custom_splits: {}, receipt_file: null,
+            notes: "", percentage_splits: {}, custom_splits: {}, share_splits: {}, receipt_file: null,
         },
         mode: 'onChange',
     });
 
     const selectedSplitMethod = useWatch({ control, name: 'split_method' });
     const totalAmount = useWatch({ control, name: 'amount' });
+    const watchedShareSplits = useWatch({ control, name: 'share_splits' });
+    const watchedCurrency = useWatch({ control, name: 'currency' });
+    const watchedExchangeRate = useWatch({ control, name: 'exchange_rate' });
+    const watchedDescription = useWatch({ control, name: 'description' });
+    const watchedCategory = useWatch({ control, name: 'category' });
+
+    // Live preview of what each member pays under the Shares method
+    const sharePreview = useMemo(() => {
+        const weights = uniqueSortedMemberProfiles.map(m => ({ user_id: m.user_id, weight: Number(watchedShareSplits?.[m.user_id]) || 0 }));
+        const amount = Number(totalAmount) || 0;
+        if (amount <= 0 || !weights.some(w => w.weight > 0)) return {} as Record<string, number>;
+        return Object.fromEntries(allocateByWeights(amount, weights).map(a => [a.user_id, a.amount])) as Record<string, number>;
+    }, [uniqueSortedMemberProfiles, watchedShareSplits, totalAmount]);
+
+    const watchedDate = useWatch({ control, name: 'date' });
+    // Stakes in effect on the expense date, replayed from the ownership ledger
+    const ownershipSummary = useMemo(() => summarizeOwnershipStakes(getStakesAsOf(watchedDate instanceof Date && isValidDate(watchedDate) ? watchedDate : new Date())), [getStakesAsOf, watchedDate]);
 
     useEffect(() => {
         if (isOpen) {
@@ -131,25 +183,28 @@ const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChang
                if(member.user_id) initialSplits[member.user_id] = null;
             });
             reset({
-                description: "", amount: null, date: new Date(), category: undefined,
+                description: "", amount: null, currency: baseCurrency, exchange_rate: 1, date: new Date(), category: undefined,
                 paid_by_user_id: user?.id || undefined,
                 split_method: SplitMethod.Equal,
-                notes: "", percentage_splits: initialSplits, custom_splits: initialSplits, receipt_file: null,
+                notes: "", percentage_splits: initialSplits, custom_splits: initialSplits, share_splits: initialSplits, receipt_file: null,
             }, { keepDefaultValues: false });
             setSelectedFileName(null);
             if (fileInputRef.current) { fileInputRef.current.value = ""; }
-            isInitialRenderOrReset.current = true;
+            receiptScanId.current += 1; setReceiptScan(null); setReceiptFill(null);
+            isInitialRenderOrReset.current = true; previousSplitMethod.current = SplitMethod.Equal; ownershipPrefill.current = null;
             setIsSubmitting(false);
         }
-    }, [isOpen, user?.id, uniqueSortedMemberProfiles, reset]);
+    }, [isOpen, user?.id, uniqueSortedMemberProfiles, reset, baseCurrency]);
 
     const stableMemberIds = useMemo(() => {
         return uniqueSortedMemberProfiles.map(m => m.user_id).filter(id => !!id).sort().join(',');
     }, [uniqueSortedMemberProfiles]);
 
      useEffect(() => {
-        if (isInitialRenderOrReset.current) { isInitialRenderOrReset.current = false; return; }
+        if (isInitialRenderOrReset.current) { isInitialRenderOrReset.current = false; previousSplitMethod.current = selectedSplitMethod; return; }
         if (uniqueSortedMemberProfiles.length === 0) return;
+        const switchedMethod = previousSplitMethod.current !== selectedSplitMethod;
+        previousSplitMethod.current = selectedSplitMethod;
         console.log(`Add Dialog: Split method changed to ${selectedSplitMethod}. Updating related fields.`);
         const initialSplits: Record<string, null> = {};
         uniqueSortedMemberProfiles.forEach(member => { if(member.user_id) initialSplits[member.user_id] = null; });
@@ -157,6 +212,9 @@ const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChang
         const currentCustSplits = getValues('custom_splits');
         const hasPercValues = currentPercSplits && Object.values(currentPercSplits).some(v => v !== null);
         const hasCustValues = currentCustSplits && Object.values(currentCustSplits).some(v => v !== null);
+        const currentShareSplits = getValues('share_splits');
+        const hasShareValues = currentShareSplits && Object.values(currentShareSplits).some(v => v !== null);
+        if (selectedSplitMethod !== SplitMethod.Shares && hasShareValues) { setValue('share_splits', initialSplits, { shouldValidate: false, shouldDirty: true }); }
 
         if (selectedSplitMethod === SplitMethod.Percentage) {
             if (hasCustValues) { setValue('custom_splits', initialSplits, { shouldValidate: false, shouldDirty: true }); }
@@ -164,12 +222,29 @@ const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChang
         } else if (selectedSplitMethod === SplitMethod.Fixed) {
             if (hasPercValues) { setValue('percentage_splits', initialSplits, { shouldValidate: false, shouldDirty: true }); }
              trigger("custom_splits");
+        } else if (selectedSplitMethod === SplitMethod.Shares) {
+            if (hasPercValues) { setValue('percentage_splits', initialSplits, { shouldValidate: false, shouldDirty: true }); }
+            if (hasCustValues) { setValue('custom_splits', initialSplits, { shouldValidate: false, shouldDirty: true }); }
+            trigger("share_splits");
+        } else if (selectedSplitMethod === SplitMethod.Ownership) {
+            // Pre-fill from the stakes on the expense date when switching to Ownership; a date or ledger change
+            // refreshes them only while they are untouched, so adjusted percentages are kept
+            const prefill = ownershipPrefill.current;
+            const untouched = prefill !== null && Object.keys(initialSplits).every(id => String(currentPercSplits?.[id] ?? '') === String(prefill[id] ?? ''));
+            if (switchedMethod || untouched) {
+                const stakeSplits: Record<string, number | null> = { ...initialSplits };
+                ownershipSummary.stakes.forEach(stake => { if (stake.user_id in stakeSplits) stakeSplits[stake.user_id] = stake.weight; });
+                setValue('percentage_splits', stakeSplits, { shouldValidate: false, shouldDirty: true });
+                ownershipPrefill.current = stakeSplits;
+            }
+            if (hasCustValues) { setValue('custom_splits', initialSplits, { shouldValidate: false, shouldDirty: true }); }
+            trigger("percentage_splits");
         } else {
             // For Equal or Payer Only, clear both custom fields if they had values
             if (hasPercValues) { setValue('percentage_splits', initialSplits, { shouldValidate: false, shouldDirty: true }); }
             if (hasCustValues) { setValue('custom_splits', initialSplits, { shouldValidate: false, shouldDirty: true }); }
         }
-    }, [selectedSplitMethod, stableMemberIds, setValue, trigger, getValues, uniqueSortedMemberProfiles]);
+    }, [selectedSplitMethod, stableMemberIds, setValue, trigger, getValues, uniqueSortedMemberProfiles, ownershipSummary]);
 
 
     // *** onSubmit Handler - Modified to calculate Equal splits ***
@@ -184,7 +259,7 @@ const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChang
         if (currentAmount <= 0 && data.split_method !== SplitMethod.PayerOnly) { // Allow 0 amount only for PayerOnly? Decide based on requirements. For now, disallow 0 for splits.
              toast({ title: "Validation Error", description: "Amount must be positive for splitting.", variant: "destructive" }); return;
         }
-        if (uniqueSortedMemberProfiles.length === 0 && [SplitMethod.Equal, SplitMethod.Percentage, SplitMethod.Fixed].includes(data.split_method)) {
+        if (uniqueSortedMemberProfiles.length === 0 && [SplitMethod.Equal, SplitMethod.Percentage, SplitMethod.Fixed, SplitMethod.Shares, SplitMethod.Ownership].includes(data.split_method)) {
             toast({ title: "Error", description: `Cannot split by ${data.split_method} with no members.`, variant: "destructive" }); return;
         }
         setIsSubmitting(true);
@@ -199,24 +274,38 @@ const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChang
             split_method: data.split_method as SplitMethodType,
             notes: data.notes || null,
             receipt_url: null, // Receipt URL handled separately if needed later
-            splits: [] // Initialize empty splits array
+            splits: [], // Initialize empty splits array
+            // Splits below are in the expense currency; the context converts amount and splits to the base currency
+            currency: data.currency,
+            exchange_rate: data.exchange_rate,
+            exchange_rate_source: Number(findExchangeRate(exchangeRates, data.currency, baseCurrency, format(data.date, 'yyyy-MM-dd'))?.rate) === Number(data.exchange_rate) ? ExchangeRateSource.Table : ExchangeRateSource.Manual,
         };
 
         // --- Populate contextPayload.splits based on method ---
 
         try { // Wrap split calculation in try/catch for safety
             if (data.split_method === SplitMethod.Percentage && data.percentage_splits) {
-                contextPayload.splits = uniqueSortedMemberProfiles
+                // Percentages are weights, allocated to the cent so the parts sum exactly to the amount
+                const weightedMembers = uniqueSortedMemberProfiles
                     .filter(member => data.percentage_splits![member.user_id] != null && data.percentage_splits![member.user_id]! > 0)
-                    .map(member => {
-                        const userId = member.user_id;
-                        const percentage = data.percentage_splits![userId]!;
-                        // Calculate amount based on percentage
-                        const amount = (currentAmount * percentage) / 100;
-                        // Determine status
-                        const status = userId === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed;
-                        return { user_id: userId, amount: amount, percentage: percentage, status: status }; // Include amount, percentage, status
-                    });
+                    .map(member => ({ user_id: member.user_id, weight: data.percentage_splits![member.user_id]! }));
+                contextPayload.splits = allocateByWeights(currentAmount, weightedMembers).map((allocation, index) => ({
+                    user_id: allocation.user_id,
+                    amount: allocation.amount,
+                    percentage: weightedMembers[index].weight,
+                    status: allocation.user_id === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed
+                }));
+            } else if (data.split_method === SplitMethod.Ownership && data.percentage_splits) {
+                // Ownership percentages (as pre-filled or adjusted) are weights, allocated to the cent like generate-expenses does
+                const weightedMembers = uniqueSortedMemberProfiles
+                    .filter(member => (data.percentage_splits![member.user_id] ?? 0) > 0)
+                    .map(member => ({ user_id: member.user_id, weight: data.percentage_splits![member.user_id]! }));
+                contextPayload.splits = allocateByWeights(currentAmount, weightedMembers).map((allocation, index) => ({
+                    user_id: allocation.user_id,
+                    amount: allocation.amount,
+                    percentage: weightedMembers[index].weight,
+                    status: allocation.user_id === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed
+                }));
             } else if (data.split_method === SplitMethod.Fixed && data.custom_splits) {
                 contextPayload.splits = uniqueSortedMemberProfiles
                     .filter(member => data.custom_splits![member.user_id] != null && data.custom_splits![member.user_id]! > 0)
@@ -227,29 +316,27 @@ const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChang
                         const status = userId === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed;
                         return { user_id: userId, amount: amount, status: status }; // Include amount, status
                     });
+            } else if (data.split_method === SplitMethod.Shares && data.share_splits) {
+                // Integer shares per member; allocateByWeights hands out leftover cents deterministically
+                const weightedMembers = uniqueSortedMemberProfiles
+                    .filter(member => (data.share_splits![member.user_id] ?? 0) > 0)
+                    .map(member => ({ user_id: member.user_id, weight: data.share_splits![member.user_id]! }));
+                contextPayload.splits = allocateByWeights(currentAmount, weightedMembers).map((allocation, index) => ({
+                    user_id: allocation.user_id,
+                    amount: allocation.amount,
+                    shares: weightedMembers[index].weight,
+                    status: allocation.user_id === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed
+                }));
             } else if (data.split_method === SplitMethod.Equal) {
                 const numberOfMembers = uniqueSortedMemberProfiles.length;
                 if (numberOfMembers === 0) { throw new Error("Cannot perform equal split with zero members."); }
 
-                // Calculate equal amount, handle potential division by zero and rounding
-                const rawEqualAmount = currentAmount / numberOfMembers;
-                // Round to 2 decimal places to avoid floating point issues
-                const equalAmount = parseFloat(rawEqualAmount.toFixed(2));
-
-                // Check if rounding caused a significant difference (optional sanity check)
-                const totalRoundedAmount = equalAmount * numberOfMembers;
-                 if (Math.abs(totalRoundedAmount - currentAmount) > 0.01 * numberOfMembers) { // Allow small tolerance per member
-                    console.warn(`Rounding difference detected in equal split. Original: ${currentAmount}, Total Rounded: ${totalRoundedAmount}`);
-                    // Potentially adjust the last split amount, but for now, proceed with rounded value.
-                }
-
-                contextPayload.splits = uniqueSortedMemberProfiles.map(member => {
-                    const userId = member.user_id;
-                    // Determine status
-                    const status = userId === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed;
-                    // Return object with user_id, calculated amount, and status
-                    return { user_id: userId, amount: equalAmount, status: status };
-                });
+                // Equal weights; leftover cents go to a few members rather than being lost or added by rounding
+                contextPayload.splits = allocateByWeights(currentAmount, uniqueSortedMemberProfiles.map(member => ({ user_id: member.user_id, weight: 1 }))).map(allocation => ({
+                    user_id: allocation.user_id,
+                    amount: allocation.amount,
+                    status: allocation.user_id === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed
+                }));
             } else if (data.split_method === SplitMethod.PayerOnly) {
                  // Payer Only means only the payer has a split, marked as paid.
                  contextPayload.splits = [{
@@ -286,6 +373,7 @@ const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChang
             const { error: contextError } = await addExpenseWithSplits(contextPayload);
 
             if (!contextError) {
+                if (receiptFill?.vendor) { await rememberVendorCategory(receiptFill.vendor, data.category as ExpenseCategoryType); }
                 toast({ title: "Success", description: `Expense "${data.description}" added.` });
                 onOpenChange(false);
             } else {
@@ -312,7 +400,7 @@ const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChang
          if (file) {
              setValue('receipt_file', file, { shouldValidate: true, shouldDirty: true });
              trigger('receipt_file').then(isValidFile => {
-                 if (isValidFile) { setSelectedFileName(file.name); }
+                 if (isValidFile) { setSelectedFileName(file.name); scanReceipt(file); }
                  else { setSelectedFileName(null); handleClearFile(); }
              });
          } else { handleClearFile(); }
@@ -321,7 +409,42 @@ const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChang
          setValue('receipt_file', null, { shouldValidate: true, shouldDirty: true });
          setSelectedFileName(null);
          if (fileInputRef.current) { fileInputRef.current.value = ""; }
+         receiptScanId.current += 1; setReceiptScan(null); setReceiptFill(null);
      };
+    // Reads the receipt on this device and fills only the fields the user has not filled in yet
+    const scanReceipt = async (file: File) => {
+        const scanId = ++receiptScanId.current;
+        setReceiptFill(null); setReceiptScan({ status: 'scanning', progress: null });
+        try {
+            const text = await extractReceiptText(file, progress => { if (receiptScanId.current === scanId) setReceiptScan({ status: 'scanning', progress }); });
+            if (receiptScanId.current !== scanId) return;
+            const suggestion = parseReceiptText(text);
+            const rememberedCategory = categoryForVendor(suggestion.vendor);
+            const values: ReceiptFill['values'] = {};
+            if (suggestion.vendor && !getValues('description')) values.description = suggestion.vendor;
+            if (suggestion.total && getValues('amount') == null) values.amount = suggestion.total;
+            if (suggestion.date && !getFieldState('date').isDirty) values.date = suggestion.date;
+            if ((rememberedCategory ?? suggestion.category) && !getValues('category')) values.category = rememberedCategory ?? suggestion.category!;
+            const options = { shouldValidate: true, shouldDirty: true };
+            if (values.description) setValue('description', values.description, options);
+            if (values.amount) setValue('amount', values.amount, options);
+            if (values.date) setValue('date', parseISO(values.date), options);
+            if (values.category) setValue('category', values.category as ExpenseCategory, options);
+            setReceiptFill({ vendor: suggestion.vendor, usedRememberedCategory: !!values.category && values.category === rememberedCategory, values });
+            const filledCount = Object.keys(values).length;
+            setReceiptScan({ status: 'done', message: filledCount ? 'Filled from the receipt. Check the highlighted fields before saving.' : 'Nothing new was found on the receipt. Enter the details below.' });
+        } catch (err) {
+            if (receiptScanId.current !== scanId) return;
+            console.error("Error reading receipt:", err);
+            setReceiptScan({ status: 'failed', message: 'This receipt could not be read. Enter the details by hand.' });
+        }
+    };
+    const isFromReceipt = (field: keyof ReceiptFill['values']): boolean => {
+        const filled = receiptFill?.values[field];
+        if (filled === undefined) return false;
+        if (field === 'date') return watchedDate instanceof Date && isValidDate(watchedDate) && format(watchedDate, 'yyyy-MM-dd') === filled;
+        return ({ description: watchedDescription, amount: totalAmount, category: watchedCategory } as Record<string, unknown>)[field] === filled;
+    };
     const getInputClassName = (hasError: boolean): string => cn("flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50", hasError && "border-destructive focus-visible:ring-destructive");
     const getSelectClassName = (hasError: boolean): string => cn("flex h-10 w-full items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 [&>span]:line-clamp-1", hasError && "border-destructive focus-visible:ring-destructive");
     const getTextareaClassName = (hasError: boolean): string => cn("flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 resize-none", hasError && "border-destructive focus-visible:ring-destructive");
@@ -334,13 +457,15 @@ const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChang
                  <DialogHeader> <DialogTitle>Add New Expense</DialogTitle> <DialogDescription> Enter expense details for {selectedProperty?.name || 'your property'}. </DialogDescription> </DialogHeader>
                  <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-4 py-4">
                      {/* Description */}
-                     <div className="space-y-2"> <Label htmlFor="description" className={cn(errors.description && "text-destructive")}>Description *</Label> <Input id="description" placeholder="e.g., Monthly HOA Fee" {...register("description")} className={getInputClassName(!!errors.description)} aria-invalid={!!errors.description} /> {errors.description && <p className="text-sm font-medium text-destructive">{errors.description.message}</p>} </div>
+                     <div className="space-y-2"> <Label htmlFor="description" className={cn(errors.description && "text-destructive")}>Description *</Label> <Input id="description" placeholder="e.g., Monthly HOA Fee" {...register("description")} className={cn(getInputClassName(!!errors.description), isFromReceipt('description') && RECEIPT_FILL_HIGHLIGHT)} aria-invalid={!!errors.description} /> {errors.description && <p className="text-sm font-medium text-destructive">{errors.description.message}</p>} </div>
                      {/* Amount */}
-                     <div className="space-y-2"> <Label htmlFor="amount" className={cn(errors.amount && "text-destructive")}>Amount *</Label> <Controller name="amount" control={control} render={({ field: { onChange, ...rest } }) => ( <Input id="amount" type="number" step="0.01" placeholder="0.00" onChange={(e) => onChange(e.target.value === '' ? null : parseFloat(e.target.value))} {...rest} value={rest.value ?? ''} className={getInputClassName(!!errors.amount)} aria-invalid={!!errors.amount} /> )} /> {errors.amount && <p className="text-sm font-medium text-destructive">{errors.amount.message}</p>} </div>
+                     <div className="space-y-2"> <Label htmlFor="amount" className={cn(errors.amount && "text-destructive")}>Amount *</Label> <Controller name="amount" control={control} render={({ field: { onChange, ...rest } }) => ( <Input id="amount" type="number" step="0.01" placeholder="0.00" onChange={(e) => onChange(e.target.value === '' ? null : parseFloat(e.target.value))} {...rest} value={rest.value ?? ''} className={cn(getInputClassName(!!errors.amount), isFromReceipt('amount') && RECEIPT_FILL_HIGHLIGHT)} aria-invalid={!!errors.amount} /> )} /> {errors.amount && <p className="text-sm font-medium text-destructive">{errors.amount.message}</p>} </div>
                      {/* Date */}
-                     <div className="space-y-2"> <Label htmlFor="date" className={cn(errors.date && "text-destructive")}>Date *</Label> <Controller name="date" control={control} render={({ field }) => ( <input id="date" type="date" onChange={(e) => field.onChange(e.target.valueAsDate)} onBlur={field.onBlur} value={field.value instanceof Date && isValidDate(field.value) ? format(field.value, 'yyyy-MM-dd') : ''} ref={field.ref} name={field.name} className={getInputClassName(!!errors.date)} aria-invalid={!!errors.date} /> )} /> {errors.date && <p className="text-sm font-medium text-destructive">{typeof errors.date.message === 'string' ? errors.date.message : 'Invalid Date'}</p>} </div>
+                     <div className="space-y-2"> <Label htmlFor="date" className={cn(errors.date && "text-destructive")}>Date *</Label> <Controller name="date" control={control} render={({ field }) => ( <input id="date" type="date" onChange={(e) => field.onChange(e.target.valueAsDate)} onBlur={field.onBlur} value={field.value instanceof Date && isValidDate(field.value) ? format(field.value, 'yyyy-MM-dd') : ''} ref={field.ref} name={field.name} className={cn(getInputClassName(!!errors.date), isFromReceipt('date') && RECEIPT_FILL_HIGHLIGHT)} aria-invalid={!!errors.date} /> )} /> {errors.date && <p className="text-sm font-medium text-destructive">{typeof errors.date.message === 'string' ? errors.date.message : 'Invalid Date'}</p>} </div>
+                     {/* Currency */}
+                     <ExpenseCurrencyFields idPrefix="add" baseCurrency={baseCurrency} currency={watchedCurrency || baseCurrency} exchangeRate={watchedExchangeRate} amount={totalAmount} date={watchedDate} rates={exchangeRates} onCurrencyChange={(value) => setValue('currency', value, { shouldValidate: true, shouldDirty: true })} onExchangeRateChange={(value) => setValue('exchange_rate', value, { shouldValidate: true, shouldDirty: true })} error={errors.exchange_rate?.message} />
                      {/* Category */}
-                     <div className="space-y-2"> <Label htmlFor="category" className={cn(errors.category && "text-destructive")}>Category *</Label> <select id="category" {...register("category")} className={getSelectClassName(!!errors.category)} defaultValue="" aria-invalid={!!errors.category}> <option value="" disabled>Select a category</option> {Object.values(ExpenseCategory).map((cat) => ( <option key={String(cat)} value={String(cat)}>{formatCategoryName(cat)}</option> ))} </select> {errors.category && <p className="text-sm font-medium text-destructive">{errors.category.message}</p>} </div>
+                     <div className="space-y-2"> <Label htmlFor="category" className={cn(errors.category && "text-destructive")}>Category *</Label> <select id="category" {...register("category")} className={cn(getSelectClassName(!!errors.category), isFromReceipt('category') && RECEIPT_FILL_HIGHLIGHT)} defaultValue="" aria-invalid={!!errors.category}> <option value="" disabled>Select a category</option> {Object.values(ExpenseCategory).map((cat) => ( <option key={String(cat)} value={String(cat)}>{formatCategoryName(cat)}</option> ))} </select> {errors.category && <p className="text-sm font-medium text-destructive">{errors.category.message}</p>} {isFromReceipt('category') && receiptFill?.usedRememberedCategory && <p className="text-xs text-muted-foreground">Chosen because earlier {receiptFill.vendor} expenses used it.</p>} </div>
                      {/* Paid By */}
                      <div className="space-y-2">
                          <Label htmlFor="paid_by_user_id" className={cn(errors.paid_by_user_id && "text-destructive")}>Paid By *</Label>
@@ -358,9 +483,11 @@ const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChang
                      <div className="space-y-2"> <Label className={cn(errors.split_method && "text-destructive")}>Split Method *</Label> <Controller name="split_method" control={control} render={({ field }) => ( <RadioGroup onValueChange={field.onChange} value={field.value} className={cn("flex flex-col space-y-1", errors.split_method && "rounded-md border border-destructive p-2")}> {Object.values(SplitMethod).map((val) => ( <div key={String(val)} className="flex items-center space-x-3 space-y-0"> <RadioGroupItem value={String(val)} id={`split-${String(val)}-${field.name}`} /> <Label htmlFor={`split-${String(val)}-${field.name}`} className="font-normal capitalize cursor-pointer">{String(val).replace(/_/g, ' ')}</Label> </div> ))} </RadioGroup> )} /> {errors.split_method && <p className="text-sm font-medium text-destructive">{errors.split_method.message}</p>} </div>
 
                      {/* Conditional Splits */}
-                      {selectedSplitMethod === SplitMethod.Percentage && (
+                      {(selectedSplitMethod === SplitMethod.Percentage || selectedSplitMethod === SplitMethod.Ownership) && (
                          <div className="space-y-3 rounded-md border border-border p-4">
-                             <Label className="font-medium">Split by Percentage</Label>
+                             <Label className="font-medium">{selectedSplitMethod === SplitMethod.Ownership ? 'Split by Ownership' : 'Split by Percentage'}</Label>
+                             {selectedSplitMethod === SplitMethod.Ownership && <p className="text-xs text-muted-foreground">Pre-filled from each co-owner's ownership stake on the expense date. Adjust below if this expense should be shared differently.</p>}
+                             {selectedSplitMethod === SplitMethod.Ownership && !ownershipSummary.sumsTo100 && ( <Alert variant="default" className="mt-2 border-yellow-500 text-yellow-700 [&>svg]:text-yellow-700"><AlertCircle className="h-4 w-4" /><AlertDescription className="text-xs">{ownershipSummary.stakes.length === 0 ? 'No ownership stakes were in effect on this date.' : `Ownership stakes on this date add up to ${ownershipSummary.total}%, not 100%.`} Enter percentages below, or update the stakes on the Co-Owners page.</AlertDescription></Alert> )}
                              {errors.percentage_splits && typeof errors.percentage_splits.message === 'string' && ( <Alert variant="destructive" className="mt-2"><AlertCircle className="h-4 w-4" /><AlertDescription className="text-xs">{errors.percentage_splits.message}</AlertDescription></Alert> )}
                              <div className="space-y-2">
                                 {uniqueSortedMemberProfiles.map((member) => (
@@ -392,6 +519,23 @@ const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChang
                              </div>
                          </div>
                      )}
+                    {selectedSplitMethod === SplitMethod.Shares && (
+                        <div className="space-y-3 rounded-md border border-border p-4">
+                            <Label className="font-medium">Split by Shares</Label>
+                            {errors.share_splits && typeof errors.share_splits.message === 'string' && ( <Alert variant="destructive" className="mt-2"><AlertCircle className="h-4 w-4" /><AlertDescription className="text-xs">{errors.share_splits.message}</AlertDescription></Alert> )}
+                            <p className="text-xs text-muted-foreground">Enter a whole number of shares per member (e.g. weeks owned). The amount is divided in proportion, to the cent.</p>
+                            <div className="space-y-2">
+                                {uniqueSortedMemberProfiles.map((member) => (
+                                    <div key={`share-${member.user_id}`} className="flex items-center gap-3">
+                                        <Avatar className="h-6 w-6"><AvatarImage src={member.profile?.avatar_url ?? undefined} /> <AvatarFallback>{getInitials(`${member.profile?.first_name ?? ''} ${member.profile?.last_name ?? ''}`)}</AvatarFallback></Avatar>
+                                        <Label htmlFor={`shares-${member.user_id}`} className="flex-1 text-sm">{member.profile?.first_name ?? ''} {member.profile?.last_name ?? ''} {member.user_id === user?.id ? '(You)' : ''}</Label>
+                                        <span className="w-20 text-right text-xs text-muted-foreground">{sharePreview[member.user_id] != null ? formatCurrency(sharePreview[member.user_id], watchedCurrency) : ''}</span>
+                                        <Controller name={`share_splits.${member.user_id}`} control={control} render={({ field: { onChange, ...rest }, fieldState }) => ( <Input id={`shares-${member.user_id}`} type="number" step="1" min="0" placeholder="0" onChange={(e) => { onChange(e.target.value === '' ? null : parseInt(e.target.value, 10)); trigger("share_splits"); }} {...rest} value={rest.value ?? ''} className={cn(getInputClassName(!!fieldState.error), "w-20")} aria-invalid={!!fieldState.error} /> )} />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                      {/* Notes */}
                      <div className="space-y-2"> <Label htmlFor="notes" className={cn(errors.notes && "text-destructive")}>Notes (Optional)</Label> <Textarea id="notes" placeholder="Add any relevant notes..." {...register("notes")} className={getTextareaClassName(!!errors.notes)} aria-invalid={!!errors.notes} /> {errors.notes && <p className="text-sm font-medium text-destructive">{errors.notes.message}</p>} </div>
                      {/* Receipt Upload */}
@@ -405,6 +549,16 @@ const AddExpenseDialog: React.FC<AddExpenseDialogProps> = ({ isOpen, onOpenChang
                             {selectedFileName && ( <Button type="button" variant="ghost" size="icon" onClick={handleClearFile} className="h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10 flex-shrink-0" aria-label="Remove selected receipt file"> <XCircle className="h-4 w-4" /> </Button> )}
                         </div>
                         {errors.receipt_file && <p id="receipt-error-message" className="text-sm font-medium text-destructive">{errors.receipt_file.message}</p>}
+                        {receiptScan && (
+                            <Alert variant="default" className={cn(receiptScan.status === 'failed' && "border-yellow-500 text-yellow-700 [&>svg]:text-yellow-700")}>
+                                {receiptScan.status === 'scanning' ? <Loader2 className="h-4 w-4 animate-spin" /> : <ScanText className="h-4 w-4" />}
+                                <AlertDescription className="text-xs">
+                                    {receiptScan.status === 'scanning'
+                                        ? `${receiptScan.progress?.stage === 'reading' ? 'Reading receipt' : 'Preparing text recognition'}... ${Math.round((receiptScan.progress?.progress ?? 0) * 100)}%`
+                                        : receiptScan.message}
+                                </AlertDescription>
+                            </Alert>
+                        )}
                      </div>
 
                      {/* Footer */}
@@ -1,7 +1,5 @@
 // src/components/expenses/EditExpenseDialog.tsx
-// v5 - FIX: Restore input styling. Ensure initial validation passes.
-//    - Restored full class lists in cn() helper functions.
-//    - Adjusted useEffect population for required fields (category, paid_by_user_id) for better initial validation state.
+// v11 - Ownership percentages are pre-filled on switching to Ownership and no longer overwritten once adjusted or saved.
 
 import React, { useEffect, useRef, useState, useMemo } from 'react';
 import { useForm, Controller, useWatch } from 'react-hook-form';
@@ -20,6 +18,7 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Loader2, Percent, AlertCircle, Paperclip, XCircle, Trash2 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useProperty } from '@/contexts/PropertyContext';
+import { useCoOwner } from '@/contexts/CoOwnerContext';
 import { useExpenses, ExpenseFormValues } from '@/contexts/ExpenseContext';
 import {
     ExpenseCategory,
@@ -30,10 +29,15 @@ import {
     SplitMethodType,
     ExpenseCategoryType,
     PropertyMemberWithProfile,
-    SplitStatus
+    SplitStatus,
+    ExchangeRateSource
 } from '@/integrations/supabase/types';
 import { cn, getInitials, formatCurrency, formatCategoryName } from '@/lib/utils';
+import { allocateByWeights, summarizeOwnershipStakes } from '@/lib/splits';
 import { useToast } from '@/hooks/use-toast';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { DEFAULT_BASE_CURRENCY, findExchangeRate, isForeignCurrencyExpense } from '@/lib/currency';
+import ExpenseCurrencyFields from './ExpenseCurrencyFields';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 
@@ -50,6 +54,11 @@ const expenseFormSchema = z.object({
              .multipleOf(0.01, { message: "Amount must have at most two decimal places." })
              .nullable()
              .refine(val => val !== null, { message: "Amount is required." }),
+    currency: z.string().regex(/^[A-Z]{3}$/, { message: "Please select a currency." }),
+    exchange_rate: z.coerce.number({ invalid_type_error: 'Exchange rate must be a number' })
+             .positive({ message: "Exchange rate must be greater than 0." })
+             .nullable()
+             .refine(val => val !== null, { message: "Exchange rate is required." }),
     date: z.date({ required_error: "Date is required.", invalid_type_error: "Invalid date.", }),
     category: z.nativeEnum(ExpenseCategory, { required_error: "Please select a category." }),
     paid_by_user_id: z.string().uuid({ message: "Please select who paid." }),
@@ -57,6 +66,7 @@ const expenseFormSchema = z.object({
     notes: z.string().max(500, { message: "Notes must not exceed 500 characters." }).optional().nullable(),
     percentage_splits: z.record(z.string().uuid(), z.coerce.number().nonnegative("Percentage must be non-negative.").nullable()).optional(),
     custom_splits: z.record(z.string().uuid(), z.coerce.number().nonnegative("Amount must be non-negative.").nullable()).optional(),
+    share_splits: z.record(z.string().uuid(), z.coerce.number().int("Shares must be whole numbers.").nonnegative("Shares must be non-negative.").nullable()).optional(),
     receipt_file: z.custom<File | null>( (file) => file === null || file instanceof File, "Invalid file type." )
         .optional().nullable()
         .refine( (file) => !file || file.size <= MAX_FILE_SIZE_BYTES, `Max file size is ${MAX_FILE_SIZE_MB}MB.` )
@@ -65,7 +75,7 @@ const expenseFormSchema = z.object({
     existing_receipt_url: z.string().nullable().optional(),
 })
 .refine(data => { /* Percentage validation */
-    if (data.split_method === SplitMethod.Percentage) {
+    if (data.split_method === SplitMethod.Percentage || data.split_method === SplitMethod.Ownership) {
         if (!data.percentage_splits) return false;
         const values = Object.values(data.percentage_splits).filter((v): v is number => typeof v === 'number' && v > 0);
         if (values.length === 0) return false; // Require at least one positive percentage
@@ -83,7 +93,12 @@ const expenseFormSchema = z.object({
         const totalCustomAmount = values.reduce((sum, v) => sum + v, 0);
         return Math.abs(totalCustomAmount - totalAmount) < 0.01;
     } return true;
-}, (data) => ({ message: `Fixed amounts must add up to ${formatCurrency(data.amount)}.`, path: ["custom_splits"] }));
+}, (data) => ({ message: `Fixed amounts must add up to ${formatCurrency(data.amount, data.currency)}.`, path: ["custom_splits"] }))
+.refine(data => { /* Shares validation */
+    if (data.split_method === SplitMethod.Shares) {
+        return Object.values(data.share_splits ?? {}).some(v => typeof v === 'number' && v > 0);
+    } return true;
+}, { message: "Give at least one member a share.", path: ["share_splits"] });
 
 type ExpenseFormData = z.infer<typeof expenseFormSchema>;
 
@@ -97,21 +112,35 @@ const getFilenameFromPath = (path: string | null | undefined): string | null =>
   if (!path) return null; try { const lastSlashIndex = path.lastIndexOf('/'); if (lastSlashIndex === -1) return path; const filenameWithPotentialPrefix = path.substring(lastSlashIndex + 1); const uuidAndStorageRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}-|^[a-zA-Z0-9-_]+[/]/i; let filename = filenameWithPotentialPrefix.replace(uuidAndStorageRegex, ''); const queryParamIndex = filename.indexOf('?'); if (queryParamIndex !== -1) { filename = filename.substring(0, queryParamIndex); } return decodeURIComponent(filename); } catch (e) { return path; }
 };
 
+// Splits saved before share counts were stored: recover the smallest whole-number ratio from the amounts
+const deriveSharesFromAmounts = (splits: ExpenseSplitWithProfile[]): Record<string, number> => {
+    const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+    const cents = splits.map(split => ({ user_id: split.user_id, cents: Math.round(Number(split.amount || 0) * 100) })).filter(c => c.user_id && c.cents > 0);
+    const divisor = cents.reduce((acc, c) => gcd(acc, c.cents), 0) || 1;
+    return Object.fromEntries(cents.map(c => [c.user_id, c.cents / divisor]));
+};
+
 const EditExpenseDialog: React.FC<EditExpenseDialogProps> = ({ isOpen, onOpenChange, expense }) => {
     const { user } = useAuth();
     const { selectedProperty, propertyMembers } = useProperty();
+    const { getStakesAsOf } = useCoOwner();
     const { updateExpenseWithSplits } = useExpenses();
     const { toast } = useToast();
     const [isSubmitting, setIsSubmitting] = useState(false);
     const isInitialMount = useRef(true);
+    const previousSplitMethod = useRef<SplitMethod | null>(null);
+    const ownershipPrefill = useRef<Record<string, number | null> | null>(null); // Last stakes written into the percentages
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [selectedFileName, setSelectedFileName] = useState<string | null>(null);
     const [currentReceiptDisplay, setCurrentReceiptDisplay] = useState<string | null>(null);
     const [isRemovingReceipt, setIsRemovingReceipt] = useState(false);
+    const baseCurrency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
+    const { rates: exchangeRates } = useExchangeRates(selectedProperty?.id);
 
+    // propertyMembers spans all of the user's properties; only the selected property's members (and stakes) apply
     const memberProfiles = useMemo(() =>
-        Array.isArray(propertyMembers) ? propertyMembers as PropertyMemberWithProfile[] : [],
-        [propertyMembers]
+        Array.isArray(propertyMembers) && selectedProperty ? (propertyMembers as PropertyMemberWithProfile[]).filter(m => m.property_id === selectedProperty.id) : [],
+        [propertyMembers, selectedProperty]
     );
 
     const uniqueSortedMemberProfiles = useMemo(() => {
@@ -133,9 +162,9 @@ const EditExpenseDialog: React.FC<EditExpenseDialogProps> = ({ isOpen, onOpenCha
         resolver: zodResolver(expenseFormSchema),
         mode: 'onChange',
         defaultValues: {
-            description: "", amount: null, date: new Date(), category: undefined, paid_by_user_id: undefined,
+            description: "", amount: null, currency: DEFAULT_BASE_CURRENCY, exchange_rate: 1, date: new Date(), category: undefined, paid_by_user_id: undefined,
             split_method: SplitMethod.Equal,
-            notes: "", percentage_splits: {}, custom_splits: {},
+            notes: "", percentage_splits: {}, custom_splits: {}, share_splits: {},
             receipt_file: null, remove_receipt: false, existing_receipt_url: null,
         }
     });
@@ -143,28 +172,54 @@ const EditExpenseDialog: React.FC<EditExpenseDialogProps> = ({ isOpen, onOpenCha
 
     const selectedSplitMethod = useWatch({ control, name: 'split_method' });
     const totalAmount = useWatch({ control, name: 'amount' });
+    const watchedShareSplits = useWatch({ control, name: 'share_splits' });
+    const watchedCurrency = useWatch({ control, name: 'currency' });
+    const watchedExchangeRate = useWatch({ control, name: 'exchange_rate' });
+
+    // Live preview of what each member pays under the Shares method
+    const sharePreview = useMemo(() => {
+        const weights = uniqueSortedMemberProfiles.map(m => ({ user_id: m.user_id, weight: Number(watchedShareSplits?.[m.user_id]) || 0 }));
+        const amount = Number(totalAmount) || 0;
+        if (amount <= 0 || !weights.some(w => w.weight > 0)) return {} as Record<string, number>;
+        return Object.fromEntries(allocateByWeights(amount, weights).map(a => [a.user_id, a.amount])) as Record<string, number>;
+    }, [uniqueSortedMemberProfiles, watchedShareSplits, totalAmount]);
+
+    const watchedDate = useWatch({ control, name: 'date' });
+    // Stakes in effect on the expense date, replayed from the ownership ledger
+    const ownershipSummary = useMemo(() => summarizeOwnershipStakes(getStakesAsOf(watchedDate instanceof Date && isValidDate(watchedDate) ? watchedDate : new Date())), [getStakesAsOf, watchedDate]);
 
     // Effect to Populate Form
     useEffect(() => {
         if (isOpen && expense && uniqueSortedMemberProfiles) {
             console.log("Populating edit form for expense:", expense.id);
-            isInitialMount.current = true; setIsSubmitting(false); setIsRemovingReceipt(false); setSelectedFileName(null);
+            isInitialMount.current = true; ownershipPrefill.current = null; setIsSubmitting(false); setIsRemovingReceipt(false); setSelectedFileName(null);
 
             let initialDate = new Date();
             if (expense.date) { try { const parsed = parseISO(expense.date); if (isValidDate(parsed)) initialDate = parsed; } catch (e) {} }
 
+            // Foreign-currency expenses are edited as billed; stored (base) split amounts are scaled back to the original amount
+            const isForeign = isForeignCurrencyExpense(expense, baseCurrency) && expense.original_amount != null;
+            const initialAmount = isForeign ? Number(expense.original_amount) : expense.amount ?? null;
+            const billedSplitAmounts: Record<string, number> = isForeign && expense.splits?.some(split => Number(split.amount) > 0)
+                ? Object.fromEntries(allocateByWeights(Number(expense.original_amount), expense.splits.map(split => ({ user_id: split.user_id, weight: Math.max(Number(split.amount) || 0, 0) }))).map(a => [a.user_id, a.amount]))
+                : {};
+
             let initialPercentageSplits: Record<string, number | null> = {};
             let initialCustomSplits: Record<string, number | null> = {};
-            uniqueSortedMemberProfiles.forEach(member => { if(member.user_id){ initialPercentageSplits[member.user_id] = null; initialCustomSplits[member.user_id] = null; } });
+            const initialShareSplits: Record<string, number | null> = {};
+            uniqueSortedMemberProfiles.forEach(member => { if(member.user_id){ initialPercentageSplits[member.user_id] = null; initialCustomSplits[member.user_id] = null; initialShareSplits[member.user_id] = null; } });
 
-            if (expense.split_method === SplitMethod.Percentage && expense.splits) {
+            if ((expense.split_method === SplitMethod.Percentage || expense.split_method === SplitMethod.Ownership) && expense.splits) {
                 expense.splits.forEach(split => { /* ... populating percentage ... */
                     if(split.user_id && initialPercentageSplits.hasOwnProperty(split.user_id)){ const percentageValue = typeof split.percentage === 'string' ? parseFloat(split.percentage) : split.percentage; const percentage = !isNaN(percentageValue ?? NaN) ? percentageValue : 0; initialPercentageSplits[split.user_id] = percentage > 0 ? percentage : null; }
                 });
             } else if (expense.split_method === SplitMethod.Fixed && expense.splits) {
                 expense.splits.forEach(split => { /* ... populating fixed ... */
-                     if(split.user_id && initialCustomSplits.hasOwnProperty(split.user_id)){ const amountValue = typeof split.amount === 'string' ? parseFloat(split.amount) : split.amount; const customAmount = !isNaN(amountValue ?? NaN) ? amountValue : 0; initialCustomSplits[split.user_id] = customAmount > 0 ? customAmount : null; }
+                     if(split.user_id && initialCustomSplits.hasOwnProperty(split.user_id)){ const amountValue = isForeign ? billedSplitAmounts[split.user_id] : typeof split.amount === 'string' ? parseFloat(split.amount) : split.amount; const customAmount = !isNaN(amountValue ?? NaN) ? amountValue : 0; initialCustomSplits[split.user_id] = customAmount > 0 ? customAmount : null; }
                 });
+            } else if (expense.split_method === SplitMethod.Shares && expense.splits) {
+                const storedShares = expense.splits.every(split => Number(split.shares) > 0) ? Object.fromEntries(expense.splits.map(split => [split.user_id, Number(split.shares)])) : deriveSharesFromAmounts(expense.splits);
+                Object.entries(storedShares).forEach(([userId, shares]) => { if (userId in initialShareSplits) initialShareSplits[userId] = shares; });
             }
 
             // *** FIX: Ensure required fields have valid initial values ***
@@ -180,14 +235,16 @@ const EditExpenseDialog: React.FC<EditExpenseDialogProps> = ({ isOpen, onOpenCha
                 : SplitMethod.Equal;
 
             reset({
-                description: expense.description || "", amount: expense.amount ?? null, date: initialDate,
+                description: expense.description || "", amount: initialAmount, date: initialDate,
+                currency: isForeign ? expense.currency! : baseCurrency, exchange_rate: isForeign ? Number(expense.exchange_rate) || null : 1,
                 category: validCategory,
                 paid_by_user_id: initialPaidBy, // Use potentially defaulted value
                 split_method: validSplitMethod,
                 notes: expense.notes || "",
-                percentage_splits: initialPercentageSplits, custom_splits: initialCustomSplits,
+                percentage_splits: initialPercentageSplits, custom_splits: initialCustomSplits, share_splits: initialShareSplits,
                 receipt_file: null, remove_receipt: false, existing_receipt_url: expense.receipt_url,
             }, { keepDirty: false, keepErrors: false, keepValues: false });
+            previousSplitMethod.current = validSplitMethod; // Saved Ownership percentages are kept as they are
 
             setCurrentReceiptDisplay(getFilenameFromPath(expense.receipt_url));
             if (fileInputRef.current) { fileInputRef.current.value = ""; }
@@ -199,7 +256,7 @@ const EditExpenseDialog: React.FC<EditExpenseDialogProps> = ({ isOpen, onOpenCha
              console.warn("EditExpenseDialog opened without valid expense.");
              reset({ /* defaults */ });
         }
-    }, [isOpen, expense, reset, uniqueSortedMemberProfiles, user?.id, trigger]); // Added user.id and trigger
+    }, [isOpen, expense, reset, uniqueSortedMemberProfiles, user?.id, trigger, baseCurrency]); // Added user.id and trigger
 
     const stableMemberIds = useMemo(() => { /* ... remains same ... */
         return uniqueSortedMemberProfiles.map(m => m.user_id).filter(id => !!id).sort().join(',');
@@ -207,20 +264,30 @@ const EditExpenseDialog: React.FC<EditExpenseDialogProps> = ({ isOpen, onOpenCha
 
     // Effect to Handle Clearing Splits on Method Change
      useEffect(() => { /* ... remains same ... */
-        if (isInitialMount.current) { isInitialMount.current = false; return; }
+        if (isInitialMount.current) { isInitialMount.current = false; previousSplitMethod.current = selectedSplitMethod; return; }
         if (uniqueSortedMemberProfiles.length === 0) return;
+        const switchedMethod = previousSplitMethod.current !== selectedSplitMethod;
+        previousSplitMethod.current = selectedSplitMethod;
         console.log(`Edit Dialog: Split method changed to: ${selectedSplitMethod}. Clearing.`);
         const initialSplits: Record<string, null> = {};
         uniqueSortedMemberProfiles.forEach(member => { if(member.user_id) initialSplits[member.user_id] = null; });
+        if (selectedSplitMethod !== SplitMethod.Shares) { setValue('share_splits', initialSplits, { shouldValidate: false, shouldDirty: true }); }
         if (selectedSplitMethod === SplitMethod.Percentage) { setValue('custom_splits', initialSplits, { shouldValidate: false, shouldDirty: true }); }
+        else if (selectedSplitMethod === SplitMethod.Ownership) {
+            // Pre-fill from the stakes on the expense date when switching to Ownership; a date or ledger change refreshes them only while untouched
+            const prefill = ownershipPrefill.current; const currentPercSplits = getValues('percentage_splits');
+            const untouched = prefill !== null && Object.keys(initialSplits).every(id => String(currentPercSplits?.[id] ?? '') === String(prefill[id] ?? ''));
+            if (switchedMethod || untouched) { const stakeSplits: Record<string, number | null> = { ...initialSplits }; ownershipSummary.stakes.forEach(stake => { if (stake.user_id in stakeSplits) stakeSplits[stake.user_id] = stake.weight; }); setValue('percentage_splits', stakeSplits, { shouldValidate: true, shouldDirty: true }); ownershipPrefill.current = stakeSplits; }
+            setValue('custom_splits', initialSplits, { shouldValidate: false, shouldDirty: true });
+        }
         else if (selectedSplitMethod === SplitMethod.Fixed) { setValue('percentage_splits', initialSplits, { shouldValidate: false, shouldDirty: true }); }
         else { setValue('percentage_splits', initialSplits, { shouldValidate: false, shouldDirty: true }); setValue('custom_splits', initialSplits, { shouldValidate: false, shouldDirty: true }); }
-    }, [selectedSplitMethod, setValue, stableMemberIds, uniqueSortedMemberProfiles]);
+    }, [selectedSplitMethod, setValue, getValues, stableMemberIds, uniqueSortedMemberProfiles, ownershipSummary]);
 
 
     // onSubmit Handler
     const onSubmit = async (data: ExpenseFormData) => { /* ... remains same as v3 ... */
-        console.log("Form Data Submitted (Edit):", data); const currentAmount = Number(data.amount) || 0; if (!selectedProperty || !user || !expense || !data.paid_by_user_id || !data.category || !data.split_method || !data.date) { toast({ title: "Validation Error", description: "Missing required info.", variant: "destructive" }); return; } if (currentAmount <= 0 && data.split_method !== SplitMethod.PayerOnly) { toast({ title: "Validation Error", description: "Amount must be positive.", variant: "destructive" }); return; } if (uniqueSortedMemberProfiles.length === 0 && [SplitMethod.Equal, SplitMethod.Percentage, SplitMethod.Fixed].includes(data.split_method)) { toast({ title: "Error", description: `Cannot split by ${data.split_method} with no members.`, variant: "destructive" }); return; } setIsSubmitting(true); const contextPayload: ExpenseFormValues = { date: data.date, description: data.description, amount: currentAmount, category: data.category as ExpenseCategoryType, paid_by_user_id: data.paid_by_user_id, split_method: data.split_method as SplitMethodType, notes: data.notes || null, receipt_url: data.existing_receipt_url, splits: [] }; try { if (data.split_method === SplitMethod.Percentage && data.percentage_splits) { contextPayload.splits = uniqueSortedMemberProfiles .filter(member => data.percentage_splits![member.user_id] != null && data.percentage_splits![member.user_id]! > 0) .map(member => { const userId = member.user_id; const percentage = data.percentage_splits![userId]!; const amount = parseFloat(((currentAmount * percentage) / 100).toFixed(2)); const status = userId === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed; return { user_id: userId, amount: amount, percentage: percentage, status: status }; }); } else if (data.split_method === SplitMethod.Fixed && data.custom_splits) { contextPayload.splits = uniqueSortedMemberProfiles .filter(member => data.custom_splits![member.user_id] != null && data.custom_splits![member.user_id]! > 0) .map(member => { const userId = member.user_id; const amount = data.custom_splits![userId]!; const status = userId === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed; return { user_id: userId, amount: amount, status: status }; }); } else if (data.split_method === SplitMethod.Equal) { const numberOfMembers = uniqueSortedMemberProfiles.length; if (numberOfMembers === 0) { throw new Error("Cannot equal split with zero members."); } const rawEqualAmount = currentAmount / numberOfMembers; const equalAmount = parseFloat(rawEqualAmount.toFixed(2)); const totalRoundedAmount = equalAmount * numberOfMembers; if (Math.abs(totalRoundedAmount - currentAmount) > 0.01 * numberOfMembers) { console.warn("Rounding diff equal split update"); } contextPayload.splits = uniqueSortedMemberProfiles.map(member => { const userId = member.user_id; const status = userId === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed; return { user_id: userId, amount: equalAmount, status: status }; }); } else if (data.split_method === SplitMethod.PayerOnly) { contextPayload.splits = [{ user_id: data.paid_by_user_id, amount: currentAmount, status: SplitStatus.Paid }]; } if (currentAmount > 0 && contextPayload.splits.length === 0 && data.split_method !== SplitMethod.PayerOnly) { throw new Error(`Split calc empty: ${data.split_method}.`); } } catch (splitError: any) { console.error("Error calculating splits edit:", splitError); toast({ title: "Split Calc Error", description: splitError.message || "Could not prepare splits.", variant: "destructive" }); setIsSubmitting(false); return; } console.log("Calling updateExpenseWithSplits context with calculated payload:", contextPayload); try { let finalReceiptUrl: string | null | undefined = contextPayload.receipt_url; if (data.remove_receipt) { finalReceiptUrl = null; /* TODO: Delete */ console.log("Receipt marked removal."); } else if (data.receipt_file) { finalReceiptUrl = "[placeholder_new_url]"; /* TODO: Upload */ console.warn("New receipt upload needed."); } contextPayload.receipt_url = finalReceiptUrl; const { error: updateError } = await updateExpenseWithSplits(expense.id, contextPayload); if (!updateError) { toast({ title: "Success", description: `Expense updated.` }); onOpenChange(false); } else { console.error("Error from update context:", updateError); } } catch (submitError) { console.error("Error submitting update:", submitError); toast({ title: "Update Error", description: submitError instanceof Error ? submitError.message : "Unknown error.", variant: "destructive" }); } finally { if (isOpen) { setIsSubmitting(false); } }
+        console.log("Form Data Submitted (Edit):", data); const currentAmount = Number(data.amount) || 0; if (!selectedProperty || !user || !expense || !data.paid_by_user_id || !data.category || !data.split_method || !data.date) { toast({ title: "Validation Error", description: "Missing required info.", variant: "destructive" }); return; } if (currentAmount <= 0 && data.split_method !== SplitMethod.PayerOnly) { toast({ title: "Validation Error", description: "Amount must be positive.", variant: "destructive" }); return; } if (uniqueSortedMemberProfiles.length === 0 && [SplitMethod.Equal, SplitMethod.Percentage, SplitMethod.Fixed, SplitMethod.Shares, SplitMethod.Ownership].includes(data.split_method)) { toast({ title: "Error", description: `Cannot split by ${data.split_method} with no members.`, variant: "destructive" }); return; } setIsSubmitting(true); const contextPayload: ExpenseFormValues = { date: data.date, description: data.description, amount: currentAmount, category: data.category as ExpenseCategoryType, paid_by_user_id: data.paid_by_user_id, split_method: data.split_method as SplitMethodType, notes: data.notes || null, receipt_url: data.existing_receipt_url, splits: [], currency: data.currency, exchange_rate: data.exchange_rate, exchange_rate_source: Number(findExchangeRate(exchangeRates, data.currency, baseCurrency, format(data.date, 'yyyy-MM-dd'))?.rate) === Number(data.exchange_rate) ? ExchangeRateSource.Table : ExchangeRateSource.Manual }; // Splits are in the expense currency; the context converts to base try { if (data.split_method === SplitMethod.Percentage && data.percentage_splits) { const weightedMembers = uniqueSortedMemberProfiles.filter(member => data.percentage_splits![member.user_id] != null && data.percentage_splits![member.user_id]! > 0).map(member => ({ user_id: member.user_id, weight: data.percentage_splits![member.user_id]! })); contextPayload.splits = allocateByWeights(currentAmount, weightedMembers).map((allocation, index) => ({ user_id: allocation.user_id, amount: allocation.amount, percentage: weightedMembers[index].weight, status: allocation.user_id === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed })); } else if (data.split_method === SplitMethod.Fixed && data.custom_splits) { contextPayload.splits = uniqueSortedMemberProfiles .filter(member => data.custom_splits![member.user_id] != null && data.custom_splits![member.user_id]! > 0) .map(member => { const userId = member.user_id; const amount = data.custom_splits![userId]!; const status = userId === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed; return { user_id: userId, amount: amount, status: status }; }); } else if (data.split_method === SplitMethod.Shares && data.share_splits) { const weightedMembers = uniqueSortedMemberProfiles.filter(member => (data.share_splits![member.user_id] ?? 0) > 0).map(member => ({ user_id: member.user_id, weight: data.share_splits![member.user_id]! })); contextPayload.splits = allocateByWeights(currentAmount, weightedMembers).map((allocation, index) => ({ user_id: allocation.user_id, amount: allocation.amount, shares: weightedMembers[index].weight, status: allocation.user_id === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed })); } else if (data.split_method === SplitMethod.Ownership && data.percentage_splits) { const weightedMembers = uniqueSortedMemberProfiles.filter(member => (data.percentage_splits![member.user_id] ?? 0) > 0).map(member => ({ user_id: member.user_id, weight: data.percentage_splits![member.user_id]! })); contextPayload.splits = allocateByWeights(currentAmount, weightedMembers).map((allocation, index) => ({ user_id: allocation.user_id, amount: allocation.amount, percentage: weightedMembers[index].weight, status: allocation.user_id === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed })); } else if (data.split_method === SplitMethod.Equal) { const numberOfMembers = uniqueSortedMemberProfiles.length; if (numberOfMembers === 0) { throw new Error("Cannot equal split with zero members."); } contextPayload.splits = allocateByWeights(currentAmount, uniqueSortedMemberProfiles.map(member => ({ user_id: member.user_id, weight: 1 }))).map(allocation => ({ user_id: allocation.user_id, amount: allocation.amount, status: allocation.user_id === data.paid_by_user_id ? SplitStatus.Paid : SplitStatus.Owed })); } else if (data.split_method === SplitMethod.PayerOnly) { contextPayload.splits = [{ user_id: data.paid_by_user_id, amount: currentAmount, status: SplitStatus.Paid }]; } if (currentAmount > 0 && contextPayload.splits.length === 0 && data.split_method !== SplitMethod.PayerOnly) { throw new Error(`Split calc empty: ${data.split_method}.`); } } catch (splitError: any) { console.error("Error calculating splits edit:", splitError); toast({ title: "Split Calc Error", description: splitError.message || "Could not prepare splits.", variant: "destructive" }); setIsSubmitting(false); return; } console.log("Calling updateExpenseWithSplits context with calculated payload:", contextPayload); try { let finalReceiptUrl: string | null | undefined = contextPayload.receipt_url; if (data.remove_receipt) { finalReceiptUrl = null; /* TODO: Delete */ console.log("Receipt marked removal."); } else if (data.receipt_file) { finalReceiptUrl = "[placeholder_new_url]"; /* TODO: Upload */ console.warn("New receipt upload needed."); } contextPayload.receipt_url = finalReceiptUrl; const { error: updateError } = await updateExpenseWithSplits(expense.id, contextPayload); if (!updateError) { toast({ title: "Success", description: `Expense updated.` }); onOpenChange(false); } else { console.error("Error from update context:", updateError); } } catch (submitError) { console.error("Error submitting update:", submitError); toast({ title: "Update Error", description: submitError instanceof Error ? submitError.message : "Unknown error.", variant: "destructive" }); } finally { if (isOpen) { setIsSubmitting(false); } }
     };
 
     // File Handling Logic
@@ -266,6 +333,8 @@ const EditExpenseDialog: React.FC<EditExpenseDialogProps> = ({ isOpen, onOpenCha
                          <div className="space-y-2"> <Label htmlFor="edit-amount" className={cn(errors.amount && "text-destructive")}>Amount *</Label> <Controller name="amount" control={control} render={({ field: { onChange, ...rest } }) => ( <Input id="edit-amount" type="number" step="0.01" placeholder="0.00" onChange={(e) => onChange(e.target.value === '' ? null : parseFloat(e.target.value))} {...rest} value={rest.value ?? ''} className={getInputClassName(!!errors.amount)} aria-invalid={!!errors.amount} /> )} /> {errors.amount && <p className="text-sm font-medium text-destructive">{errors.amount.message}</p>} </div>
                         {/* Date */}
                          <div className="space-y-2"> <Label htmlFor="edit-date" className={cn(errors.date && "text-destructive")}>Date *</Label> <Controller name="date" control={control} render={({ field }) => ( <input id="edit-date" type="date" onChange={(e) => field.onChange(e.target.valueAsDate)} onBlur={field.onBlur} value={field.value instanceof Date && isValidDate(field.value) ? format(field.value, 'yyyy-MM-dd') : ''} ref={field.ref} name={field.name} className={getInputClassName(!!errors.date)} aria-invalid={!!errors.date} /> )} /> {errors.date && <p className="text-sm font-medium text-destructive">{typeof errors.date?.message === 'string' ? errors.date.message : 'Invalid Date'}</p>} </div>
+                        {/* Currency */}
+                         <ExpenseCurrencyFields idPrefix="edit" baseCurrency={baseCurrency} currency={watchedCurrency || baseCurrency} exchangeRate={watchedExchangeRate} amount={totalAmount} date={watchedDate} rates={exchangeRates} onCurrencyChange={(value) => setValue('currency', value, { shouldValidate: true, shouldDirty: true })} onExchangeRateChange={(value) => setValue('exchange_rate', value, { shouldValidate: true, shouldDirty: true })} error={errors.exchange_rate?.message} />
                         {/* Category */}
                          <div className="space-y-2"> <Label htmlFor="edit-category" className={cn(errors.category && "text-destructive")}>Category *</Label> <select id="edit-category" {...register("category")} className={getSelectClassName(!!errors.category)} aria-invalid={!!errors.category}> <option value="" disabled>Select category</option> {Object.values(ExpenseCategory).map((cat) => ( <option key={String(cat)} value={String(cat)}>{formatCategoryName(cat)}</option> ))} </select> {errors.category && <p className="text-sm font-medium text-destructive">{errors.category.message}</p>} </div>
                         {/* Paid By */}
@@ -280,9 +349,9 @@ const EditExpenseDialog: React.FC<EditExpenseDialogProps> = ({ isOpen, onOpenCha
                         {/* Split Method */}
                         <div className="space-y-2"> <Label className={cn(errors.split_method && "text-destructive")}>Split Method *</Label> <Controller name="split_method" control={control} render={({ field }) => ( <RadioGroup onValueChange={field.onChange} value={field.value} className={cn("flex flex-col space-y-1", errors.split_method && "rounded-md border border-destructive p-2")}> {Object.values(SplitMethod).map((val) => ( <div key={String(val)} className="flex items-center space-x-3 space-y-0"> <RadioGroupItem value={String(val)} id={`edit-split-${String(val)}-${field.name}`} /> <Label htmlFor={`edit-split-${String(val)}-${field.name}`} className="font-normal capitalize cursor-pointer">{String(val).replace(/_/g, ' ')}</Label> </div> ))} </RadioGroup> )} /> {errors.split_method && <p className="text-sm font-medium text-destructive">{errors.split_method.message}</p>} </div>
                         {/* Conditional Splits - Use unique list */}
-                        {selectedSplitMethod === SplitMethod.Percentage && (
+                        {(selectedSplitMethod === SplitMethod.Percentage || selectedSplitMethod === SplitMethod.Ownership) && (
                              <div className="space-y-3 rounded-md border border-border p-4"> {/* ... Percentage Split Fields using uniqueSortedMemberProfiles ... */}
-                                <Label className="font-medium">Split by Percentage</Label> {errors.percentage_splits && typeof errors.percentage_splits.message === 'string' && ( <Alert variant="destructive" className="mt-2"><AlertCircle className="h-4 w-4" /><AlertDescription className="text-xs">{errors.percentage_splits.message}</AlertDescription></Alert> )}
+                                <Label className="font-medium">{selectedSplitMethod === SplitMethod.Ownership ? 'Split by Ownership' : 'Split by Percentage'}</Label> {selectedSplitMethod === SplitMethod.Ownership && !ownershipSummary.sumsTo100 && ( <Alert variant="default" className="mt-2 border-yellow-500 text-yellow-700 [&>svg]:text-yellow-700"><AlertCircle className="h-4 w-4" /><AlertDescription className="text-xs">{ownershipSummary.stakes.length === 0 ? 'No ownership stakes were in effect on this date.' : `Ownership stakes on this date add up to ${ownershipSummary.total}%, not 100%.`} Enter percentages below, or update the stakes on the Co-Owners page.</AlertDescription></Alert> )} {errors.percentage_splits && typeof errors.percentage_splits.message === 'string' && ( <Alert variant="destructive" className="mt-2"><AlertCircle className="h-4 w-4" /><AlertDescription className="text-xs">{errors.percentage_splits.message}</AlertDescription></Alert> )}
                                 <div className="space-y-2"> {uniqueSortedMemberProfiles.map((member) => ( <div key={`perc-${member.user_id}`} className="flex items-center gap-3"> <Avatar className="h-6 w-6"><AvatarImage src={member.profile?.avatar_url ?? undefined} /> <AvatarFallback>{getInitials(`${member.profile?.first_name ?? ''} ${member.profile?.last_name ?? ''}`)}</AvatarFallback></Avatar> <Label htmlFor={`edit-percentage-${member.user_id}`} className="flex-1 text-sm">{member.profile?.first_name ?? ''} {member.profile?.last_name ?? ''} {member.user_id === user?.id ? '(You)' : ''}</Label> <div className="relative w-24"> <Controller name={`percentage_splits.${member.user_id}`} control={control} render={({ field: { onChange, ...rest }, fieldState }) => ( <Input id={`edit-percentage-${member.user_id}`} type="number" step="0.01" min="0" max="100" placeholder="0" onChange={(e) => { onChange(e.target.value === '' ? null : parseFloat(e.target.value)); trigger("percentage_splits"); }} {...rest} value={rest.value ?? ''} className={cn(getInputClassName(!!fieldState.error), "pr-7")} aria-invalid={!!fieldState.error} /> )} /> <Percent className="absolute right-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" /> </div> </div> ))} </div>
                             </div>
                         )}
@@ -292,6 +361,13 @@ const EditExpenseDialog: React.FC<EditExpenseDialogProps> = ({ isOpen, onOpenCha
                                 <div className="space-y-2"> {uniqueSortedMemberProfiles.map((member) => ( <div key={`cust-${member.user_id}`} className="flex items-center gap-3"> <Avatar className="h-6 w-6"><AvatarImage src={member.profile?.avatar_url ?? undefined} /> <AvatarFallback>{getInitials(`${member.profile?.first_name ?? ''} ${member.profile?.last_name ?? ''}`)}</AvatarFallback></Avatar> <Label htmlFor={`edit-custom-${member.user_id}`} className="flex-1 text-sm">{member.profile?.first_name ?? ''} {member.profile?.last_name ?? ''} {member.user_id === user?.id ? '(You)' : ''}</Label> <Controller name={`custom_splits.${member.user_id}`} control={control} render={({ field: { onChange, ...rest }, fieldState }) => ( <Input id={`edit-custom-${member.user_id}`} type="number" step="0.01" min="0" placeholder="0.00" onChange={(e) => { onChange(e.target.value === '' ? null : parseFloat(e.target.value)); trigger("custom_splits"); }} {...rest} value={rest.value ?? ''} className={cn(getInputClassName(!!fieldState.error), "w-24")} disabled={!totalAmount || totalAmount <= 0} aria-invalid={!!fieldState.error} /> )} /> </div> ))} </div>
                             </div>
                         )}
+                        {selectedSplitMethod === SplitMethod.Shares && (
+                            <div className="space-y-3 rounded-md border border-border p-4">
+                                <Label className="font-medium">Split by Shares</Label> {errors.share_splits && typeof errors.share_splits.message === 'string' && ( <Alert variant="destructive" className="mt-2"><AlertCircle className="h-4 w-4" /><AlertDescription className="text-xs">{errors.share_splits.message}</AlertDescription></Alert> )}
+                                <p className="text-xs text-muted-foreground">Whole number of shares per member. The amount is divided in proportion, to the cent.</p>
+                                <div className="space-y-2"> {uniqueSortedMemberProfiles.map((member) => ( <div key={`share-${member.user_id}`} className="flex items-center gap-3"> <Avatar className="h-6 w-6"><AvatarImage src={member.profile?.avatar_url ?? undefined} /> <AvatarFallback>{getInitials(`${member.profile?.first_name ?? ''} ${member.profile?.last_name ?? ''}`)}</AvatarFallback></Avatar> <Label htmlFor={`edit-shares-${member.user_id}`} className="flex-1 text-sm">{member.profile?.first_name ?? ''} {member.profile?.last_name ?? ''} {member.user_id === user?.id ? '(You)' : ''}</Label> <span className="w-20 text-right text-xs text-muted-foreground">{sharePreview[member.user_id] != null ? formatCurrency(sharePreview[member.user_id], watchedCurrency) : ''}</span> <Controller name={`share_splits.${member.user_id}`} control={control} render={({ field: { onChange, ...rest }, fieldState }) => ( <Input id={`edit-shares-${member.user_id}`} type="number" step="1" min="0" placeholder="0" onChange={(e) => { onChange(e.target.value === '' ? null : parseInt(e.target.value, 10)); trigger("share_splits"); }} {...rest} value={rest.value ?? ''} className={cn(getInputClassName(!!fieldState.error), "w-20")} aria-invalid={!!fieldState.error} /> )} /> </div> ))} </div>
+                            </div>
+                        )}
                         {/* Notes */}
                          <div className="space-y-2"> <Label htmlFor="edit-notes" className={cn(errors.notes && "text-destructive")}>Notes (Optional)</Label> <Textarea id="edit-notes" {...register("notes")} className={getTextareaClassName(!!errors.notes)} aria-invalid={!!errors.notes} /> {errors.notes && <p className="text-sm font-medium text-destructive">{errors.notes.message}</p>} </div>
                         {/* Receipt */}
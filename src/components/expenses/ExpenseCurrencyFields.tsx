@@ -0,0 +1,74 @@
+// src/components/expenses/ExpenseCurrencyFields.tsx
+// v1 - Currency and exchange-rate inputs for the expense dialogs, with table-rate lookup and a base-currency preview.
+
+import React, { useMemo } from 'react';
+import { format, isValid as isValidDate } from 'date-fns';
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { ExchangeRateRow } from '@/integrations/supabase/types';
+import { CURRENCIES, convertToBase, findExchangeRate, formatExchangeRate } from '@/lib/currency';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+
+interface ExpenseCurrencyFieldsProps {
+    idPrefix: string; // Keeps input ids unique between the add and edit dialogs
+    baseCurrency: string;
+    currency: string;
+    exchangeRate: number | null | undefined; // Base currency units per 1 unit of currency
+    amount: number | null | undefined; // In currency
+    date: Date | null | undefined;
+    rates: ExchangeRateRow[];
+    onCurrencyChange: (currency: string) => void;
+    onExchangeRateChange: (rate: number | null) => void;
+    error?: string;
+}
+
+const ExpenseCurrencyFields: React.FC<ExpenseCurrencyFieldsProps> = ({ idPrefix, baseCurrency, currency, exchangeRate, amount, date, rates, onCurrencyChange, onExchangeRateChange, error }) => {
+    const dateKey = date instanceof Date && isValidDate(date) ? format(date, 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd');
+    const isForeign = !!currency && currency !== baseCurrency;
+    const tableRate = useMemo(() => (isForeign ? findExchangeRate(rates, currency, baseCurrency, dateKey) : null), [isForeign, rates, currency, baseCurrency, dateKey]);
+    const currencyOptions = CURRENCIES.some(c => c.code === baseCurrency) ? CURRENCIES : [{ code: baseCurrency, name: baseCurrency }, ...CURRENCIES];
+
+    // Switching currency picks up the table rate for the expense date (or 1 for the base currency)
+    const handleCurrencyChange = (next: string) => {
+        onCurrencyChange(next);
+        onExchangeRateChange(next === baseCurrency ? 1 : findExchangeRate(rates, next, baseCurrency, dateKey)?.rate ?? null);
+    };
+
+    const baseAmount = isForeign && Number(amount) > 0 && Number(exchangeRate) > 0 ? convertToBase(Number(amount), Number(exchangeRate)) : null;
+
+    return (
+        <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                    <Label htmlFor={`${idPrefix}-currency`}>Currency</Label>
+                    <select id={`${idPrefix}-currency`} value={currency} onChange={(e) => handleCurrencyChange(e.target.value)} className="flex h-10 w-full items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2">
+                        {currencyOptions.map(c => <option key={c.code} value={c.code}>{c.code} - {c.name}{c.code === baseCurrency ? ' (base)' : ''}</option>)}
+                    </select>
+                </div>
+                {isForeign && (
+                    <div className="space-y-2">
+                        <Label htmlFor={`${idPrefix}-exchange-rate`} className={cn(error && "text-destructive")}>1 {currency} in {baseCurrency} *</Label>
+                        <Input id={`${idPrefix}-exchange-rate`} type="number" step="any" min="0" placeholder="e.g. 1.08" value={exchangeRate ?? ''} onChange={(e) => onExchangeRateChange(e.target.value === '' ? null : parseFloat(e.target.value))} className={cn(error && "border-destructive focus-visible:ring-destructive")} aria-invalid={!!error} />
+                    </div>
+                )}
+            </div>
+            {isForeign && (
+                <div className="text-xs text-muted-foreground space-y-1">
+                    {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+                    {tableRate ? (
+                        <p>
+                            Table rate on {formatDate(tableRate.rate_date)}: {formatExchangeRate(currency, baseCurrency, tableRate.rate)}
+                            {Number(tableRate.rate) !== Number(exchangeRate) && <Button type="button" variant="link" size="sm" className="h-auto p-0 ml-2 text-xs" onClick={() => onExchangeRateChange(Number(tableRate.rate))}>Use table rate</Button>}
+                        </p>
+                    ) : (
+                        <p>No {currency} rate on or before this date in the property's rate table; enter the rate manually.</p>
+                    )}
+                    {baseAmount != null && <p>Recorded as <span className="font-medium text-foreground">{formatCurrency(baseAmount, baseCurrency)}</span>; splits are calculated in {baseCurrency}.</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExpenseCurrencyFields;
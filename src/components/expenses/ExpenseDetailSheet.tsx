@@ -1,6 +1,5 @@
 // src/components/expenses/ExpenseDetailSheet.tsx
-// v4 - Restored receipt viewing functionality by calling getReceiptUrl from context.
-// This version should be used with ExpenseContext v26+ which provides getReceiptUrl.
+// v7 - A rejected expense can be approved on a second look; it stays rejected through edits until then.
 
 import React, { useState, useMemo } from 'react';
 import {
@@ -9,6 +8,7 @@ import {
 import { Button, buttonVariants } from "@/components/ui/button";
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
 import { Separator } from '@/components/ui/separator';
 import {
     Expense,
@@ -16,16 +16,20 @@ import {
     ExpenseSplitWithProfile,
     SplitStatus,
     SplitMethodType,
-    PropertyMemberWithProfile
+    PropertyMemberWithProfile,
+    ExpenseStatus,
+    MemberRole
 } from '@/integrations/supabase/types';
 import { formatCurrency, formatDate, formatSplitMethod, getInitials, formatCategoryName, cn } from '@/lib/utils';
 import { useProperty } from '@/contexts/PropertyContext';
 // --- Ensure useExpenses is imported ---
 import { useExpenses } from '@/contexts/ExpenseContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { AlertTriangle, CheckCircle, FileText, Loader2, Hourglass } from 'lucide-react';
+import { AlertTriangle, CheckCircle, FileText, Loader2, Hourglass, XCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { DEFAULT_BASE_CURRENCY, describeOriginalAmount } from '@/lib/currency';
 
 interface ExpenseDetailSheetProps {
     isOpen: boolean;
@@ -34,21 +38,32 @@ interface ExpenseDetailSheetProps {
 }
 
 // Helper to render split details (No changes needed here)
-const RenderSplitDetails = ({ splits, memberProfiles }: { splits: ExpenseSplitWithProfile[], memberProfiles: PropertyMemberWithProfile[] }) => {
+const RenderSplitDetails = ({ splits, memberProfiles, currency }: { splits: ExpenseSplitWithProfile[], memberProfiles: PropertyMemberWithProfile[], currency: string }) => {
     const profileMap = useMemo(() => new Map(memberProfiles.map(m => [m.user_id, m.profile])), [memberProfiles]);
     if (!Array.isArray(splits) || splits.length === 0) { return <p className="text-muted-foreground italic text-sm">No split details available.</p>; }
-    return ( <ul className="space-y-2 text-sm"> {splits.map((split) => { const profile = split.user_profile ?? profileMap.get(split.user_id); const profileName = profile ? `${profile.first_name ?? ''} ${profile.last_name ?? ''}`.trim() : `Unknown User (${split.user_id.substring(0, 6)}...)`; const isPaid = split.status === SplitStatus.Paid; const initials = getInitials(profile ? `${profile.first_name ?? ''} ${profile.last_name ?? ''}`.trim() : profileName); return ( <li key={split.id} className="flex items-center justify-between gap-2"> <div className="flex items-center space-x-2"> <Avatar className="h-5 w-5"> <AvatarImage src={profile?.avatar_url ?? undefined} alt={profileName} /> <AvatarFallback className="text-xs">{initials}</AvatarFallback> </Avatar> <span className="truncate" title={profileName}>{profileName}</span> </div> <div className="flex items-center gap-1.5 flex-shrink-0"> <span className={cn('font-medium', isPaid ? 'text-muted-foreground line-through' : '')}>{formatCurrency(split.amount)}</span> {isPaid ? ( <TooltipProvider delayDuration={100}><Tooltip><TooltipTrigger> <CheckCircle className="h-4 w-4 text-green-600" /> </TooltipTrigger><TooltipContent><p>Paid</p></TooltipContent></Tooltip></TooltipProvider> ) : ( <TooltipProvider delayDuration={100}><Tooltip><TooltipTrigger> <Hourglass className="h-4 w-4 text-orange-600" /> </TooltipTrigger><TooltipContent><p>Owed</p></TooltipContent></Tooltip></TooltipProvider> )} </div> </li> ); })} </ul> );
+    return ( <ul className="space-y-2 text-sm"> {splits.map((split) => { const profile = split.user_profile ?? profileMap.get(split.user_id); const profileName = profile ? `${profile.first_name ?? ''} ${profile.last_name ?? ''}`.trim() : `Unknown User (${split.user_id.substring(0, 6)}...)`; const isPaid = split.status === SplitStatus.Paid; const initials = getInitials(profile ? `${profile.first_name ?? ''} ${profile.last_name ?? ''}`.trim() : profileName); return ( <li key={split.id} className="flex items-center justify-between gap-2"> <div className="flex items-center space-x-2"> <Avatar className="h-5 w-5"> <AvatarImage src={profile?.avatar_url ?? undefined} alt={profileName} /> <AvatarFallback className="text-xs">{initials}</AvatarFallback> </Avatar> <span className="truncate" title={profileName}>{profileName}</span> </div> <div className="flex items-center gap-1.5 flex-shrink-0"> <span className={cn('font-medium', isPaid ? 'text-muted-foreground line-through' : '')}>{formatCurrency(split.amount, currency)}</span> {isPaid ? ( <TooltipProvider delayDuration={100}><Tooltip><TooltipTrigger> <CheckCircle className="h-4 w-4 text-green-600" /> </TooltipTrigger><TooltipContent><p>Paid</p></TooltipContent></Tooltip></TooltipProvider> ) : ( <TooltipProvider delayDuration={100}><Tooltip><TooltipTrigger> <Hourglass className="h-4 w-4 text-orange-600" /> </TooltipTrigger><TooltipContent><p>Owed</p></TooltipContent></Tooltip></TooltipProvider> )} </div> </li> ); })} </ul> );
+};
+
+// Approval status badge; expenses without a status predate the workflow and count as approved
+const ApprovalStatusBadge = ({ status }: { status: Expense['status'] }) => {
+    if (status === ExpenseStatus.PendingApproval) return <Badge variant="outline" className="border-orange-500 text-orange-700">Pending Approval</Badge>;
+    if (status === ExpenseStatus.Rejected) return <Badge variant="destructive">Rejected</Badge>;
+    return <Badge variant="default" className="bg-green-100 text-green-800 hover:bg-green-100">Approved</Badge>;
 };
 
 // Helper to render a detail item (No changes needed here)
 const DetailItem = ({ label, value }: { label: string; value: React.ReactNode }) => ( <div className="grid grid-cols-3 gap-2 py-2 items-start"> <dt className="font-medium text-muted-foreground text-sm break-words">{label}</dt> <dd className="col-span-2 text-sm break-words">{value ?? <span className="italic text-muted-foreground">N/A</span>}</dd> </div> );
 
 export function ExpenseDetailSheet({ isOpen, onOpenChange, expense }: ExpenseDetailSheetProps) {
-    const { propertyMembers } = useProperty();
+    const { propertyMembers, selectedProperty } = useProperty();
+    const baseCurrency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
     // --- Get getReceiptUrl from the context ---
-    const { getReceiptUrl } = useExpenses();
+    const { getReceiptUrl, expenses, reviewExpense } = useExpenses();
+    const { user } = useAuth();
     const { toast } = useToast(); // Keep toast for potential errors within the component
     const [loadingReceipt, setLoadingReceipt] = useState(false);
+    const [reviewNote, setReviewNote] = useState('');
+    const [reviewing, setReviewing] = useState<'approve' | 'reject' | null>(null);
 
     const typedMemberProfiles = useMemo(() =>
         Array.isArray(propertyMembers) ? propertyMembers as PropertyMemberWithProfile[] : [],
@@ -91,6 +106,20 @@ export function ExpenseDetailSheet({ isOpen, onOpenChange, expense }: ExpenseDet
     };
     // --- End handleViewReceipt logic ---
 
+    // The sheet is opened with a snapshot; read the review state from the context so it updates after a review
+    const reviewState = expense ? expenses.find(e => e.id === expense.id) ?? expense : null;
+    const currentUserRole = typedMemberProfiles.find(m => m.user_id === user?.id)?.role;
+    const isRejected = reviewState?.status === ExpenseStatus.Rejected;
+    const canReview = (reviewState?.status === ExpenseStatus.PendingApproval || isRejected) && (currentUserRole === MemberRole.Owner || currentUserRole === MemberRole.CoOwner);
+
+    const handleReview = async (approve: boolean) => {
+        if (!expense) return;
+        setReviewing(approve ? 'approve' : 'reject');
+        const { error } = await reviewExpense(expense.id, approve, reviewNote.trim() || null);
+        setReviewing(null);
+        if (!error) setReviewNote('');
+    };
+
     if (!expense) return null;
 
     const payerProfile = typedMemberProfiles.find(m => m.user_id === expense.paid_by)?.profile;
@@ -98,6 +127,9 @@ export function ExpenseDetailSheet({ isOpen, onOpenChange, expense }: ExpenseDet
     const payerInitials = getInitials(payerName);
     const categoryFormatted = formatCategoryName(expense.category);
     const splitMethodFormatted = formatSplitMethod(expense.split_method as SplitMethodType);
+    const originalAmount = describeOriginalAmount(expense, baseCurrency);
+    const reviewerProfile = typedMemberProfiles.find(m => m.user_id === reviewState?.reviewed_by)?.profile;
+    const reviewerName = reviewerProfile ? `${reviewerProfile.first_name ?? ''} ${reviewerProfile.last_name ?? ''}`.trim() : 'Former Member';
 
     return (
         <Sheet open={isOpen} onOpenChange={onOpenChange}>
@@ -112,8 +144,27 @@ export function ExpenseDetailSheet({ isOpen, onOpenChange, expense }: ExpenseDet
                         {/* Core Details */}
                         <DetailItem label="Description" value={expense.description} />
                         <DetailItem label="Date" value={formatDate(expense.date)} />
-                        <DetailItem label="Amount" value={formatCurrency(expense.amount)} />
+                        <DetailItem label="Amount" value={formatCurrency(expense.amount, baseCurrency)} />
+                        {originalAmount && <DetailItem label="Billed Amount" value={<div>{originalAmount.amount}{originalAmount.rate && <div className="text-xs text-muted-foreground">{originalAmount.rate} ({originalAmount.source === 'table' ? 'rate table' : 'entered manually'})</div>}</div>} />}
                         <DetailItem label="Category" value={categoryFormatted} />
+                        <DetailItem label="Status" value={<ApprovalStatusBadge status={reviewState?.status} />} />
+                        {reviewState?.status === ExpenseStatus.PendingApproval && <p className="text-xs text-muted-foreground pb-2">This expense is above the property's approval limit. Its splits do not count toward balances until an owner or co-owner approves it.</p>}
+                        {reviewState?.reviewed_at && <DetailItem label="Reviewed" value={<div>{reviewerName}, {formatDate(reviewState.reviewed_at)}{reviewState.review_note && <div className="text-xs text-muted-foreground">{reviewState.review_note}</div>}</div>} />}
+                        {canReview && (
+                            <div className="py-2 space-y-2">
+                                <Textarea placeholder="Note for the payer (optional)" value={reviewNote} onChange={(e) => setReviewNote(e.target.value)} rows={2} disabled={reviewing !== null} />
+                                <div className="flex gap-2">
+                                    <Button size="sm" onClick={() => handleReview(true)} disabled={reviewing !== null}>
+                                        {reviewing === 'approve' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />} {isRejected ? 'Approve After All' : 'Approve'}
+                                    </Button>
+                                    {!isRejected && (
+                                        <Button size="sm" variant="outline" className="text-destructive" onClick={() => handleReview(false)} disabled={reviewing !== null}>
+                                            {reviewing === 'reject' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <XCircle className="mr-2 h-4 w-4" />} Reject
+                                        </Button>
+                                    )}
+                                </div>
+                            </div>
+                        )}
                         <DetailItem label="Payer" value={ payerProfile ? ( <div className="flex items-center space-x-2"> <Avatar className="h-5 w-5"> <AvatarImage src={payerProfile.avatar_url ?? undefined} alt={payerName} /> <AvatarFallback className="text-xs">{payerInitials}</AvatarFallback> </Avatar> <span>{payerName}</span> </div> ) : ( 'Unknown Payer' ) } />
                         <Separator className="my-2" />
 
@@ -157,7 +208,7 @@ export function ExpenseDetailSheet({ isOpen, onOpenChange, expense }: ExpenseDet
                         <div className="py-2">
                             <dt className="font-medium text-muted-foreground text-sm mb-2">Split Breakdown</dt>
                             <dd className="col-span-2 text-sm">
-                                <RenderSplitDetails splits={expense.splits} memberProfiles={typedMemberProfiles} />
+                                <RenderSplitDetails splits={expense.splits} memberProfiles={typedMemberProfiles} currency={baseCurrency} />
                             </dd>
                         </div>
                         <Separator className="my-2" />
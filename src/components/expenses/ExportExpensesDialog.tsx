@@ -0,0 +1,144 @@
+// src/components/expenses/ExportExpensesDialog.tsx
+// v3 - Expenses awaiting approval or rejected are left out of the export, as they are from totals and reports.
+
+import React, { useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useToast } from '@/hooks/use-toast';
+import { Expense } from '@/integrations/supabase/types';
+import { formatCurrency } from '@/lib/utils';
+import { DEFAULT_BASE_CURRENCY } from '@/lib/currency';
+import { isExpenseApproved } from '@/lib/settlement';
+import {
+    EXPORT_FORMATS, ExpenseExportFormat, ExportMember, filterExpensesByDateRange, buildExpenseExportTable,
+    toCsv, toXlsx, toOfx, buildExportFileName, downloadFile
+} from '@/lib/expenseExport';
+
+const RECEIPTS_BUCKET = 'expense-receipts';
+const RECEIPT_LINK_TTL_SECONDS = 60 * 60 * 24 * 7; // Accountants rarely open the file the same day
+
+interface ExportExpensesDialogProps {
+    isOpen: boolean;
+    onOpenChange: (isOpen: boolean) => void;
+    expenses: Expense[]; // Already filtered by the list's category / payer / search filters
+    hasActiveFilters: boolean;
+}
+
+const ExportExpensesDialog: React.FC<ExportExpensesDialogProps> = ({ isOpen, onOpenChange, expenses, hasActiveFilters }) => {
+    const { selectedProperty, propertyMembers } = useProperty();
+    const { toast } = useToast();
+    const [exportFormat, setExportFormat] = useState<ExpenseExportFormat>('csv');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+    const [includeReceiptLinks, setIncludeReceiptLinks] = useState(true);
+    const [isExporting, setIsExporting] = useState(false);
+
+    const members: ExportMember[] = useMemo(() => selectedProperty
+        ? propertyMembers.filter(m => m.property_id === selectedProperty.id).map(m => ({
+            user_id: m.user_id,
+            name: [m.profile?.first_name, m.profile?.last_name].filter(Boolean).join(' ') || m.profile?.email || 'Unknown',
+        }))
+        : [], [propertyMembers, selectedProperty]);
+
+    const expensesInRange = useMemo(() => filterExpensesByDateRange(expenses, fromDate || null, toDate || null)
+        .filter(isExpenseApproved)
+        .sort((a, b) => a.date.localeCompare(b.date)), [expenses, fromDate, toDate]);
+    const isSpreadsheet = exportFormat === 'csv' || exportFormat === 'xlsx';
+    const isRangeInvalid = !!fromDate && !!toDate && fromDate > toDate;
+
+    const fetchReceiptLinks = async (): Promise<Record<string, string>> => {
+        const withReceipts = expensesInRange.filter(e => !!e.receipt_url);
+        if (withReceipts.length === 0) return {};
+        const { data, error } = await supabase.storage.from(RECEIPTS_BUCKET).createSignedUrls(withReceipts.map(e => e.receipt_url!), RECEIPT_LINK_TTL_SECONDS);
+        if (error) throw error;
+        const links: Record<string, string> = {};
+        withReceipts.forEach(expense => {
+            const signed = data?.find(d => d.path === expense.receipt_url);
+            if (signed?.signedUrl) links[expense.id] = signed.signedUrl;
+        });
+        return links;
+    };
+
+    const handleExport = async () => {
+        if (!selectedProperty || expensesInRange.length === 0) return;
+        setIsExporting(true);
+        try {
+            const formatInfo = EXPORT_FORMATS.find(f => f.value === exportFormat)!;
+            const fileName = buildExportFileName(selectedProperty.name, fromDate || null, toDate || null, formatInfo.extension);
+            if (exportFormat === 'ofx' || exportFormat === 'qfx') {
+                downloadFile(toOfx(expensesInRange, { accountId: selectedProperty.id.slice(0, 22), currency: selectedProperty.base_currency || DEFAULT_BASE_CURRENCY }, exportFormat), fileName, formatInfo.mimeType);
+            } else {
+                const receiptLinks = includeReceiptLinks ? await fetchReceiptLinks() : {};
+                const table = buildExpenseExportTable(expensesInRange, { members, receiptLinks });
+                downloadFile(exportFormat === 'csv' ? toCsv(table) : toXlsx(table, selectedProperty.name), fileName, formatInfo.mimeType);
+            }
+            toast({ title: "Export Ready", description: `${expensesInRange.length} expense(s) exported to ${fileName}.` });
+            onOpenChange(false);
+        } catch (err) {
+            console.error("Error exporting expenses:", err);
+            toast({ variant: "destructive", title: "Export Failed", description: err instanceof Error ? err.message : "Could not export expenses." });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => { if (!isExporting) onOpenChange(open); }}>
+            <DialogContent className="sm:max-w-[480px]">
+                <DialogHeader>
+                    <DialogTitle>Export Expenses</DialogTitle>
+                    <DialogDescription>
+                        {hasActiveFilters ? 'Exports the expenses matching your current filters.' : 'Exports all expenses for this property.'} Narrow it down to a date range, e.g. a tax year.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 py-2">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-1">
+                            <Label htmlFor="export-from">From</Label>
+                            <Input id="export-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="export-to">To</Label>
+                            <Input id="export-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+                        </div>
+                    </div>
+                    {isRangeInvalid && <p className="text-sm font-medium text-destructive">"From" must be on or before "To".</p>}
+                    <div className="space-y-1">
+                        <Label>Format</Label>
+                        <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExpenseExportFormat)}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>{EXPORT_FORMATS.map(f => <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>)}</SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                            {isSpreadsheet ? 'One row per expense with each member\'s share and status.' : 'A bank statement for accounting software. Splits and receipts are not included.'}
+                        </p>
+                    </div>
+                    {isSpreadsheet && (
+                        <div className="flex items-center space-x-2">
+                            <Checkbox id="export-receipts" checked={includeReceiptLinks} onCheckedChange={(checked) => setIncludeReceiptLinks(checked === true)} />
+                            <Label htmlFor="export-receipts" className="font-normal cursor-pointer">Include receipt links (valid for 7 days)</Label>
+                        </div>
+                    )}
+                    <p className="text-sm text-muted-foreground">
+                        {expensesInRange.length} expense(s), total {formatCurrency(expensesInRange.reduce((sum, e) => sum + Number(e.amount ?? 0), 0), selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY)}
+                    </p>
+                </div>
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>Cancel</Button>
+                    <Button type="button" onClick={handleExport} disabled={isExporting || isRangeInvalid || expensesInRange.length === 0}>
+                        {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />} Export
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default ExportExpensesDialog;
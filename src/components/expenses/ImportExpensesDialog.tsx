@@ -0,0 +1,302 @@
+// src/components/expenses/ImportExpensesDialog.tsx
+// v3 - Amounts are shown in the property's base currency.
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, FileUp, Loader2, Upload } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useCoOwner } from '@/contexts/CoOwnerContext';
+import { useExpenses, ExpenseImportRow, ExpenseImportResult } from '@/contexts/ExpenseContext';
+import { ExpenseCategory, ExpenseCategoryType, SplitMethod } from '@/integrations/supabase/types';
+import { cn, formatCategoryName, formatCurrency, formatDate } from '@/lib/utils';
+import { DEFAULT_BASE_CURRENCY } from '@/lib/currency';
+import {
+    parseCsv, guessColumnMapping, buildImportPreview, buildImportSplits, IMPORT_DATE_FORMATS,
+    CsvRecord, ImportColumnMapping, ImportDateFormat, ImportField, ImportSignConvention, ImportSplitMethod, ImportSkipReason
+} from '@/lib/expenseImport';
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done';
+
+const UNMAPPED = 'none';
+const MAX_FILE_SIZE_MB = 5;
+const FIELD_LABELS: Record<ImportField, string> = { date: 'Date *', amount: 'Amount *', description: 'Description *', category: 'Category' };
+const SIGN_CONVENTIONS: { value: ImportSignConvention; label: string }[] = [
+    { value: 'negative_is_expense', label: 'Expenses are negative (bank export)' },
+    { value: 'positive_is_expense', label: 'Expenses are positive (card export)' },
+    { value: 'absolute', label: 'Import every row' },
+];
+const IMPORT_SPLIT_METHODS: { value: ImportSplitMethod; label: string }[] = [
+    { value: SplitMethod.Equal, label: 'Equal' },
+    { value: SplitMethod.Ownership, label: 'Ownership' },
+    { value: SplitMethod.PayerOnly, label: 'Payer Only' },
+];
+const SKIP_LABELS: Record<ImportSkipReason, string> = { invalid: 'Invalid', not_expense: 'Credit', duplicate_existing: 'Duplicate', duplicate_in_file: 'Duplicate in file' };
+
+interface ImportExpensesDialogProps { isOpen: boolean; onOpenChange: (isOpen: boolean) => void; }
+
+const ImportExpensesDialog: React.FC<ImportExpensesDialogProps> = ({ isOpen, onOpenChange }) => {
+    const { user } = useAuth();
+    const { selectedProperty, propertyMembers } = useProperty();
+    const baseCurrency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
+    const { getStakesAsOf } = useCoOwner();
+    const { expenses, importExpenses } = useExpenses();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [step, setStep] = useState<WizardStep>('upload');
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [fileError, setFileError] = useState<string | null>(null);
+    const [csvRows, setCsvRows] = useState<CsvRecord[]>([]);
+    const [hasHeader, setHasHeader] = useState(true);
+    const [mapping, setMapping] = useState<ImportColumnMapping>({ date: null, amount: null, description: null, category: null });
+    const [dateFormat, setDateFormat] = useState<ImportDateFormat>('MM/dd/yyyy');
+    const [signConvention, setSignConvention] = useState<ImportSignConvention>('negative_is_expense');
+    const [defaultCategory, setDefaultCategory] = useState<ExpenseCategoryType>(ExpenseCategory.Other);
+    const [payerId, setPayerId] = useState<string>(user?.id ?? '');
+    const [splitMethod, setSplitMethod] = useState<ImportSplitMethod>(SplitMethod.Equal);
+    const [includeOverrides, setIncludeOverrides] = useState<Record<number, boolean>>({}); // rowNumber -> include, where the user overrode the default
+    const [isImporting, setIsImporting] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const [result, setResult] = useState<ExpenseImportResult | null>(null);
+
+    const members = useMemo(() => selectedProperty ? propertyMembers.filter(m => m.property_id === selectedProperty.id) : [], [propertyMembers, selectedProperty]);
+    const memberName = (userId: string) => { const profile = members.find(m => m.user_id === userId)?.profile; return [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || profile?.email || 'Unknown'; };
+
+    const columnCount = useMemo(() => csvRows.reduce((max, row) => Math.max(max, row.cells.length), 0), [csvRows]);
+    const columnLabels = useMemo(() => Array.from({ length: columnCount }, (_, i) => hasHeader && csvRows[0]?.cells[i] ? csvRows[0].cells[i] : `Column ${i + 1}`), [columnCount, csvRows, hasHeader]);
+    const dataRows = useMemo(() => hasHeader ? csvRows.slice(1) : csvRows, [csvRows, hasHeader]);
+
+    const previewRows = useMemo(() => step === 'preview'
+        ? buildImportPreview(dataRows, mapping, { dateFormat, signConvention, defaultCategory }, expenses)
+        : [], [step, dataRows, mapping, dateFormat, signConvention, defaultCategory, expenses]);
+    const isIncluded = (row: typeof previewRows[number]) => row.skipReason !== 'invalid' && (includeOverrides[row.rowNumber] ?? row.skipReason === null);
+    const rowsToCreate = previewRows.filter(isIncluded);
+    const canPreview = mapping.date != null && mapping.amount != null && mapping.description != null && !!payerId;
+
+    const resetWizard = () => {
+        setStep('upload'); setFileName(null); setFileError(null); setCsvRows([]); setHasHeader(true);
+        setMapping({ date: null, amount: null, description: null, category: null }); setIncludeOverrides({});
+        setIsImporting(false); setProgress(0); setResult(null); setPayerId(user?.id ?? '');
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    const handleOpenChange = (open: boolean) => {
+        if (isImporting) return; // Don't abandon a running import
+        if (!open) resetWizard();
+        onOpenChange(open);
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        setFileError(null);
+        if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) { setFileError(`Max file size is ${MAX_FILE_SIZE_MB}MB.`); return; }
+        const rows = parseCsv(await file.text());
+        if (rows.length < 2) { setFileError("The file needs a header row and at least one transaction."); return; }
+        setFileName(file.name);
+        setCsvRows(rows);
+        setHasHeader(true);
+        setMapping(guessColumnMapping(rows[0].cells));
+        setStep('map');
+    };
+
+    const handleImport = async () => {
+        if (!payerId) return;
+        setIsImporting(true); setProgress(0);
+        const memberIds = members.map(m => m.user_id);
+        const importRows: ExpenseImportRow[] = [];
+        const splitFailures: ExpenseImportResult['failed'] = [];
+        rowsToCreate.forEach(row => {
+            try {
+                const splits = buildImportSplits(row.amount!, splitMethod, payerId, memberIds, splitMethod === SplitMethod.Ownership ? getStakesAsOf(row.date!) : []);
+                importRows.push({ rowNumber: row.rowNumber, date: row.date!, description: row.description, amount: row.amount!, category: row.category, paid_by_user_id: payerId, split_method: splitMethod, splits });
+            } catch (err) {
+                splitFailures.push({ rowNumber: row.rowNumber, message: err instanceof Error ? err.message : String(err) });
+            }
+        });
+        const importResult = await importExpenses(importRows, done => setProgress(done));
+        setResult({ created: importResult.created, failed: [...splitFailures, ...importResult.failed].sort((a, b) => a.rowNumber - b.rowNumber) });
+        setIsImporting(false);
+        setStep('done');
+    };
+
+    const renderColumnSelect = (field: ImportField) => (
+        <div key={field} className="space-y-1">
+            <Label className="text-sm">{FIELD_LABELS[field]}</Label>
+            <Select value={mapping[field] == null ? UNMAPPED : String(mapping[field])} onValueChange={(value) => setMapping(prev => ({ ...prev, [field]: value === UNMAPPED ? null : Number(value) }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                    <SelectItem value={UNMAPPED}>{field === 'category' ? 'Use default category' : 'Not mapped'}</SelectItem>
+                    {columnLabels.map((label, index) => <SelectItem key={index} value={String(index)}>{label}</SelectItem>)}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+
+    return (
+        <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Import Expenses from CSV</DialogTitle>
+                    <DialogDescription>
+                        {step === 'upload' && 'Upload a bank or credit-card export. You will map its columns and review the rows before anything is created.'}
+                        {step === 'map' && `Tell us which columns of ${fileName ?? 'the file'} hold each field, and how imported expenses should be paid and split.`}
+                        {step === 'preview' && 'Review what will be imported. Likely duplicates of existing expenses are skipped unless you tick them.'}
+                        {step === 'done' && 'Import finished.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {step === 'upload' && (
+                    <div className="space-y-3 py-4">
+                        <Label htmlFor="import-csv-input" className="flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed border-input p-10 cursor-pointer hover:bg-accent">
+                            <FileUp className="h-8 w-8 text-muted-foreground" />
+                            <span className="text-sm font-medium">Choose a CSV file</span>
+                            <span className="text-xs text-muted-foreground">Comma, semicolon or tab separated. Max {MAX_FILE_SIZE_MB}MB.</span>
+                        </Label>
+                        <input id="import-csv-input" ref={fileInputRef} type="file" accept=".csv,text/csv" className="sr-only" onChange={handleFileChange} />
+                        {fileError && <Alert variant="destructive"><AlertCircle className="h-4 w-4" /><AlertDescription>{fileError}</AlertDescription></Alert>}
+                    </div>
+                )}
+
+                {step === 'map' && (
+                    <div className="space-y-4 py-2">
+                        <div className="flex items-center space-x-2">
+                            <Checkbox id="import-has-header" checked={hasHeader} onCheckedChange={(checked) => setHasHeader(checked === true)} />
+                            <Label htmlFor="import-has-header" className="font-normal cursor-pointer">First row is a header</Label>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">{(['date', 'amount', 'description', 'category'] as ImportField[]).map(renderColumnSelect)}</div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-1">
+                                <Label className="text-sm">Date Format</Label>
+                                <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as ImportDateFormat)}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>{IMPORT_DATE_FORMATS.map(f => <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>)}</SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-sm">Amount Signs</Label>
+                                <Select value={signConvention} onValueChange={(value) => setSignConvention(value as ImportSignConvention)}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>{SIGN_CONVENTIONS.map(c => <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>)}</SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-sm">Default Category</Label>
+                                <Select value={defaultCategory} onValueChange={(value) => setDefaultCategory(value as ExpenseCategoryType)}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>{Object.values(ExpenseCategory).map(c => <SelectItem key={c} value={c}>{formatCategoryName(c)}</SelectItem>)}</SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-sm">Paid By *</Label>
+                                <Select value={payerId || undefined} onValueChange={setPayerId}>
+                                    <SelectTrigger><SelectValue placeholder="Select who paid" /></SelectTrigger>
+                                    <SelectContent>{members.map(m => <SelectItem key={m.user_id} value={m.user_id}>{memberName(m.user_id)}{m.user_id === user?.id ? ' (You)' : ''}</SelectItem>)}</SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-sm">Split Method</Label>
+                                <Select value={splitMethod} onValueChange={(value) => setSplitMethod(value as ImportSplitMethod)}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>{IMPORT_SPLIT_METHODS.map(s => <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>)}</SelectContent>
+                                </Select>
+                                {splitMethod === SplitMethod.Ownership && <p className="text-xs text-muted-foreground">Each expense uses the stakes in effect on its date.</p>}
+                            </div>
+                        </div>
+                        <div className="rounded-md border">
+                            <p className="px-3 py-2 text-xs font-medium text-muted-foreground">First rows of {fileName}</p>
+                            <ScrollArea className="max-h-40">
+                                <Table>
+                                    <TableHeader><TableRow>{columnLabels.map((label, i) => <TableHead key={i} className="whitespace-nowrap">{label}</TableHead>)}</TableRow></TableHeader>
+                                    <TableBody>{dataRows.slice(0, 3).map((row, r) => <TableRow key={r}>{columnLabels.map((_, i) => <TableCell key={i} className="whitespace-nowrap text-xs">{row.cells[i] ?? ''}</TableCell>)}</TableRow>)}</TableBody>
+                                </Table>
+                            </ScrollArea>
+                        </div>
+                    </div>
+                )}
+
+                {step === 'preview' && (
+                    <div className="space-y-3 py-2">
+                        <div className="flex flex-wrap gap-2 text-sm">
+                            <Badge variant="default">{rowsToCreate.length} to create</Badge>
+                            <Badge variant="secondary">{previewRows.length - rowsToCreate.length} to skip</Badge>
+                            <span className="text-muted-foreground">Total {formatCurrency(rowsToCreate.reduce((sum, row) => sum + (row.amount ?? 0), 0), baseCurrency)}</span>
+                        </div>
+                        <ScrollArea className="h-[45vh] rounded-md border">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="w-10"></TableHead>
+                                        <TableHead>Row</TableHead>
+                                        <TableHead>Date</TableHead>
+                                        <TableHead>Description</TableHead>
+                                        <TableHead>Category</TableHead>
+                                        <TableHead className="text-right">Amount</TableHead>
+                                        <TableHead>Status</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {previewRows.map(row => (
+                                        <TableRow key={row.rowNumber} className={cn(!isIncluded(row) && "text-muted-foreground")}>
+                                            <TableCell>
+                                                <Checkbox checked={isIncluded(row)} disabled={row.skipReason === 'invalid' || isImporting} onCheckedChange={(checked) => setIncludeOverrides(prev => ({ ...prev, [row.rowNumber]: checked === true }))} aria-label={`Import row ${row.rowNumber}`} />
+                                            </TableCell>
+                                            <TableCell>{row.rowNumber}</TableCell>
+                                            <TableCell className="whitespace-nowrap">{row.date ? formatDate(row.date) : '—'}</TableCell>
+                                            <TableCell className="max-w-[220px] truncate" title={row.description}>{row.description || '—'}</TableCell>
+                                            <TableCell>{formatCategoryName(row.category)}</TableCell>
+                                            <TableCell className="text-right">{row.amount != null ? formatCurrency(row.amount, baseCurrency) : '—'}</TableCell>
+                                            <TableCell title={row.message ?? undefined}>
+                                                {row.skipReason ? <Badge variant={row.skipReason === 'invalid' ? 'destructive' : 'outline'}>{SKIP_LABELS[row.skipReason]}</Badge> : <Badge variant="secondary">New</Badge>}
+                                                {row.message && <p className="text-xs text-muted-foreground mt-1">{row.message}</p>}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </ScrollArea>
+                        {isImporting && <Progress value={rowsToCreate.length ? (progress / rowsToCreate.length) * 100 : 0} />}
+                    </div>
+                )}
+
+                {step === 'done' && result && (
+                    <div className="space-y-3 py-4">
+                        <p className="text-sm">{result.created} expense(s) created.</p>
+                        {result.failed.length > 0 && (
+                            <Alert variant="destructive">
+                                <AlertCircle className="h-4 w-4" />
+                                <AlertDescription>
+                                    <p className="font-medium">{result.failed.length} row(s) could not be imported:</p>
+                                    <ul className="mt-1 list-disc pl-5 text-xs">{result.failed.map(f => <li key={f.rowNumber}>Row {f.rowNumber}: {f.message}</li>)}</ul>
+                                </AlertDescription>
+                            </Alert>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {step === 'map' && <Button type="button" variant="outline" onClick={resetWizard}>Back</Button>}
+                    {step === 'map' && <Button type="button" disabled={!canPreview || dataRows.length === 0} onClick={() => { setIncludeOverrides({}); setStep('preview'); }}>Preview</Button>}
+                    {step === 'preview' && <Button type="button" variant="outline" disabled={isImporting} onClick={() => setStep('map')}>Back</Button>}
+                    {step === 'preview' && (
+                        <Button type="button" disabled={isImporting || rowsToCreate.length === 0} onClick={handleImport}>
+                            {isImporting ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Importing {progress}/{rowsToCreate.length}...</> : <><Upload className="mr-2 h-4 w-4" />Import {rowsToCreate.length} Expense(s)</>}
+                        </Button>
+                    )}
+                    {(step === 'upload' || step === 'done') && <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>Close</Button>}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default ImportExpensesDialog;
@@ -0,0 +1,313 @@
+// src/components/income/AddIncomeDialog.tsx
+// v3 - Distribution amounts are shown in the property's base currency.
+
+import React, { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format, parseISO, isValid as isValidDate } from 'date-fns';
+import { useIncome } from '@/lib/income';
+import { useCoOwner } from '@/contexts/CoOwnerContext';
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogTrigger,
+    DialogClose,
+} from '@/components/ui/dialog';
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Loader2, PlusCircle } from 'lucide-react';
+import { IncomeDistributionInput, IncomeDistributionMethod, IncomeSource } from '@/integrations/supabase/types';
+import { buildOwnershipDistributions } from '@/lib/profitAndLoss';
+import { formatCategoryName, formatCurrency } from '@/lib/utils';
+import { DEFAULT_BASE_CURRENCY } from '@/lib/currency';
+import { useProperty } from '@/contexts/PropertyContext';
+
+const incomeSchema = z.object({
+  date: z.string().refine(val => isValidDate(parseISO(val)), "Please enter a valid date."),
+  amount: z.coerce.number({ invalid_type_error: "Amount must be a number." }).positive("Amount must be greater than 0."),
+  source: z.nativeEnum(IncomeSource, { required_error: "Please select a source." }),
+  description: z.string().max(200, "Description must not exceed 200 characters.").optional(),
+  distribution_method: z.nativeEnum(IncomeDistributionMethod),
+  custom_amounts: z.record(z.coerce.number().min(0, "Amounts cannot be negative.").optional()),
+  notes: z.string().max(500, "Notes must not exceed 500 characters.").optional(),
+})
+.refine(data => data.distribution_method !== IncomeDistributionMethod.Custom
+  || Math.abs(Object.values(data.custom_amounts).reduce((sum: number, v) => sum + (Number(v) || 0), 0) - data.amount) < 0.01,
+  { message: "Custom amounts must add up to the income amount.", path: ["custom_amounts"] });
+
+type IncomeFormData = z.infer<typeof incomeSchema>;
+
+interface AddIncomeDialogProps {
+  trigger: React.ReactNode; // The element that opens the dialog
+}
+
+export function AddIncomeDialog({ trigger }: AddIncomeDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [distributionError, setDistributionError] = useState<string | null>(null);
+  const { addIncome } = useIncome();
+  const { members, getStakesAsOf } = useCoOwner();
+  const { selectedProperty } = useProperty();
+  const baseCurrency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
+
+  const defaultValues: IncomeFormData = {
+    date: format(new Date(), 'yyyy-MM-dd'),
+    amount: 0,
+    source: IncomeSource.RentalPlatform,
+    description: '',
+    distribution_method: IncomeDistributionMethod.Ownership,
+    custom_amounts: {},
+    notes: '',
+  };
+
+  const form = useForm<IncomeFormData>({
+    resolver: zodResolver(incomeSchema),
+    defaultValues,
+  });
+
+  const watchedDate = form.watch('date');
+  const watchedAmount = form.watch('amount');
+  const watchedMethod = form.watch('distribution_method');
+  const memberIds = useMemo(() => members.map(m => m.user_id), [members]);
+  const memberName = (userId: string): string => {
+    const profile = members.find(m => m.user_id === userId)?.profile;
+    return [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || profile?.email || 'Unnamed User';
+  };
+
+  // Preview of the ownership distribution on the income date
+  const ownershipPreview = useMemo((): { distributions: IncomeDistributionInput[]; error: string | null } => {
+    if (watchedMethod !== IncomeDistributionMethod.Ownership || !isValidDate(parseISO(watchedDate))) return { distributions: [], error: null };
+    try {
+      return { distributions: buildOwnershipDistributions(Number(watchedAmount) || 0, getStakesAsOf(watchedDate), memberIds), error: null };
+    } catch (err) {
+      return { distributions: [], error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [watchedMethod, watchedDate, watchedAmount, getStakesAsOf, memberIds]);
+
+  const onSubmit = async (data: IncomeFormData) => {
+    setDistributionError(null);
+    let distributions: IncomeDistributionInput[];
+    try {
+      distributions = data.distribution_method === IncomeDistributionMethod.Ownership
+        ? buildOwnershipDistributions(data.amount, getStakesAsOf(data.date), memberIds)
+        : Object.entries(data.custom_amounts)
+            .filter(([userId, amount]) => memberIds.includes(userId) && Number(amount) > 0)
+            .map(([userId, amount]) => ({ user_id: userId, amount: Number(amount) }));
+    } catch (err) {
+      setDistributionError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    setIsSubmitting(true);
+    const saved = await addIncome({
+      date: parseISO(data.date),
+      amount: data.amount,
+      source: data.source,
+      description: data.description,
+      distributionMethod: data.distribution_method,
+      notes: data.notes,
+      distributions,
+    });
+    setIsSubmitting(false);
+    // IncomeContext handles toasts; keep the dialog open on failure so the input isn't lost
+    if (saved) {
+      setIsOpen(false);
+      form.reset(defaultValues);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) { form.reset(defaultValues); setDistributionError(null); }
+  };
+
+  const customTotal = Object.values(form.watch('custom_amounts') ?? {}).reduce((sum: number, v) => sum + (Number(v) || 0), 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record Income</DialogTitle>
+          <DialogDescription>
+            Rental payouts, guest fees or forfeited deposits. Each member's share counts toward their profit & loss.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2 pb-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date Received</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="source"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Source</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a source" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.values(IncomeSource).map(source => (
+                          <SelectItem key={source} value={source}>{formatCategoryName(source)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="distribution_method"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Distribute By</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={IncomeDistributionMethod.Ownership}>Ownership</SelectItem>
+                        <SelectItem value={IncomeDistributionMethod.Custom}>Custom Amounts</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description (Optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Airbnb payout, July 12-19" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {watchedMethod === IncomeDistributionMethod.Ownership ? (
+              <div className="space-y-2 rounded-md border p-3">
+                <p className="text-sm font-medium">Distribution by Ownership</p>
+                {ownershipPreview.error ? (
+                  <Alert variant="destructive"><AlertCircle className="h-4 w-4" /><AlertDescription>{ownershipPreview.error}</AlertDescription></Alert>
+                ) : ownershipPreview.distributions.map(d => (
+                  <div key={d.user_id} className="flex justify-between text-sm">
+                    <span>{memberName(d.user_id)} <span className="text-muted-foreground">({d.percentage}%)</span></span>
+                    <span>{formatCurrency(d.amount, baseCurrency)}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-2 rounded-md border p-3">
+                <p className="text-sm font-medium">Custom Distribution</p>
+                {members.map(member => (
+                  <FormField
+                    key={member.user_id}
+                    control={form.control}
+                    name={`custom_amounts.${member.user_id}`}
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                        <FormLabel className="font-normal">{memberName(member.user_id)}</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.01" min="0" className="w-32" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                ))}
+                <p className="text-xs text-muted-foreground">Distributed {formatCurrency(customTotal, baseCurrency)} of {formatCurrency(Number(watchedAmount) || 0, baseCurrency)}</p>
+                <FormField control={form.control} name="custom_amounts" render={() => <FormItem><FormMessage /></FormItem>} />
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="e.g. Booking reference, platform fees withheld" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {distributionError && <Alert variant="destructive"><AlertCircle className="h-4 w-4" /><AlertDescription>{distributionError}</AlertDescription></Alert>}
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                )}
+                Record Income
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
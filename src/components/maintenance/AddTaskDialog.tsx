@@ -1,8 +1,5 @@
 // src/components/maintenance/AddTaskDialog.tsx
-// v9 - Add console logs to debug unresponsive submit button.
-//    - Added log inside the custom onSubmit function.
-//    - Added log inside the <form> onSubmit prop handler.
-//    - Based on v8 structure (manual form, no asChild, useMemo fix).
+// v10 - Scheduled dates are saved as calendar days (UTC midnight), matching the booking conflict check.
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { useForm, Controller } from 'react-hook-form';
@@ -25,7 +22,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useProperty } from '@/contexts/PropertyContext';
 import { useMaintenance } from '@/contexts/MaintenanceContext';
 import { MaintenanceTaskFormData, TablesInsert, BookingRow, Profile, MaintenanceStatus, MaintenancePriority, PropertyMemberWithProfile } from '@/integrations/supabase/types';
-import { cn } from '@/lib/utils';
+import { cn, toCalendarDayTimestamp } from '@/lib/utils';
 import { CalendarIcon, Loader2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -179,8 +176,8 @@ export const AddTaskDialog: React.FC<AddTaskDialogProps> = ({ isOpen, onOpenChan
             assignee_id: values.assignee_id || null, // Already handled in Controller
             vendor_name: values.vendor_name || null,
             vendor_contact: values.vendor_contact || null,
-            scheduled_date_start: values.scheduled_date_start ? values.scheduled_date_start.toISOString() : null,
-            scheduled_date_end: values.scheduled_date_end ? values.scheduled_date_end.toISOString() : null,
+            scheduled_date_start: values.scheduled_date_start ? toCalendarDayTimestamp(values.scheduled_date_start) : null,
+            scheduled_date_end: values.scheduled_date_end ? toCalendarDayTimestamp(values.scheduled_date_end) : null,
             estimated_cost: values.estimated_cost ? Number(values.estimated_cost) : null,
             blocks_booking: values.blocks_booking,
         };
@@ -1,10 +1,5 @@
 // src/components/maintenance/EditTaskDialog.tsx
-// v19 - Fix form pre-population issue.
-//   - Added explicit defaultValues to useForm matching the schema.
-//   - Corrected and detailed the form.reset() call within useEffect
-//     to ensure all fields are mapped correctly from the task prop,
-//     including date parsing (safeParseISO) and null handling.
-//   - Mapped DB field `completed_at` to form field `completed_date`.
+// v20 - Scheduled dates are read and saved as calendar days (UTC midnight), matching the booking conflict check.
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
@@ -34,7 +29,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useProperty } from '@/contexts/PropertyContext';
 import { useMaintenance } from '@/contexts/MaintenanceContext';
 import { MaintenanceTask, TablesUpdate, BookingRow, Profile, MaintenanceStatus, MaintenancePriority, PropertyMemberWithProfile } from '@/integrations/supabase/types';
-import { cn } from '@/lib/utils';
+import { cn, parseCalendarDayTimestamp, toCalendarDayTimestamp } from '@/lib/utils';
 import { CalendarIcon, Loader2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -158,8 +153,8 @@ export const EditTaskDialog: React.FC<EditTaskDialogProps> = ({ isOpen, onOpenCh
                 // Use null for optional numbers if task property is null/undefined
                 estimated_cost: task.estimated_cost === undefined ? null : task.estimated_cost,
                 // Parse dates safely, defaulting to null if parsing fails or source is null
-                scheduled_date_start: safeParseISO(task.scheduled_date_start, 'scheduled_date_start'),
-                scheduled_date_end: safeParseISO(task.scheduled_date_end, 'scheduled_date_end'),
+                scheduled_date_start: parseCalendarDayTimestamp(task.scheduled_date_start),
+                scheduled_date_end: parseCalendarDayTimestamp(task.scheduled_date_end),
                 // *** Map completed_at from DB to completed_date for the form ***
                 completed_date: safeParseISO(task.completed_at, 'completed_at'), // Source is task.completed_at
                 blocks_booking: task.blocks_booking || false,
@@ -301,8 +296,8 @@ export const EditTaskDialog: React.FC<EditTaskDialogProps> = ({ isOpen, onOpenCh
             // Ensure null if undefined/empty string/0, DB expects positive or null
              estimated_cost: values.estimated_cost ? Number(values.estimated_cost) : null,
              // Format dates back to ISO strings for Supabase, handle nulls
-            scheduled_date_start: values.scheduled_date_start ? values.scheduled_date_start.toISOString() : null,
-            scheduled_date_end: values.scheduled_date_end ? values.scheduled_date_end.toISOString() : null,
+            scheduled_date_start: values.scheduled_date_start ? toCalendarDayTimestamp(values.scheduled_date_start) : null,
+            scheduled_date_end: values.scheduled_date_end ? toCalendarDayTimestamp(values.scheduled_date_end) : null,
              // *** Map completed_date from form back to completed_at for DB ***
             completed_at: values.completed_date ? values.completed_date.toISOString() : null,
             blocks_booking: values.blocks_booking,
@@ -0,0 +1,115 @@
+// src/components/properties/ExchangeRatesCard.tsx
+// v1 - Property exchange-rate table: dated rates to the base currency that expense dialogs pick up automatically.
+
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { CURRENCIES, formatExchangeRate } from '@/lib/currency';
+import { formatDate } from '@/lib/utils';
+
+interface ExchangeRatesCardProps {
+  propertyId: string;
+  baseCurrency: string;
+}
+
+const ExchangeRatesCard: React.FC<ExchangeRatesCardProps> = ({ propertyId, baseCurrency }) => {
+  const { rates, isLoading, addRate, deleteRate } = useExchangeRates(propertyId);
+  const foreignCurrencies = CURRENCIES.filter(c => c.code !== baseCurrency);
+  const [currency, setCurrency] = useState(foreignCurrencies[0]?.code ?? '');
+  const [rate, setRate] = useState('');
+  const [rateDate, setRateDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const baseRates = rates.filter(r => r.base_currency === baseCurrency);
+  const canAdd = !!currency && currency !== baseCurrency && Number(rate) > 0 && !!rateDate;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    setIsSaving(true);
+    const added = await addRate({ baseCurrency, currency, rate: Number(rate), rateDate });
+    setIsSaving(false);
+    if (added) setRate('');
+  };
+
+  const handleDelete = async (rateId: string) => {
+    setDeletingId(rateId);
+    await deleteRate(rateId);
+    setDeletingId(null);
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="font-poppins font-semibold">Exchange Rates</CardTitle>
+        <CardDescription className="font-inter">
+          Rates to {baseCurrency} for bills in other currencies. New expenses use the latest rate on or before their date; it can still be overridden per expense.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="rate-currency">Currency</Label>
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger id="rate-currency"><SelectValue placeholder="Currency" /></SelectTrigger>
+              <SelectContent>
+                {foreignCurrencies.map(c => <SelectItem key={c.code} value={c.code}>{c.code} - {c.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate-value">1 {currency || '...'} in {baseCurrency}</Label>
+            <Input id="rate-value" type="number" step="any" min="0" placeholder="e.g. 1.08" value={rate} onChange={(e) => setRate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate-date">Effective Date</Label>
+            <Input id="rate-date" type="date" value={rateDate} onChange={(e) => setRateDate(e.target.value)} />
+          </div>
+          <Button type="submit" disabled={!canAdd || isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlusCircle className="mr-2 h-4 w-4" />} Add Rate
+          </Button>
+        </form>
+
+        {isLoading && !rates.length ? (
+          <div className="flex justify-center py-6"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Effective Date</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead className="text-right"><span className="sr-only">Actions</span></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {baseRates.length === 0 && (
+                <TableRow><TableCell colSpan={3} className="h-16 text-center text-muted-foreground">No exchange rates recorded.</TableCell></TableRow>
+              )}
+              {baseRates.map(r => (
+                <TableRow key={r.id}>
+                  <TableCell className="whitespace-nowrap">{formatDate(r.rate_date)}</TableCell>
+                  <TableCell>{formatExchangeRate(r.currency, r.base_currency, r.rate)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => handleDelete(r.id)} disabled={deletingId === r.id} aria-label="Delete exchange rate">
+                      {deletingId === r.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExchangeRatesCard;
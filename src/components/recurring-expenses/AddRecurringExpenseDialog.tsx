@@ -1,6 +1,6 @@
 // src/components/recurring-expenses/AddRecurringExpenseDialog.tsx
-// Corrected: Removed 'Constants' import and replaced its usage with imported enums.
-import React, { useState, useEffect } from 'react';
+// v8 - Default form values are memoised, so the reset effect only reruns when its inputs change.
+import React, { useState, useEffect, useMemo } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -26,6 +26,7 @@ import { format, startOfDay, parseISO, isValid as isValidDate } from 'date-fns';
 import { cn } from "@/lib/utils";
 import { useRecurringExpense } from '@/contexts/RecurringExpenseContext';
 import { useProperty } from '@/contexts/PropertyContext';
+import { useCoOwner } from '@/contexts/CoOwnerContext';
 import { useAuth } from '@/contexts/AuthContext';
 // Corrected Import Line: Removed Constants
 import {
@@ -37,9 +38,17 @@ import {
     Profile,
     PropertyMemberWithProfile,
     Json,
-    RecurringExpenseCategory // Make sure this is imported if different from ExpenseCategory
+    RecurringAmountMode,
+    RecurringEstimateMethod,
+    RecurringExpenseCategory, // Make sure this is imported if different from ExpenseCategory
+    MemberRole,
 } from '@/integrations/supabase/types';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { readEqualParticipants, readShareSplits, summarizeOwnershipStakes } from '@/lib/splits';
+import { parseRecurrenceRule } from '@/lib/recurrence';
+import { RecurrenceRuleBuilder } from './RecurrenceRuleBuilder';
+import { RecurringParticipantsPicker } from './RecurringParticipantsPicker';
 
 // --- Zod Validation Schema ---
 const recurringExpenseSchema = z.object({
@@ -56,6 +65,7 @@ const recurringExpenseSchema = z.object({
         (val) => (val === "" ? undefined : Number(val)),
         z.number({ invalid_type_error: "Interval must be a number" }).int().min(1, "Interval must be at least 1")
     ),
+    recurrence_rule: z.string().nullable().optional(), // RRULE; replaces frequency/interval when set
     start_date: z.date({ required_error: "Start date is required" }),
     end_date: z.date().optional().nullable(),
     paid_by_user_id: z.string().uuid("Payer is required"),
@@ -64,8 +74,16 @@ const recurringExpenseSchema = z.object({
     notes: z.string().optional().nullable(),
     percentage_splits: z.record(z.string().uuid(), z.number().min(0).max(100).nullable()).optional(),
     custom_splits: z.record(z.string().uuid(), z.number().min(0).nullable()).optional(),
+    share_splits: z.record(z.string().uuid(), z.number().int("Shares must be whole numbers").min(0).nullable()).optional(),
+    participant_ids: z.array(z.string().uuid()).optional(), // Equal split participants
+    amount_mode: z.nativeEnum(RecurringAmountMode).default(RecurringAmountMode.Fixed),
+    estimate_method: z.nativeEnum(RecurringEstimateMethod).default(RecurringEstimateMethod.Last),
     is_active: z.boolean().default(true),
 })
+.refine(data => {
+    if (data.recurrence_rule == null) return true;
+    try { parseRecurrenceRule(data.recurrence_rule); return true; } catch { return false; }
+}, { message: "Enter a valid recurrence rule", path: ["recurrence_rule"] })
 .refine(data => !data.end_date || data.end_date >= data.start_date, {
     message: "End date cannot be before start date",
     path: ["end_date"],
@@ -85,7 +103,17 @@ const recurringExpenseSchema = z.object({
         return Math.abs(total - data.amount) < 0.01;
     }
     return true;
-}, { message: "Custom amounts must add up to the total expense amount", path: ["custom_splits"] });
+}, { message: "Custom amounts must add up to the total expense amount", path: ["custom_splits"] })
+.refine(data => {
+    if (data.split_method === SplitMethod.Shares) {
+        return Object.values(data.share_splits ?? {}).some(val => (val ?? 0) > 0);
+    }
+    return true;
+}, { message: "Give at least one member a share", path: ["share_splits"] })
+.refine(data => data.split_method !== SplitMethod.Equal || (data.participant_ids ?? []).length > 0, {
+    message: "Choose at least one participant",
+    path: ["participant_ids"],
+});
 
 
 // --- Component Props ---
@@ -97,7 +125,7 @@ interface AddRecurringExpenseDialogProps {
 }
 
 // --- Helper to parse split_details for form ---
-const parseSplitDetailsForForm = (split_details: Json | null | undefined, method: SplitMethod | undefined): { percentage_splits?: Record<string, number | null>, custom_splits?: Record<string, number | null> } => {
+const parseSplitDetailsForForm = (split_details: Json | null | undefined, method: SplitMethod | undefined): { percentage_splits?: Record<string, number | null>, custom_splits?: Record<string, number | null>, share_splits?: Record<string, number | null> } => {
     if (!split_details || typeof split_details !== 'object' || !('splits' in split_details) || typeof split_details.splits !== 'object') {
         return {};
     }
@@ -120,6 +148,9 @@ const parseSplitDetailsForForm = (split_details: Json | null | undefined, method
          });
         return { custom_splits: customSplits };
     }
+    if (method === SplitMethod.Shares) {
+        return { share_splits: readShareSplits(split_details) };
+    }
     return {};
 };
 
@@ -132,19 +163,28 @@ export function AddRecurringExpenseDialog({
     isDuplicate = false
 }: AddRecurringExpenseDialogProps) {
     const { addRecurringExpense, isLoading: isContextLoading } = useRecurringExpense();
-    const { memberProfiles = [] } = useProperty();
+    const { selectedProperty, propertyMembers } = useProperty();
+    const { getStakesAsOf } = useCoOwner();
     const { user } = useAuth();
 
+    // Profiles of the selected property's members (propertyMembers spans every property the user belongs to)
+    const propertyMemberList = useMemo(() => propertyMembers.filter(m => m.property_id === selectedProperty?.id && m.profile), [propertyMembers, selectedProperty?.id]);
+    const memberProfiles = useMemo(() => propertyMemberList.map(m => m.profile!), [propertyMemberList]);
+    // Equal splits default to everyone except guests
+    const defaultParticipantIds = useMemo(() => propertyMemberList.filter(m => m.role !== MemberRole.Guest).map(m => m.user_id), [propertyMemberList]);
+    // generate-expenses uses the stakes in effect on each due date; today's stakes are shown as a preview
+    const ownershipSummary = useMemo(() => summarizeOwnershipStakes(getStakesAsOf(new Date())), [getStakesAsOf]);
+
     // Default form values
-    const defaultFormValues: RecurringExpenseFormData = {
+    const defaultFormValues = useMemo((): RecurringExpenseFormData => ({
         description: "", amount: 0, category: undefined, // Category is required, but might not have a default value preference
         frequency: Frequency.Monthly, // Corrected: Use enum
-        interval: 1,
+        interval: 1, recurrence_rule: null, amount_mode: RecurringAmountMode.Fixed, estimate_method: RecurringEstimateMethod.Last,
         start_date: startOfDay(new Date()), end_date: null,
         paid_by_user_id: user?.id ?? "", // Required, set from user or leave empty string if no user? Schema requires UUID.
         split_method: SplitMethod.Equal, // Corrected: Use enum
-        notes: "", percentage_splits: {}, custom_splits: {}, is_active: true,
-    };
+        notes: "", percentage_splits: {}, custom_splits: {}, share_splits: {}, participant_ids: defaultParticipantIds, is_active: true,
+    }), [user?.id, defaultParticipantIds]);
 
     const form = useForm<RecurringExpenseFormData>({
         resolver: zodResolver(recurringExpenseSchema),
@@ -155,6 +195,8 @@ export function AddRecurringExpenseDialog({
 
     const watchedSplitMethod = watch("split_method");
     const watchedAmount = watch("amount");
+    const watchedRecurrenceRule = watch("recurrence_rule");
+    const isVariableAmount = watch("amount_mode") === RecurringAmountMode.Variable;
     const isLoading = isFormSubmitting || isContextLoading; // Combined loading state
 
     // Effect to reset or populate the form when dialog opens/initialData changes
@@ -172,6 +214,9 @@ export function AddRecurringExpenseDialog({
                     category: initialData.category,
                     frequency: initialData.frequency,
                     interval: initialData.interval,
+                    recurrence_rule: initialData.recurrence_rule ?? null,
+                    amount_mode: initialData.amount_mode ?? RecurringAmountMode.Fixed,
+                    estimate_method: initialData.estimate_method ?? RecurringEstimateMethod.Last,
                     start_date: isDuplicate ? startOfDay(new Date()) : startDate,
                     end_date: isDuplicate ? null : endDate, // Keep end date when duplicating
                     paid_by_user_id: initialData.paid_by_user_id ?? (user?.id ?? ""), // Fallback to current user if initial missing
@@ -179,6 +224,8 @@ export function AddRecurringExpenseDialog({
                     notes: initialData.notes ?? "",
                     percentage_splits: splitFormValues.percentage_splits ?? {},
                     custom_splits: splitFormValues.custom_splits ?? {},
+                    share_splits: splitFormValues.share_splits ?? {},
+                    participant_ids: readEqualParticipants(initialData.split_details) ?? defaultParticipantIds,
                     is_active: isDuplicate ? true : initialData.is_active,
                 };
             } else {
@@ -194,7 +241,7 @@ export function AddRecurringExpenseDialog({
             }
             reset(valuesToSet);
         }
-    }, [isOpen, initialData, isDuplicate, reset, user, defaultFormValues]); // Removed setValue/getValues
+    }, [isOpen, initialData, isDuplicate, reset, user, defaultFormValues, defaultParticipantIds]); // Removed setValue/getValues
 
 
     const onSubmit = async (data: RecurringExpenseFormData) => {
@@ -232,7 +279,7 @@ export function AddRecurringExpenseDialog({
                         {/* Basic Details */}
                         <div className="grid grid-cols-2 gap-4">
                              <div className="space-y-2 col-span-2"> <Label htmlFor="description">Description</Label> <Input id="description" {...form.register("description")} placeholder="e.g., Monthly Rent, Annual HOA Dues" /> {errors.description && <p className="text-sm text-destructive">{errors.description.message}</p>} </div>
-                             <div className="space-y-2"> <Label htmlFor="amount">Amount ($)</Label> <Input id="amount" type="number" step="0.01" {...form.register("amount")} placeholder="0.00" /> {errors.amount && <p className="text-sm text-destructive">{errors.amount.message}</p>} </div>
+                             <div className="space-y-2"> <Label htmlFor="amount">{isVariableAmount ? 'Typical Amount ($)' : 'Amount ($)'}</Label> <Input id="amount" type="number" step="0.01" {...form.register("amount")} placeholder="0.00" /> {errors.amount && <p className="text-sm text-destructive">{errors.amount.message}</p>} </div>
                              <div className="space-y-2">
                                 <Label htmlFor="category">Category</Label>
                                 <Controller name="category" control={control} render={({ field }) => (
@@ -251,9 +298,37 @@ export function AddRecurringExpenseDialog({
                                 {errors.category && <p className="text-sm text-destructive">{errors.category.message}</p>}
                             </div>
                         </div>
+                        {/* Variable Amount: drafts go to the review queue instead of posting */}
+                        <div className="space-y-2">
+                            <div className="flex items-center space-x-2">
+                                <Controller name="amount_mode" control={control} render={({ field }) => (
+                                    <Checkbox id="add-amount_mode" checked={field.value === RecurringAmountMode.Variable} onCheckedChange={(checked) => field.onChange(checked ? RecurringAmountMode.Variable : RecurringAmountMode.Fixed)} />
+                                )}/>
+                                <Label htmlFor="add-amount_mode" className="font-normal">Amount varies each time (e.g. utilities)</Label>
+                            </div>
+                            {isVariableAmount && (
+                                <>
+                                    <p className="text-xs text-muted-foreground">Each due date creates a draft for the payer to confirm with the real figure; splits are worked out only then.</p>
+                                    <Controller name="estimate_method" control={control} render={({ field }) => (
+                                        <Select onValueChange={field.onChange} value={field.value}>
+                                            <SelectTrigger id="add-estimate_method"><SelectValue /></SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value={RecurringEstimateMethod.Last}>Estimate from the last bill</SelectItem>
+                                                <SelectItem value={RecurringEstimateMethod.Average}>Estimate from the average of recent bills</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                    )}/>
+                                </>
+                            )}
+                        </div>
                         {/* Schedule Details */}
                         <div className="grid grid-cols-4 gap-4">
-                             <div className="space-y-2 col-span-2">
+                             <div className="col-span-4">
+                                 <Controller name="recurrence_rule" control={control} render={({ field }) => (
+                                     <RecurrenceRuleBuilder idPrefix="add" value={field.value} onChange={field.onChange} startDate={watch("start_date")} error={errors.recurrence_rule?.message} />
+                                 )}/>
+                             </div>
+                             {watchedRecurrenceRule == null && (<div className="space-y-2 col-span-2">
                                 <Label htmlFor="frequency">Frequency</Label>
                                 <Controller name="frequency" control={control} render={({ field }) => (
                                     // Corrected: Use Frequency enum
@@ -269,8 +344,8 @@ export function AddRecurringExpenseDialog({
                                     </Select>
                                 )}/>
                                 {errors.frequency && <p className="text-sm text-destructive">{errors.frequency.message}</p>}
-                            </div>
-                             <div className="space-y-2 col-span-2"> <Label htmlFor="interval">Interval</Label> <Input id="interval" type="number" min="1" step="1" {...form.register("interval")} placeholder="e.g., 1 = every, 2 = every other" /> {errors.interval && <p className="text-sm text-destructive">{errors.interval.message}</p>} </div>
+                            </div>)}
+                             {watchedRecurrenceRule == null && (<div className="space-y-2 col-span-2"> <Label htmlFor="interval">Interval</Label> <Input id="interval" type="number" min="1" step="1" {...form.register("interval")} placeholder="e.g., 1 = every, 2 = every other" /> {errors.interval && <p className="text-sm text-destructive">{errors.interval.message}</p>} </div>)}
                              <div className="space-y-2 col-span-2">
                                  <Label htmlFor="start_date">Start Date</Label>
                                 <Controller name="start_date" control={control} render={({ field }) => ( <Popover> <PopoverTrigger asChild> <Button variant={"outline"} className={cn( "w-full justify-start text-left font-normal", !field.value && "text-muted-foreground" )}> <span className="flex items-center w-full"> <CalendarIcon className="mr-2 h-4 w-4 flex-shrink-0" /> <span className="truncate flex-grow"> {field.value ? format(field.value, "PPP") : "Pick a date"} </span> </span> </Button> </PopoverTrigger> <PopoverContent className="w-auto p-0"> <Calendar mode="single" selected={field.value} onSelect={(date) => field.onChange(date ? startOfDay(date) : undefined)} initialFocus /> </PopoverContent> </Popover> )}/>
@@ -319,6 +394,11 @@ export function AddRecurringExpenseDialog({
                             </div>
                         </div>
                         {/* Conditional Split Inputs */}
+                        {watchedSplitMethod === SplitMethod.Equal && (
+                            <Controller name="participant_ids" control={control} render={({ field }) => (
+                                <RecurringParticipantsPicker idPrefix="add" members={propertyMemberList} value={field.value} onChange={field.onChange} error={errors.participant_ids?.message} />
+                            )}/>
+                        )}
                         {watchedSplitMethod === SplitMethod.Percentage && ( // Corrected: Use enum
                             <div className="space-y-3 p-3 border rounded-md bg-slate-50 dark:bg-slate-800">
                                 <Label>Percentage Splits (%)</Label>
@@ -375,6 +455,48 @@ export function AddRecurringExpenseDialog({
                                 <p className="text-xs text-muted-foreground">Enter amounts. Must total ${watchedAmount?.toFixed(2) ?? '0.00'}.</p>
                             </div>
                         )}
+                        {watchedSplitMethod === SplitMethod.Ownership && (
+                            <div className="space-y-3 p-3 border rounded-md bg-slate-50 dark:bg-slate-800">
+                                <Label>Ownership Splits</Label>
+                                {memberProfiles.map(profile => (
+                                    <div key={profile.id} className="flex items-center justify-between text-sm">
+                                        <span>{profile.first_name} {profile.last_name}</span>
+                                        <span className="font-medium">{ownershipSummary.stakes.find(s => s.user_id === profile.id)?.weight ?? 0}%</span>
+                                    </div>
+                                ))}
+                                {!ownershipSummary.sumsTo100 && (
+                                    <Alert variant="default" className="border-yellow-500 text-yellow-700 [&>svg]:text-yellow-700"><AlertCircle className="h-4 w-4" /><AlertDescription className="text-xs">{ownershipSummary.stakes.length === 0 ? 'No ownership stakes are recorded for this property, so expenses cannot be generated with this method.' : `Ownership stakes add up to ${ownershipSummary.total}%, not 100%. Generated expenses will be split in proportion to the recorded stakes.`} Update the stakes on the Co-Owners page.</AlertDescription></Alert>
+                                )}
+                                <p className="text-xs text-muted-foreground">Each generated expense is split by the ownership stakes in effect on its due date. Current stakes are shown above.</p>
+                            </div>
+                        )}
+                        {watchedSplitMethod === SplitMethod.Shares && (
+                            <div className="space-y-3 p-3 border rounded-md bg-slate-50 dark:bg-slate-800">
+                                <Label>Share Splits</Label>
+                                {memberProfiles.map(profile => (
+                                    <div key={profile.id} className="flex items-center space-x-2">
+                                        <Label htmlFor={`shares_${profile.id}`} className="flex-1">{profile.first_name} {profile.last_name}</Label>
+                                        <Controller
+                                            name={`share_splits.${profile.id}` as const}
+                                            control={control}
+                                            render={({ field }) => (
+                                                <Input
+                                                    id={`shares_${profile.id}`}
+                                                    type="number" step="1" min="0"
+                                                    {...field}
+                                                    onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))}
+                                                    value={field.value ?? ''}
+                                                    className="w-24" placeholder="0"/>
+                                            )}
+                                        />
+                                    </div>
+                                ))}
+                                {errors.share_splits?.message && typeof errors.share_splits.message === 'string' && (
+                                    <p className="text-sm text-destructive">{errors.share_splits.message}</p>
+                                )}
+                                <p className="text-xs text-muted-foreground">Enter whole shares per member (e.g. weeks owned). Each generated expense is divided in proportion, to the cent.</p>
+                            </div>
+                        )}
                         {/* Notes */}
                         <div className="space-y-2"> <Label htmlFor="notes">Notes (Optional)</Label> <Textarea id="notes" {...form.register("notes")} placeholder="Add relevant details or instructions..." /> {errors.notes && <p className="text-sm text-destructive">{errors.notes.message}</p>} </div>
                         {/* Active Status */}
@@ -0,0 +1,121 @@
+// src/components/recurring-expenses/ConfirmRecurringDraftDialog.tsx
+// v1 - Confirm a variable-amount recurring bill: the real figure and, optionally, the bill itself.
+
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogClose,
+} from '@/components/ui/dialog';
+import {
+    Form,
+    FormControl,
+    FormDescription,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Loader2 } from 'lucide-react';
+import { RecurringExpenseDraft } from '@/integrations/supabase/types';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+const MAX_BILL_SIZE_MB = 5;
+const ACCEPTED_BILL_EXTENSIONS = ".jpg, .jpeg, .png, .webp, .pdf";
+
+const confirmDraftSchema = z.object({
+  amount: z.coerce.number({ invalid_type_error: "Amount must be a number." }).positive("Amount must be greater than 0."),
+  bill_file: z.custom<File | null>((file) => file === null || file instanceof File, "Invalid file.")
+    .refine((file) => !file || file.size <= MAX_BILL_SIZE_MB * 1024 * 1024, `Max file size is ${MAX_BILL_SIZE_MB}MB.`)
+    .nullable(),
+});
+
+type ConfirmDraftFormData = z.infer<typeof confirmDraftSchema>;
+
+interface ConfirmRecurringDraftDialogProps {
+  draft: RecurringExpenseDraft | null;
+  currency: string;
+  onOpenChange: (isOpen: boolean) => void;
+  onConfirm: (draft: RecurringExpenseDraft, amount: number, billFile: File | null) => Promise<boolean>;
+}
+
+export function ConfirmRecurringDraftDialog({ draft, currency, onOpenChange, onConfirm }: ConfirmRecurringDraftDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const form = useForm<ConfirmDraftFormData>({ resolver: zodResolver(confirmDraftSchema) });
+
+  useEffect(() => {
+    if (draft) form.reset({ amount: Number(draft.estimated_amount), bill_file: null });
+  }, [draft, form]);
+
+  const onSubmit = async (data: ConfirmDraftFormData) => {
+    if (!draft) return;
+    setIsSubmitting(true);
+    const posted = await onConfirm(draft, data.amount, data.bill_file);
+    setIsSubmitting(false);
+    if (posted) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!draft} onOpenChange={(open) => { if (!isSubmitting) onOpenChange(open); }}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Confirm Bill</DialogTitle>
+          <DialogDescription>
+            {draft?.recurring_expense?.description ?? 'Recurring expense'} due {draft ? formatDate(draft.occurrence_date) : ''}.
+            The expense is posted and split between members once you confirm the amount.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2">
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Billed Amount</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" min="0" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormDescription>Estimated at {formatCurrency(Number(draft?.estimated_amount ?? 0), currency)}; enter the figure on the bill.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="bill_file"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Bill (Optional)</FormLabel>
+                  <FormControl>
+                    <Input type="file" accept={ACCEPTED_BILL_EXTENSIONS} onChange={(e) => field.onChange(e.target.files?.[0] ?? null)} />
+                  </FormControl>
+                  <FormDescription>Stored as the expense's receipt.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" disabled={isSubmitting}>Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Post Expense
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
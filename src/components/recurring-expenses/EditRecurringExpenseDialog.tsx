@@ -1,7 +1,7 @@
 // src/components/recurring-expenses/EditRecurringExpenseDialog.tsx
-// v3 - Removed max-h constraint from ScrollArea to debug missing fields issue.
+// v10 - Equal splits pick their participants (guests left out by default).
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -21,22 +21,31 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
-import { CalendarIcon, Loader2 } from 'lucide-react';
+import { CalendarIcon, Loader2, AlertCircle } from 'lucide-react';
 import { format, startOfDay, parseISO, isValid as isValidDate } from 'date-fns';
 import { cn } from "@/lib/utils";
 import { useRecurringExpense } from '@/contexts/RecurringExpenseContext';
 import { useProperty } from '@/contexts/PropertyContext';
+import { useCoOwner } from '@/contexts/CoOwnerContext';
 import { useAuth } from '@/contexts/AuthContext';
 import {
     RecurringExpenseFormData,
     RecurringExpense,
+    RecurringAmountMode,
+    RecurringEstimateMethod,
     RecurringExpenseCategory,
     SplitMethod,
     Frequency,
     Profile,
     Json,
+    MemberRole,
 } from '@/integrations/supabase/types';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { readEqualParticipants, readShareSplits, summarizeOwnershipStakes } from '@/lib/splits';
+import { parseRecurrenceRule } from '@/lib/recurrence';
+import { RecurrenceRuleBuilder } from './RecurrenceRuleBuilder';
+import { RecurringParticipantsPicker } from './RecurringParticipantsPicker';
 import { useToast } from '@/hooks/use-toast';
 
 // --- Zod Validation Schema (No changes needed) ---
@@ -52,6 +61,7 @@ const recurringExpenseSchema = z.object({
         (val) => (val === "" ? undefined : Number(val)),
         z.number({ invalid_type_error: "Interval must be a number" }).int().min(1, "Interval must be at least 1")
     ),
+    recurrence_rule: z.string().nullable().optional(), // RRULE; replaces frequency/interval when set
     start_date: z.date({ required_error: "Start date is required" }),
     end_date: z.date().optional().nullable(),
     paid_by_user_id: z.string().uuid("Payer is required"),
@@ -59,8 +69,17 @@ const recurringExpenseSchema = z.object({
     notes: z.string().optional().nullable(),
     percentage_splits: z.record(z.string().uuid(), z.number().min(0).max(100).nullable()).optional(),
     custom_splits: z.record(z.string().uuid(), z.number().min(0).nullable()).optional(),
+    share_splits: z.record(z.string().uuid(), z.number().int("Shares must be whole numbers").min(0).nullable()).optional(),
+    participant_ids: z.array(z.string().uuid()).optional(), // Equal split participants
+    amount_mode: z.nativeEnum(RecurringAmountMode).default(RecurringAmountMode.Fixed),
+    estimate_method: z.nativeEnum(RecurringEstimateMethod).default(RecurringEstimateMethod.Last),
     is_active: z.boolean().default(true),
+    terms_effective_from: z.date().optional().nullable(), // Only used when amount/payer/split change
 })
+.refine(data => {
+    if (data.recurrence_rule == null) return true;
+    try { parseRecurrenceRule(data.recurrence_rule); return true; } catch { return false; }
+}, { message: "Enter a valid recurrence rule", path: ["recurrence_rule"] })
 .refine(data => !data.end_date || data.end_date >= data.start_date, {
     message: "End date cannot be before start date",
     path: ["end_date"],
@@ -77,7 +96,16 @@ const recurringExpenseSchema = z.object({
         const currentAmount = data.amount ?? 0;
         return Math.abs(total - currentAmount) < 0.01;
     } return true;
-}, { message: "Custom amounts must add up to the total expense amount", path: ["custom_splits"] });
+}, { message: "Custom amounts must add up to the total expense amount", path: ["custom_splits"] })
+.refine(data => { // Shares Check
+    if (data.split_method === SplitMethod.Shares) {
+        return Object.values(data.share_splits ?? {}).some(val => (val ?? 0) > 0);
+    } return true;
+}, { message: "Give at least one member a share", path: ["share_splits"] })
+.refine(data => data.split_method !== SplitMethod.Equal || (data.participant_ids ?? []).length > 0, {
+    message: "Choose at least one participant",
+    path: ["participant_ids"],
+});
 
 
 // --- Component Props ---
@@ -88,7 +116,7 @@ interface EditRecurringExpenseDialogProps {
 }
 
 // Helper to parse split_details (No changes needed)
-const parseSplitDetailsForForm = (split_details: Json | null | undefined, method: SplitMethod | undefined): { percentage_splits?: Record<string, number | null>, custom_splits?: Record<string, number | null> } => {
+const parseSplitDetailsForForm = (split_details: Json | null | undefined, method: SplitMethod | undefined): { percentage_splits?: Record<string, number | null>, custom_splits?: Record<string, number | null>, share_splits?: Record<string, number | null> } => {
     // Simplified implementation for brevity in example
     if (!split_details || typeof split_details !== 'object') return {};
     // Basic parsing logic would go here...
@@ -98,22 +126,33 @@ const parseSplitDetailsForForm = (split_details: Json | null | undefined, method
     if (method === SplitMethod.Custom && split_details && 'splits' in split_details) {
       return { custom_splits: split_details.splits as Record<string, number | null> };
     }
+    if (method === SplitMethod.Shares) {
+      return { share_splits: readShareSplits(split_details) };
+    }
     return {};
 };
 
 export function EditRecurringExpenseDialog({ expenseToEdit, isOpen, onOpenChange }: EditRecurringExpenseDialogProps) {
     const { updateRecurringExpense, isLoading: isContextLoading } = useRecurringExpense();
-    const { memberProfiles = [] } = useProperty(); // Provide default empty array
+    const { selectedProperty, propertyMembers } = useProperty();
+    const { getStakesAsOf } = useCoOwner();
     const { user } = useAuth();
+    // Profiles of the selected property's members (propertyMembers spans every property the user belongs to)
+    const propertyMemberList = useMemo(() => propertyMembers.filter(m => m.property_id === selectedProperty?.id && m.profile), [propertyMembers, selectedProperty?.id]);
+    const memberProfiles = useMemo(() => propertyMemberList.map(m => m.profile!), [propertyMemberList]);
+    // Templates from before participant sets split among every member; offer everyone except guests instead
+    const defaultParticipantIds = useMemo(() => propertyMemberList.filter(m => m.role !== MemberRole.Guest).map(m => m.user_id), [propertyMemberList]);
+    // generate-expenses uses the stakes in effect on each due date; today's stakes are shown as a preview
+    const ownershipSummary = useMemo(() => summarizeOwnershipStakes(getStakesAsOf(new Date())), [getStakesAsOf]);
     const { toast } = useToast();
 
     const defaultFormValues: Partial<RecurringExpenseFormData> = {
         description: "", amount: 0, category: undefined,
-        frequency: Frequency.Monthly, interval: 1,
+        frequency: Frequency.Monthly, interval: 1, recurrence_rule: null, amount_mode: RecurringAmountMode.Fixed, estimate_method: RecurringEstimateMethod.Last,
         start_date: startOfDay(new Date()), end_date: null,
         paid_by_user_id: undefined,
         split_method: SplitMethod.Equal,
-        notes: "", percentage_splits: {}, custom_splits: {}, is_active: true,
+        notes: "", percentage_splits: {}, custom_splits: {}, share_splits: {}, participant_ids: [], is_active: true,
     };
 
     const form = useForm<RecurringExpenseFormData>({
@@ -121,11 +160,14 @@ export function EditRecurringExpenseDialog({ expenseToEdit, isOpen, onOpenChange
         defaultValues: defaultFormValues as RecurringExpenseFormData, // Cast needed if partial isn't deep
     });
 
-    const { handleSubmit, control, watch, reset, formState: { errors, isSubmitting: isFormSubmitting, isDirty }, setError } = form;
+    const { handleSubmit, control, watch, reset, formState: { errors, isSubmitting: isFormSubmitting, isDirty, dirtyFields }, setError } = form;
 
     const watchedSplitMethod = watch("split_method");
     const watchedAmount = watch("amount");
+    const watchedRecurrenceRule = watch("recurrence_rule");
+    const isVariableAmount = watch("amount_mode") === RecurringAmountMode.Variable;
     const isLoading = isFormSubmitting || isContextLoading;
+    const termsDirty = !!(dirtyFields.amount || dirtyFields.paid_by_user_id || dirtyFields.split_method || dirtyFields.percentage_splits || dirtyFields.custom_splits || dirtyFields.share_splits || dirtyFields.participant_ids);
 
     // --- Effect to Populate Form (No changes needed) ---
     useEffect(() => {
@@ -145,6 +187,9 @@ export function EditRecurringExpenseDialog({ expenseToEdit, isOpen, onOpenChange
                 category: expenseToEdit.category,
                 frequency: expenseToEdit.frequency,
                 interval: expenseToEdit.interval ?? 1,
+                recurrence_rule: expenseToEdit.recurrence_rule ?? null,
+                amount_mode: expenseToEdit.amount_mode ?? RecurringAmountMode.Fixed,
+                estimate_method: expenseToEdit.estimate_method ?? RecurringEstimateMethod.Last,
                 start_date: startDate,
                 end_date: endDate,
                 paid_by_user_id: expenseToEdit.paid_by_user_id ?? (user?.id ?? undefined), // Fallback if missing, ensure required
@@ -152,10 +197,14 @@ export function EditRecurringExpenseDialog({ expenseToEdit, isOpen, onOpenChange
                 notes: expenseToEdit.notes ?? "",
                 percentage_splits: splitFormValues.percentage_splits ?? {},
                 custom_splits: splitFormValues.custom_splits ?? {},
+                share_splits: splitFormValues.share_splits ?? {},
+                participant_ids: readEqualParticipants(expenseToEdit.split_details) ?? defaultParticipantIds,
                 is_active: expenseToEdit.is_active ?? true,
+                // New terms default to starting with the next bill
+                terms_effective_from: expenseToEdit.next_due_date && isValidDate(parseISO(expenseToEdit.next_due_date)) ? parseISO(expenseToEdit.next_due_date) : startOfDay(new Date()),
             });
         }
-    }, [expenseToEdit, isOpen, reset, user]);
+    }, [expenseToEdit, isOpen, reset, user, defaultParticipantIds]);
 
     // --- Submission Handler (No changes needed) ---
     const onSubmit = async (data: RecurringExpenseFormData) => {
@@ -202,7 +251,7 @@ export function EditRecurringExpenseDialog({ expenseToEdit, isOpen, onOpenChange
                             {/* --- Basic Details Fields --- */}
                             <div className="grid grid-cols-2 gap-4">
                                 <div className="space-y-2 col-span-2"> <Label htmlFor="edit-description">Description</Label> <Input id="edit-description" {...form.register("description")} placeholder="e.g., Monthly Rent" /> {errors.description && <p className="text-sm text-destructive">{errors.description.message}</p>} </div>
-                                <div className="space-y-2"> <Label htmlFor="edit-amount">Amount ($)</Label> <Input id="edit-amount" type="number" step="0.01" {...form.register("amount")} placeholder="0.00" /> {errors.amount && <p className="text-sm text-destructive">{errors.amount.message}</p>} </div>
+                                <div className="space-y-2"> <Label htmlFor="edit-amount">{isVariableAmount ? 'Typical Amount ($)' : 'Amount ($)'}</Label> <Input id="edit-amount" type="number" step="0.01" {...form.register("amount")} placeholder="0.00" /> {errors.amount && <p className="text-sm text-destructive">{errors.amount.message}</p>} </div>
                                 <div className="space-y-2">
                                     <Label htmlFor="edit-category">Category</Label>
                                     <Controller name="category" control={control} render={({ field }) => (
@@ -220,9 +269,37 @@ export function EditRecurringExpenseDialog({ expenseToEdit, isOpen, onOpenChange
                                     {errors.category && <p className="text-sm text-destructive">{errors.category.message}</p>}
                                 </div>
                             </div>
+                            {/* Variable Amount: drafts go to the review queue instead of posting */}
+                            <div className="space-y-2">
+                                <div className="flex items-center space-x-2">
+                                    <Controller name="amount_mode" control={control} render={({ field }) => (
+                                        <Checkbox id="edit-amount_mode" checked={field.value === RecurringAmountMode.Variable} onCheckedChange={(checked) => field.onChange(checked ? RecurringAmountMode.Variable : RecurringAmountMode.Fixed)} />
+                                    )}/>
+                                    <Label htmlFor="edit-amount_mode" className="font-normal">Amount varies each time (e.g. utilities)</Label>
+                                </div>
+                                {isVariableAmount && (
+                                    <>
+                                        <p className="text-xs text-muted-foreground">Each due date creates a draft for the payer to confirm with the real figure; splits are worked out only then.</p>
+                                        <Controller name="estimate_method" control={control} render={({ field }) => (
+                                            <Select onValueChange={field.onChange} value={field.value}>
+                                                <SelectTrigger id="edit-estimate_method"><SelectValue /></SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value={RecurringEstimateMethod.Last}>Estimate from the last bill</SelectItem>
+                                                    <SelectItem value={RecurringEstimateMethod.Average}>Estimate from the average of recent bills</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                        )}/>
+                                    </>
+                                )}
+                            </div>
                             {/* --- Schedule Details Fields --- */}
                             <div className="grid grid-cols-4 gap-4">
-                                <div className="space-y-2 col-span-2">
+                                <div className="col-span-4">
+                                    <Controller name="recurrence_rule" control={control} render={({ field }) => (
+                                        <RecurrenceRuleBuilder idPrefix="edit" value={field.value} onChange={field.onChange} startDate={watch("start_date")} error={errors.recurrence_rule?.message} />
+                                    )}/>
+                                </div>
+                                {watchedRecurrenceRule == null && (<div className="space-y-2 col-span-2">
                                     <Label htmlFor="edit-frequency">Frequency</Label>
                                     <Controller name="frequency" control={control} render={({ field }) => (
                                         <Select onValueChange={field.onChange} value={field.value}>
@@ -237,8 +314,8 @@ export function EditRecurringExpenseDialog({ expenseToEdit, isOpen, onOpenChange
                                         </Select>
                                     )}/>
                                     {errors.frequency && <p className="text-sm text-destructive">{errors.frequency.message}</p>}
-                                </div>
-                                <div className="space-y-2 col-span-2"> <Label htmlFor="edit-interval">Interval</Label> <Input id="edit-interval" type="number" min="1" step="1" {...form.register("interval")} placeholder="e.g., 1 = every" /> {errors.interval && <p className="text-sm text-destructive">{errors.interval.message}</p>} </div>
+                                </div>)}
+                                {watchedRecurrenceRule == null && (<div className="space-y-2 col-span-2"> <Label htmlFor="edit-interval">Interval</Label> <Input id="edit-interval" type="number" min="1" step="1" {...form.register("interval")} placeholder="e.g., 1 = every" /> {errors.interval && <p className="text-sm text-destructive">{errors.interval.message}</p>} </div>)}
                                 <div className="space-y-2 col-span-2">
                                     <Label htmlFor="edit-start_date">Start Date</Label>
                                     <Controller name="start_date" control={control} render={({ field }) => (
@@ -317,6 +394,11 @@ export function EditRecurringExpenseDialog({ expenseToEdit, isOpen, onOpenChange
                                 </div>
                             </div>
                             {/* --- Conditional Split Inputs --- */}
+                            {watchedSplitMethod === SplitMethod.Equal && (
+                                <Controller name="participant_ids" control={control} render={({ field }) => (
+                                    <RecurringParticipantsPicker idPrefix="edit" members={propertyMemberList} value={field.value} onChange={field.onChange} error={errors.participant_ids?.message} />
+                                )}/>
+                            )}
                             {watchedSplitMethod === SplitMethod.Percentage && (
                                 <div className="space-y-3 p-3 border rounded-md bg-slate-50 dark:bg-slate-800">
                                     <Label>Percentage Splits (%)</Label>
@@ -351,6 +433,56 @@ export function EditRecurringExpenseDialog({ expenseToEdit, isOpen, onOpenChange
                                     <p className="text-xs text-muted-foreground">Enter amounts. Must total ${typeof watchedAmount === 'number' ? watchedAmount.toFixed(2) : '0.00'}.</p>
                                 </div>
                              )}
+                            {watchedSplitMethod === SplitMethod.Ownership && (
+                                <div className="space-y-3 p-3 border rounded-md bg-slate-50 dark:bg-slate-800">
+                                    <Label>Ownership Splits</Label>
+                                    {memberProfiles.map(profile => (
+                                        <div key={profile.id} className="flex items-center justify-between text-sm">
+                                            <span>{profile.first_name} {profile.last_name}</span>
+                                            <span className="font-medium">{ownershipSummary.stakes.find(s => s.user_id === profile.id)?.weight ?? 0}%</span>
+                                        </div>
+                                    ))}
+                                    {!ownershipSummary.sumsTo100 && (
+                                        <Alert variant="default" className="border-yellow-500 text-yellow-700 [&>svg]:text-yellow-700"><AlertCircle className="h-4 w-4" /><AlertDescription className="text-xs">{ownershipSummary.stakes.length === 0 ? 'No ownership stakes are recorded for this property, so expenses cannot be generated with this method.' : `Ownership stakes add up to ${ownershipSummary.total}%, not 100%. Generated expenses will be split in proportion to the recorded stakes.`} Update the stakes on the Co-Owners page.</AlertDescription></Alert>
+                                    )}
+                                    <p className="text-xs text-muted-foreground">Each generated expense is split by the ownership stakes in effect on its due date. Current stakes are shown above.</p>
+                                </div>
+                            )}
+                            {watchedSplitMethod === SplitMethod.Shares && (
+                                <div className="space-y-3 p-3 border rounded-md bg-slate-50 dark:bg-slate-800">
+                                    <Label>Share Splits</Label>
+                                    {memberProfiles.map(profile => (
+                                        <div key={profile.id} className="flex items-center space-x-2">
+                                            <Label htmlFor={`edit-shares_${profile.id}`} className="flex-1">{profile.first_name} {profile.last_name}</Label>
+                                            <Controller name={`share_splits.${profile.id}` as const} control={control} render={({ field }) => (
+                                                <Input id={`edit-shares_${profile.id}`} type="number" step="1" min="0" {...field} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} value={field.value ?? ''} className="w-24" placeholder="0"/>
+                                            )}/>
+                                        </div>
+                                    ))}
+                                    {errors.share_splits?.message && typeof errors.share_splits.message === 'string' && (
+                                        <p className="text-sm text-destructive">{errors.share_splits.message}</p>
+                                    )}
+                                    <p className="text-xs text-muted-foreground">Enter whole shares per member (e.g. weeks owned). Each generated expense is divided in proportion, to the cent.</p>
+                                </div>
+                             )}
+                            {/* --- Terms Effective Date: shown once amount, payer or split change --- */}
+                            {termsDirty && (
+                                <div className="space-y-2 p-3 border rounded-md">
+                                    <Label htmlFor="edit-terms_effective_from">New Amount and Split Apply From</Label>
+                                    <Controller name="terms_effective_from" control={control} render={({ field }) => (
+                                        <Popover>
+                                            <PopoverTrigger asChild>
+                                                <Button id="edit-terms_effective_from" variant={"outline"} className={cn("w-full justify-start text-left font-normal", !field.value && "text-muted-foreground")}>
+                                                    <CalendarIcon className="mr-2 h-4 w-4 flex-shrink-0" />
+                                                    <span className="truncate flex-grow">{field.value ? format(field.value, "PPP") : "Pick a date"}</span>
+                                                </Button>
+                                            </PopoverTrigger>
+                                            <PopoverContent className="w-auto p-0"> <Calendar mode="single" selected={field.value ?? undefined} onSelect={(date) => field.onChange(date ? startOfDay(date) : null)} initialFocus /> </PopoverContent>
+                                        </Popover>
+                                    )}/>
+                                    <p className="text-xs text-muted-foreground">Occurrences before this date keep the previous amount, payer and split. The change history is shown on the template's details.</p>
+                                </div>
+                            )}
                             {/* --- Notes Field --- */}
                             <div className="space-y-2"> <Label htmlFor="edit-notes">Notes (Optional)</Label> <Textarea id="edit-notes" {...form.register("notes")} placeholder="Add relevant details or instructions..." /> {errors.notes && <p className="text-sm text-destructive">{errors.notes.message}</p>} </div>
                             {/* --- Active Status Field --- */}
@@ -0,0 +1,135 @@
+// src/components/recurring-expenses/RecurrenceRuleBuilder.tsx
+// v1 - Optional RRULE schedule for recurring expense templates: presets, structured fields, raw rule text and a preview.
+
+import React, { useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { describeRecurrenceRule, formatRecurrenceRule, parseRecurrenceRule, ruleOccurrences, RecurrenceRule, RRULE_WEEKDAYS, RRuleFrequency, RRuleWeekday } from '@/lib/recurrence';
+
+interface RecurrenceRuleBuilderProps {
+    idPrefix: string; // Keeps label ids unique when Add and Edit dialogs are both mounted
+    value: string | null | undefined; // null = use the simple frequency/interval schedule
+    onChange: (value: string | null) => void;
+    startDate: Date | undefined; // DTSTART, used for the preview
+    error?: string;
+}
+
+const PRESETS: { label: string; rule: string }[] = [
+    { label: 'Last business day of the month', rule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1' },
+    { label: '1st and 15th of the month', rule: 'FREQ=MONTHLY;BYMONTHDAY=1,15' },
+    { label: 'Last day of the month', rule: 'FREQ=MONTHLY;BYMONTHDAY=-1' },
+    { label: 'First Monday of the month', rule: 'FREQ=MONTHLY;BYDAY=1MO' },
+    { label: 'Every other Friday', rule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=FR' },
+];
+const FREQUENCY_LABELS: Record<RRuleFrequency, string> = { DAILY: 'Days', WEEKLY: 'Weeks', MONTHLY: 'Months', YEARLY: 'Years' };
+const SET_POSITIONS: { label: string; value: string }[] = [
+    { label: 'Every matching day', value: 'all' }, { label: 'First', value: '1' }, { label: 'Second', value: '2' },
+    { label: 'Third', value: '3' }, { label: 'Fourth', value: '4' }, { label: 'Last', value: '-1' },
+];
+const PREVIEW_COUNT = 5;
+
+export function RecurrenceRuleBuilder({ idPrefix, value, onChange, startDate, error }: RecurrenceRuleBuilderProps) {
+    const isEnabled = value !== null && value !== undefined;
+    const dtstart = startDate ? format(startDate, 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd');
+
+    // The rule text is the source of truth; structured fields edit whatever part of it parses
+    const parsed = useMemo((): { rule: RecurrenceRule | null; message: string | null } => {
+        if (!isEnabled) return { rule: null, message: null };
+        try { return { rule: parseRecurrenceRule(value!), message: null }; }
+        catch (err) { return { rule: null, message: err instanceof Error ? err.message : 'Invalid rule.' }; }
+    }, [isEnabled, value]);
+    const preview = useMemo(() => parsed.rule ? ruleOccurrences(parsed.rule, dtstart, dtstart, '9999-12-31', PREVIEW_COUNT) : [], [parsed.rule, dtstart]);
+
+    const updateRule = (changes: Partial<RecurrenceRule>) => {
+        if (!parsed.rule) return;
+        const next = { ...parsed.rule, ...changes };
+        // Numbered weekdays and month days only make sense for some frequencies; drop them rather than leave an invalid rule
+        if (next.freq === 'DAILY' || next.freq === 'WEEKLY') next.byDay = next.byDay.map(d => ({ ...d, ordinal: null }));
+        if (next.freq === 'WEEKLY') next.byMonthDay = [];
+        if (next.bySetPos.length && !next.byDay.length && !next.byMonthDay.length && !next.byMonth.length) next.bySetPos = [];
+        onChange(formatRecurrenceRule(next));
+    };
+
+    const presetValue = PRESETS.find(p => p.rule === value)?.rule ?? 'custom';
+
+    return (
+        <div className="space-y-3 rounded-md border p-3">
+            <div className="flex items-center space-x-2">
+                <Checkbox id={`${idPrefix}-use-rule`} checked={isEnabled} onCheckedChange={(checked) => onChange(checked ? PRESETS[0].rule : null)} />
+                <Label htmlFor={`${idPrefix}-use-rule`} className="font-normal">Use a custom schedule (e.g. last business day of the month)</Label>
+            </div>
+            {isEnabled && (
+                <>
+                    <div className="space-y-2">
+                        <Label htmlFor={`${idPrefix}-rule-preset`}>Preset</Label>
+                        <Select value={presetValue} onValueChange={(preset) => { if (preset !== 'custom') onChange(preset); }}>
+                            <SelectTrigger id={`${idPrefix}-rule-preset`}><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                {PRESETS.map(p => <SelectItem key={p.rule} value={p.rule}>{p.label}</SelectItem>)}
+                                <SelectItem value="custom">Custom</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    {parsed.rule && (
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                                <Label htmlFor={`${idPrefix}-rule-interval`}>Repeat Every</Label>
+                                <div className="flex gap-2">
+                                    <Input id={`${idPrefix}-rule-interval`} type="number" min="1" step="1" className="w-20" value={parsed.rule.interval}
+                                        onChange={(e) => { const interval = Number(e.target.value); if (Number.isInteger(interval) && interval >= 1) updateRule({ interval }); }} />
+                                    <Select value={parsed.rule.freq} onValueChange={(freq) => updateRule({ freq: freq as RRuleFrequency })}>
+                                        <SelectTrigger><SelectValue /></SelectTrigger>
+                                        <SelectContent>{(Object.keys(FREQUENCY_LABELS) as RRuleFrequency[]).map(f => <SelectItem key={f} value={f}>{FREQUENCY_LABELS[f]}</SelectItem>)}</SelectContent>
+                                    </Select>
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor={`${idPrefix}-rule-setpos`}>Which Occurrence</Label>
+                                <Select value={parsed.rule.bySetPos.length === 1 ? String(parsed.rule.bySetPos[0]) : 'all'} onValueChange={(pos) => updateRule({ bySetPos: pos === 'all' ? [] : [Number(pos)] })}
+                                    disabled={!parsed.rule.byDay.length && !parsed.rule.byMonthDay.length}>
+                                    <SelectTrigger id={`${idPrefix}-rule-setpos`}><SelectValue /></SelectTrigger>
+                                    <SelectContent>{SET_POSITIONS.map(p => <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>)}</SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2 col-span-2">
+                                <Label>On Weekdays</Label>
+                                <ToggleGroup type="multiple" variant="outline" size="sm" className="justify-start flex-wrap"
+                                    value={parsed.rule.byDay.filter(d => d.ordinal === null).map(d => d.weekday)}
+                                    onValueChange={(days: string[]) => updateRule({ byDay: [...parsed.rule!.byDay.filter(d => d.ordinal !== null), ...RRULE_WEEKDAYS.filter(d => days.includes(d)).map(weekday => ({ weekday: weekday as RRuleWeekday, ordinal: null }))] })}>
+                                    {RRULE_WEEKDAYS.map(day => <ToggleGroupItem key={day} value={day} aria-label={day}>{day.charAt(0)}{day.charAt(1).toLowerCase()}</ToggleGroupItem>)}
+                                </ToggleGroup>
+                            </div>
+                            {parsed.rule.freq !== 'WEEKLY' && (
+                                <div className="space-y-2 col-span-2">
+                                    <Label htmlFor={`${idPrefix}-rule-monthdays`}>On Days of the Month</Label>
+                                    <Input id={`${idPrefix}-rule-monthdays`} placeholder="e.g. 1, 15 (-1 = last day)" defaultValue={parsed.rule.byMonthDay.join(', ')} key={parsed.rule.byMonthDay.join(',')}
+                                        onBlur={(e) => {
+                                            const days = e.target.value.split(',').map(d => d.trim()).filter(Boolean).map(Number);
+                                            if (days.every(d => Number.isInteger(d) && d !== 0 && Math.abs(d) <= 31)) updateRule({ byMonthDay: days });
+                                        }} />
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    <div className="space-y-2">
+                        <Label htmlFor={`${idPrefix}-rule-text`}>Rule (RRULE)</Label>
+                        <Input id={`${idPrefix}-rule-text`} className="font-mono text-xs" value={value ?? ''} onChange={(e) => onChange(e.target.value.toUpperCase())} placeholder="FREQ=MONTHLY;BYMONTHDAY=1,15" />
+                        {(error || parsed.message) && <p className="text-sm text-destructive">{error || parsed.message}</p>}
+                    </div>
+                    {parsed.rule && (
+                        <div className="text-sm space-y-1">
+                            <p className="font-medium">{describeRecurrenceRule(value!)}</p>
+                            <p className="text-muted-foreground">
+                                {preview.length ? `Next: ${preview.map(d => format(parseISO(d), 'EEE, MMM d, yyyy')).join('; ')}` : 'This rule has no occurrences from the start date.'}
+                            </p>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,118 @@
+// src/components/recurring-expenses/RecurringDraftReviewQueue.tsx
+// v1 - Variable-amount bills waiting for the payer to confirm the real figure before they are posted and split.
+
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { ClipboardCheck, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useExpenses } from '@/contexts/ExpenseContext';
+import { useRecurringDrafts } from '@/hooks/useRecurringDrafts';
+import { ConfirmRecurringDraftDialog } from './ConfirmRecurringDraftDialog';
+import { DEFAULT_BASE_CURRENCY } from '@/lib/currency';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { MemberRole, RecurringExpenseDraft } from '@/integrations/supabase/types';
+
+export function RecurringDraftReviewQueue() {
+  const { user } = useAuth();
+  const { selectedProperty, propertyMembers } = useProperty();
+  const { fetchExpensesAndSplits } = useExpenses();
+  const { drafts, isLoading, postDraft, dismissDraft } = useRecurringDrafts();
+  const [draftToConfirm, setDraftToConfirm] = useState<RecurringExpenseDraft | null>(null);
+  const [draftToDismiss, setDraftToDismiss] = useState<RecurringExpenseDraft | null>(null);
+  const [isDismissing, setIsDismissing] = useState(false);
+  const currency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
+
+  const members = useMemo(() => propertyMembers.filter(m => m.property_id === selectedProperty?.id), [propertyMembers, selectedProperty]);
+  const currentUserRole = members.find(m => m.user_id === user?.id)?.role;
+  const isOwner = currentUserRole === MemberRole.Owner || currentUserRole === MemberRole.CoOwner;
+  // The payer has the bill; owners and co-owners can stand in (generate-expenses checks the same)
+  const canReview = (draft: RecurringExpenseDraft) => isOwner || draft.recurring_expense?.paid_by_user_id === user?.id;
+  const payerName = (userId: string | null | undefined) => {
+    const profile = members.find(m => m.user_id === userId)?.profile;
+    return profile ? [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.email : 'Unknown';
+  };
+
+  const handleConfirm = async (draft: RecurringExpenseDraft, amount: number, billFile: File | null) => {
+    const posted = await postDraft(draft, amount, billFile);
+    if (posted) await fetchExpensesAndSplits(false);
+    return posted;
+  };
+
+  const handleDismiss = async () => {
+    if (!draftToDismiss) return;
+    setIsDismissing(true);
+    await dismissDraft(draftToDismiss);
+    setIsDismissing(false);
+    setDraftToDismiss(null);
+  };
+
+  if (!drafts.length && !isLoading) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><ClipboardCheck className="h-5 w-5" /> Bills to Review</CardTitle>
+        <CardDescription>Variable-amount bills are not split until the payer confirms the real figure.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && !drafts.length ? (
+          <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Bill</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead className="text-right">Estimate</TableHead>
+                <TableHead>Payer</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drafts.map(draft => (
+                <TableRow key={draft.id}>
+                  <TableCell className="font-medium">{draft.recurring_expense?.description ?? 'Recurring expense'}</TableCell>
+                  <TableCell className="whitespace-nowrap">{formatDate(draft.occurrence_date)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(Number(draft.estimated_amount), currency)}</TableCell>
+                  <TableCell>{payerName(draft.recurring_expense?.paid_by_user_id)}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap space-x-2">
+                    {canReview(draft) ? (
+                      <>
+                        <Button size="sm" onClick={() => setDraftToConfirm(draft)}>Confirm</Button>
+                        <Button size="sm" variant="ghost" onClick={() => setDraftToDismiss(draft)}>Dismiss</Button>
+                      </>
+                    ) : <span className="text-xs text-muted-foreground">Awaiting payer</span>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ConfirmRecurringDraftDialog draft={draftToConfirm} currency={currency} onOpenChange={(open) => { if (!open) setDraftToConfirm(null); }} onConfirm={handleConfirm} />
+
+      <AlertDialog open={!!draftToDismiss} onOpenChange={(open) => { if (!open && !isDismissing) setDraftToDismiss(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Dismiss Bill?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No expense will be posted for {draftToDismiss?.recurring_expense?.description ?? 'this bill'} due {draftToDismiss ? formatDate(draftToDismiss.occurrence_date) : ''}. Use this when the bill never arrived or was entered by hand.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDismissing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction disabled={isDismissing} onClick={(e) => { e.preventDefault(); handleDismiss(); }}>
+              {isDismissing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Dismiss
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
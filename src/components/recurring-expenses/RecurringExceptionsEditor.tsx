@@ -0,0 +1,133 @@
+// src/components/recurring-expenses/RecurringExceptionsEditor.tsx
+// v1 - Lists a template's skip/pause exceptions; owners and co-owners can add, edit and remove them.
+
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useRecurringExpense } from '@/contexts/RecurringExpenseContext';
+import { listOccurrences } from '@/lib/recurrence';
+import { formatDate } from '@/lib/utils';
+import { RecurringExceptionFormData, RecurringExceptionKind, RecurringExpense, RecurringExpenseExceptionRow } from '@/integrations/supabase/types';
+
+interface RecurringExceptionsEditorProps {
+    expense: RecurringExpense;
+    canEdit: boolean; // Owners and co-owners (matches the table's RLS)
+}
+
+const UPCOMING_COUNT = 12; // Occurrences offered when choosing one to skip
+const EMPTY_FORM: RecurringExceptionFormData = { kind: RecurringExceptionKind.Skip, start_date: '', end_date: null, reason: '' };
+
+export function RecurringExceptionsEditor({ expense, canEdit }: RecurringExceptionsEditorProps) {
+    const { saveRecurringException, deleteRecurringException } = useRecurringExpense();
+    const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+    const [form, setForm] = useState<RecurringExceptionFormData>(EMPTY_FORM);
+    const [isSaving, setIsSaving] = useState(false);
+    const exceptions = useMemo(() => expense.exceptions ?? [], [expense.exceptions]);
+
+    // Upcoming occurrences ignoring existing exceptions, so an already-skipped date still shows while editing it
+    const upcoming = useMemo(() => {
+        const dates = listOccurrences({ ...expense, exceptions: [] }, format(new Date(), 'yyyy-MM-dd'), '9999-12-31', UPCOMING_COUNT);
+        const taken = new Set(exceptions.filter(e => e.kind === RecurringExceptionKind.Skip && e.id !== editingId).map(e => e.start_date));
+        const options = dates.filter(d => !taken.has(d));
+        if (form.kind === RecurringExceptionKind.Skip && form.start_date && !options.includes(form.start_date)) options.unshift(form.start_date);
+        return options;
+    }, [expense, exceptions, editingId, form.kind, form.start_date]);
+
+    const startEdit = (exception: RecurringExpenseExceptionRow | null) => {
+        setEditingId(exception?.id ?? 'new');
+        setForm(exception ? { kind: exception.kind, start_date: exception.start_date, end_date: exception.end_date, reason: exception.reason ?? '' } : EMPTY_FORM);
+    };
+
+    const handleSave = async () => {
+        if (!editingId) return;
+        setIsSaving(true);
+        const saved = await saveRecurringException(expense.id, form, editingId === 'new' ? undefined : editingId);
+        setIsSaving(false);
+        if (saved) setEditingId(null);
+    };
+
+    const isPause = form.kind === RecurringExceptionKind.Pause;
+    const pauseInvalid = isPause && !!form.start_date && !!form.end_date && form.end_date < form.start_date;
+
+    return (
+        <div className="space-y-3">
+            {exceptions.length === 0 && editingId === null && (
+                <p className="text-sm text-muted-foreground italic">No skipped occurrences or pauses.</p>
+            )}
+            {exceptions.length > 0 && (
+                <ul className="space-y-2">
+                    {exceptions.map(exception => (
+                        <li key={exception.id} className="flex items-start justify-between gap-2 rounded-md border p-2 text-sm">
+                            <div className="space-y-1 min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <Badge variant={exception.kind === RecurringExceptionKind.Pause ? 'secondary' : 'outline'}>{exception.kind === RecurringExceptionKind.Pause ? 'Paused' : 'Skip'}</Badge>
+                                    <span>{exception.end_date ? `${formatDate(exception.start_date)} – ${formatDate(exception.end_date)}` : formatDate(exception.start_date)}</span>
+                                </div>
+                                {exception.reason && <p className="text-muted-foreground break-words">{exception.reason}</p>}
+                            </div>
+                            {canEdit && (
+                                <div className="flex shrink-0">
+                                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEdit(exception)} disabled={isSaving} aria-label="Edit exception"><Pencil className="h-4 w-4" /></Button>
+                                    <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => deleteRecurringException(exception.id)} disabled={isSaving} aria-label="Remove exception"><Trash2 className="h-4 w-4" /></Button>
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {canEdit && editingId === null && (
+                <Button variant="outline" size="sm" onClick={() => startEdit(null)}><Plus className="mr-2 h-4 w-4" /> Skip or Pause</Button>
+            )}
+            {canEdit && editingId !== null && (
+                <div className="space-y-3 rounded-md border p-3">
+                    <div className="space-y-2">
+                        <Label htmlFor="exception-kind">Type</Label>
+                        <Select value={form.kind} onValueChange={(kind) => setForm({ ...form, kind: kind as RecurringExceptionFormData['kind'], start_date: '', end_date: null })}>
+                            <SelectTrigger id="exception-kind"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={RecurringExceptionKind.Skip}>Skip one occurrence</SelectItem>
+                                <SelectItem value={RecurringExceptionKind.Pause}>Pause between dates</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    {isPause ? (
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                                <Label htmlFor="exception-start">From</Label>
+                                <Input id="exception-start" type="date" value={form.start_date} onChange={(e) => setForm({ ...form, start_date: e.target.value })} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="exception-end">Until (inclusive)</Label>
+                                <Input id="exception-end" type="date" value={form.end_date ?? ''} min={form.start_date || undefined} onChange={(e) => setForm({ ...form, end_date: e.target.value || null })} />
+                            </div>
+                            {pauseInvalid && <p className="col-span-2 text-sm text-destructive">The pause cannot end before it starts.</p>}
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            <Label htmlFor="exception-occurrence">Occurrence</Label>
+                            <Select value={form.start_date} onValueChange={(date) => setForm({ ...form, start_date: date })} disabled={!upcoming.length}>
+                                <SelectTrigger id="exception-occurrence"><SelectValue placeholder={upcoming.length ? 'Choose a due date' : 'No upcoming occurrences'} /></SelectTrigger>
+                                <SelectContent>{upcoming.map(date => <SelectItem key={date} value={date}>{format(parseISO(date), 'EEE, MMM d, yyyy')}</SelectItem>)}</SelectContent>
+                            </Select>
+                        </div>
+                    )}
+                    <div className="space-y-2">
+                        <Label htmlFor="exception-reason">Reason (Optional)</Label>
+                        <Input id="exception-reason" placeholder="e.g. Service suspended for the winter" value={form.reason ?? ''} onChange={(e) => setForm({ ...form, reason: e.target.value })} />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} disabled={isSaving}>Cancel</Button>
+                        <Button size="sm" onClick={handleSave} disabled={isSaving || !form.start_date || (isPause && (!form.end_date || pauseInvalid))}>
+                            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,6 +1,6 @@
 // src/components/recurring-expenses/RecurringExpenseDetailSheet.tsx
-// Corrected: Removed 'Constants' import and replaced its usage with SplitMethod enum.
-import React from 'react';
+// v11 - Amounts are shown in the property's base currency.
+import React, { useEffect, useState } from 'react';
 import {
     Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription, SheetClose, SheetFooter
 } from "@/components/ui/sheet";
@@ -9,11 +9,20 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from '@/components/ui/separator';
 // Corrected Import Line: Removed Constants
-import { RecurringExpense, Profile, SplitMethod, Json, PropertyMemberWithProfile } from '@/integrations/supabase/types';
+import { RecurringExpense, Profile, SplitMethod, Json, PropertyMemberWithProfile, Expense, MemberRole } from '@/integrations/supabase/types';
 // *** UPDATED utils import ***
 import { formatCurrency, formatFrequencyDetailed, formatDate, formatSplitMethod, getInitials, getTemplateStatus } from '@/lib/utils'; // Importing needed utils
 import { useProperty } from '@/contexts/PropertyContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRecurringExpense } from '@/contexts/RecurringExpenseContext';
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ExpenseDetailSheet } from '@/components/expenses/ExpenseDetailSheet';
+import { RecurringOccurrenceHistory } from './RecurringOccurrenceHistory';
+import { RecurringExceptionsEditor } from './RecurringExceptionsEditor';
+import { RecurringTermsHistory } from './RecurringTermsHistory';
+import { DEFAULT_BASE_CURRENCY } from '@/lib/currency';
+import { readEqualParticipants } from '@/lib/splits';
+import { describeRecurrenceRule } from '@/lib/recurrence';
 
 interface RecurringExpenseDetailSheetProps {
     isOpen: boolean;
@@ -22,7 +31,7 @@ interface RecurringExpenseDetailSheetProps {
 }
 
 // Helper to display split details nicely
-const renderSplitDetails = (expense: RecurringExpense, memberProfiles: PropertyMemberWithProfile[]): React.ReactNode => { // Use PropertyMemberWithProfile which includes Profile
+const renderSplitDetails = (expense: RecurringExpense, memberProfiles: PropertyMemberWithProfile[], currency: string): React.ReactNode => { // Use PropertyMemberWithProfile which includes Profile
     // Ensure profiles are available
     const profileMap = new Map(memberProfiles.filter(mp => mp.profile).map(mp => [mp.user_id, mp.profile!])); // Filter out null profiles and assert non-null
 
@@ -39,8 +48,21 @@ const renderSplitDetails = (expense: RecurringExpense, memberProfiles: PropertyM
 
     // Corrected: Use SplitMethod enum
     switch (method) {
-        case SplitMethod.Equal:
-            return <p>Split equally among all members.</p>;
+        case SplitMethod.Equal: {
+            const participants = readEqualParticipants(expense.split_details);
+            if (!participants) return <p>Split equally among all members.</p>;
+            return (
+                <ul className="list-disc pl-5 space-y-1 text-sm">
+                    {participants.map(userId => (
+                        <li key={userId}>
+                            {getProfileName(userId)}{!profileMap.has(userId) && <span className="text-destructive"> (no longer a member)</span>}
+                        </li>
+                    ))}
+                </ul>
+            );
+        }
+        case SplitMethod.Ownership:
+            return <p>Split by the ownership stakes in effect on each due date.</p>;
         // case SplitMethod.PayerOnly: // Assuming 'PayerOnly' exists in your enum
         //     return <p>Paid entirely by the designated payer.</p>;
         case SplitMethod.Percentage:
@@ -62,16 +84,27 @@ const renderSplitDetails = (expense: RecurringExpense, memberProfiles: PropertyM
                     <ul className="list-disc pl-5 space-y-1 text-sm">
                         {Object.entries(details.splits).map(([userId, amount]) => (
                              <li key={userId}>
-                                {getProfileName(userId)}: {typeof amount === 'number' ? formatCurrency(amount) : 'Invalid data'}
+                                {getProfileName(userId)}: {typeof amount === 'number' ? formatCurrency(amount, currency) : 'Invalid data'}
                             </li>
                         ))}
                     </ul>
                 );
             }
             return <p className="text-muted-foreground italic">Custom split details unavailable.</p>;
-        // case SplitMethod.Shares: // Handle Shares if it exists in your enum
-        //     // Similar logic to Percentage/Custom, accessing share values
-        //     return <p className="text-muted-foreground italic">Shares details unavailable.</p>;
+        case SplitMethod.Shares:
+             if (details?.splits && typeof details.splits === 'object') {
+                const totalShares = Object.values(details.splits).reduce((sum, shares) => sum + (typeof shares === 'number' ? shares : 0), 0);
+                return (
+                    <ul className="list-disc pl-5 space-y-1 text-sm">
+                        {Object.entries(details.splits).map(([userId, shares]) => (
+                            <li key={userId}>
+                                {getProfileName(userId)}: {typeof shares === 'number' ? `${shares} of ${totalShares} share${totalShares === 1 ? '' : 's'}` : 'Invalid data'}
+                            </li>
+                        ))}
+                    </ul>
+                );
+            }
+            return <p className="text-muted-foreground italic">Shares details unavailable.</p>;
         default:
             // Use exhaustive check if possible with TypeScript, otherwise fallback
              console.warn("Unhandled split method in renderSplitDetails:", method);
@@ -87,9 +120,19 @@ const DetailItem = ({ label, value }: { label: string; value: React.ReactNode })
     </div>
 );
 
-export function RecurringExpenseDetailSheet({ isOpen, onOpenChange, expense }: RecurringExpenseDetailSheetProps) {
+export function RecurringExpenseDetailSheet({ isOpen, onOpenChange, expense: selectedExpense }: RecurringExpenseDetailSheetProps) {
     // Use propertyMembers which includes profile data
-    const { propertyMembers = [] } = useProperty();
+    const { propertyMembers = [], selectedProperty } = useProperty();
+    const currency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
+    const { user } = useAuth();
+    const { recurringExpenses } = useRecurringExpense();
+    // Prefer the context copy so exception edits show without reopening the sheet
+    const expense = (selectedExpense && recurringExpenses.find(r => r.id === selectedExpense.id)) || selectedExpense;
+    const currentUserRole = propertyMembers.find(m => m.property_id === selectedProperty?.id && m.user_id === user?.id)?.role;
+    const canEditExceptions = currentUserRole === MemberRole.Owner || currentUserRole === MemberRole.CoOwner;
+    const [occurrenceForDetail, setOccurrenceForDetail] = useState<Expense | null>(null);
+
+    useEffect(() => { if (!isOpen) setOccurrenceForDetail(null); }, [isOpen]);
 
     if (!expense) return null;
 
@@ -102,14 +145,14 @@ export function RecurringExpenseDetailSheet({ isOpen, onOpenChange, expense }: R
                 <SheetHeader className="pr-6">
                     <SheetTitle className="truncate">{expense.description || 'Expense Template Details'}</SheetTitle>
                     <SheetDescription>
-                        Read-only view of the recurring expense template.
+                        Details of the recurring expense template, with its skips, pauses and history.
                     </SheetDescription>
                 </SheetHeader>
                 <Separator className="my-3" />
                 <ScrollArea className="flex-grow pr-6 -mr-6"> {/* Adjust padding if needed */}
                     <dl className="space-y-1">
                         <DetailItem label="Description" value={expense.description} />
-                        <DetailItem label="Amount" value={formatCurrency(expense.amount)} />
+                        <DetailItem label={expense.amount_mode === 'variable' ? "Typical Amount" : "Amount"} value={expense.amount_mode === 'variable' ? `${formatCurrency(expense.amount, currency)} (varies; each bill is confirmed by the payer)` : formatCurrency(expense.amount, currency)} />
                          {/* Use formatEnumForDisplay or similar if defined */}
                         <DetailItem label="Category" value={expense.category?.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())} />
                         <DetailItem
@@ -129,8 +172,8 @@ export function RecurringExpenseDetailSheet({ isOpen, onOpenChange, expense }: R
                             }
                         />
                         <Separator className="my-2" />
-                        {/* Use formatFrequencyDetailed which handles interval */}
-                        <DetailItem label="Frequency" value={formatFrequencyDetailed(expense.frequency, expense.interval)} />
+                        {/* Rule-based templates describe their RRULE; others use formatFrequencyDetailed which handles interval */}
+                        <DetailItem label="Frequency" value={expense.recurrence_rule ? describeRecurrenceRule(expense.recurrence_rule) : formatFrequencyDetailed(expense.frequency, expense.interval)} />
                         <DetailItem label="Starts On" value={formatDate(expense.start_date)} />
                         <DetailItem label="Next Due" value={formatDate(expense.next_due_date)} />
                         <DetailItem label="Ends On" value={expense.end_date ? formatDate(expense.end_date) : 'Never'} />
@@ -145,7 +188,7 @@ export function RecurringExpenseDetailSheet({ isOpen, onOpenChange, expense }: R
                          <Separator className="my-2" />
                         <DetailItem label="Split Method" value={formatSplitMethod(expense.split_method)} />
                         {/* Pass propertyMembers to renderSplitDetails */}
-                        <DetailItem label="Split Details" value={renderSplitDetails(expense, propertyMembers)} />
+                        <DetailItem label="Split Details" value={renderSplitDetails(expense, propertyMembers.filter(m => m.property_id === expense.property_id), currency)} />
                          <Separator className="my-2" />
                          <DetailItem label="Notes" value={expense.notes || <span className="italic text-muted-foreground">No notes</span>} />
                          <Separator className="my-2" />
@@ -153,6 +196,21 @@ export function RecurringExpenseDetailSheet({ isOpen, onOpenChange, expense }: R
                         <DetailItem label="Last Updated" value={expense.updated_at ? formatDate(expense.updated_at) : 'Never'} />
 
                     </dl>
+                    <Separator className="my-3" />
+                    <h3 className="text-sm font-semibold mb-2">Amount &amp; Split History</h3>
+                    <RecurringTermsHistory terms={expense.terms ?? []} members={propertyMembers.filter(m => m.property_id === expense.property_id)} currency={selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY} />
+                    <Separator className="my-3" />
+                    <h3 className="text-sm font-semibold mb-2">Exceptions</h3>
+                    <RecurringExceptionsEditor expense={expense} canEdit={canEditExceptions} />
+                    <Separator className="my-3" />
+                    <h3 className="text-sm font-semibold mb-2">Occurrence History</h3>
+                    {isOpen && (
+                        <RecurringOccurrenceHistory
+                            recurringExpenseId={expense.id}
+                            currency={selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY}
+                            onSelectExpense={setOccurrenceForDetail}
+                        />
+                    )}
                 </ScrollArea>
                 <Separator className="my-3" />
                 <SheetFooter className="mt-auto pr-6"> {/* Ensure footer aligns with content */}
@@ -161,6 +219,12 @@ export function RecurringExpenseDetailSheet({ isOpen, onOpenChange, expense }: R
                     </SheetClose>
                 </SheetFooter>
             </SheetContent>
+            {/* Generated expense opened from the history, on top of this sheet */}
+            <ExpenseDetailSheet
+                isOpen={!!occurrenceForDetail}
+                onOpenChange={(open) => { if (!open) setOccurrenceForDetail(null); }}
+                expense={occurrenceForDetail}
+            />
         </Sheet>
     );
 }
\ No newline at end of file
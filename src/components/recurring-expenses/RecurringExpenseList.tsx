@@ -2,6 +2,7 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { useRecurringExpense } from '@/contexts/RecurringExpenseContext';
 import { useProperty } from '@/contexts/PropertyContext';
+import { DEFAULT_BASE_CURRENCY } from '@/lib/currency';
 import { Input } from '@/components/ui/input';
 import {
     RecurringExpense,
@@ -38,6 +39,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
     getInitials, cn, formatFrequencyDetailed, formatDate, formatCurrency, formatSplitMethod, getTemplateStatus, ConcreteTemplateStatus
 } from '@/lib/utils';
+import { describeRecurrenceRule } from '@/lib/recurrence';
 
 // --- Helper Functions ---
 const statusOrder: Record<ConcreteTemplateStatus, number> = { 'active': 1, 'paused': 2, 'ended': 3 };
@@ -52,7 +54,8 @@ interface RecurringExpenseListProps {
 // --- Component ---
 export function RecurringExpenseList({ onEdit, onDuplicate, onViewDetails }: RecurringExpenseListProps) {
     const { recurringExpenses, isLoading, error, deleteRecurringExpense, toggleRecurringExpenseActive } = useRecurringExpense();
-    const { propertyMembers } = useProperty();
+    const { propertyMembers, selectedProperty } = useProperty();
+    const baseCurrency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
     const [sortKey, setSortKey] = useState<RecurringExpenseSortKey>('next_due_date');
     const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
     const [statusFilter, setStatusFilter] = useState<TemplateStatus>('all');
@@ -151,9 +154,9 @@ export function RecurringExpenseList({ onEdit, onDuplicate, onViewDetails }: Rec
                                           <TableRow key={expense.id} onClick={() => handleRowClick(expense)} className="cursor-pointer hover:bg-muted/50 transition-colors">
                                               <TableCell className="font-medium max-w-[150px] truncate" title={safeDescription}>{safeDescription}</TableCell>
                                               <TableCell>{ payerProfile ? ( <Tooltip> <TooltipTrigger className="inline-flex items-center space-x-2 cursor-default" onClick={(e) => e.stopPropagation()}> <Avatar className="h-6 w-6"> <AvatarImage src={payerProfile.avatar_url ?? undefined} alt={`${payerProfile.first_name ?? ''} ${payerProfile.last_name ?? ''}`} /> <AvatarFallback className="text-xs">{getInitials(`${payerProfile.first_name ?? ''} ${payerProfile.last_name ?? ''}`)}</AvatarFallback> </Avatar> <span className="truncate">{`${payerProfile.first_name ?? ''} ${payerProfile.last_name ?? ''}`}</span> </TooltipTrigger> <TooltipContent> <p>{`${payerProfile.first_name ?? ''} ${payerProfile.last_name ?? ''}`}</p> <p className="text-xs text-muted-foreground">{payerProfile.email ?? 'No Email'}</p> </TooltipContent> </Tooltip> ) : ( <span className="text-muted-foreground text-xs">Unknown Payer</span> )} </TableCell>
-                                              <TableCell className="text-right">{formatCurrency(expense.amount)}</TableCell>
+                                              <TableCell className="text-right">{expense.amount_mode === 'variable' && <Badge variant="outline" className="mr-2 text-xs">Varies</Badge>}{formatCurrency(expense.amount, baseCurrency)}</TableCell>
                                               <TableCell>{formatSplitMethod(expense.split_method)}</TableCell>
-                                              <TableCell>{formatFrequencyDetailed(expense.frequency, expense.interval)}</TableCell>
+                                              <TableCell>{expense.recurrence_rule ? describeRecurrenceRule(expense.recurrence_rule) : formatFrequencyDetailed(expense.frequency, expense.interval)}</TableCell>
                                               <TableCell>{formatDate(expense.next_due_date)}</TableCell>
                                               <TableCell>{expense.end_date ? formatDate(expense.end_date) : 'Never'}</TableCell>
                                               <TableCell><div className="flex items-center space-x-2" onClick={(e) => e.stopPropagation()}> <Switch id={`toggle-${expense.id}`} checked={expense.is_active && !isEnded} onCheckedChange={() => handleToggleActive(expense)} disabled={isToggling === expense.id || isEnded} aria-label={expense.is_active ? 'Pause template' : 'Resume template'} /> <Badge variant={isEnded ? "outline" : (expense.is_active ? "default" : "secondary")}> {isToggling === expense.id ? <Loader2 className="h-3 w-3 animate-spin" /> : ( currentStatus.charAt(0).toUpperCase() + currentStatus.slice(1) )} </Badge> </div></TableCell>
@@ -0,0 +1,128 @@
+// src/components/recurring-expenses/RecurringForecastCard.tsx
+// v1 - Upcoming recurring costs per month (chart and table) with each member's projected share.
+
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { LineChart as ForecastIcon } from 'lucide-react';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useRecurringExpense } from '@/contexts/RecurringExpenseContext';
+import { buildRecurringForecast } from '@/lib/recurringForecast';
+import { DEFAULT_BASE_CURRENCY } from '@/lib/currency';
+import { formatCurrency } from '@/lib/utils';
+import { Profile } from '@/integrations/supabase/types';
+
+const HORIZON_OPTIONS = [3, 6, 12, 24];
+const MEMBER_COLORS = ['#0f766e', '#334155', '#d97706', '#7c3aed', '#db2777', '#0284c7', '#65a30d', '#dc2626'];
+
+const getDisplayName = (profile: Pick<Profile, 'first_name' | 'last_name' | 'email'> | null | undefined): string => {
+  if (!profile) return 'Former Member';
+  const name = [profile.first_name, profile.last_name].filter(Boolean).join(' ');
+  return name || profile.email || 'Unnamed User';
+};
+
+export function RecurringForecastCard() {
+  const { selectedProperty, propertyMembers } = useProperty();
+  const { recurringExpenses } = useRecurringExpense();
+  const [horizon, setHorizon] = useState(6);
+  const currency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
+
+  const members = useMemo(() => propertyMembers.filter(m => m.property_id === selectedProperty?.id), [propertyMembers, selectedProperty]);
+
+  const forecast = useMemo(() => buildRecurringForecast(recurringExpenses, {
+    today: format(new Date(), 'yyyy-MM-dd'),
+    months: horizon,
+    memberIds: members.map(m => m.user_id),
+    ownershipStakes: members.map(m => ({ user_id: m.user_id, ownership_percentage: m.ownership_percentage })),
+  }), [recurringExpenses, horizon, members]);
+
+  // Columns: current members, plus anyone a stored split still names who has since left
+  const columns = useMemo(() => {
+    const ids = new Set([...members.map(m => m.user_id), ...Object.keys(forecast.byMember)]);
+    return Array.from(ids).map((userId, index) => ({
+      userId, key: `m${index}`, color: MEMBER_COLORS[index % MEMBER_COLORS.length],
+      label: getDisplayName(members.find(m => m.user_id === userId)?.profile),
+    }));
+  }, [members, forecast.byMember]);
+  const hasUnassigned = forecast.months.some(m => m.unassigned > 0);
+
+  const chartConfig = useMemo<ChartConfig>(() => Object.fromEntries(columns.map(c => [c.key, { label: c.label, color: c.color }])), [columns]);
+  const chartData = useMemo(() => forecast.months.map(month => ({
+    month: format(parseISO(`${month.month}-01`), 'MMM yy'),
+    ...Object.fromEntries(columns.map(c => [c.key, month.byMember[c.userId] ?? 0])),
+  })), [forecast.months, columns]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+        <div>
+          <CardTitle className="flex items-center gap-2"><ForecastIcon className="h-5 w-5" /> Upcoming Costs</CardTitle>
+          <CardDescription>
+            Active templates projected from their next due date: {formatCurrency(forecast.total, currency)} over the next {horizon} months.
+            Ownership splits use today's stakes; overdue occurrences count in the current month.
+          </CardDescription>
+        </div>
+        <Select value={String(horizon)} onValueChange={(value) => setHorizon(Number(value))}>
+          <SelectTrigger className="w-[140px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {HORIZON_OPTIONS.map(months => <SelectItem key={months} value={String(months)}>Next {months} months</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {forecast.total === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No recurring costs fall due in this period.</p>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="h-[260px] w-full aspect-auto">
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={70} tickFormatter={(value: number) => formatCurrency(value, currency)} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {columns.map(c => <Bar key={c.key} dataKey={c.key} stackId="members" fill={`var(--color-${c.key})`} />)}
+              </BarChart>
+            </ChartContainer>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Bills</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    {columns.map(c => <TableHead key={c.key} className="text-right whitespace-nowrap">{c.label}</TableHead>)}
+                    {hasUnassigned && <TableHead className="text-right">Unassigned</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {forecast.months.map(month => (
+                    <TableRow key={month.month}>
+                      <TableCell className="whitespace-nowrap">{format(parseISO(`${month.month}-01`), 'MMMM yyyy')}</TableCell>
+                      <TableCell className="text-right" title={month.occurrences.map(o => `${o.date}: ${o.description}`).join('\n') || undefined}>{month.occurrences.length}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatCurrency(month.total, currency)}</TableCell>
+                      {columns.map(c => <TableCell key={c.key} className="text-right">{formatCurrency(month.byMember[c.userId] ?? 0, currency)}</TableCell>)}
+                      {hasUnassigned && <TableCell className="text-right text-muted-foreground">{formatCurrency(month.unassigned, currency)}</TableCell>}
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={2}>Total</TableCell>
+                    <TableCell className="text-right">{formatCurrency(forecast.total, currency)}</TableCell>
+                    {columns.map(c => <TableCell key={c.key} className="text-right">{formatCurrency(forecast.byMember[c.userId] ?? 0, currency)}</TableCell>)}
+                    {hasUnassigned && <TableCell className="text-right">{formatCurrency(forecast.months.reduce((sum, m) => sum + m.unassigned, 0), currency)}</TableCell>}
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+// src/components/recurring-expenses/RecurringOccurrenceHistory.tsx
+// v1 - Timeline of a recurring expense's generated occurrences, with totals and skipped/failed runs flagged.
+
+import React, { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, ChevronRight, Loader2, SkipForward } from 'lucide-react';
+import { useRecurringOccurrences } from '@/hooks/useRecurringOccurrences';
+import { buildOccurrenceHistory, OccurrencePaymentStatus } from '@/lib/recurringHistory';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import { Expense } from '@/integrations/supabase/types';
+
+interface RecurringOccurrenceHistoryProps {
+    recurringExpenseId: string;
+    currency: string;
+    onSelectExpense: (expense: Expense) => void;
+}
+
+const PAYMENT_BADGES: Record<OccurrencePaymentStatus, { label: string; className: string }> = {
+    settled: { label: 'Settled', className: 'bg-green-100 text-green-800 border-green-200' },
+    partial: { label: 'Partly paid', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+    outstanding: { label: 'Outstanding', className: 'bg-orange-100 text-orange-800 border-orange-200' },
+};
+
+export function RecurringOccurrenceHistory({ recurringExpenseId, currency, onSelectExpense }: RecurringOccurrenceHistoryProps) {
+    const { expenses, runLog, isLoading, error } = useRecurringOccurrences(recurringExpenseId);
+    const history = useMemo(() => buildOccurrenceHistory(expenses, runLog), [expenses, runLog]);
+
+    if (isLoading && !history.entries.length) {
+        return <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>;
+    }
+    if (error) return <p className="text-sm text-destructive">{error}</p>;
+    if (!history.entries.length) return <p className="text-sm text-muted-foreground italic">No occurrences generated yet.</p>;
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="rounded-md border p-2"><div className="text-xs text-muted-foreground">Generated</div><div className="font-semibold">{history.generatedCount}</div></div>
+                <div className="rounded-md border p-2"><div className="text-xs text-muted-foreground">Billed to Date</div><div className="font-semibold">{formatCurrency(history.totalBilled, currency)}</div></div>
+                <div className="rounded-md border p-2"><div className="text-xs text-muted-foreground">Outstanding</div><div className={cn("font-semibold", history.totalOutstanding > 0 && "text-orange-600")}>{formatCurrency(history.totalOutstanding, currency)}</div></div>
+            </div>
+            {history.problemCount > 0 && (
+                <p className="flex items-center gap-1.5 text-xs text-destructive"><AlertTriangle className="h-3.5 w-3.5" /> {history.problemCount} occurrence{history.problemCount === 1 ? ' was' : 's were'} skipped or failed to generate.</p>
+            )}
+            <ol className="relative border-l border-muted ml-2 space-y-1">
+                {history.entries.map((entry, index) => entry.kind === 'generated' ? (
+                    <li key={entry.expense.id} className="ml-4">
+                        <span className="absolute -left-1.5 mt-3 h-3 w-3 rounded-full border border-background bg-primary" />
+                        <Button variant="ghost" className="w-full h-auto justify-between px-2 py-2 text-left font-normal" onClick={() => onSelectExpense(entry.expense)}>
+                            <span className="flex flex-col">
+                                <span className="text-sm font-medium">{formatDate(entry.date)}</span>
+                                <span className="text-xs text-muted-foreground">{entry.outstanding > 0 ? `${formatCurrency(entry.outstanding, currency)} still owed` : 'All shares paid'}</span>
+                            </span>
+                            <span className="flex items-center gap-2">
+                                <span className="text-sm font-semibold">{formatCurrency(Number(entry.expense.amount), currency)}</span>
+                                <Badge variant="outline" className={cn("text-xs", PAYMENT_BADGES[entry.paymentStatus].className)}>{PAYMENT_BADGES[entry.paymentStatus].label}</Badge>
+                                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                            </span>
+                        </Button>
+                    </li>
+                ) : (
+                    <li key={`${entry.kind}-${entry.date ?? entry.loggedAt}-${index}`} className="ml-4">
+                        <span className={cn("absolute -left-1.5 mt-3 h-3 w-3 rounded-full border border-background", entry.kind === 'failed' ? 'bg-destructive' : 'bg-muted-foreground')} />
+                        <div className="flex justify-between items-start gap-2 px-2 py-2">
+                            <span className="flex flex-col">
+                                <span className="text-sm font-medium">{entry.date ? formatDate(entry.date) : formatDate(entry.loggedAt)}</span>
+                                <span className="text-xs text-muted-foreground break-words">{entry.reason}{entry.attempts > 1 ? ` (${entry.attempts} attempts)` : ''}</span>
+                            </span>
+                            {entry.kind === 'failed'
+                                ? <Badge variant="destructive" className="text-xs flex-shrink-0"><AlertTriangle className="mr-1 h-3 w-3" />Failed</Badge>
+                                : <Badge variant="secondary" className="text-xs flex-shrink-0"><SkipForward className="mr-1 h-3 w-3" />Skipped</Badge>}
+                        </div>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+}
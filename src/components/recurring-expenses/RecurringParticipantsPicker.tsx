@@ -0,0 +1,44 @@
+// src/components/recurring-expenses/RecurringParticipantsPicker.tsx
+// v1 - Participant set for equal recurring splits; guests are hidden unless asked for (or already chosen).
+
+import React, { useState } from 'react';
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Badge } from '@/components/ui/badge';
+import { MemberRole, PropertyMemberWithProfile } from '@/integrations/supabase/types';
+
+interface RecurringParticipantsPickerProps {
+    idPrefix: string; // Keeps checkbox ids unique when Add and Edit dialogs are both mounted
+    members: PropertyMemberWithProfile[]; // Members of the selected property
+    value: string[] | undefined;
+    onChange: (value: string[]) => void;
+    error?: string;
+}
+
+export function RecurringParticipantsPicker({ idPrefix, members, value = [], onChange, error }: RecurringParticipantsPickerProps) {
+    const [showGuests, setShowGuests] = useState(false);
+    const guestCount = members.filter(m => m.role === MemberRole.Guest).length;
+    const visibleMembers = members.filter(m => showGuests || m.role !== MemberRole.Guest || value.includes(m.user_id));
+    const toggle = (userId: string, checked: boolean) => onChange(checked ? [...value.filter(id => id !== userId), userId] : value.filter(id => id !== userId));
+
+    return (
+        <div className="space-y-3 p-3 border rounded-md bg-slate-50 dark:bg-slate-800">
+            <Label>Split Equally Among</Label>
+            {visibleMembers.map(member => (
+                <div key={member.user_id} className="flex items-center space-x-2">
+                    <Checkbox id={`${idPrefix}-participant_${member.user_id}`} checked={value.includes(member.user_id)} onCheckedChange={(checked) => toggle(member.user_id, checked === true)} />
+                    <Label htmlFor={`${idPrefix}-participant_${member.user_id}`} className="flex-1 font-normal">{member.profile?.first_name} {member.profile?.last_name}</Label>
+                    {member.role === MemberRole.Guest && <Badge variant="outline">Guest</Badge>}
+                </div>
+            ))}
+            {guestCount > 0 && (
+                <div className="flex items-center space-x-2 pt-1">
+                    <Checkbox id={`${idPrefix}-show-guests`} checked={showGuests} onCheckedChange={(checked) => setShowGuests(checked === true)} />
+                    <Label htmlFor={`${idPrefix}-show-guests`} className="font-normal text-muted-foreground">Show guests ({guestCount})</Label>
+                </div>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <p className="text-xs text-muted-foreground">Only these members share each generated expense. Members who join later are not added; if a participant leaves, the rest share it and a review task is opened.</p>
+        </div>
+    );
+}
@@ -0,0 +1,42 @@
+// src/components/recurring-expenses/RecurringTermsHistory.tsx
+// v1 - A template's amount/payer/split versions, newest first, with the one in force today flagged.
+
+import React, { useMemo } from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { termsInForce } from '@/lib/recurringTerms';
+import { formatCurrency, formatDate, formatSplitMethod } from '@/lib/utils';
+import { PropertyMemberWithProfile, RecurringExpenseTermsRow } from '@/integrations/supabase/types';
+
+interface RecurringTermsHistoryProps {
+    terms: RecurringExpenseTermsRow[];
+    members: PropertyMemberWithProfile[];
+    currency: string;
+}
+
+export function RecurringTermsHistory({ terms, members, currency }: RecurringTermsHistoryProps) {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const current = useMemo(() => termsInForce(terms, today), [terms, today]);
+    const versions = useMemo(() => [...terms].sort((a, b) => b.effective_from.localeCompare(a.effective_from)), [terms]);
+    const payerName = (userId: string | null) => {
+        const profile = members.find(m => m.user_id === userId)?.profile;
+        return profile ? `${profile.first_name ?? ''} ${profile.last_name ?? ''}`.trim() : 'Unknown Payer';
+    };
+
+    if (!versions.length) return <p className="text-sm text-muted-foreground italic">No changes recorded.</p>;
+
+    return (
+        <ul className="space-y-2">
+            {versions.map(version => (
+                <li key={version.id} className="rounded-md border p-2 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">From {formatDate(version.effective_from)}</span>
+                        {version.id === current?.id && <Badge>In force</Badge>}
+                        {version.effective_from > today && <Badge variant="outline">Scheduled</Badge>}
+                    </div>
+                    <p className="text-muted-foreground">{formatCurrency(Number(version.amount), currency)} · paid by {payerName(version.paid_by_user_id)} · {formatSplitMethod(version.split_method)}</p>
+                </li>
+            ))}
+        </ul>
+    );
+}
@@ -23,7 +23,18 @@ import {
   PropertyMemberWithProfile // Import PropertyMemberWithProfile
 } from '@/integrations/supabase/types';
 import { useToast } from '@/hooks/use-toast';
+import { useUsageSeasons } from '@/hooks/useUsageSeasons';
+import { checkStayEntitlement, describeEntitlementOverage, EntitlementOverage, UsageStayInput } from '@/lib/usageEntitlement';
 import { PostgrestError } from '@supabase/supabase-js';
+import { format } from 'date-fns';
+
+// Errors raised by the bookings conflict and usage entitlement triggers name the problem for the member; pass them through unchanged
+const BOOKING_CONFLICT_ERROR_CODES = ['23P01', '42501', '22007', '23514'];
+const toBookingError = (err: unknown, fallback: string): Error => {
+  const code = (err as PostgrestError | null)?.code;
+  if (code && BOOKING_CONFLICT_ERROR_CODES.includes(code)) return new Error((err as PostgrestError).message);
+  return err instanceof PostgrestError ? new Error(`Database error: ${err.message}`) : new Error(fallback);
+};
 
 // Create the context with undefined default value
 const BookingContext = createContext<BookingContextType | undefined>(undefined);
@@ -44,6 +55,7 @@ export const BookingProvider: React.FC<BookingProviderProps> = ({ children }) =>
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<Error | null>(null);
+  const { seasons: usageSeasons, addSeason: addUsageSeason, deleteSeason: deleteUsageSeason } = useUsageSeasons(selectedProperty?.id);
 
   // --- START: Derive current user's role (needed for addBooking) ---
    const currentUserRole: MemberRole | null = useMemo(() => {
@@ -131,6 +143,13 @@ export const BookingProvider: React.FC<BookingProviderProps> = ({ children }) =>
     fetchBookings();
   }, [fetchBookings]);
 
+  // A stay past the booker's remaining nights; empty when it fits or the property has no entitlements
+  const findEntitlementOverages = useCallback((userId: string, stay: UsageStayInput, excludeBookingId?: string): EntitlementOverage[] => {
+    const member = propertyMembers?.find((m: PropertyMemberWithProfile) => m.user_id === userId);
+    if (!member || !selectedProperty?.usage_nights_per_year) return [];
+    return checkStayEntitlement(member, stay, bookings.filter(b => b.id !== excludeBookingId), usageSeasons, selectedProperty.usage_nights_per_year, format(new Date(), 'yyyy-MM-dd'));
+  }, [propertyMembers, selectedProperty, bookings, usageSeasons]);
+
   // Function to add a new booking
   const addBooking = useCallback(async (
     bookingData: Omit<TablesInsert<'bookings'>, 'id' | 'created_at' | 'user_id' | 'status' | 'property_id'> & { status?: string }
@@ -147,6 +166,14 @@ export const BookingProvider: React.FC<BookingProviderProps> = ({ children }) =>
     const initialStatus = isPrivilegedUser ? 'approved' : 'pending';
     const toastMessage = isPrivilegedUser ? 'Booking created successfully.' : 'Booking requested successfully.';
 
+    // Over the booker's share: refused when the property enforces entitlements, otherwise saved with a warning
+    const overageMessage = describeEntitlementOverage(findEntitlementOverages(user.id, bookingData));
+    if (overageMessage && selectedProperty.usage_enforcement === 'block') {
+      const err = new Error(`${overageMessage} Shorten the stay or ask an owner to raise the nights per year.`);
+      toast({ title: 'Over Your Night Entitlement', description: err.message, variant: 'destructive' });
+      return { data: null, error: err };
+    }
+
     const dataToInsert: TablesInsert<'bookings'> = {
       ...bookingData,
       property_id: selectedProperty.id,
@@ -187,16 +214,19 @@ export const BookingProvider: React.FC<BookingProviderProps> = ({ children }) =>
       };
 
       setBookings((prev) => [...prev, newBooking]);
-      toast({ title: 'Success', description: toastMessage }); // Use dynamic toast message
+      // The database holds bookings that overlap a maintenance block for approval
+      if (newBooking.conflict_note) toast({ title: 'Booking Needs Approval', description: newBooking.conflict_note });
+      else if (overageMessage) toast({ title: 'Over Your Night Entitlement', description: `${overageMessage} ${toastMessage}` });
+      else toast({ title: 'Success', description: toastMessage }); // Use dynamic toast message
       return { data: newBooking, error: null };
 
     } catch (err: any) {
       console.error('BookingContext: Error adding booking:', err);
-      const addError = err instanceof PostgrestError ? new Error(`Database error: ${err.message}`) : new Error('Failed to add booking');
+      const addError = toBookingError(err, 'Failed to add booking');
       toast({ title: 'Error', description: addError.message, variant: 'destructive' });
       return { data: null, error: addError };
     }
-  }, [user, selectedProperty, toast, currentUserRole]); // Add currentUserRole dependency
+  }, [user, selectedProperty, toast, currentUserRole, findEntitlementOverages]); // Add currentUserRole dependency
 
   // Function to update an existing booking
   const updateBooking = useCallback(async (
@@ -219,6 +249,17 @@ export const BookingProvider: React.FC<BookingProviderProps> = ({ children }) =>
         return { data: null, error: err };
      }
 
+    // New dates are checked against the booker's share like a new booking, without the nights they replace
+    const existingStay = bookings.find(b => b.id === bookingId);
+    const overageMessage = existingStay && (updatePayload.start_date || updatePayload.end_date)
+      ? describeEntitlementOverage(findEntitlementOverages(existingStay.user_id, { start_date: updatePayload.start_date ?? existingStay.start_date, end_date: updatePayload.end_date ?? existingStay.end_date }, bookingId))
+      : '';
+    if (overageMessage && selectedProperty?.usage_enforcement === 'block') {
+      const err = new Error(`${overageMessage} Shorten the stay or ask an owner to raise the nights per year.`);
+      toast({ title: 'Over Your Night Entitlement', description: err.message, variant: 'destructive' });
+      return { data: null, error: err };
+    }
+
     try {
       const { data: updatedBookingRow, error } = await supabase
         .from('bookings')
@@ -259,16 +300,18 @@ export const BookingProvider: React.FC<BookingProviderProps> = ({ children }) =>
       setBookings((prev) =>
         prev.map((b) => (b.id === bookingId ? updatedBooking : b))
       );
-      toast({ title: 'Success', description: 'Booking updated successfully.' });
+      if (updatedBooking.conflict_note && updatedBooking.status === 'pending') toast({ title: 'Booking Needs Approval', description: updatedBooking.conflict_note });
+      else if (overageMessage) toast({ title: 'Over Your Night Entitlement', description: `${overageMessage} Booking updated.` });
+      else toast({ title: 'Success', description: 'Booking updated successfully.' });
       return { data: updatedBooking, error: null };
 
     } catch (err: any) {
       console.error('BookingContext: Error updating booking:', err);
-      const updateError = err instanceof PostgrestError ? new Error(`Database error: ${err.message}`) : new Error('Failed to update booking');
+      const updateError = toBookingError(err, 'Failed to update booking');
       toast({ title: 'Error', description: updateError.message, variant: 'destructive' });
       return { data: null, error: updateError };
     }
-  }, [user, toast, bookings]);
+  }, [user, toast, bookings, selectedProperty, findEntitlementOverages]);
 
   // Function to delete a booking
   const deleteBooking = useCallback(async (bookingId: string): Promise<DbResult<null>> => {
@@ -326,6 +369,10 @@ export const BookingProvider: React.FC<BookingProviderProps> = ({ children }) =>
     deleteBooking,
     getBookingById,
     updateBookingStatus,
+    usageSeasons,
+    addUsageSeason,
+    deleteUsageSeason,
+    findEntitlementOverages,
   };
 
   // Provide the context value to children components
@@ -1,12 +1,24 @@
 // src/contexts/CoOwnerContext.tsx
-// v2 - Adjusted invite success toast message.
+// v3 - Ownership ledger: load stake history, record changes and look up stakes on a date.
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useProperty } from '@/contexts/PropertyContext';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { PropertyMemberWithProfile, MemberRole, Database } from '@/integrations/supabase/types';
+import { PropertyMemberWithProfile, MemberRole, Database, OwnershipChangeRow, OwnershipChangeReasonType } from '@/integrations/supabase/types';
+import { computeStakesAsOf } from '@/lib/ownership';
+import type { OwnershipStake } from '@/lib/splits';
+import { format } from 'date-fns';
+
+export interface OwnershipChangeInput {
+  fromUserId: string | null; // Member giving up the stake (null = newly issued stake)
+  toUserId: string | null; // Member receiving the stake (null = stake retired)
+  percentage: number;
+  effectiveDate: Date;
+  reason: OwnershipChangeReasonType;
+  note?: string | null;
+}
 
 // Define the shape of the context data
 interface CoOwnerContextType {
@@ -21,6 +33,12 @@ interface CoOwnerContextType {
   removeMember: (memberId: string) => Promise<void>;
   isLoadingAction: boolean; // Loading state for invite/update/remove actions
   error: string | null; // Error state for actions
+  ownershipChanges: OwnershipChangeRow[]; // Ledger for the selected property, oldest first
+  isLoadingOwnership: boolean;
+  canManageOwnership: boolean; // Only owners record stake changes
+  recordOwnershipChange: (input: OwnershipChangeInput) => Promise<boolean>;
+  getStakesAsOf: (date: Date | string) => OwnershipStake[]; // Stakes in effect on a date (defaults to the ledger, not the cached ownership_percentage)
+  refreshOwnershipChanges: () => Promise<void>;
 }
 
 // Create the context
@@ -34,6 +52,8 @@ export function CoOwnerProvider({ children }: { children: React.ReactNode }) {
 
   const [isLoadingAction, setIsLoadingAction] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [ownershipChanges, setOwnershipChanges] = useState<OwnershipChangeRow[]>([]);
+  const [isLoadingOwnership, setIsLoadingOwnership] = useState(false);
 
   // Filtered Members for Selected Property
   const members = useMemo(() => {
@@ -72,6 +92,70 @@ export function CoOwnerProvider({ children }: { children: React.ReactNode }) {
     return targetMember.role !== MemberRole.Owner;
   }, [currentUserRole, user?.id, members]);
 
+  const canManageOwnership = currentUserRole === MemberRole.Owner;
+
+  // Ownership Ledger
+  const refreshOwnershipChanges = useCallback(async () => {
+    if (!selectedProperty?.id) { setOwnershipChanges([]); return; }
+    setIsLoadingOwnership(true);
+    const { data, error: fetchError } = await supabase
+      .from('ownership_changes')
+      .select('*')
+      .eq('property_id', selectedProperty.id)
+      .order('effective_date', { ascending: true })
+      .order('created_at', { ascending: true });
+    if (fetchError) {
+      console.error("Error fetching ownership changes:", fetchError);
+      toast({ title: "Error", description: "Could not load ownership history.", variant: "destructive" });
+      setOwnershipChanges([]);
+    } else {
+      setOwnershipChanges((data ?? []) as OwnershipChangeRow[]);
+    }
+    setIsLoadingOwnership(false);
+  }, [selectedProperty?.id, toast]);
+
+  // Members added with a stake get an 'initial' ledger entry server-side, so reload when membership changes
+  useEffect(() => { refreshOwnershipChanges(); }, [refreshOwnershipChanges, members.length]);
+
+  const getStakesAsOf = useCallback((date: Date | string): OwnershipStake[] => {
+    const asOfDate = typeof date === 'string' ? date : format(date, 'yyyy-MM-dd');
+    return computeStakesAsOf(ownershipChanges, asOfDate);
+  }, [ownershipChanges]);
+
+  const recordOwnershipChange = useCallback(async (input: OwnershipChangeInput): Promise<boolean> => {
+    if (!selectedProperty || !canManageOwnership) {
+      toast({ title: "Permission Denied", description: "Only property owners can record ownership changes.", variant: "destructive" });
+      return false;
+    }
+    setIsLoadingAction(true);
+    setError(null);
+    try {
+      const { data, error: rpcError } = await supabase.rpc('record_ownership_change', {
+        p_property_id: selectedProperty.id,
+        p_from_user_id: input.fromUserId,
+        p_to_user_id: input.toUserId,
+        p_percentage: input.percentage,
+        p_effective_date: format(input.effectiveDate, 'yyyy-MM-dd'),
+        p_reason: input.reason,
+        p_note: input.note ?? null,
+      });
+      if (rpcError) throw rpcError;
+      if (data && 'error' in data) throw new Error(data.error);
+      toast({ title: "Ownership Updated", description: "The ownership change has been recorded." });
+      // ownership_percentage on property_members is refreshed server-side as today's stake
+      await Promise.all([refreshOwnershipChanges(), refreshProperties('recordOwnershipChange')]);
+      return true;
+    } catch (err) {
+      console.error("Error recording ownership change:", err);
+      const message = err instanceof Error ? err.message : "An unexpected error occurred.";
+      setError(message);
+      toast({ title: "Update Failed", description: message, variant: "destructive" });
+      return false;
+    } finally {
+      setIsLoadingAction(false);
+    }
+  }, [selectedProperty, canManageOwnership, refreshOwnershipChanges, refreshProperties, toast]);
+
   // Actions
   const inviteMember = useCallback(async (email: string, role: MemberRole) => {
     if (!selectedProperty || !canInvite) {
@@ -172,9 +256,16 @@ export function CoOwnerProvider({ children }: { children: React.ReactNode }) {
     removeMember,
     isLoadingAction,
     error,
+    ownershipChanges,
+    isLoadingOwnership,
+    canManageOwnership,
+    recordOwnershipChange,
+    getStakesAsOf,
+    refreshOwnershipChanges,
   }), [
       members, isLoadingProperties, currentUserRole, canInvite, canEditRole, canRemoveMember,
-      inviteMember, updateMemberRole, removeMember, isLoadingAction, error
+      inviteMember, updateMemberRole, removeMember, isLoadingAction, error,
+      ownershipChanges, isLoadingOwnership, canManageOwnership, recordOwnershipChange, getStakesAsOf, refreshOwnershipChanges
   ]);
 
   return (
@@ -1,5 +1,5 @@
 // src/contexts/ExpenseContext.tsx
-// v31 - FIX: Correct update function name and remove p_property_id from payload.
+// v37 - addExpenseWithSplits sends p_receipt_url (the RPC has no default for it, and PostgREST matches by argument name).
 
 import React, {
   createContext,
@@ -20,10 +20,13 @@ import {
   SplitMethodType,
   ExpenseCategoryType,
   PropertyMemberWithProfile,
-  SplitStatus
+  SplitStatus,
+  RpcSplitInput,
+  ExchangeRateSourceType
 } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
 import { PostgrestError } from "@supabase/supabase-js";
+import { convertExpenseToBase, DEFAULT_BASE_CURRENCY } from "@/lib/currency";
 
 // --- Local Types ---
 export interface EnrichedExpenseSplit extends ExpenseSplitRow { profile: Profile | null; }
@@ -39,8 +42,21 @@ export interface ExpenseFormValues {
     notes?: string | null;
     receipt_url?: string | null;
     splits: Array<{ user_id: string; amount?: number | string | null; percentage?: number | string | null; shares?: number | string | null; status?: SplitStatus | string | null; }>;
+    // amount and split amounts are in this currency (default: the property's base currency); exchange_rate converts them to base
+    currency?: string | null; exchange_rate?: number | null; exchange_rate_source?: ExchangeRateSourceType | null;
 }
 
+export interface ExpenseImportRow {
+    rowNumber: number; // Line in the source file, for error reporting
+    date: string; // yyyy-MM-dd
+    description: string; amount: number;
+    category: ExpenseCategoryType;
+    paid_by_user_id: string;
+    split_method: SplitMethodType;
+    splits: RpcSplitInput[];
+}
+export interface ExpenseImportResult { created: number; failed: Array<{ rowNumber: number; message: string }>; }
+
 // --- Context Type Definition ---
 interface ExpenseContextType {
   expenses: Expense[]; expenseSplits: ExpenseSplitRow[]; combinedExpenses: CombinedExpenseData[];
@@ -50,6 +66,9 @@ interface ExpenseContextType {
   updateExpenseWithSplits: (expenseId: string, expenseData: ExpenseFormValues) => Promise<{ data: Expense | null; error: PostgrestError | Error | null }>;
   deleteExpenseWithSplits: (expenseId: string) => Promise<{ error: PostgrestError | null }>;
   getReceiptUrl: (filePath: string) => Promise<string | null>;
+  recordSettlement: (fromUserId: string, toUserId: string, note?: string | null) => Promise<{ error: PostgrestError | Error | null }>;
+  reviewExpense: (expenseId: string, approve: boolean, note?: string | null) => Promise<{ error: PostgrestError | Error | null }>;
+  importExpenses: (rows: ExpenseImportRow[], onProgress?: (done: number) => void) => Promise<ExpenseImportResult>;
 }
 
 const ExpenseContext = createContext<ExpenseContextType | undefined>(undefined);
@@ -66,6 +85,16 @@ export const ExpenseProvider: React.FC<{ children: ReactNode }> = ({ children })
   const [errorSplits, setErrorSplits] = useState<string | null>(null);
   const propertyId = selectedProperty?.id; // Keep propertyId for fetch logic
   const userId = user?.id;
+  const baseCurrency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
+
+  // Amount, splits and currency fields for the expense RPCs; splits are validated, then converted to the base currency
+  const toRpcAmountFields = useCallback((expenseData: ExpenseFormValues) => {
+        const splits = expenseData.splits.map(s => { if (s.user_id == null || s.amount == null || s.status == null) { console.error("Error in context: Null value found in split before sending to DB:", s); throw new Error("Internal: Invalid split data for DB."); } return { user_id: s.user_id, amount: Number(s.amount), status: String(s.status), percentage: s.percentage != null && s.percentage !== '' ? Number(s.percentage) : null, shares: s.shares != null && s.shares !== '' ? Number(s.shares) : null }; });
+        const currency = expenseData.currency || baseCurrency; const isForeign = currency !== baseCurrency;
+        if (isForeign && !(Number(expenseData.exchange_rate) > 0)) throw new Error(`An exchange rate from ${currency} to ${baseCurrency} is required.`);
+        const converted = isForeign ? convertExpenseToBase(Number(expenseData.amount), splits, Number(expenseData.exchange_rate)) : { amount: Number(expenseData.amount), splits };
+        return { p_amount: converted.amount, p_splits: converted.splits, p_currency: currency, p_original_amount: Number(expenseData.amount), p_exchange_rate: isForeign ? Number(expenseData.exchange_rate) : 1, p_exchange_rate_source: isForeign ? expenseData.exchange_rate_source || 'manual' : null };
+  }, [baseCurrency]);
 
   // Fetch Logic (remains the same)
   const fetchExpensesAndSplits = useCallback(async (log = false) => { /* ... */
@@ -88,8 +117,7 @@ export const ExpenseProvider: React.FC<{ children: ReactNode }> = ({ children })
   // Add Expense Function (remains same as v30)
   const addExpenseWithSplits = async (expenseData: ExpenseFormValues): Promise<{ data: Expense | null; error: PostgrestError | Error | null }> => { /* ... */
         if (!propertyId) return { data: null, error: new Error("No property selected") }; if (!user?.id) return { data: null, error: new Error("User not authenticated") };
-        const rpcPayload = { p_property_id: propertyId, p_paid_by_user_id: expenseData.paid_by_user_id, p_date: expenseData.date.toISOString().split('T')[0], p_description: expenseData.description, p_amount: Number(expenseData.amount), p_category: expenseData.category, p_split_method: expenseData.split_method, p_notes: expenseData.notes || null, p_splits: expenseData.splits.map(s => { if (s.user_id == null || s.amount == null || s.status == null) { throw new Error("Internal: Invalid split data for DB."); } return { user_id: s.user_id, amount: Number(s.amount), status: String(s.status) }; }) };
-        console.log("Calling add_expense_and_splits with payload:", rpcPayload); try { const { error } = await supabase.rpc('add_expense_and_splits', rpcPayload); if (error) throw error; await fetchExpensesAndSplits(true); toast({ title: "Expense Added" }); return { data: null, error: null }; } catch (err: any) { console.error("Error adding expense:", err); const message = err.message || "Unknown add error."; toast({ variant: "destructive", title: "Error adding expense", description: message }); return { data: null, error: err }; }
+        console.log("Calling add_expense_and_splits for:", expenseData); try { const rpcPayload = { p_property_id: propertyId, p_paid_by_user_id: expenseData.paid_by_user_id, p_date: expenseData.date.toISOString().split('T')[0], p_description: expenseData.description, p_category: expenseData.category, p_split_method: expenseData.split_method, p_notes: expenseData.notes || null, p_receipt_url: expenseData.receipt_url ?? null, ...toRpcAmountFields(expenseData) }; const { error } = await supabase.rpc('add_expense_and_splits', rpcPayload); if (error) throw error; await fetchExpensesAndSplits(true); toast({ title: "Expense Added" }); return { data: null, error: null }; } catch (err: any) { console.error("Error adding expense:", err); const message = err.message || "Unknown add error."; toast({ variant: "destructive", title: "Error adding expense", description: message }); return { data: null, error: err }; }
    };
 
   // --- Update Expense Function - CORRECTED ---
@@ -97,35 +125,24 @@ export const ExpenseProvider: React.FC<{ children: ReactNode }> = ({ children })
     if (!expenseId) return { data: null, error: new Error("No expense ID provided for update.") }; // Add check for expenseId
     if (!user?.id) return { data: null, error: new Error("User not authenticated") }; // Added user check
 
-    // Construct payload matching the CORRECT function signature
-    const rpcPayload = {
+    // Construct payload matching the CORRECT function signature (amount fields are converted inside the try below)
+    const rpcPayloadBase = {
         p_expense_id: expenseId,
         // p_property_id: propertyId, // REMOVED - Not expected by the function
         p_paid_by_user_id: expenseData.paid_by_user_id,
         p_date: expenseData.date.toISOString().split('T')[0],
         p_description: expenseData.description,
-        p_amount: Number(expenseData.amount),
         p_category: expenseData.category,
         p_split_method: expenseData.split_method,
         p_notes: expenseData.notes || null,
-        p_splits: expenseData.splits.map(s => {
-            if (s.user_id == null || s.amount == null || s.status == null) {
-                console.error("Error in context: Null value found in split before sending to DB (update):", s);
-                throw new Error("Internal error: Invalid split data prepared for database update.");
-            }
-            return {
-                user_id: s.user_id,
-                amount: Number(s.amount),
-                status: String(s.status)
-            };
-        })
     };
 
     // Use the CORRECT function name
     const functionName = 'update_expense_and_recalculate_splits';
-    console.log(`Calling ${functionName} with payload:`, rpcPayload);
+    console.log(`Calling ${functionName} with payload:`, rpcPayloadBase);
 
     try {
+        const rpcPayload = { ...rpcPayloadBase, ...toRpcAmountFields(expenseData) };
         // Call the CORRECT RPC function
         const { error } = await supabase.rpc(functionName, rpcPayload);
         if (error) {
@@ -150,11 +167,40 @@ export const ExpenseProvider: React.FC<{ children: ReactNode }> = ({ children })
         if (!expenseId) { return { error: new PostgrestError({ message: "No expense ID", details: "", hint: "", code: "DL001" }) }; } console.log(`Attempting delete: ${expenseId}`); try { const { error } = await supabase.rpc('delete_expense_and_splits', { p_expense_id: expenseId }); if (error) { console.error("Delete RPC Error:", error); if (error.code === 'PGRST202') { throw new Error(`DB function 'delete_expense_and_splits' not found/mismatch. Verify params. Error: ${error.message}`); } throw error; } console.log(`Expense ${expenseId} deleted.`); toast({ title: "Expense Deleted" }); await fetchExpensesAndSplits(false); return { error: null }; } catch (err: any) { console.error("Error deleting expense:", err); toast({ variant: "destructive", title: "Error Deleting Expense", description: err.message }); return { error: err instanceof PostgrestError ? err : new PostgrestError({ message: err.message, details: "", hint: "", code: "DL002" }) }; }
    };
 
+  // Record Settlement: marks every outstanding split between the two members paid in one RPC call
+  const recordSettlement = useCallback(async (fromUserId: string, toUserId: string, note?: string | null): Promise<{ error: PostgrestError | Error | null }> => {
+        if (!propertyId) return { error: new Error("No property selected") }; if (!user?.id) return { error: new Error("User not authenticated") };
+        try { const { data, error } = await supabase.rpc('record_settlement', { p_property_id: propertyId, p_from_user_id: fromUserId, p_to_user_id: toUserId, p_note: note || null }); if (error) throw error; if (data && 'error' in data) throw new Error(data.error); await fetchExpensesAndSplits(false); toast({ title: "Settlement Recorded", description: data ? `${data.settled_splits} split(s) marked as paid.` : undefined }); return { error: null }; }
+        catch (err) { console.error("Error recording settlement:", err); const error = err instanceof Error ? err : new Error(String((err as PostgrestError)?.message ?? err)); toast({ variant: "destructive", title: "Error Recording Settlement", description: error.message }); return { error }; }
+   }, [propertyId, user?.id, fetchExpensesAndSplits, toast]);
+
+  // Review Expense: approve or reject an expense above the property's approval threshold (the RPC checks the role)
+  const reviewExpense = useCallback(async (expenseId: string, approve: boolean, note?: string | null): Promise<{ error: PostgrestError | Error | null }> => {
+        if (!user?.id) return { error: new Error("User not authenticated") };
+        try { const { data, error } = await supabase.rpc('review_expense', { p_expense_id: expenseId, p_approve: approve, p_note: note || null }); if (error) throw error; if (data && 'error' in data) throw new Error(data.error); await fetchExpensesAndSplits(false); toast({ title: approve ? "Expense Approved" : "Expense Rejected", description: approve ? "Its splits now count toward balances." : undefined }); return { error: null }; }
+        catch (err) { console.error("Error reviewing expense:", err); const error = err instanceof Error ? err : new Error(String((err as PostgrestError)?.message ?? err)); toast({ variant: "destructive", title: "Error Reviewing Expense", description: error.message }); return { error }; }
+   }, [user?.id, fetchExpensesAndSplits, toast]);
+
   // Context Value Definition (remains same)
+  // Import Expenses: one add_expense_and_splits call per row (each row is atomic), then a single refetch
+  const importExpenses = useCallback(async (rows: ExpenseImportRow[], onProgress?: (done: number) => void): Promise<ExpenseImportResult> => {
+        const result: ExpenseImportResult = { created: 0, failed: [] };
+        if (!propertyId || !user?.id) { return { created: 0, failed: rows.map(r => ({ rowNumber: r.rowNumber, message: "No property selected" })) }; }
+        for (const [index, row] of rows.entries()) {
+            const { error } = await supabase.rpc('add_expense_and_splits', { p_property_id: propertyId, p_date: row.date, p_category: row.category, p_amount: row.amount, p_description: row.description, p_receipt_url: null, p_paid_by_user_id: row.paid_by_user_id, p_split_method: row.split_method, p_notes: `Imported from CSV (row ${row.rowNumber})`, p_splits: row.splits });
+            if (error) { console.error(`Error importing row ${row.rowNumber}:`, error); result.failed.push({ rowNumber: row.rowNumber, message: error.message }); }
+            else { result.created += 1; }
+            onProgress?.(index + 1);
+        }
+        if (result.created > 0) await fetchExpensesAndSplits(false);
+        toast({ variant: result.failed.length ? "destructive" : "default", title: "Import Finished", description: `${result.created} expense(s) created${result.failed.length ? `, ${result.failed.length} failed` : ''}.` });
+        return result;
+   }, [propertyId, user?.id, fetchExpensesAndSplits, toast]);
+
   const value: ExpenseContextType = useMemo(() => ({ /* ... */
-        expenses, expenseSplits, combinedExpenses, isLoadingExpenses, isLoadingSplits, errorExpenses, errorSplits, fetchExpensesAndSplits, addExpenseWithSplits, updateExpenseWithSplits, deleteExpenseWithSplits, getReceiptUrl
+        expenses, expenseSplits, combinedExpenses, isLoadingExpenses, isLoadingSplits, errorExpenses, errorSplits, fetchExpensesAndSplits, addExpenseWithSplits, updateExpenseWithSplits, deleteExpenseWithSplits, getReceiptUrl, recordSettlement, reviewExpense, importExpenses
    }), [ /* ... dependencies ... */
-        expenses, expenseSplits, combinedExpenses, isLoadingExpenses, isLoadingSplits, errorExpenses, errorSplits, fetchExpensesAndSplits, addExpenseWithSplits, updateExpenseWithSplits, deleteExpenseWithSplits, getReceiptUrl
+        expenses, expenseSplits, combinedExpenses, isLoadingExpenses, isLoadingSplits, errorExpenses, errorSplits, fetchExpensesAndSplits, addExpenseWithSplits, updateExpenseWithSplits, deleteExpenseWithSplits, getReceiptUrl, recordSettlement, reviewExpense, importExpenses
    ]);
 
   return ( <ExpenseContext.Provider value={value}>{children}</ExpenseContext.Provider> );
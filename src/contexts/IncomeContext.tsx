@@ -0,0 +1,87 @@
+// src/contexts/IncomeContext.tsx
+// v2 - The context object, its types and useIncome live in lib/income, so this file only exports the provider.
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Income, MemberRole } from '@/integrations/supabase/types';
+import { format } from 'date-fns';
+import { IncomeContext, IncomeContextType, IncomeInput } from '@/lib/income';
+
+export function IncomeProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const { selectedProperty, propertyMembers, isLoading: isPropertyLoading } = useProperty();
+  const { toast } = useToast();
+  const [incomes, setIncomes] = useState<Income[]>([]);
+  const [isLoadingIncomes, setIsLoadingIncomes] = useState(false);
+  const [errorIncomes, setErrorIncomes] = useState<string | null>(null);
+  const propertyId = selectedProperty?.id;
+
+  const fetchIncomes = useCallback(async () => {
+    if (!propertyId || !user) { setIncomes([]); return; }
+    setIsLoadingIncomes(true);
+    setErrorIncomes(null);
+    try {
+      const { data, error } = await supabase.from('incomes').select('*, distributions: income_distributions (*)').eq('property_id', propertyId).order('date', { ascending: false });
+      if (error) throw error;
+      setIncomes((data ?? []) as Income[]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load income.';
+      console.error("Error fetching incomes:", err);
+      setErrorIncomes(message);
+      setIncomes([]);
+      toast({ variant: "destructive", title: "Error Loading Income", description: message });
+    } finally {
+      setIsLoadingIncomes(false);
+    }
+  }, [propertyId, user, toast]);
+
+  useEffect(() => {
+    if (!isPropertyLoading) fetchIncomes();
+  }, [isPropertyLoading, fetchIncomes]);
+
+  const addIncome = useCallback(async (input: IncomeInput): Promise<boolean> => {
+    if (!propertyId) return false;
+    const { error } = await supabase.rpc('add_income_and_distributions', {
+      p_property_id: propertyId,
+      p_date: format(input.date, 'yyyy-MM-dd'),
+      p_amount: input.amount,
+      p_source: input.source,
+      p_description: input.description?.trim() || null,
+      p_distribution_method: input.distributionMethod,
+      p_notes: input.notes?.trim() || null,
+      p_distributions: input.distributions,
+    });
+    if (error) {
+      console.error("Error adding income:", error);
+      toast({ variant: "destructive", title: "Error Recording Income", description: error.message });
+      return false;
+    }
+    toast({ title: "Income Recorded" });
+    await fetchIncomes();
+    return true;
+  }, [propertyId, fetchIncomes, toast]);
+
+  const deleteIncome = useCallback(async (incomeId: string): Promise<boolean> => {
+    const { error } = await supabase.from('incomes').delete().eq('id', incomeId);
+    if (error) {
+      console.error("Error deleting income:", error);
+      toast({ variant: "destructive", title: "Error Deleting Income", description: error.message });
+      return false;
+    }
+    setIncomes(prev => prev.filter(i => i.id !== incomeId));
+    toast({ title: "Income Deleted" });
+    return true;
+  }, [toast]);
+
+  const currentUserRole = useMemo(() => propertyMembers.find(m => m.property_id === propertyId && m.user_id === user?.id)?.role ?? null, [propertyMembers, propertyId, user]);
+  const canDeleteIncome = useCallback((income: Income) => currentUserRole === MemberRole.Owner || income.created_by === user?.id, [currentUserRole, user]);
+
+  const value = useMemo(() => ({
+    incomes, isLoadingIncomes, errorIncomes, fetchIncomes, addIncome, deleteIncome, canDeleteIncome,
+  }), [incomes, isLoadingIncomes, errorIncomes, fetchIncomes, addIncome, deleteIncome, canDeleteIncome]);
+
+  return <IncomeContext.Provider value={value}>{children}</IncomeContext.Provider>;
+}
@@ -1,5 +1,5 @@
 // src/contexts/RecurringExpenseContext.tsx
-// Corrected: Removed 'Constants' import and replaced its usage with SplitMethod enum.
+// v8 - Equal splits record their participant set in split_details.
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
@@ -15,12 +15,19 @@ import {
     RecurringExpense,
     RecurringExpenseRow,
     RecurringExpenseFormData,
+    RecurringExceptionFormData,
+    RecurringExpenseExceptionRow,
+    RecurringExpenseTermsRow,
     ExpenseCategory, // Keep ExpenseCategory if used, otherwise remove? Assume needed by formData
     SplitMethod, // Use this enum
     Frequency,   // Use this enum
     RecurringExpenseCategory, // Added: Ensure this specific enum is imported for category field
+    RecurringAmountMode,
+    RecurringEstimateMethod,
     Json,
 } from '@/integrations/supabase/types';
+import { firstDueOnOrAfter, formatRecurrenceRule, parseRecurrenceRule } from '@/lib/recurrence';
+import { termsInForce } from '@/lib/recurringTerms';
 
 // Helper: Format Currency (Unchanged)
 const formatCurrency = (amount: number | null | undefined): string => {
@@ -29,6 +36,10 @@ const formatCurrency = (amount: number | null | undefined): string => {
     catch (e) { console.error("Error formatting currency:", amount, e); return 'N/A'; }
 };
 
+// Helper: Key-order-independent JSON, since jsonb does not keep the key order split_details was written with
+const canonicalJson = (value: unknown): string => JSON.stringify(value ?? null, (_key, val) =>
+    val && typeof val === 'object' && !Array.isArray(val) ? Object.fromEntries(Object.entries(val).sort(([a], [b]) => a.localeCompare(b))) : val);
+
 // Helper: Build JSON object for split_details column based on form data
 const buildSplitDetailsJson = (
     formData: RecurringExpenseFormData,
@@ -39,8 +50,9 @@ const buildSplitDetailsJson = (
     // Corrected: Use SplitMethod enum
     switch (formData.split_method) {
         case SplitMethod.Equal:
-            // Store minimal info, calculation happens when generating expense
-            return { type: SplitMethod.Equal };
+            // The participant set is fixed here; amounts are calculated when generating the expense
+            if (!formData.participant_ids?.length) throw new Error("Choose at least one participant for an equal split.");
+            return { type: SplitMethod.Equal, participants: formData.participant_ids };
 
         case SplitMethod.Percentage:
              if (!formData.percentage_splits) throw new Error("Percentages missing for percentage split.");
@@ -79,6 +91,24 @@ const buildSplitDetailsJson = (
              // Store the validated amounts
              return { type: SplitMethod.Custom, splits: customSplits };
 
+        case SplitMethod.Shares: {
+             if (!formData.share_splits) throw new Error("Shares missing for shares split.");
+             const shareSplits: Record<string, number> = {};
+             Object.entries(formData.share_splits).forEach(([userId, sharesInput]) => {
+                 if (sharesInput == null) return; // Member not participating
+                 const shares = Number(sharesInput);
+                 if (!Number.isInteger(shares) || shares < 0) throw new Error(`Invalid share count: ${sharesInput}`);
+                 if (shares > 0) shareSplits[userId] = shares;
+             });
+             if (Object.keys(shareSplits).length === 0) throw new Error("At least one member needs a share.");
+             // Amounts are worked out per occurrence by generate-expenses (allocateByWeights)
+             return { type: SplitMethod.Shares, splits: shareSplits };
+        }
+
+        case SplitMethod.Ownership:
+            // Stakes are looked up by generate-expenses for each occurrence, so nothing to store
+            return { type: SplitMethod.Ownership };
+
         // Corrected: Use enum (assuming PayerOnly exists)
         case SplitMethod.PayerOnly:
             // No specific splits needed, just the type
@@ -92,6 +122,12 @@ const buildSplitDetailsJson = (
     }
 };
 
+// Helper: Canonical rule text plus the frequency/interval stored alongside it (coarse fallback for readers that ignore rules)
+const buildRuleSchedule = (formData: RecurringExpenseFormData): { recurrence_rule: string | null; frequency: RecurringExpenseRow['frequency']; interval: number } => {
+    if (!formData.recurrence_rule?.trim()) return { recurrence_rule: null, frequency: formData.frequency, interval: formData.interval };
+    const rule = parseRecurrenceRule(formData.recurrence_rule); // Throws with a readable message
+    return { recurrence_rule: formatRecurrenceRule(rule), frequency: rule.freq === 'YEARLY' ? Frequency.Annually : Frequency.Monthly, interval: 1 };
+};
 
 // --- Context Definition (Unchanged) ---
 interface RecurringExpenseContextType {
@@ -103,6 +139,8 @@ interface RecurringExpenseContextType {
     updateRecurringExpense: (expenseId: string, formData: RecurringExpenseFormData) => Promise<boolean>;
     deleteRecurringExpense: (expenseId: string) => Promise<boolean>;
     toggleRecurringExpenseActive: (expenseId: string, newActiveState: boolean) => Promise<boolean>;
+    saveRecurringException: (expenseId: string, formData: RecurringExceptionFormData, exceptionId?: string) => Promise<boolean>;
+    deleteRecurringException: (exceptionId: string) => Promise<boolean>;
 }
 
 const RecurringExpenseContext = createContext<RecurringExpenseContextType | undefined>(undefined);
@@ -146,7 +184,9 @@ export function RecurringExpenseProvider({ children }: { children: React.ReactNo
                 .select(`
                     *,
                     created_by_profile: profiles!recurring_expenses_created_by_fkey(*),
-                    paid_by_profile: profiles!recurring_expenses_paid_by_user_id_fkey(*)
+                    paid_by_profile: profiles!recurring_expenses_paid_by_user_id_fkey(*),
+                    exceptions: recurring_expense_exceptions(*),
+                    terms: recurring_expense_terms(*)
                 `)
                 .eq('property_id', propertyId)
                 .order('created_at', { ascending: false });
@@ -214,6 +254,12 @@ export function RecurringExpenseProvider({ children }: { children: React.ReactNo
         setIsLoading(true); // Use context's isLoading state
         try {
             const splitDetailsJson = buildSplitDetailsJson(formData, payerId);
+            const ruleSchedule = buildRuleSchedule(formData);
+            const startDate = format(startOfDay(formData.start_date), 'yyyy-MM-dd');
+            const endDate = formData.end_date ? format(startOfDay(formData.end_date), 'yyyy-MM-dd') : null;
+            // Rule templates start at the rule's first occurrence, not necessarily start_date
+            const firstDue = ruleSchedule.recurrence_rule ? firstDueOnOrAfter({ ...ruleSchedule, start_date: startDate, next_due_date: startDate, end_date: endDate, is_active: true }, startDate) : startDate;
+            if (!firstDue || (endDate && firstDue > endDate)) throw new Error("The recurrence rule has no occurrences between the start and end dates.");
             // Use the specific Insert type from Database interface
             const insertData: Database['public']['Tables']['recurring_expenses']['Insert'] = {
                 property_id: selectedPropertyId,
@@ -221,14 +267,16 @@ export function RecurringExpenseProvider({ children }: { children: React.ReactNo
                 amount: formData.amount,
                 category: formData.category, // Ensure category matches RecurringExpenseCategory enum
                 created_by: currentUserId,
-                frequency: formData.frequency,
-                interval: formData.interval,
-                start_date: format(startOfDay(formData.start_date), 'yyyy-MM-dd'),
-                // next_due_date will be set by DB trigger likely based on start_date
-                end_date: formData.end_date ? format(startOfDay(formData.end_date), 'yyyy-MM-dd') : null,
+                ...ruleSchedule,
+                start_date: startDate,
+                // next_due_date will be set by DB trigger likely based on start_date (rule templates set it explicitly)
+                ...(ruleSchedule.recurrence_rule ? { next_due_date: firstDue } : {}),
+                end_date: endDate,
                 paid_by_user_id: payerId,
                 split_method: formData.split_method,
                 split_details: splitDetailsJson,
+                amount_mode: formData.amount_mode ?? RecurringAmountMode.Fixed,
+                estimate_method: formData.estimate_method ?? RecurringEstimateMethod.Last,
                 notes: formData.notes || null,
                 is_active: formData.is_active ?? true,
             };
@@ -275,19 +323,38 @@ export function RecurringExpenseProvider({ children }: { children: React.ReactNo
             const splitDetailsJson = buildSplitDetailsJson(formData, payerId);
             const existingRecord = recurringExpensesData.find(rec => rec.id === expenseId);
             if (!existingRecord) { throw new Error("Cannot update: Existing recurring expense template not found."); }
+            // Amount/payer/split changes become a new terms version from the chosen date (default: the next bill),
+            // so occurrences before it keep the terms they were (or will be) billed on
+            const versions = (existingRecord as RecurringExpense).terms ?? [];
+            const effectiveFrom = formData.terms_effective_from && isValidDate(formData.terms_effective_from) ? format(startOfDay(formData.terms_effective_from), 'yyyy-MM-dd') : existingRecord.next_due_date;
+            const newTerms = { amount: formData.amount, paid_by_user_id: payerId, split_method: formData.split_method, split_details: splitDetailsJson };
+            const termsBefore = termsInForce(versions, effectiveFrom) ?? existingRecord;
+            const termsChanged = Number(termsBefore.amount) !== newTerms.amount || termsBefore.paid_by_user_id !== newTerms.paid_by_user_id || termsBefore.split_method !== newTerms.split_method || canonicalJson(termsBefore.split_details) !== canonicalJson(newTerms.split_details);
+            // The template row mirrors the latest version; an edit effective before a later version leaves it alone
+            const isLatestTerms = !versions.some(v => v.effective_from > effectiveFrom);
+            const ruleSchedule = buildRuleSchedule(formData);
+            const startDate = format(startOfDay(formData.start_date), 'yyyy-MM-dd');
+            const endDate = formData.end_date ? format(startOfDay(formData.end_date), 'yyyy-MM-dd') : null;
+            // A changed rule (or its DTSTART) re-aligns the next due date, never going back before occurrences already billed
+            let nextDueDate: string | undefined;
+            if (ruleSchedule.recurrence_rule && (ruleSchedule.recurrence_rule !== existingRecord.recurrence_rule || startDate !== existingRecord.start_date)) {
+                const from = existingRecord.next_due_date > startDate ? existingRecord.next_due_date : startDate;
+                const aligned = firstDueOnOrAfter({ ...ruleSchedule, start_date: startDate, next_due_date: from, end_date: endDate, is_active: true }, from);
+                if (!aligned) throw new Error("The recurrence rule has no occurrences left after the next due date.");
+                nextDueDate = aligned;
+            }
 
             // Use the specific Update type
             const updateData: Database['public']['Tables']['recurring_expenses']['Update'] = {
                 description: formData.description,
-                amount: formData.amount,
                 category: formData.category,
-                frequency: formData.frequency,
-                interval: formData.interval,
-                start_date: format(startOfDay(formData.start_date), 'yyyy-MM-dd'),
-                end_date: formData.end_date ? format(startOfDay(formData.end_date), 'yyyy-MM-dd') : null,
-                paid_by_user_id: payerId,
-                split_method: formData.split_method,
-                split_details: splitDetailsJson,
+                ...ruleSchedule,
+                start_date: startDate,
+                ...(nextDueDate ? { next_due_date: nextDueDate } : {}),
+                end_date: endDate,
+                ...(isLatestTerms ? newTerms : {}),
+                amount_mode: formData.amount_mode ?? RecurringAmountMode.Fixed,
+                estimate_method: formData.estimate_method ?? RecurringEstimateMethod.Last,
                 notes: formData.notes || null,
                 is_active: formData.is_active ?? true,
                 updated_at: new Date().toISOString(),
@@ -296,6 +363,13 @@ export function RecurringExpenseProvider({ children }: { children: React.ReactNo
              console.log(`Updating recurring expense ID ${expenseId}:`, updateData);
             const { error: updateError } = await supabase.from('recurring_expenses').update(updateData).eq('id', expenseId);
             if (updateError) throw updateError;
+            if (termsChanged) {
+                const { error: termsError } = await supabase.from('recurring_expense_terms').upsert(
+                    { recurring_expense_id: expenseId, property_id: existingRecord.property_id, effective_from: effectiveFrom, ...newTerms },
+                    { onConflict: 'recurring_expense_id,effective_from' }
+                );
+                if (termsError) throw new Error(`Template saved, but the new amount/split could not be scheduled: ${termsError.message}`);
+            }
             toast({ title: "Success", description: `Recurring expense template "${formData.description}" updated.` });
             await refreshRecurringExpenses('updateRecurringExpense');
             return true;
@@ -373,6 +447,46 @@ export function RecurringExpenseProvider({ children }: { children: React.ReactNo
     };
 
 
+    // --- Exceptions (skip one occurrence / pause between dates) ---
+    const saveRecurringException = async (expenseId: string, formData: RecurringExceptionFormData, exceptionId?: string): Promise<boolean> => {
+        if (!expenseId || !selectedPropertyId) {
+            toast({ title: "Missing Information", description: "Cannot save exception. Template or property missing.", variant: "destructive" });
+            return false;
+        }
+        const isPause = formData.kind === 'pause';
+        if (!formData.start_date || (isPause && !formData.end_date)) { toast({ title: "Invalid Date", description: isPause ? "A pause needs a start and end date." : "Choose the occurrence to skip.", variant: "destructive" }); return false; }
+        if (isPause && formData.end_date! < formData.start_date) { toast({ title: "Invalid Date", description: "The pause cannot end before it starts.", variant: "destructive" }); return false; }
+        try {
+            const fields = { kind: formData.kind, start_date: formData.start_date, end_date: isPause ? formData.end_date : null, reason: formData.reason?.trim() || null };
+            const { error: saveError } = exceptionId
+                ? await supabase.from('recurring_expense_exceptions').update({ ...fields, updated_at: new Date().toISOString() }).eq('id', exceptionId)
+                : await supabase.from('recurring_expense_exceptions').insert({ ...fields, recurring_expense_id: expenseId, property_id: selectedPropertyId });
+            if (saveError) throw saveError;
+            toast({ title: "Success", description: isPause ? "Pause saved." : "Occurrence will be skipped." });
+            await refreshRecurringExpenses('saveRecurringException');
+            return true;
+        } catch (err) {
+            console.error(`RecurringExpenseContext: Error saving exception for recurring expense ID ${expenseId}:`, err);
+            toast({ title: "Error Saving Exception", description: err instanceof Error ? err.message : "An unexpected error occurred.", variant: "destructive" });
+            return false;
+        }
+    };
+
+    const deleteRecurringException = async (exceptionId: string): Promise<boolean> => {
+        try {
+            const { error: deleteError } = await supabase.from('recurring_expense_exceptions').delete().eq('id', exceptionId);
+            if (deleteError) throw deleteError;
+            toast({ title: "Success", description: "Exception removed." });
+            await refreshRecurringExpenses('deleteRecurringException');
+            return true;
+        } catch (err) {
+            console.error(`RecurringExpenseContext: Error deleting exception ${exceptionId}:`, err);
+            toast({ title: "Error Removing Exception", description: err instanceof Error ? err.message : "An unexpected error occurred.", variant: "destructive" });
+            return false;
+        }
+    };
+
+
     // --- Data Enrichment ---
     const enrichedRecurringExpenses = useMemo<RecurringExpense[]>(() => {
         console.log(`RecurringExpenseContext: Recalculating enrichedRecurringExpenses. Have ${recurringExpensesData.length} raw items.`);
@@ -380,7 +494,10 @@ export function RecurringExpenseProvider({ children }: { children: React.ReactNo
         return (Array.isArray(recurringExpensesData) ? recurringExpensesData : []).map((row): RecurringExpense => {
              // Cast the nested profile objects fetched via select
              const creatorProfile = row.created_by_profile as Profile | null;
-             const payerProfile = row.paid_by_profile as Profile | null;
+             const terms = [...((row as RecurringExpense).terms ?? [])].sort((a: RecurringExpenseTermsRow, b: RecurringExpenseTermsRow) => a.effective_from.localeCompare(b.effective_from));
+             // Amount, payer and split shown (and edited) are the ones the next bill will use
+             const nextTerms = termsInForce(terms, row.next_due_date ?? format(new Date(), 'yyyy-MM-dd'));
+             const payerProfile = (nextTerms && nextTerms.paid_by_user_id !== row.paid_by_user_id ? profileMap.get(nextTerms.paid_by_user_id ?? '') ?? null : row.paid_by_profile) as Profile | null;
 
              return {
                 ...row,
@@ -389,12 +506,16 @@ export function RecurringExpenseProvider({ children }: { children: React.ReactNo
                 split_method: row.split_method as SplitMethod,
                 frequency: row.frequency as Frequency,
                 split_details: row.split_details, // Already Json
+                ...(nextTerms ? { amount: Number(nextTerms.amount), paid_by_user_id: nextTerms.paid_by_user_id, split_method: nextTerms.split_method as SplitMethod, split_details: nextTerms.split_details } : {}),
+                terms,
                 // Assign casted profiles
                 created_by_profile: creatorProfile,
                 paid_by_profile: payerProfile,
+                // Skip/pause exceptions in date order (listOccurrences and generate-expenses leave these occurrences out)
+                exceptions: [...((row as RecurringExpense).exceptions ?? [])].sort((a: RecurringExpenseExceptionRow, b: RecurringExpenseExceptionRow) => a.start_date.localeCompare(b.start_date)),
             };
         });
-    }, [recurringExpensesData]); // Only depends on the raw fetched data
+    }, [recurringExpensesData, profileMap]); // profileMap resolves the payer of a later terms version
 
 
     // Provide Context Value
@@ -407,6 +528,8 @@ export function RecurringExpenseProvider({ children }: { children: React.ReactNo
         updateRecurringExpense,
         deleteRecurringExpense,
         toggleRecurringExpenseActive,
+        saveRecurringException,
+        deleteRecurringException,
     };
 
     return (
@@ -0,0 +1,87 @@
+// src/hooks/useBookingRequestWindows.ts
+// v2 - Windows no longer take a seed; the database draws it and reveals it with the lottery.
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { BookingPreferenceInput, BookingRequestWindowRow } from '@/integrations/supabase/types';
+
+export interface RequestWindowInput { name: string; stayStart: string; stayEnd: string; closesAt: string; }
+
+export const useBookingRequestWindows = (propertyId: string | null | undefined) => {
+  const [windows, setWindows] = useState<BookingRequestWindowRow[]>([]); // Latest stay range first
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchWindows = useCallback(async () => {
+    if (!propertyId || !user) { setWindows([]); return; }
+    setIsLoading(true);
+    const { data, error } = await supabase.from('booking_request_windows').select('*').eq('property_id', propertyId).order('stay_start', { ascending: false });
+    if (error) { console.error("Error fetching request windows:", error); setWindows([]); }
+    else { setWindows((data ?? []) as BookingRequestWindowRow[]); }
+    setIsLoading(false);
+  }, [propertyId, user]);
+
+  useEffect(() => { fetchWindows(); }, [fetchWindows]);
+
+  const createWindow = useCallback(async (input: RequestWindowInput): Promise<boolean> => {
+    if (!propertyId || !user) return false;
+    const { error } = await supabase.from('booking_request_windows').insert({
+      property_id: propertyId, name: input.name.trim(), stay_start: input.stayStart, stay_end: input.stayEnd, closes_at: input.closesAt,
+    });
+    if (error) {
+      console.error("Error opening request window:", error);
+      toast({ variant: "destructive", title: "Error Opening Window", description: error.message });
+      return false;
+    }
+    toast({ title: "Request Window Open", description: "Members can now submit their preferred dates." });
+    await fetchWindows();
+    return true;
+  }, [propertyId, user, fetchWindows, toast]);
+
+  const deleteWindow = useCallback(async (windowId: string): Promise<boolean> => {
+    const { error } = await supabase.from('booking_request_windows').delete().eq('id', windowId);
+    if (error) {
+      console.error("Error deleting request window:", error);
+      toast({ variant: "destructive", title: "Error Deleting Window", description: error.message });
+      return false;
+    }
+    setWindows(prev => prev.filter(w => w.id !== windowId));
+    toast({ title: "Request Window Deleted", description: "Submitted preferences stay as pending requests." });
+    return true;
+  }, [toast]);
+
+  // Replaces the member's earlier preferences for the window; the caller refreshes bookings
+  const submitPreferences = useCallback(async (windowId: string, preferences: BookingPreferenceInput[]): Promise<boolean> => {
+    try {
+      const { data, error } = await supabase.rpc('submit_booking_preferences', { p_window_id: windowId, p_preferences: preferences });
+      if (error) throw error;
+      if (data && 'error' in data) throw new Error(data.error);
+      toast({ title: "Preferences Submitted", description: "The lottery assigns the dates when the window closes." });
+      return true;
+    } catch (err) {
+      console.error("Error submitting booking preferences:", err);
+      toast({ variant: "destructive", title: "Error Submitting Preferences", description: err instanceof Error ? err.message : String(err) });
+      return false;
+    }
+  }, [toast]);
+
+  const closeWindow = useCallback(async (windowId: string): Promise<boolean> => {
+    try {
+      const { data, error } = await supabase.rpc('close_booking_request_window', { p_window_id: windowId });
+      if (error) throw error;
+      if (data && 'error' in data) throw new Error(data.error);
+      toast({ title: "Lottery Complete", description: `${data?.granted ?? 0} of ${data?.entrants ?? 0} member${data?.entrants === 1 ? '' : 's'} got a stay.` });
+      await fetchWindows();
+      return true;
+    } catch (err) {
+      console.error("Error closing request window:", err);
+      toast({ variant: "destructive", title: "Error Running Lottery", description: err instanceof Error ? err.message : String(err) });
+      return false;
+    }
+  }, [fetchWindows, toast]);
+
+  return { windows, isLoading, fetchWindows, createWindow, deleteWindow, submitPreferences, closeWindow };
+};
@@ -0,0 +1,60 @@
+// src/hooks/useBudgets.ts
+// v1 - A property's category budgets: load, save (one per category and year) and delete.
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { BudgetPeriodType, CategoryBudgetRow, ExpenseCategoryType } from '@/integrations/supabase/types';
+
+export interface BudgetInput { category: ExpenseCategoryType; year: number; period: BudgetPeriodType; amount: number; alertThreshold: number; notes?: string | null; }
+
+export const useBudgets = (propertyId: string | null | undefined) => {
+  const [budgets, setBudgets] = useState<CategoryBudgetRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchBudgets = useCallback(async () => {
+    if (!propertyId || !user) { setBudgets([]); return; }
+    setIsLoading(true); setError(null);
+    const { data, error: fetchError } = await supabase.from('category_budgets').select('*').eq('property_id', propertyId).order('year', { ascending: false }).order('category');
+    if (fetchError) { console.error("Error fetching budgets:", fetchError); setError(fetchError.message); setBudgets([]); }
+    else { setBudgets((data ?? []) as CategoryBudgetRow[]); }
+    setIsLoading(false);
+  }, [propertyId, user]);
+
+  useEffect(() => { fetchBudgets(); }, [fetchBudgets]);
+
+  // Saving a category/year that already has a budget replaces it
+  const saveBudget = useCallback(async (input: BudgetInput): Promise<boolean> => {
+    if (!propertyId || !user) return false;
+    const { error: saveError } = await supabase.from('category_budgets').upsert({
+      property_id: propertyId, category: input.category, year: input.year, period: input.period, amount: input.amount,
+      alert_threshold: input.alertThreshold, notes: input.notes?.trim() || null, created_by: user.id, updated_at: new Date().toISOString(),
+    }, { onConflict: 'property_id,category,year' });
+    if (saveError) {
+      console.error("Error saving budget:", saveError);
+      toast({ variant: "destructive", title: "Error Saving Budget", description: saveError.message });
+      return false;
+    }
+    toast({ title: "Budget Saved" });
+    await fetchBudgets();
+    return true;
+  }, [propertyId, user, fetchBudgets, toast]);
+
+  const deleteBudget = useCallback(async (budgetId: string): Promise<boolean> => {
+    const { error: deleteError } = await supabase.from('category_budgets').delete().eq('id', budgetId);
+    if (deleteError) {
+      console.error("Error deleting budget:", deleteError);
+      toast({ variant: "destructive", title: "Error Deleting Budget", description: deleteError.message });
+      return false;
+    }
+    setBudgets(prev => prev.filter(b => b.id !== budgetId));
+    toast({ title: "Budget Deleted" });
+    return true;
+  }, [toast]);
+
+  return { budgets, isLoading, error, fetchBudgets, saveBudget, deleteBudget };
+};
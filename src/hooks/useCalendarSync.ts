@@ -0,0 +1,105 @@
+// src/hooks/useCalendarSync.ts
+// v2 - Imported blocks are saved as calendar days (UTC midnight), like maintenance entered in the app.
+
+import { useState, useEffect, useCallback } from 'react';
+import { parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { CalendarFeedTokenRow, TablesInsert } from '@/integrations/supabase/types';
+import type { CalendarImportPreviewRow } from '@/lib/calendarImport';
+import { toCalendarDayTimestamp } from '@/lib/utils';
+
+// client.ts is generated and does not export the project URL
+const CALENDAR_FEED_URL = 'https://orauiykrwnelbqwainiv.supabase.co/functions/v1/calendar-feed';
+
+export const useCalendarSync = (propertyId: string | null | undefined) => {
+  const [feedToken, setFeedToken] = useState<CalendarFeedTokenRow | null>(null); // The live link, if any
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchFeedToken = useCallback(async () => {
+    if (!propertyId || !user) { setFeedToken(null); return; }
+    setIsLoading(true);
+    const { data, error } = await supabase.from('calendar_feed_tokens').select('*').eq('property_id', propertyId).eq('user_id', user.id).is('revoked_at', null).maybeSingle();
+    if (error) { console.error("Error fetching calendar feed link:", error); setFeedToken(null); }
+    else { setFeedToken(data as CalendarFeedTokenRow | null); }
+    setIsLoading(false);
+  }, [propertyId, user]);
+
+  useEffect(() => { fetchFeedToken(); }, [fetchFeedToken]);
+
+  const revoke = useCallback(async (tokenId: string) => supabase.from('calendar_feed_tokens').update({ revoked_at: new Date().toISOString() }).eq('id', tokenId), []);
+
+  // Creating a link while one is live replaces it, so the old URL stops working
+  const createFeedLink = useCallback(async (): Promise<boolean> => {
+    if (!propertyId || !user) return false;
+    if (feedToken) {
+      const { error: revokeError } = await revoke(feedToken.id);
+      if (revokeError) {
+        console.error("Error revoking calendar feed link:", revokeError);
+        toast({ variant: "destructive", title: "Error Resetting Link", description: revokeError.message });
+        return false;
+      }
+    }
+    const { data, error } = await supabase.from('calendar_feed_tokens').insert({ property_id: propertyId }).select('*').single();
+    if (error) {
+      console.error("Error creating calendar feed link:", error);
+      toast({ variant: "destructive", title: "Error Creating Link", description: error.message });
+      setFeedToken(null);
+      return false;
+    }
+    setFeedToken(data as CalendarFeedTokenRow);
+    toast({ title: feedToken ? "Feed Link Reset" : "Feed Link Created", description: feedToken ? "Calendars using the old link stop updating." : "Subscribe to it from your calendar app." });
+    return true;
+  }, [propertyId, user, feedToken, revoke, toast]);
+
+  const revokeFeedLink = useCallback(async (): Promise<boolean> => {
+    if (!feedToken) return false;
+    const { error } = await revoke(feedToken.id);
+    if (error) {
+      console.error("Error revoking calendar feed link:", error);
+      toast({ variant: "destructive", title: "Error Revoking Link", description: error.message });
+      return false;
+    }
+    setFeedToken(null);
+    toast({ title: "Feed Link Revoked", description: "Calendars using it stop updating." });
+    return true;
+  }, [feedToken, revoke, toast]);
+
+  // UIDs already imported for the property, for the import preview's duplicate check
+  const fetchImportedUids = useCallback(async (): Promise<string[]> => {
+    if (!propertyId) return [];
+    const { data, error } = await supabase.from('maintenance_tasks').select('ical_uid').eq('property_id', propertyId).not('ical_uid', 'is', null);
+    if (error) { console.error("Error fetching imported calendar events:", error); return []; }
+    return (data ?? []).map(row => row.ical_uid as string);
+  }, [propertyId]);
+
+  // The unique (property_id, ical_uid) constraint also skips events another import added meanwhile.
+  // Returns how many were created, or null on failure.
+  const importBlocks = useCallback(async (rows: CalendarImportPreviewRow[], fileName: string): Promise<number | null> => {
+    if (!propertyId || !user || !rows.length) return 0;
+    const inserts: TablesInsert<'maintenance_tasks'>[] = rows.map(row => ({
+      property_id: propertyId, title: row.title, ical_uid: row.uid,
+      description: [row.description, `Imported from ${fileName}.`].filter(Boolean).join('\n\n'),
+      status: 'pending', priority: 'medium', blocks_booking: true,
+      scheduled_date_start: toCalendarDayTimestamp(parseISO(row.start!)), scheduled_date_end: toCalendarDayTimestamp(parseISO(row.end!)),
+      assignee_id: null, estimated_cost: null, actual_cost: null, completed_date: null, reported_by: user.id, created_by: user.id,
+      vendor_name: null, vendor_contact: null, attachment_urls: null,
+    }));
+    const { data, error } = await supabase.from('maintenance_tasks').upsert(inserts, { onConflict: 'property_id,ical_uid', ignoreDuplicates: true }).select('id');
+    if (error) {
+      console.error("Error importing calendar events:", error);
+      toast({ variant: "destructive", title: "Error Importing Calendar", description: error.message });
+      return null;
+    }
+    const created = data?.length ?? 0;
+    toast({ title: "Calendar Imported", description: `${created} blocked period${created === 1 ? '' : 's'} added${created < rows.length ? `; ${rows.length - created} had already been imported` : ''}.` });
+    return created;
+  }, [propertyId, user, toast]);
+
+  const feedUrl = feedToken ? `${CALENDAR_FEED_URL}?token=${feedToken.token}` : null;
+
+  return { feedToken, feedUrl, isLoading, fetchFeedToken, createFeedLink, revokeFeedLink, fetchImportedUids, importBlocks };
+};
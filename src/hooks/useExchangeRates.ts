@@ -0,0 +1,56 @@
+// src/hooks/useExchangeRates.ts
+// v1 - A property's exchange-rate table: load, add and delete dated rates to its base currency.
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { ExchangeRateRow } from '@/integrations/supabase/types';
+
+export interface ExchangeRateInput { baseCurrency: string; currency: string; rate: number; rateDate: string; } // rateDate is 'yyyy-MM-dd'
+
+export const useExchangeRates = (propertyId: string | null | undefined) => {
+  const [rates, setRates] = useState<ExchangeRateRow[]>([]); // Newest first
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchRates = useCallback(async () => {
+    if (!propertyId || !user) { setRates([]); return; }
+    setIsLoading(true); setError(null);
+    const { data, error: fetchError } = await supabase.from('exchange_rates').select('*').eq('property_id', propertyId).order('rate_date', { ascending: false });
+    if (fetchError) { console.error("Error fetching exchange rates:", fetchError); setError(fetchError.message); setRates([]); }
+    else { setRates((data ?? []) as ExchangeRateRow[]); }
+    setIsLoading(false);
+  }, [propertyId, user]);
+
+  useEffect(() => { fetchRates(); }, [fetchRates]);
+
+  const addRate = useCallback(async (input: ExchangeRateInput): Promise<boolean> => {
+    if (!propertyId || !user) return false;
+    const { error: insertError } = await supabase.from('exchange_rates').insert({ property_id: propertyId, base_currency: input.baseCurrency, currency: input.currency, rate: input.rate, rate_date: input.rateDate, created_by: user.id });
+    if (insertError) {
+      console.error("Error adding exchange rate:", insertError);
+      const description = insertError.code === '23505' ? `A ${input.currency} rate for ${input.rateDate} already exists.` : insertError.message;
+      toast({ variant: "destructive", title: "Error Adding Exchange Rate", description });
+      return false;
+    }
+    toast({ title: "Exchange Rate Added" });
+    await fetchRates();
+    return true;
+  }, [propertyId, user, fetchRates, toast]);
+
+  const deleteRate = useCallback(async (rateId: string): Promise<boolean> => {
+    const { error: deleteError } = await supabase.from('exchange_rates').delete().eq('id', rateId);
+    if (deleteError) {
+      console.error("Error deleting exchange rate:", deleteError);
+      toast({ variant: "destructive", title: "Error Deleting Exchange Rate", description: deleteError.message });
+      return false;
+    }
+    setRates(prev => prev.filter(r => r.id !== rateId));
+    return true;
+  }, [toast]);
+
+  return { rates, isLoading, error, fetchRates, addRate, deleteRate };
+};
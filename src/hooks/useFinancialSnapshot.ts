@@ -5,6 +5,8 @@ import { startOfMonth, endOfMonth, formatISO, format } from 'date-fns'; // <<< A
 
 export type FinancialSnapshotData = {
   totalExpensesThisMonth: number;
+  totalIncomeThisMonth: number;
+  netIncomeThisMonth: number; // Income minus expenses, from get_property_finances
   monthName: string;
 };
 
@@ -31,19 +33,18 @@ export const useFinancialSnapshot = (propertyId: string | null | undefined) => {
       // const monthName = formatISO(now, { representation: 'date' }).substring(0, 7); // We'll use the formatted name below
 
       try {
-        const { data: expensesData, error: expensesError } = await supabase
-          .from('expenses')
-          .select('amount')
-          .eq('property_id', propertyId)
-          .gte('date', formatISO(monthStart, { representation: 'date' }))
-          .lte('date', formatISO(monthEnd, { representation: 'date' }));
-
-        if (expensesError) throw expensesError;
+        const { data: finances, error: financesError } = await supabase.rpc('get_property_finances', {
+          p_property_id: propertyId,
+          p_start_date: formatISO(monthStart, { representation: 'date' }),
+          p_end_date: formatISO(monthEnd, { representation: 'date' }),
+        });
 
-        const total = expensesData?.reduce((sum, expense) => sum + (expense.amount || 0), 0) || 0;
+        if (financesError) throw financesError;
 
         setData({
-            totalExpensesThisMonth: total,
+            totalExpensesThisMonth: Number(finances?.total_expenses) || 0,
+            totalIncomeThisMonth: Number(finances?.total_income) || 0,
+            netIncomeThisMonth: Number(finances?.net_income) || 0,
             monthName: format(monthStart, 'MMMM yyyy') // Now 'format' is recognized
         });
 
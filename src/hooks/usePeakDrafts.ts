@@ -0,0 +1,72 @@
+// src/hooks/usePeakDrafts.ts
+// v2 - A pick that overlaps blocking maintenance says it is waiting for an owner's approval.
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { PeakDraftRow, PeakDraftWeekInput, PeakDraftWeekRow } from '@/integrations/supabase/types';
+
+export const usePeakDrafts = (propertyId: string | null | undefined) => {
+  const [drafts, setDrafts] = useState<PeakDraftRow[]>([]); // Newest year first
+  const [weeks, setWeeks] = useState<PeakDraftWeekRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchDrafts = useCallback(async () => {
+    if (!propertyId || !user) { setDrafts([]); setWeeks([]); return; }
+    setIsLoading(true);
+    const [draftsResult, weeksResult] = await Promise.all([
+      supabase.from('peak_drafts').select('*').eq('property_id', propertyId).order('year', { ascending: false }),
+      supabase.from('peak_draft_weeks').select('*').eq('property_id', propertyId).order('start_date'),
+    ]);
+    if (draftsResult.error || weeksResult.error) {
+      console.error("Error fetching peak drafts:", draftsResult.error ?? weeksResult.error);
+      setDrafts([]); setWeeks([]);
+    } else {
+      setDrafts((draftsResult.data ?? []) as PeakDraftRow[]);
+      setWeeks((weeksResult.data ?? []) as PeakDraftWeekRow[]);
+    }
+    setIsLoading(false);
+  }, [propertyId, user]);
+
+  useEffect(() => { fetchDrafts(); }, [fetchDrafts]);
+
+  // The pick order comes from last year's draft, worked out by the database
+  const createDraft = useCallback(async (year: number, draftWeeks: PeakDraftWeekInput[]): Promise<boolean> => {
+    if (!propertyId || !user) return false;
+    try {
+      const { data, error } = await supabase.rpc('create_peak_draft', { p_property_id: propertyId, p_year: year, p_weeks: draftWeeks });
+      if (error) throw error;
+      if (data && 'error' in data) throw new Error(data.error);
+      toast({ title: "Draft Created", description: `${draftWeeks.length} peak week${draftWeeks.length === 1 ? '' : 's'} ready to pick for ${year}.` });
+      await fetchDrafts();
+      return true;
+    } catch (err) {
+      console.error("Error creating peak draft:", err);
+      toast({ variant: "destructive", title: "Error Creating Draft", description: err instanceof Error ? err.message : String(err) });
+      return false;
+    }
+  }, [propertyId, user, fetchDrafts, toast]);
+
+  // Resolves true once the week is booked; the caller refreshes bookings
+  const pickWeek = useCallback(async (weekId: string): Promise<boolean> => {
+    try {
+      const { data, error } = await supabase.rpc('make_peak_draft_pick', { p_week_id: weekId });
+      if (error) throw error;
+      if (data && 'error' in data) throw new Error(data.error);
+      toast(data?.conflict_note
+        ? { title: "Week Picked, Needs Approval", description: `${data.conflict_note} An owner or co-owner must approve the stay.` }
+        : { title: "Week Picked", description: "The week has been booked as a confirmed stay." });
+      await fetchDrafts();
+      return true;
+    } catch (err) {
+      console.error("Error picking peak week:", err);
+      toast({ variant: "destructive", title: "Error Picking Week", description: err instanceof Error ? err.message : String(err) });
+      return false;
+    }
+  }, [fetchDrafts, toast]);
+
+  return { drafts, weeks, isLoading, fetchDrafts, createDraft, pickWeek };
+};
@@ -0,0 +1,93 @@
+// src/hooks/useRecurringDrafts.ts
+// v2 - Posting a bill above the approval threshold says it is awaiting approval.
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useToast } from '@/hooks/use-toast';
+import type { RecurringExpenseDraft } from '@/integrations/supabase/types';
+
+const RECEIPTS_BUCKET = 'expense-receipts';
+
+const errorMessage = (err: unknown): string => err instanceof Error ? err.message : String(err);
+
+// generate-expenses answers draft actions with { error } and a 4xx/5xx status
+const invokeDraftAction = async (body: Record<string, unknown>): Promise<{ expense_status?: string | null }> => {
+  const { data, error } = await supabase.functions.invoke('generate-expenses', { body });
+  if (error) {
+    const detail = await error.context?.json?.().catch(() => null);
+    throw new Error(detail?.error || error.message);
+  }
+  return data ?? {};
+};
+
+export const useRecurringDrafts = () => {
+  const [drafts, setDrafts] = useState<RecurringExpenseDraft[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { selectedProperty } = useProperty();
+  const { toast } = useToast();
+  const propertyId = selectedProperty?.id;
+
+  const fetchDrafts = useCallback(async () => {
+    if (!propertyId) { setDrafts([]); return; }
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('recurring_expense_drafts')
+        .select('*, recurring_expense: recurring_expenses (id, description, category, amount, paid_by_user_id, split_method, estimate_method)')
+        .eq('property_id', propertyId)
+        .eq('status', 'pending')
+        .order('occurrence_date', { ascending: true });
+      if (error) throw error;
+      setDrafts((data ?? []) as RecurringExpenseDraft[]);
+    } catch (err) {
+      console.error("Error fetching recurring drafts:", err);
+      toast({ title: "Error Loading Bills to Review", description: errorMessage(err), variant: "destructive" });
+      setDrafts([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [propertyId, toast]);
+
+  useEffect(() => { fetchDrafts(); }, [fetchDrafts]);
+
+  /** Posts the draft as an expense for the confirmed amount; the bill, if given, is stored as its receipt. */
+  const postDraft = useCallback(async (draft: RecurringExpenseDraft, amount: number, billFile?: File | null): Promise<boolean> => {
+    let receiptPath: string | null = null;
+    try {
+      if (billFile) {
+        const safeName = billFile.name.replace(/[^a-zA-Z0-9_.-]/g, '_');
+        receiptPath = `${draft.property_id}/recurring/${draft.id}/${Date.now()}_${safeName}`;
+        const { error: uploadError } = await supabase.storage.from(RECEIPTS_BUCKET).upload(receiptPath, billFile, { cacheControl: '3600', upsert: false });
+        if (uploadError) throw new Error(`Bill upload failed: ${uploadError.message}`);
+      }
+      const result = await invokeDraftAction({ action: 'post_draft', draft_id: draft.id, amount, receipt_url: receiptPath });
+      const name = draft.recurring_expense?.description ?? 'Recurring expense';
+      toast(result.expense_status === 'pending_approval'
+        ? { title: "Bill Awaiting Approval", description: `${name} is above the property's approval threshold and counts once an owner approves it.` }
+        : { title: "Bill Posted", description: `${name} has been split between members.` });
+      await fetchDrafts();
+      return true;
+    } catch (err) {
+      console.error("Error posting recurring draft:", err);
+      if (receiptPath) await supabase.storage.from(RECEIPTS_BUCKET).remove([receiptPath]); // Don't leave an orphaned upload
+      toast({ title: "Error Posting Bill", description: errorMessage(err), variant: "destructive" });
+      return false;
+    }
+  }, [fetchDrafts, toast]);
+
+  const dismissDraft = useCallback(async (draft: RecurringExpenseDraft): Promise<boolean> => {
+    try {
+      await invokeDraftAction({ action: 'dismiss_draft', draft_id: draft.id });
+      toast({ title: "Bill Dismissed" });
+      await fetchDrafts();
+      return true;
+    } catch (err) {
+      console.error("Error dismissing recurring draft:", err);
+      toast({ title: "Error Dismissing Bill", description: errorMessage(err), variant: "destructive" });
+      return false;
+    }
+  }, [fetchDrafts, toast]);
+
+  return { drafts, isLoading, fetchDrafts, postDraft, dismissDraft };
+};
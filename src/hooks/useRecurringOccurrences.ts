@@ -0,0 +1,46 @@
+// src/hooks/useRecurringOccurrences.ts
+// v1 - The expenses a recurring expense has generated (with splits) and its skipped/failed run log.
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useProperty } from '@/contexts/PropertyContext';
+import type { Expense, ExpenseRow, ExpenseSplitRow, RecurringExpenseRunLogRow } from '@/integrations/supabase/types';
+
+export const useRecurringOccurrences = (recurringExpenseId: string | null | undefined) => {
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [runLog, setRunLog] = useState<RecurringExpenseRunLogRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { propertyMembers } = useProperty();
+
+  const fetchOccurrences = useCallback(async () => {
+    if (!recurringExpenseId) { setExpenses([]); setRunLog([]); return; }
+    setIsLoading(true); setError(null);
+    try {
+      const [expenseResult, logResult] = await Promise.all([
+        supabase.from('expenses').select(`*, splits: expense_splits (*)`).eq('recurring_expense_id', recurringExpenseId).order('occurrence_date', { ascending: false }),
+        supabase.from('recurring_expense_run_log').select('*').eq('recurring_expense_id', recurringExpenseId).order('created_at', { ascending: false }),
+      ]);
+      if (expenseResult.error) throw expenseResult.error;
+      if (logResult.error) throw logResult.error;
+      // Attach profiles the way ExpenseDetailSheet expects them
+      const profileMap = new Map(propertyMembers.map(m => [m.user_id, m.profile ?? null]));
+      setExpenses(((expenseResult.data ?? []) as (ExpenseRow & { splits: ExpenseSplitRow[] | null })[]).map(({ splits, ...expense }) => ({
+        ...expense,
+        paid_by_profile: expense.paid_by ? profileMap.get(expense.paid_by) ?? null : null,
+        splits: (splits ?? []).map(split => ({ ...split, user_profile: profileMap.get(split.user_id) ?? null })),
+      })));
+      setRunLog((logResult.data ?? []) as RecurringExpenseRunLogRow[]);
+    } catch (err) {
+      console.error("Error fetching recurring occurrences:", err);
+      setError("Failed to load occurrence history.");
+      setExpenses([]); setRunLog([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [recurringExpenseId, propertyMembers]);
+
+  useEffect(() => { fetchOccurrences(); }, [fetchOccurrences]);
+
+  return { expenses, runLog, isLoading, error, fetchOccurrences };
+};
@@ -0,0 +1,60 @@
+// src/hooks/useUsageSeasons.ts
+// v1 - A property's peak and holiday seasons for usage entitlements: load, add and delete.
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { UsageSeasonKindType, UsageSeasonRow } from '@/integrations/supabase/types';
+
+export interface UsageSeasonInput { name: string; kind: UsageSeasonKindType; startDate: string; endDate: string; weight: number; }
+
+// Suggested weights when adding a season; owners can change them per season
+export const DEFAULT_SEASON_WEIGHTS: Record<UsageSeasonKindType, number> = { peak: 1.5, holiday: 2 };
+
+export const useUsageSeasons = (propertyId: string | null | undefined) => {
+  const [seasons, setSeasons] = useState<UsageSeasonRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchSeasons = useCallback(async () => {
+    if (!propertyId || !user) { setSeasons([]); return; }
+    setIsLoading(true);
+    const { data, error } = await supabase.from('usage_seasons').select('*').eq('property_id', propertyId).order('start_date');
+    if (error) { console.error("Error fetching usage seasons:", error); setSeasons([]); }
+    else { setSeasons((data ?? []) as UsageSeasonRow[]); }
+    setIsLoading(false);
+  }, [propertyId, user]);
+
+  useEffect(() => { fetchSeasons(); }, [fetchSeasons]);
+
+  const addSeason = useCallback(async (input: UsageSeasonInput): Promise<boolean> => {
+    if (!propertyId || !user) return false;
+    const { error } = await supabase.from('usage_seasons').insert({
+      property_id: propertyId, name: input.name.trim(), kind: input.kind, start_date: input.startDate, end_date: input.endDate, weight: input.weight,
+    });
+    if (error) {
+      console.error("Error adding usage season:", error);
+      toast({ variant: "destructive", title: "Error Adding Season", description: error.message });
+      return false;
+    }
+    toast({ title: "Season Added" });
+    await fetchSeasons();
+    return true;
+  }, [propertyId, user, fetchSeasons, toast]);
+
+  const deleteSeason = useCallback(async (seasonId: string): Promise<boolean> => {
+    const { error } = await supabase.from('usage_seasons').delete().eq('id', seasonId);
+    if (error) {
+      console.error("Error deleting usage season:", error);
+      toast({ variant: "destructive", title: "Error Deleting Season", description: error.message });
+      return false;
+    }
+    setSeasons(prev => prev.filter(s => s.id !== seasonId));
+    toast({ title: "Season Deleted" });
+    return true;
+  }, [toast]);
+
+  return { seasons, isLoading, fetchSeasons, addSeason, deleteSeason };
+};
@@ -0,0 +1,44 @@
+// src/hooks/useVendorCategories.ts
+// v1 - A property's remembered vendor -> category choices from scanned receipts: look up and remember.
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { normalizeVendorKey } from '@/lib/receiptParsing';
+import type { ExpenseCategoryType, ExpenseVendorCategoryRow } from '@/integrations/supabase/types';
+
+export const useVendorCategories = (propertyId: string | null | undefined) => {
+  const [vendorCategories, setVendorCategories] = useState<ExpenseVendorCategoryRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+
+  const fetchVendorCategories = useCallback(async () => {
+    if (!propertyId || !user) { setVendorCategories([]); return; }
+    setIsLoading(true);
+    const { data, error } = await supabase.from('expense_vendor_categories').select('*').eq('property_id', propertyId);
+    if (error) { console.error("Error fetching vendor categories:", error); setVendorCategories([]); }
+    else { setVendorCategories((data ?? []) as ExpenseVendorCategoryRow[]); }
+    setIsLoading(false);
+  }, [propertyId, user]);
+
+  useEffect(() => { fetchVendorCategories(); }, [fetchVendorCategories]);
+
+  const categoryByVendorKey = useMemo(() => new Map(vendorCategories.map(v => [v.vendor_key, v.category])), [vendorCategories]);
+
+  // The category last saved for this vendor at the property, if any
+  const categoryForVendor = useCallback((vendorName: string | null | undefined): ExpenseCategoryType | null =>
+    categoryByVendorKey.get(normalizeVendorKey(vendorName)) ?? null, [categoryByVendorKey]);
+
+  // Best effort: a failure here should not fail the expense save, so it is only logged
+  const rememberVendorCategory = useCallback(async (vendorName: string, category: ExpenseCategoryType): Promise<void> => {
+    const vendorKey = normalizeVendorKey(vendorName);
+    if (!propertyId || !user || !vendorKey || categoryByVendorKey.get(vendorKey) === category) return;
+    const { data, error } = await supabase.from('expense_vendor_categories')
+      .upsert({ property_id: propertyId, vendor_key: vendorKey, vendor_name: vendorName, category, updated_by: user.id, updated_at: new Date().toISOString() }, { onConflict: 'property_id,vendor_key' })
+      .select('*').single();
+    if (error) { console.error("Error remembering vendor category:", error); return; }
+    setVendorCategories(prev => [...prev.filter(v => v.vendor_key !== vendorKey), data as ExpenseVendorCategoryRow]);
+  }, [propertyId, user, categoryByVendorKey]);
+
+  return { vendorCategories, isLoading, categoryForVendor, rememberVendorCategory, fetchVendorCategories };
+};
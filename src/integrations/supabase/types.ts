@@ -1,5 +1,5 @@
 // src/integrations/supabase/types.ts
-// v14 - Removed duplicate folder_id in DocumentRow, added missing BookingRow definition.
+// v37 - Request windows publish seed_hash while open; seed is revealed when the lottery runs.
 
 // --- Enums: Type Aliases (Derived from Database) ---
 export type MemberRoleType = 'owner' | 'co_owner' | 'guest';
@@ -8,10 +8,25 @@ export type MaintenancePriorityType = 'low' | 'medium' | 'high' | 'urgent';
 export type ExpenseCategoryType = 'utilities' | 'maintenance' | 'repairs' | 'supplies' | 'mortgage' | 'insurance' | 'taxes' | 'hoa_fees' | 'other' | 'management_fees' | 'cleaning_fees';
 export type RecurringExpenseCategoryType = 'utilities' | 'mortgage' | 'insurance' | 'taxes' | 'hoa_fees' | 'other';
 export type FrequencyType = 'monthly' | 'quarterly' | 'annually' | 'biannually';
-export type SplitMethodType = 'equal' | 'percentage' | 'fixed' | 'shares' | 'payer_only';
+export type SplitMethodType = 'equal' | 'percentage' | 'fixed' | 'shares' | 'payer_only' | 'ownership';
 export type BookingStatusType = 'pending' | 'confirmed' | 'cancelled' | 'completed';
 export type DocumentCategoryType = 'legal' | 'financial' | 'insurance' | 'maintenance' | 'inventory' | 'agreements' | 'other';
 export type SplitStatusType = 'owed' | 'paid';
+export type OwnershipChangeReasonType = 'initial' | 'purchase' | 'buy_out' | 'gift' | 'inheritance' | 'adjustment';
+export type IncomeSourceType = 'rental_platform' | 'guest_fee' | 'deposit_forfeiture' | 'other';
+export type IncomeDistributionMethodType = 'ownership' | 'custom';
+export type ExchangeRateSourceType = 'manual' | 'table';
+export type BudgetPeriodType = 'monthly' | 'annual';
+export type RecurringRunOutcomeType = 'skipped' | 'failed';
+export type RecurringAmountModeType = 'fixed' | 'variable';
+export type RecurringEstimateMethodType = 'last' | 'average';
+export type RecurringDraftStatusType = 'pending' | 'posted' | 'dismissed';
+export type RecurringExceptionKindType = 'skip' | 'pause';
+export type ExpenseStatusType = 'approved' | 'pending_approval' | 'rejected';
+export type UsageSeasonKindType = 'peak' | 'holiday';
+export type UsageEnforcementType = 'warn' | 'block';
+export type PeakDraftStatusType = 'open' | 'completed';
+export type BookingRequestWindowStatusType = 'open' | 'closed';
 
 // --- Enums: Exported Values (For Runtime Usage) ---
 export enum MemberRole { Owner = 'owner', CoOwner = 'co_owner', Guest = 'guest' }
@@ -20,10 +35,21 @@ export enum MaintenancePriority { Low = 'low', Medium = 'medium', High = 'high',
 export enum ExpenseCategory { Utilities = 'utilities', Maintenance = 'maintenance', Repairs = 'repairs', Supplies = 'supplies', Mortgage = 'mortgage', Insurance = 'insurance', Taxes = 'taxes', HoaFees = 'hoa_fees', Other = 'other', ManagementFees = 'management_fees', CleaningFees = 'cleaning_fees' }
 export enum RecurringExpenseCategory { Utilities = 'utilities', Mortgage = 'mortgage', Insurance = 'insurance', Taxes = 'taxes', HoaFees = 'hoa_fees', Other = 'other' }
 export enum Frequency { Monthly = 'monthly', Quarterly = 'quarterly', Annually = 'annually', Biannually = 'biannually' }
-export enum SplitMethod { Equal = 'equal', Percentage = 'percentage', Fixed = 'fixed', Shares = 'shares', PayerOnly='payer_only' }
+export enum SplitMethod { Equal = 'equal', Percentage = 'percentage', Fixed = 'fixed', Shares = 'shares', PayerOnly='payer_only', Ownership = 'ownership' }
 export enum BookingStatus { Pending = 'pending', Confirmed = 'confirmed', Cancelled = 'cancelled', Completed = 'completed' }
 export enum DocumentCategory { Legal = 'legal', Financial = 'financial', Insurance = 'insurance', Maintenance = 'maintenance', Inventory = 'inventory', Agreements = 'agreements', Other = 'other' }
 export enum SplitStatus { Owed = 'owed', Paid = 'paid' }
+export enum OwnershipChangeReason { Initial = 'initial', Purchase = 'purchase', BuyOut = 'buy_out', Gift = 'gift', Inheritance = 'inheritance', Adjustment = 'adjustment' }
+export enum IncomeSource { RentalPlatform = 'rental_platform', GuestFee = 'guest_fee', DepositForfeiture = 'deposit_forfeiture', Other = 'other' }
+export enum IncomeDistributionMethod { Ownership = 'ownership', Custom = 'custom' }
+export enum ExchangeRateSource { Manual = 'manual', Table = 'table' }
+export enum BudgetPeriod { Monthly = 'monthly', Annual = 'annual' }
+export enum RecurringAmountMode { Fixed = 'fixed', Variable = 'variable' }
+export enum RecurringEstimateMethod { Last = 'last', Average = 'average' }
+export enum RecurringExceptionKind { Skip = 'skip', Pause = 'pause' }
+export enum ExpenseStatus { Approved = 'approved', PendingApproval = 'pending_approval', Rejected = 'rejected' }
+export enum UsageSeasonKind { Peak = 'peak', Holiday = 'holiday' }
+export enum UsageEnforcement { Warn = 'warn', Block = 'block' }
 
 // --- Utility Types ---
 export type PublicEnumName = keyof Database['public']['Enums'];
@@ -37,6 +63,10 @@ export interface Profile {
 }
 export interface Property {
   id: string; created_at: string; name: string; address: string | null; type: string | null; image_url: string | null; created_by: string; updated_at: string | null; city: string | null; state: string | null; zip_code: string | null; country: string | null; description: string | null;
+  base_currency: string; // ISO 4217 code; expense amounts and splits are stored in this currency
+  approval_threshold?: number | null; // Expenses above this (base currency) need an owner/co-owner's approval; null = off
+  usage_nights_per_year?: number | null; // Weighted nights the owners share each year, split by ownership; null = off
+  usage_enforcement?: UsageEnforcementType; // 'block' refuses bookings over a member's remaining nights
 }
 export interface PropertyMember {
   id: string; property_id: string; user_id: string; role: MemberRoleType; ownership_percentage: number | null; created_at: string;
@@ -46,7 +76,12 @@ export interface ExpenseRow {
   category: ExpenseCategoryType; amount: number; description: string | null; receipt_url: string | null;
   paid_by: string | null;
   created_at: string; updated_at: string | null; split_method: SplitMethodType; notes: string | null;
-  status?: string;
+  status?: ExpenseStatusType | null; // Set by the database: 'pending_approval' above the property's approval_threshold
+  reviewed_by?: string | null; reviewed_at?: string | null; review_note?: string | null;
+  // amount is in the property's base currency; these record what was actually billed (currency null = base currency)
+  currency: string | null; original_amount: number | null; exchange_rate: number | null; exchange_rate_source: ExchangeRateSourceType | null;
+  // Set on expenses created by generate-expenses: the template and the due date billed (unique together)
+  recurring_expense_id?: string | null; occurrence_date?: string | null;
 }
 export interface ExpenseSplitRow {
   id: string; expense_id: string; user_id: string; amount: number | null; percentage: number | null; shares: number | null;
@@ -58,9 +93,49 @@ export interface RecurringExpenseRow {
   id: string; property_id: string; description: string; category: RecurringExpenseCategoryType; amount: number; frequency: FrequencyType; interval: number; start_date: string; next_due_date: string; end_date: string | null;
   paid_by_user_id: string | null;
   split_method: SplitMethodType; split_details: Json | null; is_active: boolean; notes: string | null; created_at: string; updated_at: string | null; created_by: string;
+  recurrence_rule?: string | null; // RFC 5545 RRULE; overrides frequency/interval when set
+  amount_mode?: RecurringAmountModeType; // 'variable' queues a draft for the payer to confirm instead of posting amount
+  estimate_method?: RecurringEstimateMethodType; // Variable drafts: last posted amount or recent average
 }
 export interface BookingRow { // Definition added back
   id: string; property_id: string; user_id: string; start_date: string; end_date: string; num_guests: number; status: BookingStatusType; notes: string | null; purpose: string | null; created_at: string; updated_at: string | null; approved_by: string | null;
+  conflict_note?: string | null; // Why the database held this booking as 'pending' for an owner or co-owner to approve
+  request_window_id?: string | null; preference_rank?: number | null; // A ranked preference submitted to a request window (1 = first choice)
+  decision_note?: string | null; // Why the request window's lottery granted or rejected it
+}
+export interface UsageSeasonRow {
+  id: string; property_id: string; name: string; kind: UsageSeasonKindType;
+  start_date: string; end_date: string; // Inclusive
+  weight: number; // Entitlement nights used per night stayed
+  created_by: string | null; created_at: string; updated_at: string | null;
+}
+export interface PeakDraftRow {
+  id: string; property_id: string; year: number;
+  pick_order: string[]; // User ids in first-round order; later rounds snake back and forth
+  status: PeakDraftStatusType; created_by: string | null; created_at: string; completed_at: string | null;
+}
+export interface PeakDraftWeekRow {
+  id: string; draft_id: string; property_id: string; name: string;
+  start_date: string; end_date: string; // Inclusive
+  picked_by: string | null; pick_number: number | null; booking_id: string | null; picked_at: string | null;
+}
+export interface BookingRequestWindowDraw {
+  user_id: string; past_nights: number; weight: number;
+  position: number; // 1 = drawn first
+  booking_id: string | null; // The preference granted, if any
+}
+export interface BookingRequestWindowRow {
+  id: string; property_id: string; name: string;
+  stay_start: string; stay_end: string; // Inclusive range of the contested dates
+  closes_at: string; status: BookingRequestWindowStatusType;
+  seed_hash: string; seed: string | null; // SHA-256 of the lottery seed, committed on open; the seed itself is revealed when the lottery runs
+  draw: BookingRequestWindowDraw[] | null; // Set when the lottery runs
+  created_by: string | null; created_at: string; closed_by: string | null; closed_at: string | null;
+}
+export interface CalendarFeedTokenRow {
+  id: string; property_id: string; user_id: string;
+  token: string; // Secret part of the feed URL
+  created_at: string; last_used_at: string | null; revoked_at: string | null;
 }
 export interface MaintenanceTaskRow {
   id: string; property_id: string; title: string; description: string | null; status: MaintenanceStatusType; priority: MaintenancePriorityType;
@@ -68,12 +143,62 @@ export interface MaintenanceTaskRow {
   estimated_cost: number | null; actual_cost: number | null; scheduled_date_start: string | null; scheduled_date_end: string | null; completed_date: string | null;
   reported_by: string | null;
   vendor_name: string | null; vendor_contact: string | null; attachment_urls: string[] | null; blocks_booking: boolean; created_at: string; updated_at: string | null;
+  recurring_expense_id?: string | null; // Set on review tasks opened by generate-expenses
   created_by?: string;
   linked_expense_id?: string | null;
+  ical_uid?: string | null; // UID of the .ics event this block was imported from
 }
 export interface DocumentFolder {
   id: string; property_id: string; name: string; parent_folder_id: string | null; created_at: string; updated_at: string | null; created_by: string;
 }
+export interface OwnershipChangeRow {
+  id: string; property_id: string; from_user_id: string | null; to_user_id: string | null; percentage: number; reason: OwnershipChangeReasonType;
+  effective_date: string; note: string | null; recorded_by: string | null; created_at: string;
+}
+export interface IncomeRow {
+  id: string; property_id: string; date: string; amount: number; source: IncomeSourceType; description: string | null;
+  distribution_method: IncomeDistributionMethodType; notes: string | null; created_by: string | null; created_at: string; updated_at: string | null;
+}
+export interface IncomeDistributionRow {
+  id: string; income_id: string; user_id: string; amount: number; percentage: number | null; created_at: string;
+}
+export interface ExchangeRateRow {
+  id: string; property_id: string; base_currency: string; currency: string; rate: number; rate_date: string; created_by: string | null; created_at: string;
+}
+export interface CategoryBudgetRow {
+  id: string; property_id: string; category: ExpenseCategoryType; year: number; period: BudgetPeriodType;
+  amount: number; // Per month for 'monthly', per year for 'annual'
+  alert_threshold: number; // Percent of the period's budget that triggers a warning
+  notes: string | null; created_by: string | null; created_at: string; updated_at: string | null;
+}
+export interface RecurringExpenseRunLogRow {
+  id: string; recurring_expense_id: string; property_id: string;
+  occurrence_date: string | null; // null when the whole template was skipped
+  outcome: RecurringRunOutcomeType; reason: string; created_at: string;
+}
+export interface RecurringExpenseExceptionRow {
+  id: string; recurring_expense_id: string; property_id: string; kind: RecurringExceptionKindType;
+  start_date: string; // The skipped occurrence, or the first day of the pause
+  end_date: string | null; // Last day of the pause (inclusive); null for a skip
+  reason: string | null; created_by: string | null; created_at: string; updated_at: string | null;
+}
+export interface RecurringExpenseTermsRow {
+  id: string; recurring_expense_id: string; property_id: string;
+  effective_from: string; // Applies to occurrences on or after this date, until the next version
+  amount: number; paid_by_user_id: string | null; split_method: SplitMethodType; split_details: Json | null; created_by: string | null; created_at: string;
+}
+export interface RecurringExpenseDraftRow {
+  id: string; recurring_expense_id: string; property_id: string; occurrence_date: string; estimated_amount: number; status: RecurringDraftStatusType;
+  confirmed_amount: number | null; expense_id: string | null; resolved_by: string | null; resolved_at: string | null; created_at: string;
+}
+export interface ExpenseVendorCategoryRow {
+  id: string; property_id: string;
+  vendor_key: string; // Normalized vendor name (see normalizeVendorKey)
+  vendor_name: string; category: ExpenseCategoryType; updated_by: string | null; created_at: string; updated_at: string;
+}
+export interface SettlementRow {
+  id: string; property_id: string; from_user_id: string; to_user_id: string; amount: number; split_count: number; note: string | null; recorded_by: string; created_at: string;
+}
 // --- CORRECTED DocumentRow ---
 export interface DocumentRow {
   id: string; property_id: string;
@@ -91,12 +216,15 @@ type PickedProfile = Pick<Profile, 'id' | 'first_name' | 'last_name' | 'avatar_u
 export interface PropertyMemberWithProfile extends PropertyMember { profile: Profile | null; }
 export interface ExpenseSplitWithProfile extends ExpenseSplitRow { user_profile: PickedProfile; }
 export interface Expense extends ExpenseRow { paid_by_profile: PickedProfile; splits: ExpenseSplitWithProfile[]; }
+export interface Income extends IncomeRow { distributions: IncomeDistributionRow[]; }
 export interface Document extends Omit<DocumentRow, 'expires_at'> { uploaded_by_profile: PickedProfile; expires_at: Date | null; }
 export interface MaintenanceTask extends MaintenanceTaskRow { assignee_profile: PickedProfile; reported_by_profile?: PickedProfile; created_by_profile?: PickedProfile; linked_expense?: { id: string; description: string | null; amount: number } | null; }
-export interface RecurringExpense extends RecurringExpenseRow { created_by_profile: PickedProfile; paid_by_profile: PickedProfile; }
+export interface RecurringExpense extends RecurringExpenseRow { created_by_profile: PickedProfile; paid_by_profile: PickedProfile; exceptions?: RecurringExpenseExceptionRow[]; terms?: RecurringExpenseTermsRow[]; }
+export interface RecurringExpenseDraft extends RecurringExpenseDraftRow { recurring_expense: Pick<RecurringExpenseRow, 'id' | 'description' | 'category' | 'amount' | 'paid_by_user_id' | 'split_method' | 'estimate_method'> | null; }
 
 // --- Form Data Types ---
-export interface RecurringExpenseFormData { description: string; amount: number; category: RecurringExpenseCategoryType; frequency: FrequencyType; interval: number; start_date: Date; end_date?: Date | null; paid_by_user_id: string; split_method: SplitMethodType; notes?: string | null; percentage_splits?: Record<string, number | null>; custom_splits?: Record<string, number | null>; is_active?: boolean; }
+export interface RecurringExpenseFormData { description: string; amount: number; category: RecurringExpenseCategoryType; frequency: FrequencyType; interval: number; recurrence_rule?: string | null; amount_mode?: RecurringAmountModeType; estimate_method?: RecurringEstimateMethodType; start_date: Date; end_date?: Date | null; paid_by_user_id: string; split_method: SplitMethodType; notes?: string | null; percentage_splits?: Record<string, number | null>; custom_splits?: Record<string, number | null>; share_splits?: Record<string, number | null>; participant_ids?: string[]; is_active?: boolean; terms_effective_from?: Date | null; }
+export interface RecurringExceptionFormData { kind: RecurringExceptionKindType; start_date: string; end_date: string | null; reason?: string | null; }
 export interface MaintenanceTaskFormData { title: string; description?: string | null; priority: MaintenancePriorityType; status: MaintenanceStatusType; assignee_id?: string | null; estimated_cost?: number | null; actual_cost?: number | null; scheduled_date_start?: Date | null; scheduled_date_end?: Date | null; completed_date?: Date | null; vendor_name?: string | null; vendor_contact?: string | null; blocks_booking: boolean; }
 export interface DocumentUploadPayload { file: File; name: string; description?: string | null; category: DocumentCategoryType; expires_at?: Date | null; folder_id?: string | null; linked_expense_id?: string | null; }
 export interface FolderFormData { name: string; parent_folder_id?: string | null; }
@@ -105,9 +233,17 @@ export interface AddExpenseContextPayload { description: string; amount: number;
 export interface UpdateExpenseContextPayload extends AddExpenseContextPayload { existing_receipt_url?: string | null; remove_receipt?: boolean; }
 
 // --- RPC Argument Types ---
-export interface RpcSplitInput { user_id: string; amount: number | null; status: SplitStatusType; }
-export interface AddExpenseRpcArgs { p_property_id: string; p_date: string; p_category: ExpenseCategoryType; p_amount: number; p_description: string | null; p_receipt_url: string | null; p_paid_by_user_id: string; p_split_method: SplitMethodType; p_notes: string | null; p_splits: RpcSplitInput[]; }
-export interface UpdateExpenseRpcArgs { p_expense_id: string; p_description: string; p_amount: number; p_date: string; p_category: ExpenseCategoryType; p_paid_by_user_id: string; p_split_method: SplitMethodType; p_notes: string | null; p_splits: RpcSplitInput[]; p_receipt_url: string | null | undefined; }
+export interface RpcSplitInput { user_id: string; amount: number | null; status: SplitStatusType; percentage?: number | null; shares?: number | null; }
+export interface AddExpenseRpcArgs { p_property_id: string; p_date: string; p_category: ExpenseCategoryType; p_amount: number; p_description: string | null; p_receipt_url: string | null; p_paid_by_user_id: string; p_split_method: SplitMethodType; p_notes: string | null; p_splits: RpcSplitInput[]; p_currency?: string | null; p_original_amount?: number | null; p_exchange_rate?: number | null; p_exchange_rate_source?: ExchangeRateSourceType | null; p_recurring_expense_id?: string | null; p_occurrence_date?: string | null; }
+export interface IncomeDistributionInput { user_id: string; amount: number; percentage?: number | null; }
+export interface AddIncomeRpcArgs { p_property_id: string; p_date: string; p_amount: number; p_source: IncomeSourceType; p_description: string | null; p_distribution_method: IncomeDistributionMethodType; p_notes: string | null; p_distributions: IncomeDistributionInput[]; }
+export interface RecordOwnershipChangeRpcArgs { p_property_id: string; p_from_user_id: string | null; p_to_user_id: string | null; p_percentage: number; p_effective_date: string; p_reason: OwnershipChangeReasonType; p_note?: string | null; }
+export interface ReviewExpenseRpcArgs { p_expense_id: string; p_approve: boolean; p_note?: string | null; }
+export interface PeakDraftWeekInput { name: string; start_date: string; end_date: string; }
+export interface CreatePeakDraftRpcArgs { p_property_id: string; p_year: number; p_weeks: PeakDraftWeekInput[]; }
+export interface BookingPreferenceInput { start_date: string; end_date: string; num_guests?: number; }
+export interface RecordSettlementRpcArgs { p_property_id: string; p_from_user_id: string; p_to_user_id: string; p_note?: string | null; }
+export interface UpdateExpenseRpcArgs { p_expense_id: string; p_description: string; p_amount: number; p_date: string; p_category: ExpenseCategoryType; p_paid_by_user_id: string; p_split_method: SplitMethodType; p_notes: string | null; p_splits: RpcSplitInput[]; p_receipt_url: string | null | undefined; p_currency?: string | null; p_original_amount?: number | null; p_exchange_rate?: number | null; p_exchange_rate_source?: ExchangeRateSourceType | null; }
 
 // --- Utility & Database Structure ---
 export type DbResult<T> = { data: T | null; error: Error | null; };
@@ -124,11 +260,27 @@ export interface Database {
       property_members: { Row: PropertyMember; Insert: Omit<PropertyMember, 'id' | 'created_at'>; Update: Partial<Omit<PropertyMember, 'id' | 'created_at' | 'property_id' | 'user_id'>>; };
       expenses: { Row: ExpenseRow; Insert: Omit<ExpenseRow, 'id' | 'created_at' | 'updated_at'>; Update: Partial<Omit<ExpenseRow, 'id' | 'created_at' | 'property_id'>>; };
       expense_splits: { Row: ExpenseSplitRow; Insert: Omit<ExpenseSplitRow, 'id' | 'created_at'>; Update: Partial<Omit<ExpenseSplitRow, 'id' | 'created_at' | 'expense_id' | 'user_id'>>; };
-      recurring_expenses: { Row: RecurringExpenseRow; Insert: Omit<RecurringExpenseRow, 'id' | 'created_at' | 'updated_at' | 'next_due_date'>; Update: Partial<Omit<RecurringExpenseRow, 'id' | 'created_at' | 'property_id' | 'created_by'>>; };
+      recurring_expenses: { Row: RecurringExpenseRow; Insert: Omit<RecurringExpenseRow, 'id' | 'created_at' | 'updated_at' | 'next_due_date'> & { next_due_date?: string }; Update: Partial<Omit<RecurringExpenseRow, 'id' | 'created_at' | 'property_id' | 'created_by'>>; };
       // --- CORRECTED Bookings Definition ---
       bookings: { Row: BookingRow; Insert: Omit<BookingRow, 'id' | 'created_at' | 'updated_at'>; Update: Partial<Omit<BookingRow, 'id' | 'created_at' | 'property_id' | 'user_id'>>; };
       maintenance_tasks: { Row: MaintenanceTaskRow; Insert: Omit<MaintenanceTaskRow, 'id' | 'created_at' | 'updated_at'>; Update: Partial<Omit<MaintenanceTaskRow, 'id' | 'created_at' | 'property_id'>>; };
       document_folders: { Row: DocumentFolder; Insert: Omit<DocumentFolder, 'id' | 'created_at' | 'updated_at'>; Update: Partial<Omit<DocumentFolder, 'id' | 'created_at' | 'property_id' | 'created_by'>>; };
+      ownership_changes: { Row: OwnershipChangeRow; Insert: Omit<OwnershipChangeRow, 'id' | 'created_at'>; Update: Partial<Pick<OwnershipChangeRow, 'note'>>; };
+      incomes: { Row: IncomeRow; Insert: Omit<IncomeRow, 'id' | 'created_at' | 'updated_at'>; Update: Partial<Omit<IncomeRow, 'id' | 'created_at' | 'property_id'>>; };
+      income_distributions: { Row: IncomeDistributionRow; Insert: Omit<IncomeDistributionRow, 'id' | 'created_at'>; Update: Partial<Omit<IncomeDistributionRow, 'id' | 'created_at' | 'income_id'>>; };
+      exchange_rates: { Row: ExchangeRateRow; Insert: Omit<ExchangeRateRow, 'id' | 'created_at'>; Update: Partial<Pick<ExchangeRateRow, 'rate'>>; };
+      category_budgets: { Row: CategoryBudgetRow; Insert: Omit<CategoryBudgetRow, 'id' | 'created_at' | 'updated_at'>; Update: Partial<Omit<CategoryBudgetRow, 'id' | 'created_at' | 'property_id'>>; };
+      recurring_expense_run_log: { Row: RecurringExpenseRunLogRow; Insert: Omit<RecurringExpenseRunLogRow, 'id' | 'created_at'>; Update: Partial<Omit<RecurringExpenseRunLogRow, 'id' | 'created_at'>>; };
+      recurring_expense_terms: { Row: RecurringExpenseTermsRow; Insert: Omit<RecurringExpenseTermsRow, 'id' | 'created_at' | 'created_by'>; Update: Partial<Omit<RecurringExpenseTermsRow, 'id' | 'created_at' | 'recurring_expense_id' | 'property_id' | 'created_by'>>; };
+      recurring_expense_exceptions: { Row: RecurringExpenseExceptionRow; Insert: Omit<RecurringExpenseExceptionRow, 'id' | 'created_at' | 'updated_at' | 'created_by'>; Update: Partial<Omit<RecurringExpenseExceptionRow, 'id' | 'created_at' | 'recurring_expense_id' | 'property_id' | 'created_by'>>; };
+      recurring_expense_drafts: { Row: RecurringExpenseDraftRow; Insert: Omit<RecurringExpenseDraftRow, 'id' | 'created_at'>; Update: Partial<Omit<RecurringExpenseDraftRow, 'id' | 'created_at' | 'recurring_expense_id' | 'property_id'>>; };
+      expense_vendor_categories: { Row: ExpenseVendorCategoryRow; Insert: Omit<ExpenseVendorCategoryRow, 'id' | 'created_at' | 'updated_at'> & { updated_at?: string }; Update: Partial<Pick<ExpenseVendorCategoryRow, 'vendor_name' | 'category' | 'updated_by' | 'updated_at'>>; };
+      usage_seasons: { Row: UsageSeasonRow; Insert: Omit<UsageSeasonRow, 'id' | 'created_at' | 'updated_at' | 'created_by'>; Update: Partial<Omit<UsageSeasonRow, 'id' | 'created_at' | 'property_id' | 'created_by'>>; };
+      peak_drafts: { Row: PeakDraftRow; Insert: Omit<PeakDraftRow, 'id' | 'created_at'>; Update: Partial<Pick<PeakDraftRow, 'status' | 'completed_at'>>; };
+      peak_draft_weeks: { Row: PeakDraftWeekRow; Insert: Omit<PeakDraftWeekRow, 'id'>; Update: Partial<Pick<PeakDraftWeekRow, 'picked_by' | 'pick_number' | 'booking_id' | 'picked_at'>>; };
+      booking_request_windows: { Row: BookingRequestWindowRow; Insert: Pick<BookingRequestWindowRow, 'property_id' | 'name' | 'stay_start' | 'stay_end' | 'closes_at'>; Update: never; };
+      calendar_feed_tokens: { Row: CalendarFeedTokenRow; Insert: Pick<CalendarFeedTokenRow, 'property_id'>; Update: Pick<CalendarFeedTokenRow, 'revoked_at'>; };
+      settlements: { Row: SettlementRow; Insert: Omit<SettlementRow, 'id' | 'created_at'>; Update: Partial<Pick<SettlementRow, 'note'>>; };
       documents: { Row: DocumentRow; Insert: Omit<DocumentRow, 'id' | 'created_at' | 'updated_at'>; Update: Partial<Omit<DocumentRow, 'id' | 'created_at' | 'property_id' | 'storage_path' | 'uploaded_by'>>; };
     };
     Views: { [_ in never]: never };
@@ -136,11 +288,20 @@ export interface Database {
         add_expense_and_splits: { Args: AddExpenseRpcArgs; Returns: { id: string; }[]; };
         update_expense_and_recalculate_splits: { Args: UpdateExpenseRpcArgs; Returns: boolean; };
         delete_expense_and_splits: { Args: { p_expense_id: string }; Returns: boolean; };
+        add_income_and_distributions: { Args: AddIncomeRpcArgs; Returns: { id: string; }[]; };
         get_property_finances: { Args: { p_property_id: string; p_start_date: string; p_end_date: string }; Returns: { total_income: number; total_expenses: number; net_income: number; expenses_by_category: Json; }; };
         generate_expenses: { Args: {}; Returns: { message: string }; };
         invite_property_member: { Args: { p_property_id: string; p_invitee_email: string; p_role: MemberRoleType }; Returns: { member_id: string } | { error: string }; };
         update_property_member_role: { Args: { p_property_member_id: string; p_new_role: MemberRoleType }; Returns: { success: boolean } | { error: string }; };
         remove_property_member: { Args: { p_property_member_id: string }; Returns: { success: boolean } | { error: string }; };
+        record_ownership_change: { Args: RecordOwnershipChangeRpcArgs; Returns: { change_id: string } | { error: string }; };
+        ownership_stakes_as_of: { Args: { p_property_id: string; p_date: string }; Returns: { user_id: string; percentage: number }[]; };
+        record_settlement: { Args: RecordSettlementRpcArgs; Returns: { settlement_id: string; settled_splits: number; amount: number } | { error: string }; };
+        create_peak_draft: { Args: CreatePeakDraftRpcArgs; Returns: { draft_id: string; pick_order: string[] } | { error: string }; };
+        make_peak_draft_pick: { Args: { p_week_id: string }; Returns: { week_id: string; booking_id: string; pick_number: number; user_id: string; booking_status: string; conflict_note: string | null } | { error: string }; };
+        submit_booking_preferences: { Args: { p_window_id: string; p_preferences: BookingPreferenceInput[] }; Returns: { window_id: string; preferences: number } | { error: string }; };
+        close_booking_request_window: { Args: { p_window_id: string }; Returns: { window_id: string; granted: number; entrants: number } | { error: string }; };
+        review_expense: { Args: ReviewExpenseRpcArgs; Returns: { expense_id: string; status: ExpenseStatusType } | { error: string }; };
     };
     Enums: {
       member_role: MemberRoleType;
@@ -153,6 +314,10 @@ export interface Database {
       booking_status: BookingStatusType;
       document_category: DocumentCategoryType;
       expense_split_status: SplitStatusType;
+      ownership_change_reason: OwnershipChangeReasonType;
+      income_source: IncomeSourceType;
+      income_distribution_method: IncomeDistributionMethodType;
+      budget_period: BudgetPeriodType;
     };
     CompositeTypes: { [_ in never]: never };
   };
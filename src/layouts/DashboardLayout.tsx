@@ -1,11 +1,10 @@
 // src/layouts/DashboardLayout.tsx
-// v2 - Fixed sidebar active state logic for Properties/Co-owners.
-//    - Fixed document title logic for Properties/Co-owners.
+// v6 - Added Budgets navigation item.
 
 import React, { useState, useEffect } from "react";
 import { Link, Outlet, useLocation, useNavigate } from "react-router-dom";
 import {
-  Home, Building, CreditCard, Calendar, ClipboardList, FileText, Users, Settings, ChevronRight, Menu, LogOut, Repeat, Loader2
+  Home, Building, CreditCard, Calendar, ClipboardList, FileText, Users, Settings, ChevronRight, Menu, LogOut, Repeat, Loader2, Scale, FileBarChart, Wallet, PiggyBank
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -25,6 +24,10 @@ const navigation = [
   { name: "Properties", path: "/properties", icon: Building },
   { name: "Expenses", path: "/expenses", icon: CreditCard },
   { name: "Recurring", path: "/recurring-expenses", icon: Repeat },
+  { name: "Income", path: "/income", icon: Wallet },
+  { name: "Budgets", path: "/budgets", icon: PiggyBank },
+  { name: "Balances", path: "/balances", icon: Scale },
+  { name: "Reports", path: "/reports", icon: FileBarChart },
   { name: "Calendar", path: "/calendar", icon: Calendar },
   { name: "Maintenance", path: "/maintenance", icon: ClipboardList },
   { name: "Documents", path: "/documents", icon: FileText },
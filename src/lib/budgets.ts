@@ -0,0 +1,79 @@
+// src/lib/budgets.ts
+// v5 - Actuals leave out expenses awaiting approval or rejected.
+
+import { endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import type { CategoryBudgetRow, ExpenseRow, RecurringExpense } from '@/integrations/supabase/types';
+import { listOccurrences } from '@/lib/recurrence';
+import { termsInForce } from '@/lib/recurringTerms';
+import { isExpenseApproved } from '@/lib/settlement';
+
+// --- Input Shapes (structural, so context rows fit) ---
+export type BudgetExpenseInput = Pick<ExpenseRow, 'date' | 'amount' | 'category' | 'status'>;
+export type BudgetRecurringInput = Pick<RecurringExpense, 'category' | 'amount' | 'frequency' | 'interval' | 'next_due_date' | 'end_date' | 'is_active' | 'start_date' | 'recurrence_rule' | 'exceptions' | 'terms'>;
+
+// --- Output Shapes ---
+export type BudgetStatus = 'ok' | 'warning' | 'over';
+export interface BudgetFigures {
+  start: string; end: string; // Inclusive 'yyyy-MM-dd' range
+  budget: number;
+  actual: number; // Recorded expenses in the range
+  projected: number; // Recurring occurrences in the range not yet recorded as expenses
+  forecast: number; // actual + projected
+  variance: number; // budget - forecast (negative = expected overspend)
+  percentUsed: number; // actual as a percentage of budget
+  status: BudgetStatus; // From actual spend against the budget's alert threshold
+}
+export interface BudgetVariance {
+  budget: CategoryBudgetRow;
+  year: BudgetFigures; // Whole budget year (monthly budgets x 12)
+  currentPeriod: BudgetFigures | null; // This month (monthly) or this year (annual); null when today is outside the budget year
+}
+
+const toCents = (amount: number | null | undefined): number => Math.round(Number(amount || 0) * 100);
+
+function buildFigures(budget: CategoryBudgetRow, start: string, end: string, budgetAmount: number, expenses: BudgetExpenseInput[], recurring: BudgetRecurringInput[]): BudgetFigures {
+  const actualCents = expenses
+    .filter(e => e.category === budget.category && !!e.date && e.date >= start && e.date <= end && isExpenseApproved(e))
+    .reduce((sum, e) => sum + toCents(e.amount), 0);
+  // next_due_date moves past each occurrence once it is recorded, so projected occurrences never double-count actuals
+  const projectedCents = recurring
+    .filter(r => r.category === budget.category)
+    .reduce((sum, r) => sum + listOccurrences(r, start, end).reduce((cents, date) => cents + toCents(termsInForce(r.terms, date)?.amount ?? r.amount), 0), 0);
+  const budgetCents = toCents(budgetAmount);
+  const percentUsed = budgetCents > 0 ? Math.round((actualCents / budgetCents) * 1000) / 10 : 0;
+  const status: BudgetStatus = actualCents > budgetCents ? 'over' : percentUsed >= Number(budget.alert_threshold) ? 'warning' : 'ok';
+  return {
+    start, end,
+    budget: budgetCents / 100,
+    actual: actualCents / 100,
+    projected: projectedCents / 100,
+    forecast: (actualCents + projectedCents) / 100,
+    variance: (budgetCents - actualCents - projectedCents) / 100,
+    percentUsed,
+    status,
+  };
+}
+
+/**
+ * Compares each budget with spending for its year.
+ * @param today - 'yyyy-MM-dd'; picks the current period (month or year) used for alerts.
+ */
+export function buildBudgetVariance(budgets: CategoryBudgetRow[], expenses: BudgetExpenseInput[], recurring: BudgetRecurringInput[], today: string): BudgetVariance[] {
+  return budgets.map(budget => {
+    const yearStart = `${budget.year}-01-01`; const yearEnd = `${budget.year}-12-31`;
+    const annualAmount = budget.period === 'monthly' ? Number(budget.amount) * 12 : Number(budget.amount);
+    const inYear = today >= yearStart && today <= yearEnd;
+    const currentPeriod = !inYear ? null
+      : budget.period === 'monthly'
+        ? buildFigures(budget, format(startOfMonth(parseISO(today)), 'yyyy-MM-dd'), format(endOfMonth(parseISO(today)), 'yyyy-MM-dd'), Number(budget.amount), expenses, recurring)
+        : buildFigures(budget, yearStart, yearEnd, annualAmount, expenses, recurring);
+    return { budget, year: buildFigures(budget, yearStart, yearEnd, annualAmount, expenses, recurring), currentPeriod };
+  });
+}
+
+/** Budgets whose current period has passed its alert threshold, most overspent first. */
+export function getBudgetAlerts(variances: BudgetVariance[]): BudgetVariance[] {
+  return variances
+    .filter(v => v.currentPeriod && v.currentPeriod.status !== 'ok')
+    .sort((a, b) => b.currentPeriod!.percentUsed - a.currentPeriod!.percentUsed);
+}
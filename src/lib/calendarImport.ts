@@ -0,0 +1,48 @@
+// src/lib/calendarImport.ts
+// v1 - Preview for importing an .ics file as blocking maintenance entries, deduplicated by UID.
+
+import { isCohavenEventUid, parseIcsEvents } from '@/lib/ical';
+
+// --- Types ---
+export type CalendarImportSkipReason = 'invalid' | 'cancelled' | 'recurring' | 'past' | 'own_feed' | 'duplicate_existing' | 'duplicate_in_file';
+export interface CalendarImportPreviewRow {
+  uid: string | null;
+  title: string; // SUMMARY, or a generic title when the listing leaves it out
+  description: string | null;
+  start: string | null; // 'YYYY-MM-DD', inclusive
+  end: string | null;
+  skipReason: CalendarImportSkipReason | null; // null = will be created
+  message: string | null;
+}
+
+export const DEFAULT_IMPORTED_BLOCK_TITLE = 'Blocked (imported)';
+
+/**
+ * Builds the preview: parses each VEVENT and decides whether it becomes a blocking entry.
+ * Events are matched by UID, so re-importing the same listing calendar only adds what is new.
+ * @param text - Raw .ics file contents.
+ * @param existingUids - ical_uid of the property's existing maintenance entries.
+ * @param today - 'YYYY-MM-DD'; events ending before it are skipped, as past dates need no block.
+ */
+export function buildCalendarImportPreview(text: string, existingUids: Iterable<string>, today: string): CalendarImportPreviewRow[] {
+  const existing = new Set(existingUids);
+  const accepted = new Set<string>();
+
+  return parseIcsEvents(text).map(event => {
+    const preview: CalendarImportPreviewRow = {
+      uid: event.uid, title: event.summary || DEFAULT_IMPORTED_BLOCK_TITLE, description: event.description,
+      start: event.start, end: event.end, skipReason: null, message: null,
+    };
+    if (!event.uid) return { ...preview, skipReason: 'invalid', message: 'Missing UID, so it could not be told apart on a later import.' };
+    if (!event.start || !event.end) return { ...preview, skipReason: 'invalid', message: 'Missing or unreadable start date.' };
+    if (event.status === 'CANCELLED') return { ...preview, skipReason: 'cancelled', message: 'Cancelled in the source calendar.' };
+    if (event.recurring) return { ...preview, skipReason: 'recurring', message: 'Repeating events are not imported.' };
+    if (event.end < today) return { ...preview, skipReason: 'past', message: 'Already over.' };
+    if (isCohavenEventUid(event.uid)) return { ...preview, skipReason: 'own_feed', message: 'Comes from a CoHaven feed and is already on the calendar.' };
+    if (existing.has(event.uid)) return { ...preview, skipReason: 'duplicate_existing', message: 'Imported before.' };
+    if (accepted.has(event.uid)) return { ...preview, skipReason: 'duplicate_in_file', message: 'Appears earlier in the file.' };
+
+    accepted.add(event.uid);
+    return preview;
+  });
+}
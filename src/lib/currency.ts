@@ -0,0 +1,81 @@
+// src/lib/currency.ts
+// v1 - Multi-currency expenses: currency list, exchange-rate lookup and conversion of amounts/splits to the base currency.
+
+import type { ExchangeRateRow, ExchangeRateSourceType, ExpenseRow } from '@/integrations/supabase/types';
+import { allocateByWeights } from '@/lib/splits';
+import { formatCurrency } from '@/lib/utils';
+
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+export const CURRENCIES: { code: string; name: string }[] = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'CAD', name: 'Canadian Dollar' },
+  { code: 'AUD', name: 'Australian Dollar' },
+  { code: 'NZD', name: 'New Zealand Dollar' },
+  { code: 'CHF', name: 'Swiss Franc' },
+  { code: 'MXN', name: 'Mexican Peso' },
+  { code: 'JPY', name: 'Japanese Yen' },
+  { code: 'SEK', name: 'Swedish Krona' },
+  { code: 'NOK', name: 'Norwegian Krone' },
+  { code: 'DKK', name: 'Danish Krone' },
+  { code: 'CZK', name: 'Czech Koruna' },
+  { code: 'TRY', name: 'Turkish Lira' },
+  { code: 'THB', name: 'Thai Baht' },
+  { code: 'ZAR', name: 'South African Rand' },
+  { code: 'BRL', name: 'Brazilian Real' },
+  { code: 'CRC', name: 'Costa Rican Colon' },
+];
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Finds the rate to use for an expense: the latest table rate for the currency dated on or before the expense date.
+ * Rates recorded against a different base currency are ignored.
+ * @param date - 'yyyy-MM-dd' expense date.
+ */
+export function findExchangeRate(rates: Pick<ExchangeRateRow, 'base_currency' | 'currency' | 'rate' | 'rate_date'>[], currency: string, baseCurrency: string, date: string): Pick<ExchangeRateRow, 'base_currency' | 'currency' | 'rate' | 'rate_date'> | null {
+  if (currency === baseCurrency) return null;
+  return rates
+    .filter(r => r.currency === currency && r.base_currency === baseCurrency && r.rate_date <= date)
+    .reduce<Pick<ExchangeRateRow, 'base_currency' | 'currency' | 'rate' | 'rate_date'> | null>((latest, r) => (!latest || r.rate_date > latest.rate_date ? r : latest), null);
+}
+
+/** Converts an amount in the expense currency to the base currency, rounded to the cent. */
+export const convertToBase = (amount: number, exchangeRate: number): number => roundToCents(Number(amount) * Number(exchangeRate));
+
+/**
+ * Converts an expense entered in another currency to the base currency.
+ * The base amount is the rounded conversion of the total; splits are re-allocated from it in proportion
+ * to their amounts in the expense currency, so they still add up to the converted total to the cent.
+ * @returns The base-currency amount and splits (input order preserved), or the inputs unchanged for base-currency expenses.
+ */
+export function convertExpenseToBase<T extends { user_id: string; amount: number }>(amount: number, splits: T[], exchangeRate: number | null | undefined): { amount: number; splits: T[] } {
+  if (exchangeRate == null || Number(exchangeRate) === 1) return { amount, splits };
+  if (!(Number(exchangeRate) > 0)) throw new Error('Exchange rate must be greater than 0.');
+  const baseAmount = convertToBase(amount, exchangeRate);
+  const weights = splits.map(s => ({ user_id: s.user_id, weight: Math.max(Number(s.amount) || 0, 0) }));
+  if (!weights.some(w => w.weight > 0)) return { amount: baseAmount, splits: splits.map(s => ({ ...s, amount: 0 })) };
+  const allocations = allocateByWeights(baseAmount, weights);
+  return { amount: baseAmount, splits: splits.map((s, index) => ({ ...s, amount: allocations[index].amount })) };
+}
+
+/** True when the expense was billed in a currency other than the base currency. */
+export const isForeignCurrencyExpense = (expense: Pick<ExpenseRow, 'currency'>, baseCurrency: string): boolean => !!expense.currency && expense.currency !== baseCurrency;
+
+/** e.g. "1 EUR = 1.0843 USD" */
+export const formatExchangeRate = (currency: string, baseCurrency: string, rate: number): string => `1 ${currency} = ${Number(rate).toLocaleString('en-US', { maximumFractionDigits: 6 })} ${baseCurrency}`;
+
+/**
+ * The amount as billed, for showing next to the base-currency amount (null for base-currency expenses).
+ * @returns e.g. { amount: "MX$2,400.00", rate: "1 MXN = 0.055 USD", source: 'table' }
+ */
+export function describeOriginalAmount(expense: Pick<ExpenseRow, 'currency' | 'original_amount' | 'exchange_rate' | 'exchange_rate_source'>, baseCurrency: string): { amount: string; rate: string | null; source: ExchangeRateSourceType | null } | null {
+  if (!isForeignCurrencyExpense(expense, baseCurrency) || expense.original_amount == null) return null;
+  return {
+    amount: formatCurrency(Number(expense.original_amount), expense.currency!),
+    rate: expense.exchange_rate ? formatExchangeRate(expense.currency!, baseCurrency, Number(expense.exchange_rate)) : null,
+    source: expense.exchange_rate_source,
+  };
+}
@@ -0,0 +1,226 @@
+// src/lib/expenseExport.ts
+// v4 - Control characters XML cannot carry are dropped by char code.
+
+import { format } from 'date-fns';
+import { formatCategoryName, formatSplitMethod } from '@/lib/utils';
+import type { Expense } from '@/integrations/supabase/types';
+
+// --- Types ---
+export type ExpenseExportFormat = 'csv' | 'xlsx' | 'ofx' | 'qfx';
+export type ExportCell = string | number | null;
+export interface ExportTable { headers: string[]; rows: ExportCell[][]; }
+export interface ExportMember { user_id: string; name: string; }
+export interface ExportOptions {
+  members: ExportMember[]; // One share/status column pair per member, in this order
+  receiptLinks: Record<string, string>; // expense id -> link; expenses without an entry get an empty cell
+}
+export interface OfxOptions { accountId: string; currency: string; }
+
+export const EXPORT_FORMATS: { value: ExpenseExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  { value: 'xlsx', label: 'Excel (XLSX)', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { value: 'ofx', label: 'OFX', extension: 'ofx', mimeType: 'application/x-ofx' },
+  { value: 'qfx', label: 'Quicken (QFX)', extension: 'qfx', mimeType: 'application/vnd.intu.qfx' },
+];
+
+/**
+ * Keeps expenses dated within an inclusive range. Dates are compared as 'yyyy-MM-dd' strings.
+ * @param from - Start date, or null for no lower bound.
+ * @param to - End date, or null for no upper bound.
+ */
+export function filterExpensesByDateRange(expenses: Expense[], from: string | null, to: string | null): Expense[] {
+  return expenses.filter(expense => !!expense.date && (!from || expense.date >= from) && (!to || expense.date <= to));
+}
+
+/**
+ * Flattens expenses into one row per expense. Amount and shares are in the base currency; the billed columns record
+ * the original currency, amount and rate (blank for expenses recorded before multi-currency support).
+ * Each member gets a share column and a status column.
+ * Members with no split on an expense get empty cells.
+ */
+export function buildExpenseExportTable(expenses: Expense[], options: ExportOptions): ExportTable {
+  const nameOf = (userId: string | null | undefined) => options.members.find(m => m.user_id === userId)?.name ?? '';
+  const headers = ['Date', 'Description', 'Category', 'Amount', 'Billed Currency', 'Billed Amount', 'Exchange Rate', 'Paid By', 'Split Method', 'Notes', 'Receipt',
+    ...options.members.flatMap(m => [`${m.name} Share`, `${m.name} Status`])];
+  const rows = expenses.map(expense => {
+    const memberCells = options.members.flatMap(member => {
+      const split = expense.splits?.find(s => s.user_id === member.user_id);
+      return split ? [Number(split.amount ?? 0), split.status ?? ''] : [null, null];
+    });
+    return [
+      expense.date, expense.description ?? '', formatCategoryName(expense.category), Number(expense.amount ?? 0),
+      expense.currency ?? '', expense.original_amount != null ? Number(expense.original_amount) : null, expense.exchange_rate != null ? Number(expense.exchange_rate) : null,
+      nameOf(expense.paid_by), formatSplitMethod(expense.split_method), expense.notes ?? '', options.receiptLinks[expense.id] ?? '',
+      ...memberCells,
+    ];
+  });
+  return { headers, rows };
+}
+
+// Descriptions, notes and names come from members; Excel and Sheets run text starting with = + - @ (or a
+// tab/carriage return before one) as a formula, so such text gets a leading apostrophe
+const neutralizeFormula = (text: string): string => /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+
+// --- CSV ---
+const escapeCsvCell = (cell: ExportCell): string => {
+  if (cell == null) return '';
+  const text = typeof cell === 'string' ? neutralizeFormula(cell) : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Serializes a table as RFC 4180 CSV with a BOM so Excel detects UTF-8. */
+export function toCsv(table: ExportTable): string {
+  return '\uFEFF' + [table.headers, ...table.rows].map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// --- XLSX ---
+// XML 1.0 allows tab, newline and carriage return but no other character below 0x20
+const isXmlControlChar = (char: string): boolean => { const code = char.charCodeAt(0); return code < 0x20 && code !== 0x09 && code !== 0x0A && code !== 0x0D; };
+
+const escapeXml = (text: string): string => Array.from(text).filter(char => !isXmlControlChar(char)).join('')
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+/** Builds an uncompressed (stored) ZIP archive - all an XLSX container needs. */
+function createZip(files: { name: string; content: string }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true); local.setUint16(4, 20, true); local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint32(14, crc, true); local.setUint32(18, data.length, true); local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014B50, true); central.setUint16(4, 20, true); central.setUint16(6, 20, true); central.setUint16(8, 0x0800, true);
+    central.setUint32(16, crc, true); central.setUint32(20, data.length, true); central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true); central.setUint32(42, offset, true);
+    localParts.push(new Uint8Array(local.buffer), name, data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  });
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true); end.setUint16(8, files.length, true); end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true); end.setUint32(16, offset, true);
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((position, part) => { zip.set(part, position); return position + part.length; }, 0);
+  return zip;
+}
+
+/**
+ * Serializes a table as a single-sheet XLSX workbook. Strings are written inline, so no shared string table is needed.
+ * @param sheetName - Worksheet tab name (Excel allows at most 31 characters, without []:*?/\).
+ */
+export function toXlsx(table: ExportTable, sheetName: string): Uint8Array {
+  const cellXml = (cell: ExportCell, ref: string) => {
+    if (cell == null || cell === '') return '';
+    if (typeof cell === 'number') return `<c r="${ref}"><v>${cell}</v></c>`;
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(neutralizeFormula(cell))}</t></is></c>`;
+  };
+  const rowsXml = [table.headers, ...table.rows]
+    .map((row, r) => `<row r="${r + 1}">${row.map((cell, c) => cellXml(cell, `${columnName(c)}${r + 1}`)).join('')}</row>`)
+    .join('');
+  const safeSheetName = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Expenses');
+  return createZip([
+    { name: '[Content_Types].xml', content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>' },
+    { name: '_rels/.rels', content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>' },
+    { name: 'xl/workbook.xml', content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>` },
+    { name: 'xl/_rels/workbook.xml.rels', content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>' },
+    { name: 'xl/worksheets/sheet1.xml', content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rowsXml}</sheetData></worksheet>` },
+  ]);
+}
+
+// --- OFX / QFX ---
+// The header declares USASCII: accents are dropped (é -> e) and anything else without an ASCII form becomes '?'
+const toAscii = (text: string): string => text.replace(/\t/g, ' ').normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7E\r\n]/g, '?');
+const escapeSgml = (text: string): string => toAscii(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/[\r\n]+/g, ' ');
+const ofxDate = (isoDate: string): string => isoDate.replace(/-/g, '');
+
+/**
+ * Serializes expenses as an OFX 1.0.2 (SGML) bank statement: each expense is a DEBIT keyed by its id,
+ * so re-importing the file into accounting software doesn't duplicate transactions.
+ * QFX is the same document with the Intuit bank id Quicken requires.
+ */
+export function toOfx(expenses: Expense[], options: OfxOptions, variant: 'ofx' | 'qfx' = 'ofx'): string {
+  const now = format(new Date(), 'yyyyMMddHHmmss');
+  const dates = expenses.map(e => e.date).filter(Boolean).sort();
+  const start = dates[0] ?? format(new Date(), 'yyyy-MM-dd');
+  const end = dates[dates.length - 1] ?? start;
+  const transactions = expenses.map(expense => [
+    '<STMTTRN>',
+    '<TRNTYPE>DEBIT',
+    `<DTPOSTED>${ofxDate(expense.date)}`,
+    `<TRNAMT>${(-Math.abs(Number(expense.amount ?? 0))).toFixed(2)}`,
+    `<FITID>${expense.id}`,
+    `<NAME>${escapeSgml((expense.description ?? formatCategoryName(expense.category)).slice(0, 32))}`,
+    `<MEMO>${escapeSgml([formatCategoryName(expense.category), expense.notes].filter(Boolean).join(' - ').slice(0, 255))}`,
+    '</STMTTRN>',
+  ].join('\n'));
+  const total = expenses.reduce((sum, e) => sum + Math.abs(Number(e.amount ?? 0)), 0);
+  return [
+    'OFXHEADER:100', 'DATA:OFXSGML', 'VERSION:102', 'SECURITY:NONE', 'ENCODING:USASCII', 'CHARSET:1252', 'COMPRESSION:NONE', 'OLDFILEUID:NONE', 'NEWFILEUID:NONE', '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${now}`,
+    '<LANGUAGE>ENG',
+    ...(variant === 'qfx' ? ['<INTU.BID>3000'] : []),
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>1',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<STMTRS>',
+    `<CURDEF>${options.currency}`,
+    `<BANKACCTFROM><BANKID>000000000<ACCTID>${escapeSgml(options.accountId)}<ACCTTYPE>CHECKING</BANKACCTFROM>`,
+    `<BANKTRANLIST><DTSTART>${ofxDate(start)}<DTEND>${ofxDate(end)}`,
+    ...transactions,
+    '</BANKTRANLIST>',
+    `<LEDGERBAL><BALAMT>${(-total).toFixed(2)}<DTASOF>${now}</LEDGERBAL>`,
+    '</STMTRS>',
+    '</STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>',
+    '',
+  ].join('\n');
+}
+
+/** Builds a file name like "beach-house-expenses-2025-01-01-to-2025-12-31.csv". */
+export function buildExportFileName(propertyName: string, from: string | null, to: string | null, extension: string): string {
+  const slug = propertyName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'property';
+  const range = from || to ? `-${from ?? 'start'}-to-${to ?? format(new Date(), 'yyyy-MM-dd')}` : `-${format(new Date(), 'yyyy-MM-dd')}`;
+  return `${slug}-expenses${range}.${extension}`;
+}
+
+/** Triggers a browser download for generated content. */
+export function downloadFile(content: string | Uint8Array, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
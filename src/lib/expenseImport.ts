@@ -0,0 +1,251 @@
+// src/lib/expenseImport.ts
+// v2 - Parsed CSV records keep the file line they start on, so preview row numbers match the file.
+
+import { isValid as isValidDate, parse, format } from 'date-fns';
+import { ExpenseCategory, ExpenseCategoryType, SplitMethod, SplitStatus, RpcSplitInput } from '@/integrations/supabase/types';
+import { allocateByWeights, summarizeOwnershipStakes, OwnershipStake } from '@/lib/splits';
+
+// --- Types ---
+export type ImportField = 'date' | 'amount' | 'description' | 'category';
+export type ImportColumnMapping = Record<ImportField, number | null>; // Column index per field (category is optional)
+export type ImportDateFormat = 'yyyy-MM-dd' | 'MM/dd/yyyy' | 'dd/MM/yyyy';
+// Bank exports disagree on signs: some list debits as negative, some as positive
+export type ImportSignConvention = 'absolute' | 'negative_is_expense' | 'positive_is_expense';
+export type ImportSplitMethod = SplitMethod.Equal | SplitMethod.Ownership | SplitMethod.PayerOnly;
+export type ImportSkipReason = 'invalid' | 'not_expense' | 'duplicate_existing' | 'duplicate_in_file';
+
+export interface ImportOptions {
+  dateFormat: ImportDateFormat;
+  signConvention: ImportSignConvention;
+  defaultCategory: ExpenseCategoryType;
+}
+export interface CsvRecord { line: number; cells: string[]; } // line: 1-based file line the record starts on
+export interface ExistingExpenseForImport { id: string; date: string; amount: number | null; description: string | null; }
+export interface ImportPreviewRow {
+  rowNumber: number; // 1-based line in the file where the record starts, so users can find it
+  date: string | null; // yyyy-MM-dd
+  amount: number | null; // Positive expense amount
+  description: string;
+  category: ExpenseCategoryType;
+  skipReason: ImportSkipReason | null; // null = will be created
+  message: string | null; // Why the row is skipped / what it duplicates
+}
+
+export const IMPORT_DATE_FORMATS: { value: ImportDateFormat; label: string }[] = [
+  { value: 'yyyy-MM-dd', label: 'YYYY-MM-DD' },
+  { value: 'MM/dd/yyyy', label: 'MM/DD/YYYY' },
+  { value: 'dd/MM/yyyy', label: 'DD/MM/YYYY' },
+];
+
+// Alternative spellings accepted for each date format ('/', '-' and '.' separators, two-digit years)
+const DATE_FORMAT_VARIANTS: Record<ImportDateFormat, string[]> = {
+  'yyyy-MM-dd': ['yyyy-MM-dd', 'yyyy/MM/dd', 'yyyy.MM.dd', "yyyy-MM-dd'T'HH:mm:ss", 'yyyy-MM-dd HH:mm:ss'],
+  'MM/dd/yyyy': ['MM/dd/yyyy', 'M/d/yyyy', 'MM-dd-yyyy', 'M/d/yy', 'MM/dd/yy'],
+  'dd/MM/yyyy': ['dd/MM/yyyy', 'd/M/yyyy', 'dd-MM-yyyy', 'dd.MM.yyyy', 'd.M.yyyy', 'd/M/yy', 'dd/MM/yy'],
+};
+
+const HEADER_HINTS: Record<ImportField, string[]> = {
+  date: ['date', 'posted', 'transaction date', 'posting date', 'booking date'],
+  amount: ['amount', 'debit', 'value', 'total', 'withdrawal'],
+  description: ['description', 'payee', 'memo', 'details', 'narrative', 'merchant', 'name'],
+  category: ['category', 'type'],
+};
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields, escaped quotes, newlines inside quotes).
+ * The delimiter (comma, semicolon or tab) is detected from the first line.
+ * @param text - Raw file contents.
+ * @returns Non-empty records as trimmed cell strings, each with the line it starts on.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const content = text.replace(/^\uFEFF/, ''); // Strip BOM added by Excel
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) => firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows: CsvRecord[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1; // Line being read; newlines inside quoted cells count too
+  let rowLine = 1;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else {
+        if (char === '\n' || (char === '\r' && content[i + 1] !== '\n')) line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim()); cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell.trim()); cell = '';
+      if (row.some(value => value !== '')) rows.push({ line: rowLine, cells: row });
+      row = [];
+      rowLine = ++line;
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  if (row.some(value => value !== '')) rows.push({ line: rowLine, cells: row });
+  return rows;
+}
+
+/**
+ * Guesses which column holds each field from the header names.
+ * @param headers - The header row.
+ * @returns Column indexes, or null where nothing matched.
+ */
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  const used = new Set<number>();
+  const find = (field: ImportField): number | null => {
+    for (const hint of HEADER_HINTS[field]) {
+      const index = normalized.findIndex((h, i) => !used.has(i) && (h === hint || h.includes(hint)));
+      if (index !== -1) { used.add(index); return index; }
+    }
+    return null;
+  };
+  // Claim date and amount first so the broader description hints can't take their columns
+  const date = find('date');
+  const amount = find('amount');
+  const description = find('description');
+  const category = find('category');
+  return { date, amount, description, category };
+}
+
+/**
+ * Parses a date cell using the chosen format (and its common variants).
+ * @returns The date as 'yyyy-MM-dd', or null if it can't be read.
+ */
+export function parseImportDate(value: string, dateFormat: ImportDateFormat): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  for (const pattern of DATE_FORMAT_VARIANTS[dateFormat]) {
+    const parsed = parse(trimmed, pattern, new Date());
+    if (isValidDate(parsed) && parsed.getFullYear() > 1900) return format(parsed, 'yyyy-MM-dd');
+  }
+  return null;
+}
+
+/**
+ * Parses an amount cell: currency symbols, thousands separators, "(12.50)" and trailing "-" negatives.
+ * A comma is treated as the decimal separator when it is the last separator followed by 1-2 digits ("1.234,56").
+ * @returns The signed amount, or null if it isn't a number.
+ */
+export function parseImportAmount(value: string): number | null {
+  let text = value.replace(/[^\d.,()-]/g, ''); // Drop currency symbols, spaces and letters
+  if (!text) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) { negative = true; text = text.slice(1, -1); }
+  if (text.endsWith('-')) { negative = true; text = text.slice(0, -1); }
+  if (text.startsWith('-')) { negative = !negative; text = text.slice(1); }
+  if (/,\d{1,2}$/.test(text) && text.lastIndexOf(',') > text.lastIndexOf('.')) text = text.replace(/\./g, '').replace(',', '.');
+  else text = text.replace(/,/g, '');
+  if (!/^\d*\.?\d+$/.test(text)) return null;
+  const amount = Math.round(parseFloat(text) * 100) / 100;
+  return negative ? -amount : amount;
+}
+
+/**
+ * Maps a category cell to an expense category ("HOA Fees", "hoa_fees" and "hoa-fees" all match).
+ * @returns The matching category, or the fallback.
+ */
+export function mapImportCategory(value: string | undefined, fallback: ExpenseCategoryType): ExpenseCategoryType {
+  const key = (value ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return (Object.values(ExpenseCategory) as string[]).includes(key) ? key as ExpenseCategoryType : fallback;
+}
+
+const normalizeDescription = (description: string | null | undefined): string =>
+  (description ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Whether two descriptions plausibly name the same transaction: equal once normalized, one contains
+ * the other (banks often append reference numbers), or at least half of their words are shared.
+ */
+export function descriptionsMatch(a: string | null | undefined, b: string | null | undefined): boolean {
+  const left = normalizeDescription(a);
+  const right = normalizeDescription(b);
+  if (!left || !right) return left === right;
+  if (left === right || left.includes(right) || right.includes(left)) return true;
+  const leftWords = new Set(left.split(' '));
+  const rightWords = new Set(right.split(' '));
+  const shared = Array.from(leftWords).filter(word => rightWords.has(word)).length;
+  return shared / Math.max(leftWords.size, rightWords.size) >= 0.5;
+}
+
+/**
+ * Builds the preview: parses each data row and decides whether it will be created or skipped.
+ * A row is a likely duplicate when an existing expense (or an earlier row in the file) has the
+ * same date and amount and a matching description.
+ * @param records - Data records (header excluded), as returned by parseCsv.
+ */
+export function buildImportPreview(
+  records: CsvRecord[],
+  mapping: ImportColumnMapping,
+  options: ImportOptions,
+  existingExpenses: ExistingExpenseForImport[]
+): ImportPreviewRow[] {
+  const cell = (row: string[], field: ImportField) => mapping[field] != null ? row[mapping[field]!] ?? '' : '';
+  const keyOf = (date: string, amount: number) => `${date}|${Math.round(amount * 100)}`;
+
+  const existingByKey = new Map<string, ExistingExpenseForImport[]>();
+  existingExpenses.forEach(expense => {
+    if (!expense.date || expense.amount == null) return;
+    const key = keyOf(expense.date.slice(0, 10), Number(expense.amount));
+    existingByKey.set(key, [...(existingByKey.get(key) ?? []), expense]);
+  });
+  const acceptedByKey = new Map<string, ImportPreviewRow[]>();
+
+  return records.map(({ line: rowNumber, cells: row }) => {
+    const date = parseImportDate(cell(row, 'date'), options.dateFormat);
+    const signedAmount = parseImportAmount(cell(row, 'amount'));
+    const description = cell(row, 'description');
+    const category = mapImportCategory(mapping.category != null ? cell(row, 'category') : undefined, options.defaultCategory);
+    const preview: ImportPreviewRow = { rowNumber, date, amount: signedAmount == null ? null : Math.abs(signedAmount), description, category, skipReason: null, message: null };
+
+    if (!date) return { ...preview, skipReason: 'invalid', message: `Unreadable date "${cell(row, 'date')}".` };
+    if (signedAmount == null || signedAmount === 0) return { ...preview, skipReason: 'invalid', message: `Unreadable or zero amount "${cell(row, 'amount')}".` };
+    if (!description) return { ...preview, skipReason: 'invalid', message: 'Missing description.' };
+    if ((options.signConvention === 'negative_is_expense' && signedAmount > 0) || (options.signConvention === 'positive_is_expense' && signedAmount < 0)) {
+      return { ...preview, skipReason: 'not_expense', message: 'Credit or refund, not an expense.' };
+    }
+
+    const key = keyOf(date, preview.amount!);
+    const existingMatch = (existingByKey.get(key) ?? []).find(expense => descriptionsMatch(expense.description, description));
+    if (existingMatch) return { ...preview, skipReason: 'duplicate_existing', message: `Matches existing expense "${existingMatch.description ?? ''}".` };
+    const fileMatch = (acceptedByKey.get(key) ?? []).find(other => descriptionsMatch(other.description, description));
+    if (fileMatch) return { ...preview, skipReason: 'duplicate_in_file', message: `Same as row ${fileMatch.rowNumber}.` };
+
+    acceptedByKey.set(key, [...(acceptedByKey.get(key) ?? []), preview]);
+    return preview;
+  });
+}
+
+/**
+ * Splits an imported expense with one of the methods that need no per-row input.
+ * @param memberIds - Current members of the property (Equal splits, and the filter for ownership stakes).
+ * @param ownershipStakes - Stakes in effect on the expense date (Ownership only).
+ * @throws If an Ownership split has no stakes held by current members.
+ */
+export function buildImportSplits(
+  amount: number,
+  method: ImportSplitMethod,
+  payerId: string,
+  memberIds: string[],
+  ownershipStakes: OwnershipStake[] = []
+): RpcSplitInput[] {
+  const statusFor = (userId: string) => userId === payerId ? SplitStatus.Paid : SplitStatus.Owed;
+  if (method === SplitMethod.PayerOnly) return [{ user_id: payerId, amount, status: SplitStatus.Paid }];
+  if (method === SplitMethod.Ownership) {
+    const { stakes } = summarizeOwnershipStakes(ownershipStakes.filter(stake => memberIds.includes(stake.user_id)));
+    if (stakes.length === 0) throw new Error('No ownership stakes were in effect on this date.');
+    return allocateByWeights(amount, stakes).map((allocation, index) => ({ user_id: allocation.user_id, amount: allocation.amount, percentage: stakes[index].weight, status: statusFor(allocation.user_id) }));
+  }
+  return allocateByWeights(amount, memberIds.map(user_id => ({ user_id, weight: 1 }))).map(allocation => ({ user_id: allocation.user_id, amount: allocation.amount, status: statusFor(allocation.user_id) }));
+}
@@ -0,0 +1,5 @@
+// src/lib/ical.ts
+// v1 - Re-export the iCalendar parser and writer shared with the calendar-feed edge function.
+
+export { buildIcsCalendar, parseIcsEvents, cohavenEventUid, isCohavenEventUid, COHAVEN_UID_DOMAIN } from '../../supabase/functions/_shared/ical.ts';
+export type { IcsEventInput, ParsedIcsEvent } from '../../supabase/functions/_shared/ical.ts';
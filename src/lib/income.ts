@@ -0,0 +1,33 @@
+// src/lib/income.ts
+// v1 - Income context object, its types and the useIncome hook (the provider is in contexts/IncomeContext).
+
+import { createContext, useContext } from 'react';
+import { Income, IncomeDistributionInput, IncomeDistributionMethodType, IncomeSourceType } from '@/integrations/supabase/types';
+
+export interface IncomeInput {
+  date: Date;
+  amount: number;
+  source: IncomeSourceType;
+  description?: string | null;
+  distributionMethod: IncomeDistributionMethodType;
+  notes?: string | null;
+  distributions: IncomeDistributionInput[]; // Must add up to amount
+}
+
+export interface IncomeContextType {
+  incomes: Income[]; // Newest first
+  isLoadingIncomes: boolean;
+  errorIncomes: string | null;
+  fetchIncomes: () => Promise<void>;
+  addIncome: (input: IncomeInput) => Promise<boolean>;
+  deleteIncome: (incomeId: string) => Promise<boolean>;
+  canDeleteIncome: (income: Income) => boolean; // Owners, or whoever recorded it
+}
+
+export const IncomeContext = createContext<IncomeContextType | undefined>(undefined);
+
+export const useIncome = (): IncomeContextType => {
+  const context = useContext(IncomeContext);
+  if (context === undefined) throw new Error('useIncome must be used within an IncomeProvider');
+  return context;
+};
@@ -0,0 +1,30 @@
+// src/lib/ownership.ts
+// v1 - Cap table helpers: replay the ownership ledger to get each member's stake on a given date.
+
+import type { OwnershipChangeRow } from "@/integrations/supabase/types";
+import type { OwnershipStake } from "@/lib/splits";
+
+export type OwnershipChangeInput = Pick<OwnershipChangeRow, 'from_user_id' | 'to_user_id' | 'percentage' | 'effective_date'>;
+
+/**
+ * Replays ownership changes up to and including a date.
+ * Each change moves `percentage` points from `from_user_id` (if any) to `to_user_id` (if any).
+ * @param changes - Ledger entries for one property, in any order.
+ * @param asOfDate - 'yyyy-MM-dd'; entries effective after this date are ignored.
+ * @returns Members holding a positive stake, largest first, in the shape summarizeOwnershipStakes expects.
+ */
+export function computeStakesAsOf(changes: OwnershipChangeInput[], asOfDate: string): OwnershipStake[] {
+  // Work in ten-thousandths of a point (the column's precision) to avoid float drift
+  const units = new Map<string, number>();
+  const move = (userId: string | null, delta: number) => { if (userId) units.set(userId, (units.get(userId) ?? 0) + delta); };
+  changes.forEach(change => {
+    if (change.effective_date > asOfDate) return;
+    const delta = Math.round(Number(change.percentage) * 10000);
+    move(change.from_user_id, -delta);
+    move(change.to_user_id, delta);
+  });
+  return Array.from(units.entries())
+    .filter(([, value]) => value > 0)
+    .map(([user_id, value]) => ({ user_id, ownership_percentage: value / 10000 }))
+    .sort((a, b) => b.ownership_percentage - a.ownership_percentage || (a.user_id < b.user_id ? -1 : 1));
+}
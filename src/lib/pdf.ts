@@ -0,0 +1,99 @@
+// src/lib/pdf.ts
+// v1 - Minimal PDF writer (Helvetica text, rules and link annotations) for downloadable reports.
+
+export type PdfFont = 'regular' | 'bold';
+export interface PdfTextOptions { size?: number; font?: PdfFont; align?: 'left' | 'right'; color?: [number, number, number]; }
+export interface PdfDocument {
+  pageWidth: number;
+  pageHeight: number;
+  margin: number;
+  addPage: () => void;
+  text: (value: string, x: number, y: number, options?: PdfTextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, width?: number) => void;
+  link: (x: number, y: number, width: number, height: number, url: string) => void; // Clickable area, y is the bottom edge
+  measure: (value: string, size?: number) => number;
+  truncate: (value: string, maxWidth: number, size?: number) => string;
+  toBytes: () => Uint8Array;
+}
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126; other characters are approximated
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Standard fonts only cover WinAnsi; anything outside Latin-1 becomes '?'
+const toWinAnsi = (value: string): string => value.replace(/[\u2018\u2019]/g, "'").replace(/[\u201C\u201D]/g, '"').replace(/[\u2013\u2014]/g, '-').replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+const escapePdfString = (value: string): string => toWinAnsi(value).replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+const num = (value: number): string => (Math.round(value * 100) / 100).toString();
+
+/**
+ * Creates a PDF document (default US Letter; units are points, origin bottom-left).
+ * Pages are built by calling drawing methods; `toBytes` serializes everything with a valid xref table.
+ */
+export function createPdfDocument(pageWidth = 612, pageHeight = 792, margin = 48): PdfDocument {
+  const pages: { content: string[]; links: { rect: number[]; url: string }[] }[] = [];
+  const current = () => pages[pages.length - 1];
+
+  const measure = (value: string, size = 10): number =>
+    toWinAnsi(value).split('').reduce((sum, ch) => sum + (HELVETICA_WIDTHS[ch.charCodeAt(0) - 32] ?? 556), 0) * size / 1000;
+
+  const doc: PdfDocument = {
+    pageWidth, pageHeight, margin,
+    addPage: () => { pages.push({ content: [], links: [] }); },
+    text: (value, x, y, options = {}) => {
+      const size = options.size ?? 10;
+      const left = options.align === 'right' ? x - measure(value, size) : x;
+      const [r, g, b] = options.color ?? [0, 0, 0];
+      current().content.push(`BT ${num(r)} ${num(g)} ${num(b)} rg /${options.font === 'bold' ? 'F2' : 'F1'} ${size} Tf ${num(left)} ${num(y)} Td (${escapePdfString(value)}) Tj ET`);
+    },
+    line: (x1, y1, x2, y2, width = 0.5) => { current().content.push(`${num(width)} w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`); },
+    link: (x, y, width, height, url) => { current().links.push({ rect: [x, y, x + width, y + height], url }); },
+    measure,
+    truncate: (value, maxWidth, size = 10) => {
+      if (measure(value, size) <= maxWidth) return value;
+      let truncated = value;
+      while (truncated.length > 0 && measure(`${truncated}...`, size) > maxWidth) truncated = truncated.slice(0, -1);
+      return `${truncated}...`;
+    },
+    toBytes: () => {
+      if (pages.length === 0) doc.addPage();
+      // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then per page: page, content stream, link annotations
+      const objects: string[] = [];
+      const pageRefs: number[] = [];
+      let next = 5;
+      const pageObjects: { id: number; body: string }[] = [];
+      pages.forEach(page => {
+        const pageId = next++;
+        const contentId = next++;
+        const annotIds = page.links.map(() => next++);
+        const stream = page.content.join('\n');
+        pageRefs.push(pageId);
+        pageObjects.push({ id: pageId, body: `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R${annotIds.length ? ` /Annots [${annotIds.map(id => `${id} 0 R`).join(' ')}]` : ''} >>` });
+        pageObjects.push({ id: contentId, body: `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream` });
+        page.links.forEach((link, i) => pageObjects.push({ id: annotIds[i], body: `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(num).join(' ')}] /Border [0 0 0] /A << /S /URI /URI (${escapePdfString(link.url)}) >> >>` }));
+      });
+      objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+      objects[2] = `<< /Type /Pages /Kids [${pageRefs.map(id => `${id} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`;
+      objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+      objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+      pageObjects.forEach(obj => { objects[obj.id] = obj.body; });
+
+      // Every character is a single byte (WinAnsi), so string length equals byte length for the xref offsets
+      let output = '%PDF-1.4\n';
+      const offsets: number[] = [];
+      for (let id = 1; id < objects.length; id++) {
+        offsets[id] = output.length;
+        output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+      }
+      const xrefOffset = output.length;
+      output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+      for (let id = 1; id < objects.length; id++) output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+      output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+      return Uint8Array.from(output, ch => ch.charCodeAt(0) & 0xFF);
+    },
+  };
+  return doc;
+}
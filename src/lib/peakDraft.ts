@@ -0,0 +1,46 @@
+// src/lib/peakDraft.ts
+// v1 - Snake-draft turn order for peak weeks, mirroring peak_draft_picker and create_peak_draft in the database.
+
+import type { PeakDraftRow, PeakDraftWeekRow, PropertyMember, PropertyMemberWithProfile } from '@/integrations/supabase/types';
+
+export type PeakDraftParticipantInput = Pick<PropertyMember, 'user_id' | 'role' | 'ownership_percentage' | 'created_at'>;
+
+/**
+ * Whose turn a pick is. Odd rounds run in pick order, even rounds in reverse (A B C, C B A, A B C ...).
+ * @param pickNumber - 1 for the first pick of the draft.
+ */
+export function pickerForPick(pickOrder: string[], pickNumber: number): string | null {
+  if (pickOrder.length === 0 || pickNumber < 1) return null;
+  const round = Math.floor((pickNumber - 1) / pickOrder.length);
+  const position = (pickNumber - 1) % pickOrder.length;
+  return round % 2 === 0 ? pickOrder[position] : pickOrder[pickOrder.length - 1 - position];
+}
+
+/**
+ * The draft's next pick: its number and whose turn it is; null once every week is taken or the draft is complete.
+ */
+export function nextPick(draft: Pick<PeakDraftRow, 'pick_order' | 'status'>, weeks: Pick<PeakDraftWeekRow, 'pick_number'>[]): { pickNumber: number; userId: string } | null {
+  const picked = weeks.filter(w => w.pick_number !== null).length;
+  if (draft.status !== 'open' || picked >= weeks.length) return null;
+  const userId = pickerForPick(draft.pick_order, picked + 1);
+  return userId ? { pickNumber: picked + 1, userId } : null;
+}
+
+/**
+ * First-round order for a new draft: last draft's order rotated by one (its first picker goes last),
+ * without members who are no longer owners, and with new owners and co-owners at the end. The first
+ * draft orders by ownership stake, largest first.
+ */
+export function nextPickOrder(previousOrder: string[] | null | undefined, members: PeakDraftParticipantInput[]): string[] {
+  const participants = members
+    .filter(m => m.role === 'owner' || m.role === 'co_owner')
+    .sort((a, b) => Number(b.ownership_percentage ?? 0) - Number(a.ownership_percentage ?? 0) || (a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0) || (a.user_id < b.user_id ? -1 : 1))
+    .map(m => m.user_id);
+  if (!previousOrder?.length) return participants;
+  const rotated = [...previousOrder.slice(1), previousOrder[0]].filter(id => participants.includes(id));
+  return [...rotated, ...participants.filter(id => !rotated.includes(id))];
+}
+
+/** How a drafter is named in the draft; pick orders can outlive membership. */
+export const draftMemberName = (member: PropertyMemberWithProfile | undefined): string =>
+  member?.profile?.first_name || member?.profile?.email || 'Former member';
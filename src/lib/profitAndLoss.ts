@@ -0,0 +1,84 @@
+// src/lib/profitAndLoss.ts
+// v2 - Expenses awaiting approval or rejected are left out.
+
+import { eachMonthOfInterval, format, parseISO } from 'date-fns';
+import type { ExpenseRow, ExpenseSplitRow, IncomeDistributionInput, IncomeDistributionRow, IncomeRow } from '@/integrations/supabase/types';
+import { allocateByWeights, summarizeOwnershipStakes, OwnershipStake } from '@/lib/splits';
+import { isExpenseApproved } from '@/lib/settlement';
+
+// --- Input Shapes (structural, so CombinedExpenseData / Income both fit) ---
+export interface PnlExpenseInput extends Pick<ExpenseRow, 'date' | 'amount' | 'category' | 'status'> { splits: Pick<ExpenseSplitRow, 'user_id' | 'amount'>[]; }
+export interface PnlIncomeInput extends Pick<IncomeRow, 'date' | 'amount' | 'source'> { distributions: Pick<IncomeDistributionRow, 'user_id' | 'amount'>[]; }
+
+// --- Output Shapes ---
+export interface PnlMonth { month: string; income: number; expenses: number; net: number; } // month is 'yyyy-MM'
+export interface PnlMember { userId: string; income: number; expenses: number; net: number; }
+export interface ProfitAndLoss {
+  months: PnlMonth[];
+  incomeBySource: Record<string, number>;
+  expensesByCategory: Record<string, number>;
+  totals: { income: number; expenses: number; net: number };
+  members: PnlMember[];
+}
+
+const toCents = (amount: number | null | undefined): number => Math.round(Number(amount || 0) * 100);
+const addCents = (map: Map<string, number>, key: string, cents: number) => map.set(key, (map.get(key) ?? 0) + cents);
+const centsToRecord = (map: Map<string, number>): Record<string, number> => Object.fromEntries(Array.from(map.entries()).map(([key, cents]) => [key, cents / 100]));
+
+/**
+ * Distributes income in proportion to ownership stakes.
+ * @param stakes - Stakes in effect on the income date.
+ * @param memberIds - Current members; stakes held by anyone else are ignored.
+ * @throws If no current member holds a stake.
+ */
+export function buildOwnershipDistributions(amount: number, stakes: OwnershipStake[], memberIds: string[]): IncomeDistributionInput[] {
+  const { stakes: weights } = summarizeOwnershipStakes(stakes.filter(stake => memberIds.includes(stake.user_id)));
+  if (weights.length === 0) throw new Error('No ownership stakes were in effect on this date.');
+  return allocateByWeights(amount, weights).map((allocation, index) => ({ user_id: allocation.user_id, amount: allocation.amount, percentage: weights[index].weight }));
+}
+
+/**
+ * Aggregates income and expenses dated within an inclusive range into a profit & loss statement.
+ * Member figures use income distributions and expense splits, so each member's net is their share of the result.
+ * @param from - 'yyyy-MM-dd' start date.
+ * @param to - 'yyyy-MM-dd' end date.
+ * @param memberIds - Members to always include (even with no activity).
+ */
+export function buildProfitAndLoss(expenses: PnlExpenseInput[], incomes: PnlIncomeInput[], from: string, to: string, memberIds: string[] = []): ProfitAndLoss {
+  const inRange = (date: string | null | undefined) => !!date && date >= from && date <= to;
+  const monthIncome = new Map<string, number>(); const monthExpenses = new Map<string, number>();
+  const bySource = new Map<string, number>(); const byCategory = new Map<string, number>();
+  const memberIncome = new Map<string, number>(); const memberExpenses = new Map<string, number>();
+  memberIds.forEach(id => { memberIncome.set(id, 0); memberExpenses.set(id, 0); });
+
+  incomes.filter(i => inRange(i.date)).forEach(income => {
+    addCents(monthIncome, income.date.slice(0, 7), toCents(income.amount));
+    addCents(bySource, income.source, toCents(income.amount));
+    (income.distributions || []).forEach(d => { if (d.user_id) { addCents(memberIncome, d.user_id, toCents(d.amount)); if (!memberExpenses.has(d.user_id)) memberExpenses.set(d.user_id, 0); } });
+  });
+  expenses.filter(e => inRange(e.date) && isExpenseApproved(e)).forEach(expense => {
+    addCents(monthExpenses, expense.date.slice(0, 7), toCents(expense.amount));
+    addCents(byCategory, expense.category, toCents(expense.amount));
+    (expense.splits || []).forEach(s => { if (s.user_id) { addCents(memberExpenses, s.user_id, toCents(s.amount)); if (!memberIncome.has(s.user_id)) memberIncome.set(s.user_id, 0); } });
+  });
+
+  const months = eachMonthOfInterval({ start: parseISO(from), end: parseISO(to) }).map(date => {
+    const month = format(date, 'yyyy-MM');
+    const income = monthIncome.get(month) ?? 0; const spent = monthExpenses.get(month) ?? 0;
+    return { month, income: income / 100, expenses: spent / 100, net: (income - spent) / 100 };
+  });
+  const totalIncome = Array.from(monthIncome.values()).reduce((a, b) => a + b, 0);
+  const totalExpenses = Array.from(monthExpenses.values()).reduce((a, b) => a + b, 0);
+  const members = Array.from(memberIncome.keys()).map(userId => {
+    const income = memberIncome.get(userId) ?? 0; const spent = memberExpenses.get(userId) ?? 0;
+    return { userId, income: income / 100, expenses: spent / 100, net: (income - spent) / 100 };
+  }).sort((a, b) => b.net - a.net);
+
+  return {
+    months,
+    incomeBySource: centsToRecord(bySource),
+    expensesByCategory: centsToRecord(byCategory),
+    totals: { income: totalIncome / 100, expenses: totalExpenses / 100, net: (totalIncome - totalExpenses) / 100 },
+    members,
+  };
+}
@@ -0,0 +1,62 @@
+// src/lib/receiptOcr.ts
+// v1 - Offline receipt text extraction in the browser: Tesseract (WASM) for images, pdf.js for PDFs.
+
+// Worker, WASM core and language data are bundled with the app rather than fetched from a CDN. The
+// libraries themselves are imported on first use, so they only download once someone scans a receipt.
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishTrainedDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+export type ReceiptScanStage = 'loading' | 'reading';
+export interface ReceiptScanProgress { stage: ReceiptScanStage; progress: number; } // progress is 0-1 within the stage
+
+// A PDF whose first page has less text than this is treated as a scan and rendered for OCR
+const MIN_PDF_TEXT_LENGTH = 20;
+const PDF_RENDER_SCALE = 2; // ~144 dpi; receipt small print is unreadable at the 72 dpi default
+
+async function recognizeImage(image: File | HTMLCanvasElement, onProgress?: (progress: ReceiptScanProgress) => void): Promise<string> {
+  const { createWorker } = await import('tesseract.js');
+  const worker = await createWorker('eng', undefined, {
+    workerPath: tesseractWorkerUrl,
+    corePath: tesseractCoreUrl,
+    langPath: englishTrainedDataUrl.slice(0, englishTrainedDataUrl.lastIndexOf('/')), // Tesseract appends /eng.traineddata.gz
+    logger: message => onProgress?.({ stage: message.status === 'recognizing text' ? 'reading' : 'loading', progress: message.progress }),
+  });
+  try {
+    const { data } = await worker.recognize(image);
+    return data.text;
+  } finally {
+    await worker.terminate();
+  }
+}
+
+// Digital PDFs (emailed invoices) already carry text; scanned ones are rendered and OCR'd like an image
+async function extractPdfText(file: File, onProgress?: (progress: ReceiptScanProgress) => void): Promise<string> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const page = await pdf.getPage(1);
+    const content = await page.getTextContent();
+    const text = content.items.map(item => 'str' in item ? `${item.str}${item.hasEOL ? '\n' : ' '}` : '').join('');
+    if (text.replace(/\s/g, '').length >= MIN_PDF_TEXT_LENGTH) return text;
+    const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width); canvas.height = Math.ceil(viewport.height);
+    await page.render({ canvas, viewport }).promise;
+    return recognizeImage(canvas, onProgress);
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Extracts the text of a receipt without sending it anywhere.
+ * @param file - A JPG, PNG or WEBP image, or a PDF (only the first page is read).
+ * @param onProgress - Called as the OCR engine loads and reads.
+ * @returns The raw text, line breaks included.
+ */
+export async function extractReceiptText(file: File, onProgress?: (progress: ReceiptScanProgress) => void): Promise<string> {
+  return file.type === 'application/pdf' ? extractPdfText(file, onProgress) : recognizeImage(file, onProgress);
+}
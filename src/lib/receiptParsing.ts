@@ -0,0 +1,130 @@
+// src/lib/receiptParsing.ts
+// v1 - Reads the date, total, vendor and a likely category out of receipt text (OCR output or a PDF's text layer).
+
+import { format } from 'date-fns';
+import { ExpenseCategory, ExpenseCategoryType } from '@/integrations/supabase/types';
+import { parseImportAmount, parseImportDate } from '@/lib/expenseImport';
+
+// --- Types ---
+export interface ReceiptSuggestion {
+  date: string | null; // yyyy-MM-dd
+  total: number | null;
+  vendor: string | null;
+  category: ExpenseCategoryType | null; // From keywords only; a remembered vendor category takes precedence
+}
+
+// "1,234.56", "1.234,56" and "12.50"; grouped amounts first so "1,234.56" is not read as "234.56"
+const AMOUNT_PATTERN = /\d{1,3}(?:[,.]\d{3})+[.,]\d{2}(?!\d)|\d+[.,]\d{2}(?!\d)/g;
+// Lines that carry the amount actually charged, strongest first
+const TOTAL_LABELS: RegExp[] = [
+  /\b(grand\s*total|amount\s*due|balance\s*due|total\s*due|total\s*to\s*pay|amount\s*paid)\b/i,
+  /\btotal\b/i,
+];
+const NOT_TOTAL_LABEL = /\b(sub\s*-?\s*total|total\s*(tax|vat|savings?|discount|items?|qty)|savings?|change)\b/i;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// Header lines that are not the vendor's name
+const NOT_VENDOR_LINE = /(receipt|invoice|welcome|thank|tel\b|phone|fax|www\.|https?:|@|\d{3}[-\s).]\d{3}[-\s.]\d{4}|\b(st|street|ave|avenue|rd|road|blvd|suite|ste)\b\.?\s*\d*$)/i;
+const VENDOR_NOISE_WORDS = new Set(['inc', 'llc', 'ltd', 'co', 'corp', 'company', 'the', 'store']);
+// First match wins; checked against the vendor line before the whole receipt
+const CATEGORY_KEYWORDS: Array<[ExpenseCategoryType, RegExp]> = [
+  [ExpenseCategory.Utilities, /\b(electric(ity)?|energy|water|sewer|propane|internet|broadband|utilit(y|ies)|trash|waste\s*management)\b/i],
+  [ExpenseCategory.Insurance, /\b(insurance|insurer|premium)\b/i],
+  [ExpenseCategory.Taxes, /\b(property\s*tax|tax\s*collector|assessor|treasurer)\b/i],
+  [ExpenseCategory.HoaFees, /\b(hoa|homeowners?\s*association|condo\s*association)\b/i],
+  [ExpenseCategory.CleaningFees, /\b(cleaning|maid|janitorial|housekeeping)\b/i],
+  [ExpenseCategory.ManagementFees, /\b(property\s*management|management\s*fee)\b/i],
+  [ExpenseCategory.Repairs, /\b(plumb(er|ing)|electrician|hvac|roofing|repairs?|handyman)\b/i],
+  [ExpenseCategory.Maintenance, /\b(lawn|landscap(e|ing)|pest\s*control|pool\s*service|gutters?|snow\s*removal)\b/i],
+  [ExpenseCategory.Supplies, /\b(hardware|home\s*depot|lowe'?s|ikea|walmart|target|costco|supplies|grocery|supermarket)\b/i],
+];
+
+const amountsIn = (line: string): number[] =>
+  (line.match(AMOUNT_PATTERN) ?? []).map(parseImportAmount).filter((a): a is number => a !== null && a > 0);
+
+/**
+ * Normalizes a vendor name into the key vendor categories are remembered under
+ * ("The HOME DEPOT #1234" and "Home Depot" both become "home depot").
+ */
+export function normalizeVendorKey(name: string | null | undefined): string {
+  return (name ?? '').normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ').trim().split(' ')
+    .filter(word => word && !VENDOR_NOISE_WORDS.has(word) && !/^\d+$/.test(word))
+    .join(' ');
+}
+
+/**
+ * Finds the amount charged: the last amount on the strongest "total" line (or the line below it, where
+ * OCR often splits label and amount), falling back to the largest amount on the receipt.
+ */
+export function findReceiptTotal(lines: string[]): number | null {
+  for (const label of TOTAL_LABELS) {
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (!label.test(lines[i]) || NOT_TOTAL_LABEL.test(lines[i])) continue;
+      const amounts = amountsIn(lines[i]).length ? amountsIn(lines[i]) : amountsIn(lines[i + 1] ?? '');
+      if (amounts.length) return amounts[amounts.length - 1];
+    }
+  }
+  const all = lines.flatMap(amountsIn);
+  return all.length ? Math.max(...all) : null;
+}
+
+/**
+ * Finds the first plausible purchase date: ISO, numeric (month first unless the first part is over 12)
+ * or with a month name. Dates after `today` or before 2000 are ignored.
+ * @returns The date as 'yyyy-MM-dd', or null.
+ */
+export function findReceiptDate(text: string, today: Date = new Date()): string | null {
+  const latest = format(today, 'yyyy-MM-dd');
+  const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  const iso = (year: string, month: number, day: string) => parseImportDate(`${year.length === 2 ? `20${year}` : year}-${month}-${day}`, 'yyyy-MM-dd');
+  const patterns: Array<[RegExp, (m: RegExpExecArray) => string | null]> = [
+    [/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/g, m => iso(m[1], Number(m[2]), m[3])],
+    [/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/g, m => parseImportDate(`${m[1]}/${m[2]}/${m[3]}`, Number(m[1]) > 12 ? 'dd/MM/yyyy' : 'MM/dd/yyyy')],
+    [/\b(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3,9})\.?,?\s+(\d{4})\b/gi, m => monthIndex(m[2]) >= 0 ? iso(m[3], monthIndex(m[2]) + 1, m[1]) : null],
+    [/\b([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/gi, m => monthIndex(m[1]) >= 0 ? iso(m[3], monthIndex(m[1]) + 1, m[2]) : null],
+  ];
+  // Keep the position of each match so the date printed first wins, whichever pattern read it
+  const found: Array<{ index: number; date: string }> = [];
+  patterns.forEach(([pattern, read]) => {
+    for (let m = pattern.exec(text); m; m = pattern.exec(text)) { const date = read(m); if (date) found.push({ index: m.index, date }); }
+  });
+  return found.sort((a, b) => a.index - b.index).map(f => f.date).find(date => date >= '2000-01-01' && date <= latest) ?? null;
+}
+
+/**
+ * Picks the vendor name from the receipt header: the first of the top lines that is mostly letters and
+ * is not an address, phone number, web address or a "receipt"/"welcome" banner.
+ */
+export function findReceiptVendor(lines: string[]): string | null {
+  for (const line of lines.slice(0, 6)) {
+    const cleaned = line.replace(/^[^A-Za-z0-9]+|[^A-Za-z0-9)'.]+$/g, '').replace(/\s+/g, ' ').trim();
+    const letters = (cleaned.match(/[A-Za-z]/g) ?? []).length;
+    if (letters < 3 || letters < cleaned.replace(/\s/g, '').length / 2 || NOT_VENDOR_LINE.test(cleaned) || amountsIn(cleaned).length) continue;
+    // All-caps headers read better as title case in the description field
+    const vendor = cleaned === cleaned.toUpperCase() ? cleaned.toLowerCase().replace(/\b[a-z]/g, c => c.toUpperCase()) : cleaned;
+    return vendor.slice(0, 60);
+  }
+  return null;
+}
+
+/**
+ * Guesses an expense category from keywords in the vendor name, then the rest of the receipt.
+ */
+export function guessReceiptCategory(vendor: string | null, text: string): ExpenseCategoryType | null {
+  for (const source of [vendor ?? '', text]) {
+    const match = CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(source));
+    if (match) return match[0];
+  }
+  return null;
+}
+
+/**
+ * Reads everything the expense form can be pre-filled with from receipt text.
+ * @param text - Text extracted from the receipt image or PDF.
+ * @param today - Latest acceptable purchase date.
+ */
+export function parseReceiptText(text: string, today: Date = new Date()): ReceiptSuggestion {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const vendor = findReceiptVendor(lines);
+  return { date: findReceiptDate(text, today), total: findReceiptTotal(lines), vendor, category: guessReceiptCategory(vendor, text) };
+}
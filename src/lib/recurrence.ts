@@ -0,0 +1,5 @@
+// src/lib/recurrence.ts
+// v3 - Also re-export the skip/pause exception lookup.
+
+export { advanceDueDate, listOccurrences, findRecurrenceException, firstDueOnOrAfter, nextDueAfter, ruleOccurrences, parseRecurrenceRule, formatRecurrenceRule, describeRecurrenceRule, RRULE_WEEKDAYS } from '../../supabase/functions/_shared/recurrence.ts';
+export type { RecurrenceFrequency, RecurrenceSchedule, RecurrenceException, RecurrenceRule, RRuleFrequency, RRuleWeekday } from '../../supabase/functions/_shared/recurrence.ts';
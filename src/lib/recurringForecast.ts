@@ -0,0 +1,94 @@
+// src/lib/recurringForecast.ts
+// v5 - Equal splits project over the template's participants who are still members.
+
+import { addMonths, format, parseISO, startOfMonth } from 'date-fns';
+import type { RecurringExpense } from '@/integrations/supabase/types';
+import { listOccurrences } from '@/lib/recurrence';
+import { withTermsInForce } from '@/lib/recurringTerms';
+import { allocateByWeights, readEqualParticipants, readShareSplits, summarizeOwnershipStakes, OwnershipStake, WeightedShare } from '@/lib/splits';
+
+// --- Input Shapes (structural, so context rows fit) ---
+export type ForecastTemplateInput = Pick<RecurringExpense, 'id' | 'description' | 'amount' | 'category' | 'frequency' | 'interval' | 'next_due_date' | 'end_date' | 'is_active' | 'start_date' | 'recurrence_rule' | 'exceptions' | 'terms' | 'split_method' | 'split_details' | 'paid_by_user_id'>;
+export interface ForecastOptions {
+  today: string; // 'yyyy-MM-dd'
+  months: number; // Horizon, counting the current month
+  memberIds: string[]; // Current members, for equal splits (those without a participant set, and to drop departed participants)
+  ownershipStakes: OwnershipStake[]; // Current stakes, for ownership splits
+}
+
+// --- Output Shapes ---
+export interface ForecastOccurrence { templateId: string; description: string; date: string; amount: number; shares: Record<string, number>; }
+export interface ForecastMonth {
+  month: string; // 'yyyy-MM'
+  total: number;
+  byMember: Record<string, number>;
+  unassigned: number; // Occurrences whose split could not be projected (e.g. invalid split details)
+  occurrences: ForecastOccurrence[];
+}
+export interface RecurringForecast { months: ForecastMonth[]; total: number; byMember: Record<string, number>; }
+
+const toCents = (amount: number | null | undefined): number => Math.round(Number(amount || 0) * 100);
+
+// Record form written by the web app ({ splits: { [userId]: value } }) or array form ({ splits: [{ user_id, [field]: value }] })
+function readSplitValues(splitDetails: unknown, field: 'percentage' | 'amount'): WeightedShare[] {
+  if (!splitDetails || typeof splitDetails !== 'object' || !('splits' in splitDetails)) return [];
+  const splits = (splitDetails as { splits: unknown }).splits;
+  const entries: Array<[string, unknown]> = Array.isArray(splits)
+    ? splits.map((s: Record<string, unknown>) => [String(s?.user_id ?? ''), s?.[field]])
+    : (splits && typeof splits === 'object' ? Object.entries(splits as Record<string, unknown>) : []);
+  return entries.map(([user_id, value]) => ({ user_id, weight: Number(value) })).filter(s => s.user_id && Number.isFinite(s.weight) && s.weight > 0);
+}
+
+/** Weights the template's amount is split by, mirroring how generate-expenses splits each occurrence. */
+export function getProjectedWeights(template: ForecastTemplateInput, memberIds: string[], ownershipStakes: OwnershipStake[]): WeightedShare[] {
+  switch (template.split_method as string) { // generate-expenses also accepts 'custom' for fixed amounts
+    case 'equal': return (readEqualParticipants(template.split_details)?.filter(id => memberIds.includes(id)) ?? memberIds).map(user_id => ({ user_id, weight: 1 }));
+    case 'percentage': return readSplitValues(template.split_details, 'percentage');
+    case 'fixed': case 'custom': return readSplitValues(template.split_details, 'amount'); // Fixed amounts used as weights reproduce them exactly
+    case 'shares': return Object.entries(readShareSplits(template.split_details)).map(([user_id, weight]) => ({ user_id, weight }));
+    case 'ownership': return summarizeOwnershipStakes(ownershipStakes).stakes; // Today's stakes; the ledger may change them by the due date
+    case 'payer_only': return template.paid_by_user_id ? [{ user_id: template.paid_by_user_id, weight: 1 }] : [];
+    default: return [];
+  }
+}
+
+/**
+ * Projects every active template's occurrences from its next due date to the end of the horizon.
+ * Overdue occurrences generate-expenses has not billed yet are counted in the current month.
+ */
+export function buildRecurringForecast(templates: ForecastTemplateInput[], options: ForecastOptions): RecurringForecast {
+  const firstMonth = startOfMonth(parseISO(options.today));
+  const monthKeys = Array.from({ length: Math.max(1, options.months) }, (_, i) => format(addMonths(firstMonth, i), 'yyyy-MM'));
+  const horizonEnd = format(addMonths(firstMonth, monthKeys.length), 'yyyy-MM-dd'); // Exclusive
+  const buckets = new Map(monthKeys.map(month => [month, { month, totalCents: 0, memberCents: {} as Record<string, number>, unassignedCents: 0, occurrences: [] as ForecastOccurrence[] }]));
+
+  templates.forEach(template => {
+    const dates = listOccurrences(template, template.next_due_date, horizonEnd).filter(date => date < horizonEnd);
+    dates.forEach(date => {
+      const bucket = buckets.get(date.slice(0, 7) < monthKeys[0] ? monthKeys[0] : date.slice(0, 7));
+      if (!bucket) return;
+      const terms = withTermsInForce(template, template.terms, date);
+      const weights = getProjectedWeights(terms, options.memberIds, options.ownershipStakes);
+      const shares = weights.length > 0 ? allocateByWeights(Number(terms.amount), weights) : [];
+      bucket.totalCents += toCents(terms.amount);
+      if (shares.length === 0) bucket.unassignedCents += toCents(terms.amount);
+      shares.forEach(share => { bucket.memberCents[share.user_id] = (bucket.memberCents[share.user_id] ?? 0) + toCents(share.amount); });
+      bucket.occurrences.push({ templateId: template.id, description: template.description, date, amount: Number(terms.amount), shares: Object.fromEntries(shares.map(s => [s.user_id, s.amount])) });
+    });
+  });
+
+  const totalMemberCents: Record<string, number> = {};
+  let totalCents = 0;
+  const months: ForecastMonth[] = Array.from(buckets.values()).map(bucket => {
+    totalCents += bucket.totalCents;
+    Object.entries(bucket.memberCents).forEach(([userId, cents]) => { totalMemberCents[userId] = (totalMemberCents[userId] ?? 0) + cents; });
+    return {
+      month: bucket.month,
+      total: bucket.totalCents / 100,
+      byMember: Object.fromEntries(Object.entries(bucket.memberCents).map(([userId, cents]) => [userId, cents / 100])),
+      unassigned: bucket.unassignedCents / 100,
+      occurrences: bucket.occurrences.sort((a, b) => a.date.localeCompare(b.date)),
+    };
+  });
+  return { months, total: totalCents / 100, byMember: Object.fromEntries(Object.entries(totalMemberCents).map(([userId, cents]) => [userId, cents / 100])) };
+}
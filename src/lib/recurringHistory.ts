@@ -0,0 +1,66 @@
+// src/lib/recurringHistory.ts
+// v2 - Labels for occurrences passed over by a skip or pause exception.
+
+import type { ExpenseRow, ExpenseSplitRow, RecurringExpenseRunLogRow } from '@/integrations/supabase/types';
+
+// --- Input Shapes (structural, so context rows fit) ---
+export interface HistoryExpenseInput extends Pick<ExpenseRow, 'id' | 'date' | 'amount' | 'occurrence_date'> { splits: Pick<ExpenseSplitRow, 'amount' | 'status'>[]; }
+
+// --- Output Shapes ---
+export type OccurrencePaymentStatus = 'settled' | 'partial' | 'outstanding';
+export type OccurrenceEntry<E extends HistoryExpenseInput = HistoryExpenseInput> =
+  | { kind: 'generated'; date: string; expense: E; paymentStatus: OccurrencePaymentStatus; outstanding: number; }
+  | { kind: 'skipped' | 'failed'; date: string | null; reason: string; loggedAt: string; attempts: number; };
+export interface OccurrenceHistory<E extends HistoryExpenseInput = HistoryExpenseInput> {
+  entries: OccurrenceEntry<E>[]; // Newest first
+  generatedCount: number;
+  totalBilled: number;
+  totalOutstanding: number; // Split amounts still owed to the payer
+  problemCount: number; // Skipped + failed entries still shown
+}
+
+const toCents = (amount: number | null | undefined): number => Math.round(Number(amount || 0) * 100);
+
+const SKIP_REASON_LABELS: Record<string, string> = {
+  ended: 'Template was past its end date',
+  catch_up_limit: 'Catch-up limit reached; billed on a later run',
+  skipped_by_exception: 'Skipped by an exception',
+  paused: 'Template was paused',
+};
+export const describeRunLogReason = (entry: Pick<RecurringExpenseRunLogRow, 'outcome' | 'reason'>): string =>
+  entry.outcome === 'skipped' ? SKIP_REASON_LABELS[entry.reason] ?? entry.reason : entry.reason;
+
+function getPaymentStatus(splits: HistoryExpenseInput['splits']): { paymentStatus: OccurrencePaymentStatus; outstandingCents: number } {
+  const owed = splits.filter(s => s.status === 'owed');
+  const outstandingCents = owed.reduce((sum, s) => sum + toCents(s.amount), 0);
+  const paymentStatus: OccurrencePaymentStatus = owed.length === 0 ? 'settled' : owed.length < splits.filter(s => toCents(s.amount) > 0).length ? 'partial' : 'outstanding';
+  return { paymentStatus, outstandingCents };
+}
+
+/**
+ * Merges a template's generated expenses with its run log. Log rows for an occurrence that has since
+ * been billed (a failure a later run recovered, or a catch-up deferral) are dropped.
+ */
+export function buildOccurrenceHistory<E extends HistoryExpenseInput>(expenses: E[], runLog: RecurringExpenseRunLogRow[]): OccurrenceHistory<E> {
+  const billedDates = new Set(expenses.map(e => e.occurrence_date ?? e.date));
+  let billedCents = 0; let outstandingCents = 0;
+  const generated: OccurrenceEntry<E>[] = expenses.map(expense => {
+    const payment = getPaymentStatus(expense.splits);
+    billedCents += toCents(expense.amount); outstandingCents += payment.outstandingCents;
+    return { kind: 'generated', date: expense.occurrence_date ?? expense.date, expense, paymentStatus: payment.paymentStatus, outstanding: payment.outstandingCents / 100 };
+  });
+  // A failing occurrence is retried (and logged) every run; show it once with the latest reason
+  const latestByOccurrence = new Map<string, { log: RecurringExpenseRunLogRow; attempts: number }>();
+  runLog.filter(log => !log.occurrence_date || !billedDates.has(log.occurrence_date)).forEach(log => {
+    const key = `${log.outcome}|${log.occurrence_date ?? ''}`;
+    const existing = latestByOccurrence.get(key);
+    if (!existing) latestByOccurrence.set(key, { log, attempts: 1 });
+    else latestByOccurrence.set(key, { log: log.created_at > existing.log.created_at ? log : existing.log, attempts: existing.attempts + 1 });
+  });
+  const problems: OccurrenceEntry<E>[] = Array.from(latestByOccurrence.values())
+    .map(({ log, attempts }) => ({ kind: log.outcome, date: log.occurrence_date, reason: describeRunLogReason(log), loggedAt: log.created_at, attempts }));
+  // Undated log rows sort by when they were logged
+  const sortKey = (entry: OccurrenceEntry<E>): string => entry.date ?? (entry.kind !== 'generated' ? entry.loggedAt.slice(0, 10) : '');
+  const entries = [...generated, ...problems].sort((a, b) => sortKey(b).localeCompare(sortKey(a)));
+  return { entries, generatedCount: generated.length, totalBilled: billedCents / 100, totalOutstanding: outstandingCents / 100, problemCount: problems.length };
+}
@@ -0,0 +1,5 @@
+// src/lib/recurringTerms.ts
+// v1 - Re-export the versioned terms helpers shared with generate-expenses.
+
+export { termsInForce, withTermsInForce } from '../../supabase/functions/_shared/recurringTerms.ts';
+export type { RecurringTerms, RecurringTermsVersion } from '../../supabase/functions/_shared/recurringTerms.ts';
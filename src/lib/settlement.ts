@@ -0,0 +1,165 @@
+// src/lib/settlement.ts
+// v2 - Expenses awaiting approval (or rejected) are left out of balances and pairwise debts.
+
+import type { ExpenseRow, ExpenseSplitRow } from "@/integrations/supabase/types";
+
+// --- Input Shapes (structural, so CombinedExpenseData / Expense both fit) ---
+export type SettlementSplitInput = Pick<ExpenseSplitRow, 'id' | 'user_id' | 'amount' | 'is_paid' | 'status'>;
+export interface SettlementExpenseInput extends Pick<ExpenseRow, 'id' | 'paid_by' | 'amount' | 'status'> { splits: SettlementSplitInput[]; }
+
+// --- Output Shapes ---
+export interface MemberBalance {
+  userId: string;
+  totalPaid: number; // Sum of expenses this member fronted
+  totalShare: number; // Sum of this member's split amounts (paid or not)
+  net: number; // Outstanding position: > 0 is owed money, < 0 owes money
+}
+export interface PairwiseDebt {
+  fromUserId: string; toUserId: string; amount: number;
+  splitIds: string[]; // Every outstanding split between the pair, in either direction
+}
+export interface SettlementTransfer { fromUserId: string; toUserId: string; amount: number; }
+
+// Exact search is exponential in the number of unsettled members; above this we fall back to greedy matching.
+const MAX_EXACT_MEMBERS = 16;
+
+const toCents = (amount: number | null | undefined): number => Math.round(Number(amount || 0) * 100);
+const fromCents = (cents: number): number => cents / 100;
+
+/**
+ * Whether a split still needs to be settled with the expense payer.
+ * @param split - The expense split.
+ * @returns True if the split is neither flagged paid nor in the 'paid' status.
+ */
+export function isSplitOutstanding(split: Pick<ExpenseSplitRow, 'is_paid' | 'status'>): boolean {
+  return !split.is_paid && split.status !== 'paid';
+}
+
+/**
+ * Whether an expense counts toward balances. Rows without a status predate the approval workflow.
+ * @param expense - The expense.
+ * @returns False while it awaits approval or once it has been rejected.
+ */
+export function isExpenseApproved(expense: Pick<ExpenseRow, 'status'>): boolean {
+  return expense.status !== 'pending_approval' && expense.status !== 'rejected';
+}
+
+/**
+ * Computes each member's paid total, share total and outstanding net position.
+ * Only splits owed to *another* member move the net; a payer's own split is settled by definition.
+ * Expenses that are not approved are skipped entirely.
+ * @param expenses - Expenses with their splits for a single property.
+ * @param memberIds - Members to always include (even with no activity).
+ * @returns Balances sorted from most owed to most owing.
+ */
+export function computeMemberBalances(expenses: SettlementExpenseInput[], memberIds: string[] = []): MemberBalance[] {
+  const paid = new Map<string, number>(); const share = new Map<string, number>(); const net = new Map<string, number>();
+  const touch = (userId: string) => { if (!net.has(userId)) { paid.set(userId, 0); share.set(userId, 0); net.set(userId, 0); } };
+  memberIds.forEach(touch);
+
+  expenses.filter(isExpenseApproved).forEach(exp => {
+    if (exp.paid_by) { touch(exp.paid_by); paid.set(exp.paid_by, paid.get(exp.paid_by)! + toCents(exp.amount)); }
+    (exp.splits || []).forEach(split => {
+      if (!split.user_id) return;
+      touch(split.user_id);
+      const cents = toCents(split.amount);
+      share.set(split.user_id, share.get(split.user_id)! + cents);
+      if (!exp.paid_by || split.user_id === exp.paid_by || !isSplitOutstanding(split)) return;
+      net.set(exp.paid_by, net.get(exp.paid_by)! + cents);
+      net.set(split.user_id, net.get(split.user_id)! - cents);
+    });
+  });
+
+  return Array.from(net.keys())
+    .map(userId => ({ userId, totalPaid: fromCents(paid.get(userId)!), totalShare: fromCents(share.get(userId)!), net: fromCents(net.get(userId)!) }))
+    .sort((a, b) => b.net - a.net || a.userId.localeCompare(b.userId));
+}
+
+/**
+ * Nets outstanding splits between every pair of members ("who owes whom" without simplification).
+ * @param expenses - Expenses with their splits for a single property.
+ * @returns One entry per pair with a non-zero balance, largest first.
+ */
+export function computePairwiseDebts(expenses: SettlementExpenseInput[]): PairwiseDebt[] {
+  const pairs = new Map<string, { a: string; b: string; cents: number; splitIds: string[] }>();
+  expenses.filter(isExpenseApproved).forEach(exp => {
+    if (!exp.paid_by) return;
+    (exp.splits || []).forEach(split => {
+      if (!split.user_id || split.user_id === exp.paid_by || !isSplitOutstanding(split)) return;
+      // Key pairs in sorted order; cents is what `a` owes `b`
+      const [a, b] = [split.user_id, exp.paid_by].sort();
+      const key = `${a}|${b}`;
+      if (!pairs.has(key)) pairs.set(key, { a, b, cents: 0, splitIds: [] });
+      const pair = pairs.get(key)!;
+      pair.cents += split.user_id === a ? toCents(split.amount) : -toCents(split.amount);
+      pair.splitIds.push(split.id);
+    });
+  });
+
+  return Array.from(pairs.values())
+    .filter(p => p.cents !== 0)
+    .map(p => p.cents > 0
+      ? { fromUserId: p.a, toUserId: p.b, amount: fromCents(p.cents), splitIds: p.splitIds }
+      : { fromUserId: p.b, toUserId: p.a, amount: fromCents(-p.cents), splitIds: p.splitIds })
+    .sort((x, y) => y.amount - x.amount);
+}
+
+// Greedy matching inside one zero-sum group: largest debtor pays largest creditor. Yields at most n - 1 transfers.
+function settleGroup(entries: Array<{ userId: string; cents: number }>): SettlementTransfer[] {
+  const creditors = entries.filter(e => e.cents > 0).map(e => ({ ...e }));
+  const debtors = entries.filter(e => e.cents < 0).map(e => ({ userId: e.userId, cents: -e.cents }));
+  const transfers: SettlementTransfer[] = [];
+  while (creditors.length && debtors.length) {
+    creditors.sort((x, y) => y.cents - x.cents || x.userId.localeCompare(y.userId));
+    debtors.sort((x, y) => y.cents - x.cents || x.userId.localeCompare(y.userId));
+    const creditor = creditors[0]; const debtor = debtors[0];
+    const cents = Math.min(creditor.cents, debtor.cents);
+    transfers.push({ fromUserId: debtor.userId, toUserId: creditor.userId, amount: fromCents(cents) });
+    creditor.cents -= cents; debtor.cents -= cents;
+    if (creditor.cents === 0) creditors.shift();
+    if (debtor.cents === 0) debtors.shift();
+  }
+  return transfers;
+}
+
+/**
+ * Suggests the smallest set of transfers that brings every net balance to zero.
+ * The minimum equals (members with a balance) − (max number of disjoint zero-sum groups), found by
+ * a subset DP; each group is then settled greedily. Large groups fall back to plain greedy matching.
+ * @param balances - Output of computeMemberBalances.
+ * @returns Transfers from debtor to creditor.
+ */
+export function suggestSettlementTransfers(balances: Pick<MemberBalance, 'userId' | 'net'>[]): SettlementTransfer[] {
+  const entries = balances.map(b => ({ userId: b.userId, cents: toCents(b.net) })).filter(e => e.cents !== 0)
+    .sort((x, y) => x.userId.localeCompare(y.userId));
+  const n = entries.length;
+  if (n === 0) return [];
+  if (n > MAX_EXACT_MEMBERS) return settleGroup(entries);
+
+  const full = (1 << n) - 1;
+  const sums = new Int32Array(1 << n); const best = new Int8Array(1 << n); const removed = new Int8Array(1 << n);
+  for (let mask = 1; mask <= full; mask++) {
+    const low = 31 - Math.clz32(mask & -mask);
+    sums[mask] = sums[mask & (mask - 1)] + entries[low].cents;
+    let bestCount = -1; let bestIndex = 0;
+    for (let i = 0; i < n; i++) {
+      if (!(mask & (1 << i))) continue;
+      const count = best[mask ^ (1 << i)];
+      if (count > bestCount) { bestCount = count; bestIndex = i; }
+    }
+    best[mask] = bestCount + (sums[mask] === 0 ? 1 : 0);
+    removed[mask] = bestIndex;
+  }
+
+  // Walk the removal order back from the full set; a zero-sum remainder closes a group.
+  const transfers: SettlementTransfer[] = [];
+  let group: Array<{ userId: string; cents: number }> = [];
+  for (let mask = full; mask; ) {
+    if (sums[mask] === 0 && group.length) { transfers.push(...settleGroup(group)); group = []; }
+    const i = removed[mask];
+    group.push(entries[i]);
+    mask ^= 1 << i;
+  }
+  if (group.length) transfers.push(...settleGroup(group));
+  return transfers;
+}
@@ -0,0 +1,5 @@
+// src/lib/splits.ts
+// v3 - Re-export readEqualParticipants.
+
+export { allocateByWeights, readEqualParticipants, readShareSplits, summarizeOwnershipStakes } from '../../supabase/functions/_shared/splits.ts';
+export type { WeightedShare, AllocatedShare, OwnershipStake, OwnershipSummary } from '../../supabase/functions/_shared/splits.ts';
@@ -0,0 +1,195 @@
+// src/lib/taxReport.ts
+// v3 - Expenses awaiting approval or rejected are left out of the statement.
+
+import { format, parseISO } from 'date-fns';
+import { ExpenseCategory, ExpenseCategoryType, ExpenseRow, ExpenseSplitRow } from '@/integrations/supabase/types';
+import { formatCurrency } from '@/lib/utils';
+import { createPdfDocument } from '@/lib/pdf';
+import { isExpenseApproved } from '@/lib/settlement';
+
+// --- Types ---
+export interface TaxReportExpenseInput extends Pick<ExpenseRow, 'id' | 'date' | 'category' | 'amount' | 'description' | 'status'> {
+  splits: Pick<ExpenseSplitRow, 'user_id' | 'amount'>[];
+}
+export interface TaxReportMember { user_id: string; name: string; }
+export interface TaxReportItem {
+  expenseId: string; date: string; description: string; category: ExpenseCategoryType;
+  expenseAmount: number; // Full expense amount
+  share: number; // This member's split of it
+}
+export interface MemberTaxSummary {
+  userId: string; name: string;
+  byCategory: Record<string, number>; // Deductible category -> member's share
+  total: number;
+  items: TaxReportItem[]; // Sorted by date
+}
+export interface TaxReport {
+  year: number;
+  categoryTotals: Record<string, number>; // Property-wide totals per deductible category
+  grandTotal: number;
+  members: MemberTaxSummary[];
+}
+export interface TaxReportPdfOptions {
+  propertyName: string;
+  currency: string; // The property's base currency; expense amounts are stored in it
+  receiptLinks: Record<string, string[]>; // expense id -> signed receipt URLs
+  receiptLinksExpireOn: Date | null;
+}
+
+// Categories accountants treat as deductible for a co-owned (rental/second-home) property, in statement order
+export const DEDUCTIBLE_CATEGORIES: ExpenseCategoryType[] = [
+  ExpenseCategory.Mortgage, ExpenseCategory.Taxes, ExpenseCategory.Insurance, ExpenseCategory.HoaFees, ExpenseCategory.Maintenance, ExpenseCategory.Repairs,
+];
+export const TAX_CATEGORY_LABELS: Record<string, string> = {
+  [ExpenseCategory.Mortgage]: 'Mortgage Interest', [ExpenseCategory.Taxes]: 'Property Taxes', [ExpenseCategory.Insurance]: 'Insurance',
+  [ExpenseCategory.HoaFees]: 'HOA Fees', [ExpenseCategory.Maintenance]: 'Maintenance', [ExpenseCategory.Repairs]: 'Repairs',
+};
+
+const toCents = (amount: number | null | undefined): number => Math.round(Number(amount || 0) * 100);
+const emptyCategoryMap = (): Record<string, number> => Object.fromEntries(DEDUCTIBLE_CATEGORIES.map(c => [c, 0]));
+
+/**
+ * Years that have at least one deductible expense, newest first.
+ */
+export function getTaxReportYears(expenses: Pick<ExpenseRow, 'date' | 'category'>[]): number[] {
+  const years = new Set(expenses.filter(e => e.date && DEDUCTIBLE_CATEGORIES.includes(e.category)).map(e => Number(e.date.slice(0, 4))));
+  return Array.from(years).sort((a, b) => b - a);
+}
+
+/**
+ * Builds the per-member, per-category summary of deductible expenses dated in a calendar year.
+ * A member's share is their split amount, whether or not it has been settled yet.
+ * @param expenses - Expenses with splits for one property.
+ * @param year - Calendar year.
+ * @param members - Members to report on; members without deductible splits get zero rows.
+ */
+export function buildTaxReport(expenses: TaxReportExpenseInput[], year: number, members: TaxReportMember[]): TaxReport {
+  const yearPrefix = `${year}-`;
+  const deductible = expenses
+    .filter(e => e.date?.startsWith(yearPrefix) && DEDUCTIBLE_CATEGORIES.includes(e.category) && isExpenseApproved(e))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const categoryCents = emptyCategoryMap();
+  deductible.forEach(e => { categoryCents[e.category] += toCents(e.amount); });
+
+  const memberSummaries = members.map(member => {
+    const cents = emptyCategoryMap();
+    const items: TaxReportItem[] = [];
+    deductible.forEach(expense => {
+      const shareCents = (expense.splits || []).filter(s => s.user_id === member.user_id).reduce((sum, s) => sum + toCents(s.amount), 0);
+      if (shareCents === 0) return;
+      cents[expense.category] += shareCents;
+      items.push({ expenseId: expense.id, date: expense.date, description: expense.description ?? '', category: expense.category, expenseAmount: toCents(expense.amount) / 100, share: shareCents / 100 });
+    });
+    const byCategory = Object.fromEntries(Object.entries(cents).map(([category, value]) => [category, value / 100]));
+    return { userId: member.user_id, name: member.name, byCategory, total: Object.values(cents).reduce((a, b) => a + b, 0) / 100, items };
+  });
+
+  return {
+    year,
+    categoryTotals: Object.fromEntries(Object.entries(categoryCents).map(([category, value]) => [category, value / 100])),
+    grandTotal: Object.values(categoryCents).reduce((a, b) => a + b, 0) / 100,
+    members: memberSummaries,
+  };
+}
+
+/**
+ * Renders one statement per member (each starting on a new page): category summary, then itemized expenses with receipt links.
+ * @param report - Output of buildTaxReport.
+ * @param memberIds - Members to include; defaults to all.
+ */
+export function renderTaxReportPdf(report: TaxReport, options: TaxReportPdfOptions, memberIds?: string[]): Uint8Array {
+  const doc = createPdfDocument();
+  const { margin, pageWidth, pageHeight } = doc;
+  const right = pageWidth - margin;
+  const grey: [number, number, number] = [0.4, 0.4, 0.4];
+  const linkBlue: [number, number, number] = [0.1, 0.3, 0.8];
+  let y = 0;
+
+  const newPage = (memberName: string, continued: boolean) => {
+    doc.addPage();
+    y = pageHeight - margin;
+    doc.text(`${options.propertyName} - ${report.year} Tax Statement${continued ? ' (continued)' : ''}`, margin, y, { size: 9, color: grey });
+    doc.text(memberName, right, y, { size: 9, color: grey, align: 'right' });
+    y -= 24;
+  };
+  const ensureSpace = (height: number, memberName: string, onBreak?: () => void) => {
+    if (y - height >= margin + 24) return;
+    newPage(memberName, true);
+    onBreak?.();
+  };
+
+  // Itemized table columns
+  const cols = { date: margin, description: margin + 70, category: margin + 250, amount: margin + 390, share: margin + 450, receipt: margin + 465 };
+  const drawItemHeader = () => {
+    ['Date', 'Description', 'Category'].forEach((label, i) => doc.text(label, [cols.date, cols.description, cols.category][i], y, { size: 9, font: 'bold' }));
+    doc.text('Expense', cols.amount, y, { size: 9, font: 'bold', align: 'right' });
+    doc.text('Your Share', cols.share, y, { size: 9, font: 'bold', align: 'right' });
+    doc.text('Receipt', cols.receipt, y, { size: 9, font: 'bold' });
+    y -= 5; doc.line(margin, y, right, y); y -= 12;
+  };
+
+  report.members.filter(m => !memberIds || memberIds.includes(m.userId)).forEach(member => {
+    newPage(member.name, false);
+    doc.text(`Annual Tax Statement ${report.year}`, margin, y, { size: 18, font: 'bold' }); y -= 22;
+    doc.text(`Co-owner: ${member.name}`, margin, y, { size: 11 }); y -= 14;
+    doc.text(`Property: ${options.propertyName}`, margin, y, { size: 11 }); y -= 14;
+    doc.text(`Period: January 1 - December 31, ${report.year}  |  Generated ${format(new Date(), 'MMM d, yyyy')}`, margin, y, { size: 9, color: grey }); y -= 28;
+
+    // Category summary
+    doc.text('Summary of Deductible Costs', margin, y, { size: 13, font: 'bold' }); y -= 18;
+    doc.text('Category', margin, y, { size: 10, font: 'bold' });
+    doc.text('Property Total', margin + 330, y, { size: 10, font: 'bold', align: 'right' });
+    doc.text('Your Share', right, y, { size: 10, font: 'bold', align: 'right' });
+    y -= 5; doc.line(margin, y, right, y); y -= 14;
+    DEDUCTIBLE_CATEGORIES.forEach(category => {
+      doc.text(TAX_CATEGORY_LABELS[category], margin, y);
+      doc.text(formatCurrency(report.categoryTotals[category], options.currency), margin + 330, y, { align: 'right' });
+      doc.text(formatCurrency(member.byCategory[category], options.currency), right, y, { align: 'right' });
+      y -= 15;
+    });
+    y += 4; doc.line(margin, y, right, y); y -= 14;
+    doc.text('Total', margin, y, { font: 'bold' });
+    doc.text(formatCurrency(report.grandTotal, options.currency), margin + 330, y, { font: 'bold', align: 'right' });
+    doc.text(formatCurrency(member.total, options.currency), right, y, { font: 'bold', align: 'right' });
+    y -= 32;
+
+    // Itemized expenses
+    doc.text('Itemized Expenses', margin, y, { size: 13, font: 'bold' }); y -= 18;
+    if (member.items.length === 0) {
+      doc.text(`No deductible expenses were split to ${member.name} in ${report.year}.`, margin, y, { color: grey }); y -= 15;
+    } else {
+      drawItemHeader();
+      member.items.forEach(item => {
+        ensureSpace(14, member.name, drawItemHeader);
+        doc.text(format(parseISO(item.date), 'MMM d, yyyy'), cols.date, y, { size: 9 });
+        doc.text(doc.truncate(item.description || '-', cols.category - cols.description - 8, 9), cols.description, y, { size: 9 });
+        doc.text(TAX_CATEGORY_LABELS[item.category], cols.category, y, { size: 9 });
+        doc.text(formatCurrency(item.expenseAmount, options.currency), cols.amount, y, { size: 9, align: 'right' });
+        doc.text(formatCurrency(item.share, options.currency), cols.share, y, { size: 9, align: 'right' });
+        const links = options.receiptLinks[item.expenseId] ?? [];
+        if (links.length === 0) doc.text('-', cols.receipt, y, { size: 9, color: grey });
+        links.slice(0, 3).forEach((url, i) => {
+          const label = links.length === 1 ? 'View' : `#${i + 1}`;
+          const x = cols.receipt + i * 20;
+          doc.text(label, x, y, { size: 9, color: linkBlue });
+          doc.link(x, y - 2, doc.measure(label, 9), 11, url);
+        });
+        y -= 14;
+      });
+    }
+
+    // Notes
+    ensureSpace(60, member.name);
+    y -= 16;
+    const notes = [
+      'Mortgage amounts are the payments as recorded; only the interest portion is deductible - check your lender\'s Form 1098.',
+      'Shares are each member\'s split of the expense, whether or not it has been settled yet.',
+      options.receiptLinksExpireOn ? `Receipt links are valid until ${format(options.receiptLinksExpireOn, 'MMM d, yyyy')}; download the receipts for your records.` : null,
+      'This statement is a summary for your tax adviser, not tax advice.',
+    ].filter((note): note is string => !!note);
+    notes.forEach(note => { doc.text(doc.truncate(note, right - margin, 8), margin, y, { size: 8, color: grey }); y -= 11; });
+  });
+
+  return doc.toBytes();
+}
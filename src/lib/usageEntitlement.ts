@@ -0,0 +1,148 @@
+// src/lib/usageEntitlement.ts
+// v1 - Fair-share usage: nights used, booked and remaining per member against ownership-based entitlements.
+
+import { addDays, format, parseISO } from 'date-fns';
+import type { BookingRow, PropertyMember, UsageSeasonKindType, UsageSeasonRow } from '@/integrations/supabase/types';
+
+// --- Input Shapes (structural, so context rows fit) ---
+export type UsageBookingInput = Pick<BookingRow, 'id' | 'user_id' | 'start_date' | 'end_date'> & { status: string };
+export type UsageMemberInput = Pick<PropertyMember, 'user_id' | 'ownership_percentage'>;
+export type UsageSeasonInput = Pick<UsageSeasonRow, 'id' | 'name' | 'kind' | 'start_date' | 'end_date' | 'weight'>;
+export type UsageStayInput = Pick<BookingRow, 'start_date' | 'end_date'>;
+
+// --- Output Shapes ---
+export type UsageNightKind = 'regular' | UsageSeasonKindType;
+export interface UsageTally {
+  nights: number; // Nights stayed
+  weighted: number; // Entitlement nights they use (season weights applied)
+  byKind: Record<UsageNightKind, number>; // Nights stayed, by the kind of night
+}
+export interface SeasonUsage {
+  season: UsageSeasonInput;
+  entitlement: number | null; // Ownership share of the season's nights in the year; null = no stake or entitlements off
+  used: number; booked: number; // Nights stayed in the season
+  remaining: number | null;
+}
+export interface MemberUsage {
+  user_id: string;
+  year: number;
+  entitlement: number | null; // Weighted nights for the year; null = no stake or entitlements off
+  used: UsageTally; // Nights already stayed (approved or confirmed, before today) and completed stays
+  booked: UsageTally; // Upcoming approved or confirmed stays and pending requests
+  remaining: number | null; // entitlement - used - booked, weighted; negative = over
+  percentUsed: number | null; // (used + booked) as a percentage of entitlement
+  seasons: SeasonUsage[]; // Seasons overlapping the year, by start date
+}
+export interface EntitlementOverage { year: number; cost: number; remaining: number; overBy: number; } // Weighted nights
+
+// Pending requests hold nights too, so a member cannot request past their share while waiting for approval
+export const USAGE_HOLDING_STATUSES = ['pending', 'approved', 'confirmed', 'completed'];
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+const emptyTally = (): UsageTally => ({ nights: 0, weighted: 0, byKind: { regular: 0, peak: 0, holiday: 0 } });
+const inYear = (night: string, year: number): boolean => night.startsWith(`${year}-`);
+
+/**
+ * Lists the nights of a stay as 'yyyy-MM-dd'. Start and end dates are both nights, as on the calendar.
+ */
+export function stayNights(startDate: string, endDate: string): string[] {
+  const nights: string[] = [];
+  for (let day = parseISO(startDate); format(day, 'yyyy-MM-dd') <= endDate; day = addDays(day, 1)) nights.push(format(day, 'yyyy-MM-dd'));
+  return nights;
+}
+
+/**
+ * The season a night is charged at: the heaviest season covering it, or null for a regular night (weight 1).
+ */
+export function seasonForNight(night: string, seasons: UsageSeasonInput[]): UsageSeasonInput | null {
+  return seasons
+    .filter(s => s.start_date <= night && s.end_date >= night)
+    .reduce<UsageSeasonInput | null>((heaviest, s) => (!heaviest || Number(s.weight) > Number(heaviest.weight) ? s : heaviest), null);
+}
+
+function addNight(tally: UsageTally, night: string, seasons: UsageSeasonInput[]): void {
+  const season = seasonForNight(night, seasons);
+  tally.nights += 1;
+  tally.weighted = round2(tally.weighted + (season ? Number(season.weight) : 1));
+  tally.byKind[season?.kind ?? 'regular'] += 1;
+}
+
+/**
+ * Counts what a stay costs, optionally only its nights in one year.
+ */
+export function tallyStay(stay: UsageStayInput, seasons: UsageSeasonInput[], year?: number): UsageTally {
+  const tally = emptyTally();
+  stayNights(stay.start_date, stay.end_date).filter(night => year === undefined || inYear(night, year)).forEach(night => addNight(tally, night, seasons));
+  return tally;
+}
+
+/**
+ * A member's yearly entitlement: their ownership share of the nights the owners split.
+ * @returns Weighted nights, or null when entitlements are off or the member owns no share.
+ */
+export function memberEntitlement(ownershipPercentage: number | null | undefined, nightsPerYear: number | null | undefined): number | null {
+  if (!nightsPerYear || !ownershipPercentage || Number(ownershipPercentage) <= 0) return null;
+  return round2((nightsPerYear * Number(ownershipPercentage)) / 100);
+}
+
+/**
+ * Tallies each member's usage for one calendar year. A stay across New Year counts toward both years.
+ * @param today - 'yyyy-MM-dd'; earlier nights are used, later ones booked. Pending nights before today are ignored.
+ */
+export function buildMemberUsage(members: UsageMemberInput[], bookings: UsageBookingInput[], seasons: UsageSeasonInput[], nightsPerYear: number | null | undefined, year: number, today: string): MemberUsage[] {
+  const yearSeasons = seasons
+    .filter(s => s.start_date <= `${year}-12-31` && s.end_date >= `${year}-01-01`)
+    .sort((a, b) => (a.start_date < b.start_date ? -1 : a.start_date > b.start_date ? 1 : 0));
+  return members.map(member => {
+    const used = emptyTally();
+    const booked = emptyTally();
+    const seasonNights = new Map(yearSeasons.map(s => [s.id, { used: 0, booked: 0 }]));
+    bookings
+      .filter(b => b.user_id === member.user_id && USAGE_HOLDING_STATUSES.includes(b.status))
+      .forEach(b => stayNights(b.start_date, b.end_date).filter(night => inYear(night, year)).forEach(night => {
+        const isUsed = b.status === 'completed' || (night < today && b.status !== 'pending');
+        if (!isUsed && night < today) return;
+        addNight(isUsed ? used : booked, night, yearSeasons);
+        yearSeasons.filter(s => s.start_date <= night && s.end_date >= night).forEach(s => { seasonNights.get(s.id)![isUsed ? 'used' : 'booked'] += 1; });
+      }));
+
+    const entitlement = memberEntitlement(member.ownership_percentage, nightsPerYear);
+    const remaining = entitlement === null ? null : round2(entitlement - used.weighted - booked.weighted);
+    const seasonUsage = yearSeasons.map((season): SeasonUsage => {
+      const { used: seasonUsed, booked: seasonBooked } = seasonNights.get(season.id)!;
+      const nightsInYear = stayNights(season.start_date, season.end_date).filter(night => inYear(night, year)).length;
+      const seasonEntitlement = entitlement === null ? null : round2((nightsInYear * Number(member.ownership_percentage)) / 100);
+      return { season, entitlement: seasonEntitlement, used: seasonUsed, booked: seasonBooked, remaining: seasonEntitlement === null ? null : round2(seasonEntitlement - seasonUsed - seasonBooked) };
+    });
+    return {
+      user_id: member.user_id, year, entitlement, used, booked, remaining,
+      percentUsed: entitlement ? Math.round(((used.weighted + booked.weighted) / entitlement) * 1000) / 10 : null,
+      seasons: seasonUsage,
+    };
+  });
+}
+
+/**
+ * Checks a requested stay against the member's remaining nights in each year it falls in.
+ * @param bookings - The property's bookings, without the one being edited.
+ * @returns One entry per year the stay would go over; empty when it fits or the member has no entitlement.
+ */
+export function checkStayEntitlement(member: UsageMemberInput, stay: UsageStayInput, bookings: UsageBookingInput[], seasons: UsageSeasonInput[], nightsPerYear: number | null | undefined, today: string): EntitlementOverage[] {
+  const years = Array.from(new Set(stayNights(stay.start_date, stay.end_date).map(night => Number(night.slice(0, 4)))));
+  return years.flatMap(year => {
+    const [usage] = buildMemberUsage([member], bookings, seasons, nightsPerYear, year, today);
+    if (usage.remaining === null) return [];
+    const cost = tallyStay(stay, seasons, year).weighted;
+    const overBy = round2(cost - Math.max(usage.remaining, 0));
+    return overBy > 0 ? [{ year, cost, remaining: usage.remaining, overBy }] : [];
+  });
+}
+
+/**
+ * Explains an overage to the member, e.g. "This stay uses 9 nights of your 2026 entitlement; you have 4 left."
+ */
+export function describeEntitlementOverage(overages: EntitlementOverage[]): string {
+  return overages
+    .map(o => `This stay uses ${o.cost} night${o.cost === 1 ? '' : 's'} of your ${o.year} entitlement; you have ${Math.max(o.remaining, 0)} left.`)
+    .join(' ');
+}
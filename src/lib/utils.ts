@@ -1,5 +1,5 @@
 // src/lib/utils.ts
-// v3 - Corrected formatSplitMethod & formatCategoryName parameter types to Type Aliases (SplitMethodType, ExpenseCategoryType) to align with types.ts data structures
+// v5 - Calendar-day helpers for maintenance schedules (stored at UTC midnight).
 
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
@@ -91,13 +91,35 @@ export function formatDate(dateInput: string | Date | null | undefined): string
 }
 
 /**
- * Formats a number as USD currency.
+ * Maintenance schedules are whole calendar days kept in timestamp columns, stored as UTC midnight so the
+ * database, the calendar feed and every browser agree on the day whatever the member's timezone.
+ * @param date The picked day (its local calendar date is kept).
+ * @returns ISO timestamp at 00:00 UTC of that day.
+ */
+export function toCalendarDayTimestamp(date: Date): string {
+    return `${format(date, 'yyyy-MM-dd')}T00:00:00Z`;
+}
+
+/**
+ * Reads a timestamp written by toCalendarDayTimestamp back as local midnight of the same calendar day.
+ * @param value ISO timestamp in any offset notation.
+ * @returns The day as a local Date, or null if missing or invalid.
+ */
+export function parseCalendarDayTimestamp(value: string | null | undefined): Date | null {
+    if (!value) return null;
+    const instant = new Date(value);
+    return isValidDate(instant) ? parseISO(instant.toISOString().slice(0, 10)) : null;
+}
+
+/**
+ * Formats a number as currency (USD unless another ISO 4217 code is given).
  * @param amount The number to format.
- * @returns Formatted currency string or '$0.00'/'N/A'.
+ * @param currency ISO 4217 currency code, e.g. a property's base currency.
+ * @returns Formatted currency string, the zero amount, or 'N/A'.
  */
-export const formatCurrency = (amount: number | null | undefined): string => {
-    if (amount == null || typeof amount !== 'number' || isNaN(amount)) { return '$0.00'; }
-    try { return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount); }
+export const formatCurrency = (amount: number | null | undefined, currency: string = 'USD'): string => {
+    if (amount == null || typeof amount !== 'number' || isNaN(amount)) { amount = 0; }
+    try { return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount); }
     catch (e) { console.error("Error formatting currency:", amount, e); return 'N/A'; }
 };
 
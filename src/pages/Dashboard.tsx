@@ -14,7 +14,9 @@ import {
   ListTodo,
   Home as BookingIcon,
   Receipt as ExpenseIcon,
+  PiggyBank,
 } from "lucide-react";
+import { useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -27,6 +29,9 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Link } from "react-router-dom";
 import { useProperty } from "@/contexts/PropertyContext";
+import { useExpenses } from "@/contexts/ExpenseContext";
+import { useRecurringExpense } from "@/contexts/RecurringExpenseContext";
+import { useBudgets } from "@/hooks/useBudgets";
 import { useUpcomingBookings, UpcomingBookingWithUser } from "@/hooks/useUpcomingBookings";
 import { useRecentExpenses } from "@/hooks/useRecentExpenses"; // No 'RecentExpense' type needed here
 import { useRecentActivity, AggregatedActivityItem } from "@/hooks/useRecentActivity";
@@ -34,7 +39,9 @@ import { useFinancialSnapshot, FinancialSnapshotData } from "@/hooks/useFinancia
 // --- FIX: Removed incorrect import of ActionableMaintenanceItem ---
 import { useActionableMaintenance } from "@/hooks/useActionableMaintenance";
 import { format, parseISO, isPast, formatDistanceToNowStrict } from 'date-fns';
-import { cn } from "@/lib/utils";
+import { cn, formatCategoryName, parseCalendarDayTimestamp } from "@/lib/utils";
+import { buildBudgetVariance, getBudgetAlerts } from "@/lib/budgets";
+import { DEFAULT_BASE_CURRENCY, describeOriginalAmount } from "@/lib/currency";
 // --- FIX: Ensure needed types are imported ---
 import { MaintenanceTask, Expense, Profile } from "@/integrations/supabase/types";
 import { PostgrestError } from "@supabase/supabase-js"; // For type checking errors
@@ -45,8 +52,8 @@ import { PostgrestError } from "@supabase/supabase-js"; // For type checking err
 const formatScheduledDate = (dateStr: string | null): { text: string, isOverdue: boolean } => {
     if (!dateStr) return { text: 'Not scheduled', isOverdue: false };
     try {
-        const date = parseISO(dateStr); // Still need parseISO here as input is string | null
-        if (isNaN(date.getTime())) throw new Error("Invalid date string provided");
+        const date = parseCalendarDayTimestamp(dateStr); // Stored as UTC midnight of the scheduled day
+        if (!date) throw new Error("Invalid date string provided");
         const todayStart = new Date(); todayStart.setHours(0, 0, 0, 0);
         const overdue = date < todayStart;
         const distance = formatDistanceToNowStrict(date, { addSuffix: true });
@@ -58,7 +65,7 @@ const formatScheduledDate = (dateStr: string | null): { text: string, isOverdue:
 };
 
 // Original helpers (Keep original implementation)
-const formatCurrency = (amount: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+const formatCurrency = (amount: number, currency: string = 'USD') => new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
 const formatDateRange = (startDateStr: string, endDateStr: string) => { try { const start = parseISO(startDateStr); const end = parseISO(endDateStr); return start.getMonth() === end.getMonth() ? `${format(start, 'MMM d')} - ${format(end, 'd')}` : `${format(start, 'MMM d')} - ${format(end, 'MMM d')}`; } catch (e) { return "Invalid date"; } };
 const formatSingleDate = (dateStr: string) => { try { return format(parseISO(dateStr), 'PP'); } catch (e) { return "Invalid date"; } };
 // --- FIX: Added Pick for stricter type checking on profile helpers ---
@@ -97,6 +104,7 @@ const ActivityIcon = ({ type }: { type: AggregatedActivityItem['type'] }) => {
 const Dashboard = () => {
   const { properties, selectedProperty, isLoading: isLoadingProperties } = useProperty();
   const propertyId = selectedProperty?.id;
+  const baseCurrency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY; // Expense and income figures are stored in this currency
 
   // --- FIX: Corrected Hook Calls ---
   const { bookings, isLoading: isLoadingBookings, error: errorBookings } = useUpcomingBookings(propertyId, 3);
@@ -104,6 +112,13 @@ const Dashboard = () => {
   const { financialData, isLoading: isLoadingFinancial, error: errorFinancial } = useFinancialSnapshot(propertyId);
   const { actionableTasks, isLoading: isLoadingMaintenance, error: errorMaintenance } = useActionableMaintenance(5); // Takes only limit
   const { activity, isLoading: isLoadingActivity, error: errorActivity } = useRecentActivity(propertyId, 7);
+  const { budgets } = useBudgets(propertyId);
+  const { expenses: allExpenses } = useExpenses();
+  const { recurringExpenses } = useRecurringExpense();
+  const budgetAlerts = useMemo(() => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    return getBudgetAlerts(buildBudgetVariance(budgets.filter(b => b.year === new Date().getFullYear()), allExpenses, recurringExpenses, today));
+  }, [budgets, allExpenses, recurringExpenses]);
 
 
   // --- Loading/Get Started States --- (Original structure)
@@ -151,6 +166,24 @@ const Dashboard = () => {
                  <Link to="/maintenance"><Card className="bg-white hover:border-teal-300 border border-gray-200 transition-all duration-150 ease-in-out cursor-pointer h-full shadow-sm hover:shadow-md"><CardContent className="p-4 flex flex-col items-center text-center space-y-1"><Wrench className="h-7 w-7 mb-1 text-teal-700" /><h3 className="font-semibold text-slate-800 font-poppins">Add Maintenance</h3><p className="text-sm text-gray-600">Report an issue</p></CardContent></Card></Link>
             </div>
 
+            {/* Budget Alerts - only when a category has passed its alert threshold */}
+            {budgetAlerts.length > 0 && (
+                <Card className="shadow-md border border-amber-300 bg-amber-50">
+                    <CardHeader className="pb-3"><CardTitle className="text-lg font-semibold text-amber-900 font-poppins flex items-center gap-2"><PiggyBank className="h-5 w-5" />Budget Alerts</CardTitle><CardDescription className="text-amber-800">Categories that have reached their alert threshold</CardDescription></CardHeader>
+                    <CardContent className="text-sm">
+                        <ul className="space-y-2">
+                            {budgetAlerts.map(({ budget, currentPeriod }) => (
+                                <li key={budget.id} className="flex justify-between items-center gap-4">
+                                    <span className="font-medium text-gray-800">{formatCategoryName(budget.category)} <span className="text-xs font-normal text-gray-500">({budget.period === 'monthly' ? 'this month' : 'this year'})</span></span>
+                                    <span className={cn("whitespace-nowrap", currentPeriod!.status === 'over' ? "font-semibold text-red-600" : "text-amber-700")}>{formatCurrency(currentPeriod!.actual, baseCurrency)} of {formatCurrency(currentPeriod!.budget, baseCurrency)} ({currentPeriod!.percentUsed}%, alert at {Number(budget.alert_threshold)}%)</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </CardContent>
+                    <CardFooter className="border-t border-amber-200 px-6 py-3"><Link to="/budgets" className="text-sm font-medium text-amber-900 hover:underline w-full text-center">Review Budgets</Link></CardFooter>
+                </Card>
+            )}
+
             {/* Overview Cards - 2x2 GRID */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Upcoming Bookings */}
@@ -190,12 +223,15 @@ const Dashboard = () => {
                         ) : (
                             <ul className="space-y-1 -mx-2">
                                 {/* --- FIX: Added Expense type --- */}
-                                {expenses.map((expense: Expense) => (
+                                {expenses.map((expense: Expense) => {
+                                     const originalAmount = describeOriginalAmount(expense, baseCurrency); // Billed amount for foreign-currency expenses
+                                     return (
                                      <li key={expense.id} className="flex items-center justify-between p-2 rounded-md group hover:bg-gray-100 transition-colors gap-2">
                                         <span className="truncate flex-1 text-gray-800"><span className="font-medium">{formatSingleDate(expense.date)}:</span> {expense.description}</span>
-                                        <span className="font-semibold text-gray-700 whitespace-nowrap">{formatCurrency(expense.amount)}</span>
+                                        <span className="font-semibold text-gray-700 whitespace-nowrap">{formatCurrency(expense.amount, baseCurrency)}{originalAmount && <span className="block text-xs font-normal text-gray-500 text-right">{originalAmount.amount}</span>}</span>
                                     </li>
-                                ))}
+                                     );
+                                })}
                             </ul>
                          )}
                     </CardContent>
@@ -209,9 +245,15 @@ const Dashboard = () => {
                          {isLoadingFinancial ? ( <div className="space-y-2 flex flex-col items-center"><Skeleton className="h-8 w-32" /><Skeleton className="h-4 w-24" /></div>
                         ) : errorFinancial ? ( <div className="flex flex-col items-center justify-center text-red-600"><AlertCircle className="h-8 w-8 mb-2" /><p className="text-center font-medium">{displayError(errorFinancial)}</p></div> // FIX: Use displayError
                         ) : financialData ? (
-                            <div className="text-center">
-                                <div className="text-3xl font-bold text-gray-800">{formatCurrency(financialData.totalExpensesThisMonth)}</div>
-                                <div className="text-sm text-gray-500 mt-1">Total Expenses</div>
+                            <div className="text-center space-y-3">
+                                <div>
+                                    <div className={cn("text-3xl font-bold", financialData.netIncomeThisMonth < 0 ? "text-red-600" : "text-gray-800")}>{formatCurrency(financialData.netIncomeThisMonth, baseCurrency)}</div>
+                                    <div className="text-sm text-gray-500 mt-1">Net (Income - Expenses)</div>
+                                </div>
+                                <div className="flex justify-center gap-6 text-sm">
+                                    <div><span className="font-semibold text-green-600">{formatCurrency(financialData.totalIncomeThisMonth, baseCurrency)}</span> <span className="text-gray-500">income</span></div>
+                                    <div><span className="font-semibold text-gray-800">{formatCurrency(financialData.totalExpensesThisMonth, baseCurrency)}</span> <span className="text-gray-500">expenses</span></div>
+                                </div>
                             </div>
                          ) : ( <div className="flex flex-col items-center justify-center text-gray-500 space-y-3"><DollarSign className="h-10 w-10 text-gray-400" /><p className="text-center">No financial data yet.</p></div> )}
                     </CardContent>
@@ -0,0 +1,198 @@
+// src/pages/balances/BalancesPage.tsx
+// v2 - Amounts are shown in the property's base currency.
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useExpenses } from '@/contexts/ExpenseContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { ArrowRight, Handshake, Loader2, Scale } from 'lucide-react';
+import { cn, formatCurrency, getInitials } from '@/lib/utils';
+import { DEFAULT_BASE_CURRENCY } from '@/lib/currency';
+import { computeMemberBalances, computePairwiseDebts, suggestSettlementTransfers, PairwiseDebt } from '@/lib/settlement';
+import { MemberRole, Profile } from '@/integrations/supabase/types';
+
+const getDisplayName = (profile: Pick<Profile, 'first_name' | 'last_name' | 'email'> | null | undefined): string => {
+  if (!profile) return 'Former Member';
+  const name = [profile.first_name, profile.last_name].filter(Boolean).join(' ');
+  return name || profile.email || 'Unnamed User';
+};
+
+export function BalancesPage() {
+  const { user } = useAuth();
+  const { selectedProperty, propertyMembers } = useProperty();
+  const baseCurrency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
+  const { combinedExpenses, isLoadingExpenses, recordSettlement } = useExpenses();
+  const [pendingDebt, setPendingDebt] = useState<PairwiseDebt | null>(null);
+  const [settlementNote, setSettlementNote] = useState('');
+  const [isRecording, setIsRecording] = useState(false);
+
+  useEffect(() => { document.title = `Balances | CoHaven`; }, []);
+
+  const members = useMemo(() => selectedProperty ? propertyMembers.filter(m => m.property_id === selectedProperty.id) : [], [selectedProperty, propertyMembers]);
+  const profileMap = useMemo(() => new Map(members.map(m => [m.user_id, m.profile])), [members]);
+  const currentUserRole = members.find(m => m.user_id === user?.id)?.role ?? null;
+
+  const balances = useMemo(() => computeMemberBalances(combinedExpenses, members.map(m => m.user_id)), [combinedExpenses, members]);
+  const transfers = useMemo(() => suggestSettlementTransfers(balances), [balances]);
+  const pairwiseDebts = useMemo(() => computePairwiseDebts(combinedExpenses), [combinedExpenses]);
+
+  const nameOf = (userId: string) => userId === user?.id ? 'You' : getDisplayName(profileMap.get(userId));
+  const canSettle = (debt: PairwiseDebt) => currentUserRole === MemberRole.Owner || debt.fromUserId === user?.id || debt.toUserId === user?.id;
+
+  const handleConfirmSettlement = async () => {
+    if (!pendingDebt) return;
+    setIsRecording(true);
+    const { error } = await recordSettlement(pendingDebt.fromUserId, pendingDebt.toUserId, settlementNote.trim() || null);
+    setIsRecording(false);
+    if (!error) { setPendingDebt(null); setSettlementNote(''); }
+  };
+
+  const renderMember = (userId: string) => {
+    const profile = profileMap.get(userId);
+    return (
+      <div className="flex items-center gap-2">
+        <Avatar className="h-7 w-7">
+          <AvatarImage src={profile?.avatar_url ?? undefined} alt={nameOf(userId)} />
+          <AvatarFallback>{getInitials(profile?.first_name ?? nameOf(userId))}</AvatarFallback>
+        </Avatar>
+        <span className="font-medium">{nameOf(userId)}</span>
+      </div>
+    );
+  };
+
+  if (!selectedProperty) {
+    return <div className="text-center py-10 text-muted-foreground">Select a property to view balances.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold tracking-tight">Balances</h1>
+      </div>
+
+      {isLoadingExpenses && !combinedExpenses.length ? (
+        <div className="flex justify-center items-center py-10"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /></div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><Scale className="h-5 w-5" /> Member Balances</CardTitle>
+              <CardDescription>What each member has paid, their share of expenses, and where they stand on unsettled splits.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                    <TableHead className="text-right">Net Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {balances.length === 0 && (
+                    <TableRow><TableCell colSpan={4} className="h-24 text-center">No expenses recorded yet.</TableCell></TableRow>
+                  )}
+                  {balances.map(b => (
+                    <TableRow key={b.userId}>
+                      <TableCell>{renderMember(b.userId)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(b.totalPaid, baseCurrency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(b.totalShare, baseCurrency)}</TableCell>
+                      <TableCell className={cn("text-right font-semibold", b.net > 0 && "text-green-600", b.net < 0 && "text-red-600")}>
+                        {b.net === 0 ? 'Settled' : `${b.net > 0 ? 'Is owed' : 'Owes'} ${formatCurrency(Math.abs(b.net), baseCurrency)}`}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><ArrowRight className="h-5 w-5" /> Suggested Settlements</CardTitle>
+              <CardDescription>The fewest payments that would bring everyone's balance to zero.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {transfers.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">Everyone is settled up.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {transfers.map(t => (
+                    <li key={`${t.fromUserId}-${t.toUserId}`} className="flex items-center justify-between rounded-md border p-3">
+                      <div className="flex items-center gap-3">{renderMember(t.fromUserId)}<ArrowRight className="h-4 w-4 text-muted-foreground" />{renderMember(t.toUserId)}</div>
+                      <span className="font-semibold">{formatCurrency(t.amount, baseCurrency)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><Handshake className="h-5 w-5" /> Who Owes Whom</CardTitle>
+              <CardDescription>Unsettled splits netted between each pair of members. Recording a settlement marks all of them as paid.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Splits</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pairwiseDebts.length === 0 && (
+                    <TableRow><TableCell colSpan={5} className="h-24 text-center">No outstanding splits.</TableCell></TableRow>
+                  )}
+                  {pairwiseDebts.map(debt => (
+                    <TableRow key={`${debt.fromUserId}-${debt.toUserId}`}>
+                      <TableCell>{renderMember(debt.fromUserId)}</TableCell>
+                      <TableCell>{renderMember(debt.toUserId)}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatCurrency(debt.amount, baseCurrency)}</TableCell>
+                      <TableCell className="text-right"><Badge variant="secondary">{debt.splitIds.length}</Badge></TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="outline" disabled={!canSettle(debt) || isRecording} onClick={() => setPendingDebt(debt)}>Record Settlement</Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <AlertDialog open={!!pendingDebt} onOpenChange={(open) => { if (!open && !isRecording) { setPendingDebt(null); setSettlementNote(''); } }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Record Settlement</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDebt && <>Confirm that {nameOf(pendingDebt.fromUserId)} paid {nameOf(pendingDebt.toUserId)} {formatCurrency(pendingDebt.amount, baseCurrency)}. {pendingDebt.splitIds.length} outstanding split(s) between them will be marked as paid.</>}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea placeholder="Optional note (e.g. Venmo reference)" value={settlementNote} onChange={(e) => setSettlementNote(e.target.value)} disabled={isRecording} />
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRecording}>Cancel</AlertDialogCancel>
+            <AlertDialogAction disabled={isRecording} onClick={(e) => { e.preventDefault(); handleConfirmSettlement(); }}>
+              {isRecording && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Record Settlement
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default BalancesPage;
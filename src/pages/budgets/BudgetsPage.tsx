@@ -0,0 +1,195 @@
+// src/pages/budgets/BudgetsPage.tsx
+// v1 - Category budgets for a year: budget vs actual, projected recurring costs and variance.
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useExpenses } from '@/contexts/ExpenseContext';
+import { useRecurringExpense } from '@/contexts/RecurringExpenseContext';
+import { useBudgets } from '@/hooks/useBudgets';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Loader2, Pencil, PiggyBank, PlusCircle, Trash2 } from 'lucide-react';
+import { SetBudgetDialog } from '@/components/budgets/SetBudgetDialog';
+import { buildBudgetVariance, BudgetFigures } from '@/lib/budgets';
+import { DEFAULT_BASE_CURRENCY } from '@/lib/currency';
+import { cn, formatCategoryName, formatCurrency } from '@/lib/utils';
+import { CategoryBudgetRow, MemberRole } from '@/integrations/supabase/types';
+
+const STATUS_CLASSES: Record<BudgetFigures['status'], string> = {
+  ok: '',
+  warning: 'text-amber-600',
+  over: 'text-destructive',
+};
+
+export function BudgetsPage() {
+  const { user } = useAuth();
+  const { selectedProperty, propertyMembers } = useProperty();
+  const { expenses } = useExpenses();
+  const { recurringExpenses } = useRecurringExpense();
+  const { budgets, isLoading, saveBudget, deleteBudget } = useBudgets(selectedProperty?.id);
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [budgetToEdit, setBudgetToEdit] = useState<CategoryBudgetRow | null>(null);
+  const [budgetToDelete, setBudgetToDelete] = useState<CategoryBudgetRow | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => { document.title = `Budgets | CoHaven`; }, []);
+
+  const baseCurrency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
+  const currentUserRole = propertyMembers.find(m => m.property_id === selectedProperty?.id && m.user_id === user?.id)?.role;
+  const canManage = currentUserRole === MemberRole.Owner || currentUserRole === MemberRole.CoOwner;
+
+  const yearOptions = useMemo(() => {
+    const years = new Set<number>([currentYear - 1, currentYear, currentYear + 1, ...budgets.map(b => b.year)]);
+    return Array.from(years).sort((a, b) => b - a);
+  }, [budgets, currentYear]);
+
+  const variances = useMemo(
+    () => buildBudgetVariance(budgets.filter(b => b.year === year), expenses, recurringExpenses, format(new Date(), 'yyyy-MM-dd')),
+    [budgets, year, expenses, recurringExpenses]
+  );
+
+  const totals = useMemo(() => variances.reduce(
+    (acc, v) => ({ budget: acc.budget + v.year.budget, actual: acc.actual + v.year.actual, projected: acc.projected + v.year.projected, forecast: acc.forecast + v.year.forecast, variance: acc.variance + v.year.variance }),
+    { budget: 0, actual: 0, projected: 0, forecast: 0, variance: 0 }
+  ), [variances]);
+
+  const openDialog = (budget: CategoryBudgetRow | null) => { setBudgetToEdit(budget); setIsDialogOpen(true); };
+
+  const handleConfirmDelete = async () => {
+    if (!budgetToDelete) return;
+    setIsDeleting(true);
+    const deleted = await deleteBudget(budgetToDelete.id);
+    setIsDeleting(false);
+    if (deleted) setBudgetToDelete(null);
+  };
+
+  if (!selectedProperty) {
+    return <div className="text-center py-10 text-muted-foreground">Select a property to view budgets.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h1 className="text-3xl font-bold tracking-tight">Budgets</h1>
+        <div className="flex items-center gap-2">
+          <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+            <SelectTrigger className="w-[120px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {yearOptions.map(y => <SelectItem key={y} value={String(y)}>{y}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {canManage && <Button onClick={() => openDialog(null)}><PlusCircle className="mr-2 h-4 w-4" /> Set Budget</Button>}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><PiggyBank className="h-5 w-5" /> Budget vs Actual, {year}</CardTitle>
+          <CardDescription>
+            Actual is spending recorded so far. Projected adds upcoming recurring expenses in the same category, so Forecast is where the year is heading.
+            {' '}"This period" is the current month for monthly budgets and the current year for annual ones.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && !budgets.length ? (
+            <div className="flex justify-center items-center py-10"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /></div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Budget</TableHead>
+                    <TableHead className="text-right">Year Budget</TableHead>
+                    <TableHead className="text-right">Actual</TableHead>
+                    <TableHead className="text-right">Projected</TableHead>
+                    <TableHead className="text-right">Forecast</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead className="min-w-[160px]">This Period</TableHead>
+                    {canManage && <TableHead className="text-right"><span className="sr-only">Actions</span></TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {variances.length === 0 && (
+                    <TableRow><TableCell colSpan={canManage ? 9 : 8} className="h-24 text-center">No budgets set for {year}.</TableCell></TableRow>
+                  )}
+                  {variances.map(({ budget, year: figures, currentPeriod }) => (
+                    <TableRow key={budget.id}>
+                      <TableCell className="font-medium">{formatCategoryName(budget.category)}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatCurrency(Number(budget.amount), baseCurrency)} <span className="text-xs text-muted-foreground">/ {budget.period === 'monthly' ? 'month' : 'year'}</span>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(figures.budget, baseCurrency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(figures.actual, baseCurrency)}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">{formatCurrency(figures.projected, baseCurrency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(figures.forecast, baseCurrency)}</TableCell>
+                      <TableCell className={cn("text-right font-semibold", figures.variance < 0 ? 'text-destructive' : 'text-green-600')}>{formatCurrency(figures.variance, baseCurrency)}</TableCell>
+                      <TableCell>
+                        {currentPeriod ? (
+                          <div className="space-y-1">
+                            <div className={cn("flex justify-between text-xs", STATUS_CLASSES[currentPeriod.status])}>
+                              <span>{currentPeriod.percentUsed}% used</span>
+                              {currentPeriod.status !== 'ok' && <Badge variant={currentPeriod.status === 'over' ? 'destructive' : 'outline'} className="text-[10px] px-1 py-0">{currentPeriod.status === 'over' ? 'Over' : 'Warning'}</Badge>}
+                            </div>
+                            <Progress value={Math.min(currentPeriod.percentUsed, 100)} className="h-2" />
+                          </div>
+                        ) : <span className="text-xs text-muted-foreground">Not current</span>}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(budget)} aria-label="Edit budget"><Pencil className="h-4 w-4" /></Button>
+                          <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => setBudgetToDelete(budget)} aria-label="Delete budget"><Trash2 className="h-4 w-4" /></Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                  {variances.length > 1 && (
+                    <TableRow className="font-semibold">
+                      <TableCell colSpan={2}>Total</TableCell>
+                      <TableCell className="text-right">{formatCurrency(totals.budget, baseCurrency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(totals.actual, baseCurrency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(totals.projected, baseCurrency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(totals.forecast, baseCurrency)}</TableCell>
+                      <TableCell className={cn("text-right", totals.variance < 0 ? 'text-destructive' : 'text-green-600')}>{formatCurrency(totals.variance, baseCurrency)}</TableCell>
+                      <TableCell colSpan={canManage ? 2 : 1} />
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <SetBudgetDialog isOpen={isDialogOpen} onOpenChange={setIsDialogOpen} year={year} budget={budgetToEdit} onSave={saveBudget} />
+
+      <AlertDialog open={!!budgetToDelete} onOpenChange={(open) => { if (!open && !isDeleting) setBudgetToDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Budget?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {budgetToDelete && <>Remove the {budgetToDelete.year} budget for {formatCategoryName(budgetToDelete.category)}? Recorded expenses are not affected.</>}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction disabled={isDeleting} onClick={(e) => { e.preventDefault(); handleConfirmDelete(); }} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default BudgetsPage;
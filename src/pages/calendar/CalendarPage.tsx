@@ -2,7 +2,7 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Calendar, dateFnsLocalizer, SlotInfo } from 'react-big-calendar';
 // CORRECTED: Use named import for enUS
-import { format, parse, startOfWeek, getDay, addDays, differenceInDays, startOfDay, endOfDay, isSameDay, isWithinInterval, eachDayOfInterval, isValid as isDateValid } from 'date-fns';
+import { format, parse, startOfWeek, getDay, addDays, startOfDay, endOfDay, isSameDay, isWithinInterval, eachDayOfInterval, isValid as isDateValid } from 'date-fns';
 import { enUS } from 'date-fns/locale/en-US'; // Named import
 import 'react-big-calendar/lib/css/react-big-calendar.css';
 // CORRECTED: Use useBooking hook name
@@ -19,14 +19,17 @@ import { Label } from '@/components/ui/label';
 import { Calendar as ShadcnCalendar } from "@/components/ui/calendar"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { cn, getInitials } from '@/lib/utils';
+import { cn, parseCalendarDayTimestamp } from '@/lib/utils';
 import { CalendarIcon, Loader2, AlertCircle, Users, Edit, Trash2, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 // CORRECTED: Use named import for BookingDetailSheet
 import { BookingDetailSheet } from '@/components/calendar/BookingDetailSheet';
+import { UsageEntitlementCard } from '@/components/calendar/UsageEntitlementCard';
+import { PeakDraftCard } from '@/components/calendar/PeakDraftCard';
+import { RequestWindowsCard } from '@/components/calendar/RequestWindowsCard';
+import { CalendarSyncCard } from '@/components/calendar/CalendarSyncCard';
+import { buildMemberUsage, describeEntitlementOverage, tallyStay } from '@/lib/usageEntitlement';
 import { DateRange } from 'react-day-picker';
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
     AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
     AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
@@ -40,8 +43,8 @@ const CalendarPage: React.FC = () => {
     const { user } = useAuth();
     const { selectedProperty, propertyMembers } = useProperty();
     // CORRECTED: Use useBooking hook
-    const { bookings, isLoading: bookingsLoading, error: bookingsError, addBooking, updateBooking, getBookingById } = useBooking();
-    const { tasks: maintenanceTasks, isLoading: maintenanceLoading, error: maintenanceError } = useMaintenance();
+    const { bookings, isLoading: bookingsLoading, error: bookingsError, addBooking, updateBooking, getBookingById, fetchBookings, usageSeasons, addUsageSeason, deleteUsageSeason, findEntitlementOverages } = useBooking();
+    const { tasks: maintenanceTasks, isLoading: maintenanceLoading, error: maintenanceError, fetchTasks: fetchMaintenanceTasks } = useMaintenance();
     const { toast } = useToast();
 
     // State remains the same
@@ -61,10 +64,10 @@ const CalendarPage: React.FC = () => {
     // Callbacks and Memos remain the same logic, but use corrected hook results
     const maintenanceBlockingRanges = useMemo(() => {
         return (maintenanceTasks ?? [])
-            .filter(task => task.blocks_booking && task.scheduled_date_start && task.scheduled_date_end)
+            .filter(task => task.blocks_booking && task.status !== 'completed' && task.scheduled_date_start && task.scheduled_date_end)
             .map(task => ({
-                start: startOfDay(new Date(task.scheduled_date_start!)),
-                end: endOfDay(new Date(task.scheduled_date_end!)),
+                start: startOfDay(parseCalendarDayTimestamp(task.scheduled_date_start)!),
+                end: endOfDay(parseCalendarDayTimestamp(task.scheduled_date_end)!),
                 title: `Maintenance: ${task.title}`,
                 type: 'maintenance' as const
             }));
@@ -172,7 +175,7 @@ const CalendarPage: React.FC = () => {
             if (dialogMode === 'edit' && editingBookingId) result = await updateBooking(editingBookingId, bookingData);
             else result = await addBooking(bookingData);
             if (result.error) throw result.error;
-            toast({ title: `Booking ${dialogMode === 'edit' ? 'Updated' : 'Requested'}`, description: `Your booking from ${format(startDate, 'PP')} to ${format(endDate, 'PP')} has been ${dialogMode === 'edit' ? 'updated' : 'submitted'}.` });
+            // BookingContext has already toasted the outcome, including approval and entitlement warnings
             setIsDialogOpen(false); resetDialogForm();
         } catch (err: any) {
             console.error(`Error ${dialogMode === 'edit' ? 'updating' : 'adding'} booking:`, err);
@@ -180,24 +183,27 @@ const CalendarPage: React.FC = () => {
         } finally { setIsSaving(false); }
     };
 
-    const usageDaysPerMember = useMemo(() => {
-        const usageMap: Record<string, number> = {};
-        if (!propertyMembers) return usageMap;
-        propertyMembers.forEach(member => { if(member.user_id) usageMap[member.user_id] = 0; });
-        bookings.forEach(booking => {
-            if (booking.status === 'confirmed' || booking.status === 'approved') {
-                 const start = startOfDay(new Date(booking.start_date)); const end = startOfDay(new Date(booking.end_date));
-                 const duration = differenceInDays(end, start) + 1;
-                 if (booking.user_id && usageMap.hasOwnProperty(booking.user_id)) usageMap[booking.user_id] += duration;
-            }
-        });
-        return usageMap;
-    }, [bookings, propertyMembers]);
+    // Usage for the current calendar year, heaviest users first
+    const usageYear = new Date().getFullYear();
+    const memberUsage = useMemo(() =>
+        buildMemberUsage(propertyMembers ?? [], bookings, usageSeasons, selectedProperty?.usage_nights_per_year, usageYear, format(new Date(), 'yyyy-MM-dd')),
+    [propertyMembers, bookings, usageSeasons, selectedProperty, usageYear]);
 
-    const memberUsageList = useMemo(() => {
-        if (!propertyMembers) return [];
-        return propertyMembers.map(member => ({ member, days: usageDaysPerMember[member.user_id] || 0 })).sort((a, b) => b.days - a.days);
-    }, [propertyMembers, usageDaysPerMember]);
+    const membersByUsage = useMemo(() => {
+        const held = new Map(memberUsage.map(u => [u.user_id, u.used.weighted + u.booked.weighted]));
+        return [...(propertyMembers ?? [])].sort((a, b) => (held.get(b.user_id) ?? 0) - (held.get(a.user_id) ?? 0));
+    }, [propertyMembers, memberUsage]);
+
+    // Owners and co-owners manage seasons, run the peak-week draft, open request windows and import calendars
+    const canManageSeasons = propertyMembers?.some(m => m.user_id === user?.id && (m.role === 'owner' || m.role === 'co_owner')) ?? false;
+
+    // What the stay in the dialog costs the booker, shown before they submit
+    const stayPreview = useMemo(() => {
+        if (!user || !startDate || !endDate || !selectedProperty?.usage_nights_per_year) return null;
+        const stay = { start_date: format(startDate, 'yyyy-MM-dd'), end_date: format(endDate, 'yyyy-MM-dd') };
+        const bookerId = (editingBookingId && getBookingById(editingBookingId)?.user_id) || user.id;
+        return { tally: tallyStay(stay, usageSeasons), overageMessage: describeEntitlementOverage(findEntitlementOverages(bookerId, stay, editingBookingId ?? undefined)) };
+    }, [user, startDate, endDate, selectedProperty, editingBookingId, getBookingById, usageSeasons, findEntitlementOverages]);
 
     const isLoading = bookingsLoading || maintenanceLoading;
     const error = bookingsError || maintenanceError;
@@ -242,6 +248,13 @@ const CalendarPage: React.FC = () => {
                                     <Label htmlFor="purpose" className="text-right">Purpose <span className="text-xs text-muted-foreground">(Optional)</span></Label>
                                     <Textarea id="purpose" value={purpose} onChange={(e) => setPurpose(e.target.value)} className="col-span-3" placeholder="e.g., Owner Use, Guest Visit, Family Vacation"/>
                                 </div>
+                                {stayPreview && (
+                                    <p className={cn("text-sm", stayPreview.overageMessage ? "text-red-600" : "text-muted-foreground")}>
+                                        {stayPreview.overageMessage
+                                            ? `${stayPreview.overageMessage}${selectedProperty?.usage_enforcement === 'block' ? ' This property does not accept bookings over entitlement.' : ''}`
+                                            : `This stay uses ${stayPreview.tally.weighted} night${stayPreview.tally.weighted === 1 ? '' : 's'} of entitlement (${stayPreview.tally.byKind.peak} peak, ${stayPreview.tally.byKind.holiday} holiday).`}
+                                    </p>
+                                )}
                             </div>
                             <DialogFooter>
                                 <DialogClose asChild><Button type="button" variant="outline" onClick={resetDialogForm}>Cancel</Button></DialogClose>
@@ -283,29 +296,37 @@ const CalendarPage: React.FC = () => {
 
              {/* Sidebar Area */}
              <div className="lg:col-span-1 space-y-6">
-                 <Card>
-                     <CardHeader><CardTitle>Usage Tracker</CardTitle></CardHeader>
-                     <CardContent>
-                         {propertyMembers && propertyMembers.length > 0 ? (
-                             <ul className="space-y-3">
-                                 {memberUsageList.map(({ member, days }) => (
-                                      member.profile && (
-                                         <li key={member.user_id} className="flex items-center justify-between text-sm">
-                                             <div className="flex items-center gap-2">
-                                                 <Avatar className="h-7 w-7">
-                                                     <AvatarImage src={member.profile.avatar_url ?? undefined} />
-                                                     <AvatarFallback className="text-xs">{getInitials(`${member.profile.first_name} ${member.profile.last_name}`)}</AvatarFallback>
-                                                 </Avatar>
-                                                 <span className="truncate" title={`${member.profile.first_name} ${member.profile.last_name}`}>{member.profile.first_name}</span>
-                                             </div>
-                                             <span className="font-medium">{days} day{days === 1 ? '' : 's'}</span>
-                                         </li>
-                                     )
-                                 ))}
-                             </ul>
-                         ) : ( <p className="text-sm text-muted-foreground">No members found for this property.</p> )}
-                     </CardContent>
-                 </Card>
+                 <UsageEntitlementCard
+                    year={usageYear}
+                    members={membersByUsage}
+                    usage={memberUsage}
+                    nightsPerYear={selectedProperty?.usage_nights_per_year}
+                    seasons={usageSeasons}
+                    currentUserId={user?.id}
+                    canManageSeasons={canManageSeasons}
+                    onAddSeason={addUsageSeason}
+                    onDeleteSeason={deleteUsageSeason}
+                 />
+                 <PeakDraftCard
+                    propertyId={selectedProperty?.id}
+                    members={propertyMembers ?? []}
+                    currentUserId={user?.id}
+                    canManage={canManageSeasons}
+                    onPicked={fetchBookings}
+                 />
+                 <RequestWindowsCard
+                    propertyId={selectedProperty?.id}
+                    bookings={bookings}
+                    members={propertyMembers ?? []}
+                    currentUserId={user?.id}
+                    canManage={canManageSeasons}
+                    onBookingsChanged={fetchBookings}
+                 />
+                 <CalendarSyncCard
+                    propertyId={selectedProperty?.id}
+                    canImport={canManageSeasons}
+                    onImported={fetchMaintenanceTasks}
+                 />
              </div>
 
             {/* Detail Sheet */}
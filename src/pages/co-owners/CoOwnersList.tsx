@@ -41,6 +41,7 @@ import { useProperty } from "@/contexts/PropertyContext";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { Database } from '@/integrations/supabase/types';
+import { format } from "date-fns";
 
 type PropertyMember = Database['public']['Tables']['property_members']['Row'];
 type Profile = Database['public']['Tables']['profiles']['Row'];
@@ -270,13 +271,22 @@ const CoOwnersList = () => {
       return;
     }
     
+    const delta = Math.round((numPercentage - (member.ownership_percentage ?? 0)) * 10000) / 10000;
+    if (delta === 0 || !selectedProperty) return;
+    
     try {
-      const { error } = await supabase
-        .from('property_members')
-        .update({ ownership_percentage: numPercentage })
-        .eq('id', member.id);
+      // Stakes are changed through the ownership ledger so the history (and past expense splits) stay intact
+      const { data, error } = await supabase.rpc('record_ownership_change', {
+        p_property_id: selectedProperty.id,
+        p_from_user_id: delta < 0 ? member.user_id : null,
+        p_to_user_id: delta > 0 ? member.user_id : null,
+        p_percentage: Math.abs(delta),
+        p_effective_date: format(new Date(), 'yyyy-MM-dd'),
+        p_reason: 'adjustment',
+      });
         
       if (error) throw error;
+      if (data && 'error' in data) throw new Error(data.error);
       
       setMembers(members.map(m => 
         m.id === member.id ? { ...m, ownership_percentage: numPercentage } : m
@@ -541,8 +551,8 @@ const CoOwnersList = () => {
                           max="100"
                           step="0.1"
                           className="h-8 pr-6"
-                          value={member.ownership_percentage.toString()}
-                          onChange={(e) => handleUpdateOwnership(member, e.target.value)}
+                          defaultValue={member.ownership_percentage.toString()}
+                          onBlur={(e) => handleUpdateOwnership(member, e.target.value)}
                         />
                         <span className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground text-xs">
                           %
@@ -1,7 +1,7 @@
 // src/pages/co-owners/CoOwnersPage.tsx
-// v4 - Corrected props passed to EditMemberRoleDialog: Convert MemberRoleType to MemberRole enum.
+// v5 - Added cap table (current stakes) and ownership history backed by the ownership ledger.
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { useCoOwner } from '@/contexts/CoOwnerContext';
 import { useProperty } from '@/contexts/PropertyContext';
 import { Button } from '@/components/ui/button';
@@ -9,12 +9,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { MoreHorizontal, UserPlus, Edit, Trash2, Loader2 } from 'lucide-react';
+import { MoreHorizontal, UserPlus, Edit, Trash2, Loader2, PieChart, History, ArrowRightLeft, ArrowRight, AlertCircle } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { getInitials } from '@/lib/utils';
+import { cn, getInitials, formatDate } from '@/lib/utils';
+import { summarizeOwnershipStakes } from '@/lib/splits';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { InviteMemberDialog } from '@/components/co-owners/InviteMemberDialog';
 import { EditMemberRoleDialog } from '@/components/co-owners/EditMemberRoleDialog';
 import { ConfirmRemoveMemberDialog } from '@/components/co-owners/ConfirmRemoveMemberDialog';
+import { RecordOwnershipChangeDialog } from '@/components/co-owners/RecordOwnershipChangeDialog';
 import { MemberRole, MemberRoleType } from '@/integrations/supabase/types'; // Import Enum and Type Alias
 
 // Helper function to map Type Alias string to Enum value
@@ -38,6 +41,10 @@ export function CoOwnersPage() {
     canInvite,
     canEditRole,
     canRemoveMember,
+    ownershipChanges,
+    isLoadingOwnership,
+    canManageOwnership,
+    getStakesAsOf,
   } = useCoOwner();
 
   const propertyName = selectedProperty?.name ?? 'Property';
@@ -46,6 +53,11 @@ export function CoOwnersPage() {
     document.title = `Co-Owners | CoHaven`;
   }, []);
 
+  const capTable = useMemo(() => getStakesAsOf(new Date()), [getStakesAsOf]);
+  const capTableSummary = useMemo(() => summarizeOwnershipStakes(capTable), [capTable]);
+  const ownershipHistory = useMemo(() => [...ownershipChanges].reverse(), [ownershipChanges]); // Newest first
+  const profileByUserId = useMemo(() => new Map(members.map(m => [m.user_id, m.profile])), [members]);
+
   const getDisplayName = (profile: { first_name?: string | null; last_name?: string | null; email?: string | null } | null): string => {
     if (!profile) return 'Unknown User';
     const name = [profile.first_name, profile.last_name].filter(Boolean).join(' ');
@@ -174,6 +186,100 @@ export function CoOwnersPage() {
           )}
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2"><PieChart className="h-5 w-5" /> Cap Table</CardTitle>
+            <CardDescription>Current ownership stakes. Expenses split by ownership use the stakes in effect on the expense date.</CardDescription>
+          </div>
+          {canManageOwnership && (
+            <RecordOwnershipChangeDialog
+              trigger={
+                <Button size="sm" variant="outline" disabled={isLoadingAction}>
+                  <ArrowRightLeft className="mr-2 h-4 w-4" /> Record Change
+                </Button>
+              }
+            />
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!isLoadingOwnership && !capTableSummary.sumsTo100 && (
+            <Alert variant="default" className="border-yellow-500 text-yellow-700 [&>svg]:text-yellow-700">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>Stakes currently add up to {capTableSummary.total}%, not 100%.</AlertDescription>
+            </Alert>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead className="text-right">Stake</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {capTable.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={2} className="h-24 text-center">
+                    {isLoadingOwnership ? <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" /> : 'No ownership stakes recorded.'}
+                  </TableCell>
+                </TableRow>
+              )}
+              {capTable.map(stake => (
+                <TableRow key={stake.user_id}>
+                  <TableCell className="font-medium">{profileByUserId.has(stake.user_id) ? getDisplayName(profileByUserId.get(stake.user_id) ?? null) : 'Former Member'}</TableCell>
+                  <TableCell className="text-right font-semibold">{stake.ownership_percentage}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><History className="h-5 w-5" /> Ownership History</CardTitle>
+          <CardDescription>Every recorded stake change, newest first.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Effective</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead className="text-right">Stake</TableHead>
+                <TableHead>Note</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ownershipHistory.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">No ownership changes recorded.</TableCell>
+                </TableRow>
+              )}
+              {ownershipHistory.map(change => {
+                const partyName = (userId: string | null, fallback: string) => !userId ? fallback : profileByUserId.has(userId) ? getDisplayName(profileByUserId.get(userId) ?? null) : 'Former Member';
+                return (
+                  <TableRow key={change.id}>
+                    <TableCell className="whitespace-nowrap">{formatDate(change.effective_date)}</TableCell>
+                    <TableCell><Badge variant="secondary">{formatRole(change.reason)}</Badge></TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className={cn(!change.from_user_id && "italic text-muted-foreground")}>{partyName(change.from_user_id, 'New stake')}</span>
+                        <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                        <span className={cn(!change.to_user_id && "italic text-muted-foreground")}>{partyName(change.to_user_id, 'Retired')}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">{Number(change.percentage)}%</TableCell>
+                    <TableCell className="text-muted-foreground text-sm">{change.note ?? ''}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
     </div>
   );
 }
\ No newline at end of file
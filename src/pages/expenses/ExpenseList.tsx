@@ -1,5 +1,5 @@
 // src/pages/expenses/ExpenseList.tsx
-// v13 - FIX: Attempt 3 - Wrap DropdownMenuItem content in div with onClick and stopPropagation.
+// v17 - Expenses awaiting approval or rejected show that status instead of the member's split status.
 
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { Button } from "@/components/ui/button";
@@ -16,7 +16,7 @@ import {
 } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
-import { PlusCircle, Search, AlertTriangle, MoreHorizontal, X, Edit, Trash2, Loader2, CheckCircle, FileText } from 'lucide-react';
+import { PlusCircle, Search, AlertTriangle, MoreHorizontal, X, Edit, Trash2, Loader2, CheckCircle, FileText, Upload, Download } from 'lucide-react';
 import { useExpenses } from '@/contexts/ExpenseContext';
 import { useProperty } from '@/contexts/PropertyContext';
 import { useAuth } from '@/contexts/AuthContext';
@@ -27,11 +27,14 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import AddExpenseDialog from '@/components/expenses/AddExpenseDialog';
 import EditExpenseDialog from '@/components/expenses/EditExpenseDialog';
+import ImportExpensesDialog from '@/components/expenses/ImportExpensesDialog';
+import ExportExpensesDialog from '@/components/expenses/ExportExpensesDialog';
 import { ExpenseDetailSheet } from '@/components/expenses/ExpenseDetailSheet';
 import {
     Expense,
     Profile,
     SplitStatus,
+    ExpenseStatus,
     ExpenseCategory,
     ExpenseSplitWithProfile,
     SplitMethod,
@@ -40,6 +43,7 @@ import {
     ExpenseCategoryType
 } from '@/integrations/supabase/types';
 import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_BASE_CURRENCY, describeOriginalAmount } from '@/lib/currency';
 
 // Custom Hook for Debounce
 const useDebounce = <T,>(value: T, delay: number): T => {
@@ -58,9 +62,12 @@ const ExpenseList = () => {
         deleteExpenseWithSplits,
     } = useExpenses();
     const { selectedProperty, propertyMembers } = useProperty();
+    const baseCurrency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
     const { toast } = useToast();
     const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
     const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+    const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+    const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
     const [expenseToEdit, setExpenseToEdit] = useState<Expense | null>(null);
     const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
     const [expenseToDelete, setExpenseToDelete] = useState<Expense | null>(null);
@@ -111,6 +118,8 @@ const ExpenseList = () => {
 
     const renderMyStatus = useCallback((expense: Expense, currentUser: typeof user | null): React.ReactNode => {
         if (!currentUser || !expense || !expense.splits) return <Badge variant="secondary">N/A</Badge>;
+        if (expense.status === ExpenseStatus.PendingApproval) return <Badge variant="outline" className="border-orange-500 text-orange-700">Pending Approval</Badge>;
+        if (expense.status === ExpenseStatus.Rejected) return <Badge variant="destructive">Rejected</Badge>;
         const mySplit = expense.splits.find(s => s.user_id === currentUser.id);
         const iPaid = expense.paid_by === currentUser.id;
         if (iPaid) {
@@ -118,11 +127,11 @@ const ExpenseList = () => {
             return othersOwe ? <Badge variant="outline" className="border-blue-500 text-blue-700">Paid/Waiting</Badge> : <Badge variant="default" className="bg-green-100 text-green-800 hover:bg-green-100">Paid/Settled</Badge>;
         } else if (mySplit) {
              const amountValue = typeof mySplit.amount === 'string' ? parseFloat(mySplit.amount) : mySplit.amount;
-             const formattedAmount = !isNaN(amountValue ?? NaN) ? formatCurrency(amountValue) : '?';
+             const formattedAmount = !isNaN(amountValue ?? NaN) ? formatCurrency(amountValue, baseCurrency) : '?';
             if (mySplit.status === SplitStatus.Paid) { return <Badge variant="default" className="bg-green-100 text-green-800 hover:bg-green-100">Paid ({formattedAmount})</Badge>; }
             else { return <Badge variant="destructive">Owed ({formattedAmount})</Badge>; }
         } else { return <Badge variant="secondary">Not Involved</Badge>; }
-    }, [user]);
+    }, [user, baseCurrency]);
 
     const renderSplitMethod = useCallback((method: SplitMethodType | null | undefined): React.ReactNode => {
         if (!method) return <Badge variant="secondary">N/A</Badge>;
@@ -176,6 +185,7 @@ const ExpenseList = () => {
             const payerElement = renderPayer(expense.paid_by);
             const splitMethodElement = renderSplitMethod(expense.split_method);
             const myStatusElement = renderMyStatus(expense, user);
+            const originalAmount = describeOriginalAmount(expense, baseCurrency);
             const categoryFormatted = formatCategoryName(expense.category);
             let formattedDate = 'Invalid Date'; try { const parsedDate = parseISO(expense.date); if (isDateValid(parsedDate)) { formattedDate = format(parsedDate, 'MMM d, yyyy'); } } catch (e) { /* ignore */ }
 
@@ -185,7 +195,7 @@ const ExpenseList = () => {
                     <TableRow className="hover:bg-muted/50 cursor-pointer" onClick={() => handleViewDetails(expense)}>
                         <TableCell className="max-w-[150px] truncate font-medium" title={expense.description}>{expense.description}</TableCell>
                         <TableCell>{payerElement}</TableCell>
-                        <TableCell className="text-right whitespace-nowrap">{formatCurrency(expense.amount)}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">{formatCurrency(expense.amount, baseCurrency)}{originalAmount && <div className="text-xs text-muted-foreground" title={originalAmount.rate ?? undefined}>{originalAmount.amount}</div>}</TableCell>
                         <TableCell>{splitMethodElement}</TableCell>
                         <TableCell className="whitespace-nowrap">{formattedDate}</TableCell>
                         <TableCell>{categoryFormatted}</TableCell>
@@ -268,14 +278,14 @@ const ExpenseList = () => {
         });
      }, [ isLoading, error, selectedProperty, rawExpenses, filteredExpenses, hasActiveFilters, user, typedMemberProfiles,
         renderPayer, renderSplitMethod, renderMyStatus, handleEdit, handleDeleteRequest, settlingSplitId,
-        loadingReceiptId, handleViewDetails, handleSettleSplit, handleViewReceipt ]);
+        loadingReceiptId, handleViewDetails, handleSettleSplit, handleViewReceipt, baseCurrency ]);
 
 
     // --- Main Return Structure ---
     return (
         <div className="space-y-6 pb-10">
             {/* Header, Filters, Card/Table structure */}
-            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2"><div><h1 className="text-2xl sm:text-3xl font-bold tracking-tight text-gray-900">Expenses</h1><p className="text-muted-foreground text-sm sm:text-base"> View and manage expenses for {selectedProperty?.name || 'property'}. </p></div><Button onClick={() => setIsAddDialogOpen(true)} disabled={!selectedProperty || isLoading}><PlusCircle className="mr-2 h-4 w-4" /> Add Expense</Button></div>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2"><div><h1 className="text-2xl sm:text-3xl font-bold tracking-tight text-gray-900">Expenses</h1><p className="text-muted-foreground text-sm sm:text-base"> View and manage expenses for {selectedProperty?.name || 'property'}. </p></div><div className="flex gap-2"><Button variant="outline" onClick={() => setIsImportDialogOpen(true)} disabled={!selectedProperty || isLoading}><Upload className="mr-2 h-4 w-4" /> Import CSV</Button><Button variant="outline" onClick={() => setIsExportDialogOpen(true)} disabled={!selectedProperty || isLoading || filteredExpenses.length === 0}><Download className="mr-2 h-4 w-4" /> Export</Button><Button onClick={() => setIsAddDialogOpen(true)} disabled={!selectedProperty || isLoading}><PlusCircle className="mr-2 h-4 w-4" /> Add Expense</Button></div></div>
             <div className="flex flex-wrap items-center gap-3 sm:gap-4">
                  <div className="relative flex-1 sm:flex-initial min-w-[200px]"><Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" /><Input type="search" placeholder="Search..." value={searchTermInput} onChange={(e) => setSearchTermInput(e.target.value)} className="w-full rounded-lg bg-background pl-8" /></div>
                  <Select value={String(categoryFilter)} onValueChange={(value) => setCategoryFilter(value === 'all' ? 'all' : value as ExpenseCategory)}><SelectTrigger className="w-full flex-1 min-w-[180px] sm:w-auto sm:flex-none"><SelectValue placeholder="Category" /></SelectTrigger><SelectContent><SelectItem value="all">All Categories</SelectItem>{Object.values(ExpenseCategory).map((cat) => (<SelectItem key={String(cat)} value={String(cat)}>{formatCategoryName(cat)}</SelectItem>))}</SelectContent></Select>
@@ -308,6 +318,8 @@ const ExpenseList = () => {
 
             {/* Dialogs and Sheet */}
             {selectedProperty && ( <AddExpenseDialog isOpen={isAddDialogOpen} onOpenChange={setIsAddDialogOpen} /> )}
+            {selectedProperty && ( <ImportExpensesDialog isOpen={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} /> )}
+            {selectedProperty && ( <ExportExpensesDialog isOpen={isExportDialogOpen} onOpenChange={setIsExportDialogOpen} expenses={filteredExpenses} hasActiveFilters={hasActiveFilters} /> )}
             {selectedProperty && expenseToEdit && ( <EditExpenseDialog isOpen={isEditDialogOpen} onOpenChange={(open) => { setIsEditDialogOpen(open); if (!open) setExpenseToEdit(null); }} expense={expenseToEdit} /> )}
             <AlertDialog open={isDeleteDialogOpen} onOpenChange={(open) => { setIsDeleteDialogOpen(open); if (!open) { setExpenseToDelete(null); setIsDeleting(false); } }}><AlertDialogContent><AlertDialogHeader><AlertDialogTitle>Are you sure?</AlertDialogTitle><AlertDialogDescription>Delete expense "{expenseToDelete?.description}"? Cannot be undone.</AlertDialogDescription></AlertDialogHeader><AlertDialogFooter><AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel><AlertDialogAction onClick={handleConfirmDelete} disabled={isDeleting} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">{isDeleting ? (<><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Deleting...</>) : "Continue"}</AlertDialogAction></AlertDialogFooter></AlertDialogContent></AlertDialog>
             <ExpenseDetailSheet isOpen={isDetailSheetOpen} onOpenChange={setIsDetailSheetOpen} expense={expenseForDetail} />
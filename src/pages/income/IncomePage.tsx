@@ -0,0 +1,131 @@
+// src/pages/income/IncomePage.tsx
+// v3 - Amounts are shown in the property's base currency.
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useIncome } from '@/lib/income';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Loader2, PlusCircle, Trash2, Wallet } from 'lucide-react';
+import { AddIncomeDialog } from '@/components/income/AddIncomeDialog';
+import { formatCategoryName, formatCurrency, formatDate } from '@/lib/utils';
+import { DEFAULT_BASE_CURRENCY } from '@/lib/currency';
+import { Income, Profile } from '@/integrations/supabase/types';
+
+const getDisplayName = (profile: Pick<Profile, 'first_name' | 'last_name' | 'email'> | null | undefined): string => {
+  if (!profile) return 'Former Member';
+  const name = [profile.first_name, profile.last_name].filter(Boolean).join(' ');
+  return name || profile.email || 'Unnamed User';
+};
+
+export function IncomePage() {
+  const { selectedProperty, propertyMembers } = useProperty();
+  const baseCurrency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
+  const { incomes, isLoadingIncomes, deleteIncome, canDeleteIncome } = useIncome();
+  const [incomeToDelete, setIncomeToDelete] = useState<Income | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => { document.title = `Income | CoHaven`; }, []);
+
+  const profileMap = useMemo(() => new Map(propertyMembers.filter(m => m.property_id === selectedProperty?.id).map(m => [m.user_id, m.profile])), [propertyMembers, selectedProperty]);
+  const yearToDate = useMemo(() => {
+    const yearPrefix = `${new Date().getFullYear()}-`;
+    return incomes.filter(i => i.date.startsWith(yearPrefix)).reduce((sum, i) => sum + Number(i.amount), 0);
+  }, [incomes]);
+
+  const handleConfirmDelete = async () => {
+    if (!incomeToDelete) return;
+    setIsDeleting(true);
+    const deleted = await deleteIncome(incomeToDelete.id);
+    setIsDeleting(false);
+    if (deleted) setIncomeToDelete(null);
+  };
+
+  if (!selectedProperty) {
+    return <div className="text-center py-10 text-muted-foreground">Select a property to view income.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold tracking-tight">Income</h1>
+        <AddIncomeDialog trigger={<Button><PlusCircle className="mr-2 h-4 w-4" /> Record Income</Button>} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Wallet className="h-5 w-5" /> Income Ledger</CardTitle>
+          <CardDescription>{formatCurrency(yearToDate, baseCurrency)} received so far this year. See Reports for profit & loss against expenses.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingIncomes && !incomes.length ? (
+            <div className="flex justify-center items-center py-10"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /></div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Distribution</TableHead>
+                    <TableHead className="text-right"><span className="sr-only">Actions</span></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {incomes.length === 0 && (
+                    <TableRow><TableCell colSpan={6} className="h-24 text-center">No income recorded yet.</TableCell></TableRow>
+                  )}
+                  {incomes.map(income => (
+                    <TableRow key={income.id}>
+                      <TableCell className="whitespace-nowrap">{formatDate(income.date)}</TableCell>
+                      <TableCell><Badge variant="secondary">{formatCategoryName(income.source)}</Badge></TableCell>
+                      <TableCell className="max-w-[200px] truncate" title={income.description ?? undefined}>{income.description || '—'}</TableCell>
+                      <TableCell className="text-right font-semibold text-green-600">{formatCurrency(Number(income.amount), baseCurrency)}</TableCell>
+                      <TableCell>
+                        <div className="text-xs text-muted-foreground mb-1">{income.distribution_method === 'ownership' ? 'By ownership' : 'Custom'}</div>
+                        {income.distributions.map(d => (
+                          <div key={d.id} className="text-sm whitespace-nowrap">{getDisplayName(profileMap.get(d.user_id))}: {formatCurrency(Number(d.amount), baseCurrency)}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canDeleteIncome(income) && (
+                          <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => setIncomeToDelete(income)} aria-label="Delete income">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!incomeToDelete} onOpenChange={(open) => { if (!open && !isDeleting) setIncomeToDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Income?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {incomeToDelete && <>Delete {formatCurrency(Number(incomeToDelete.amount), baseCurrency)} of {formatCategoryName(incomeToDelete.source).toLowerCase()} income from {formatDate(incomeToDelete.date)}? Its distributions are removed too.</>}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction disabled={isDeleting} onClick={(e) => { e.preventDefault(); handleConfirmDelete(); }} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default IncomePage;
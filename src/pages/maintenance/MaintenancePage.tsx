@@ -1,7 +1,5 @@
 // src/pages/maintenance/MaintenancePage.tsx
-// v7 - Corrected renderTableBody structure and conditional returns.
-//    - Moved helper functions inside component scope.
-//    - Reinforced null checks in useMemo filter logic.
+// v8 - Scheduled dates are shown as the stored calendar day.
 
 import React, { useState, useMemo, useCallback } from 'react';
 import { useMaintenance } from '@/contexts/MaintenanceContext';
@@ -36,7 +34,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { MoreHorizontal, PlusCircle, Loader2, AlertTriangle, Search, X, Edit, Trash2, Link } from 'lucide-react';
 import { format } from 'date-fns';
-import { cn, getInitials } from '@/lib/utils';
+import { cn, getInitials, parseCalendarDayTimestamp } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import { AddTaskDialog } from '@/components/maintenance/AddTaskDialog';
 import { EditTaskDialog } from '@/components/maintenance/EditTaskDialog'; // Will need v15+ later
@@ -239,7 +237,7 @@ const MaintenancePage: React.FC = () => {
                     {renderAssignee(task.assignee_profile || null)}
                 </TableCell>
                 <TableCell className="text-xs text-muted-foreground">
-                    {task.scheduled_date_start ? format(new Date(task.scheduled_date_start), 'PP') : '-'}
+                    {task.scheduled_date_start ? format(parseCalendarDayTimestamp(task.scheduled_date_start)!, 'PP') : '-'}
                     {task.blocks_booking && task.scheduled_date_start && <span title="Blocks Booking"> 🔒</span>}
                 </TableCell>
                 <TableCell className="text-xs text-muted-foreground">
@@ -22,6 +22,9 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from '@/components/ui/skeleton'; // For loading state
+import { CURRENCIES, DEFAULT_BASE_CURRENCY } from '@/lib/currency';
+import ExchangeRatesCard from '@/components/properties/ExchangeRatesCard';
+import { UsageEnforcement, UsageEnforcementType } from '@/integrations/supabase/types';
 
 // Property types list (keep consistent with NewProperty)
 const propertyTypes = [
@@ -46,6 +49,10 @@ interface EditFormData {
     zip_code: string;
     country: string;
     description: string;
+    base_currency: string;
+    approval_threshold: string; // Empty = no approval required
+    usage_nights_per_year: string; // Empty = no usage entitlements
+    usage_enforcement: UsageEnforcementType;
 }
 
 const EditProperty = () => {
@@ -66,6 +73,10 @@ const EditProperty = () => {
     zip_code: "",
     country: "",
     description: "",
+    base_currency: DEFAULT_BASE_CURRENCY,
+    approval_threshold: "",
+    usage_nights_per_year: "",
+    usage_enforcement: "warn",
   });
 
   // Effect to find and load property data into the form
@@ -86,6 +97,10 @@ const EditProperty = () => {
                     zip_code: propertyToEdit.zip_code || "",
                     country: propertyToEdit.country || "",
                     description: propertyToEdit.description || "",
+                    base_currency: propertyToEdit.base_currency || DEFAULT_BASE_CURRENCY,
+                    approval_threshold: propertyToEdit.approval_threshold != null ? String(propertyToEdit.approval_threshold) : "",
+                    usage_nights_per_year: propertyToEdit.usage_nights_per_year != null ? String(propertyToEdit.usage_nights_per_year) : "",
+                    usage_enforcement: propertyToEdit.usage_enforcement || "warn",
                 });
                 setIsLoadingData(false); // Data loaded
             } else {
@@ -128,6 +143,16 @@ const EditProperty = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!propertyId) return; // Should not happen if we are on this page
+    const approvalThreshold = formData.approval_threshold.trim() === "" ? null : Number(formData.approval_threshold);
+    if (approvalThreshold !== null && !(approvalThreshold > 0)) {
+      toast({ title: "Error", description: "The approval limit must be a positive amount, or left empty.", variant: "destructive" });
+      return;
+    }
+    const usageNightsPerYear = formData.usage_nights_per_year.trim() === "" ? null : Number(formData.usage_nights_per_year);
+    if (usageNightsPerYear !== null && !(Number.isInteger(usageNightsPerYear) && usageNightsPerYear >= 1 && usageNightsPerYear <= 366)) {
+      toast({ title: "Error", description: "Nights per year must be a whole number from 1 to 366, or left empty.", variant: "destructive" });
+      return;
+    }
 
     setIsSubmitting(true);
     try {
@@ -140,6 +165,10 @@ const EditProperty = () => {
         zip_code: formData.zip_code,
         country: formData.country,
         description: formData.description || null, // Ensure null if empty
+        base_currency: formData.base_currency,
+        approval_threshold: approvalThreshold,
+        usage_nights_per_year: usageNightsPerYear,
+        usage_enforcement: formData.usage_enforcement,
       });
 
       if (updatedProperty) {
@@ -329,6 +358,82 @@ const EditProperty = () => {
                 </div>
               </div>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="base_currency" className="font-inter">Base Currency</Label>
+              <Select
+                value={formData.base_currency}
+                onValueChange={(value) => handleSelectChange("base_currency", value)}
+              >
+                <SelectTrigger id="base_currency" className="font-inter">
+                  <SelectValue placeholder="Select currency" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((currency) => (
+                    <SelectItem key={currency.code} value={currency.code} className="font-inter">
+                      {currency.code} - {currency.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground font-inter">
+                Members settle up in this currency. Changing it does not convert expenses already recorded.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="approval_threshold" className="font-inter">Approval Limit</Label>
+              <Input
+                id="approval_threshold"
+                name="approval_threshold"
+                type="number"
+                min="0.01"
+                step="0.01"
+                placeholder="No approval required"
+                value={formData.approval_threshold}
+                onChange={handleChange}
+                className="font-inter"
+              />
+              <p className="text-xs text-muted-foreground font-inter">
+                Expenses above this amount ({formData.base_currency}) wait for an owner or co-owner to approve them before they count toward balances. Leave empty to turn approval off.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="usage_nights_per_year" className="font-inter">Nights per Year</Label>
+                <Input
+                  id="usage_nights_per_year"
+                  name="usage_nights_per_year"
+                  type="number"
+                  min="1"
+                  max="366"
+                  step="1"
+                  placeholder="No entitlements"
+                  value={formData.usage_nights_per_year}
+                  onChange={handleChange}
+                  className="font-inter"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="usage_enforcement" className="font-inter">Over Entitlement</Label>
+                <Select
+                  value={formData.usage_enforcement}
+                  onValueChange={(value) => handleSelectChange("usage_enforcement", value)}
+                >
+                  <SelectTrigger id="usage_enforcement" className="font-inter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UsageEnforcement.Warn} className="font-inter">Warn, but allow the booking</SelectItem>
+                    <SelectItem value={UsageEnforcement.Block} className="font-inter">Refuse the booking</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-muted-foreground font-inter md:col-span-2">
+                The nights owners share each year, split by ownership percentage. Peak and holiday seasons are set on the calendar. Leave empty to turn entitlements off.
+              </p>
+            </div>
           </CardContent>
           <CardFooter className="flex justify-between border-t p-6">
             <Button
@@ -350,6 +455,9 @@ const EditProperty = () => {
           </CardFooter>
         </form>
       </Card>
+
+      {/* Rates are recorded against the saved base currency, not an unsaved selection above */}
+      {propertyId && <ExchangeRatesCard propertyId={propertyId} baseCurrency={properties.find(p => p.id === propertyId)?.base_currency || DEFAULT_BASE_CURRENCY} />}
     </div>
   );
 };
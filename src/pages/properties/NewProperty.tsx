@@ -22,6 +22,7 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useProperty } from "@/contexts/PropertyContext";
+import { CURRENCIES, DEFAULT_BASE_CURRENCY } from "@/lib/currency";
 
 const propertyTypes = [
   "Vacation Home",
@@ -49,6 +50,7 @@ const NewProperty = () => {
     zip_code: "",
     country: "",
     description: "",
+    base_currency: DEFAULT_BASE_CURRENCY,
   });
 
   const handleChange = (
@@ -82,6 +84,7 @@ const NewProperty = () => {
         state: formData.state,
         zip_code: formData.zip_code,
         country: formData.country,
+        base_currency: formData.base_currency,
         description: formData.description || null,
       });
       
@@ -229,6 +232,28 @@ const NewProperty = () => {
                 </div>
               </div>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="base_currency">Base Currency</Label>
+              <Select
+                value={formData.base_currency}
+                onValueChange={(value) => handleSelectChange("base_currency", value)}
+              >
+                <SelectTrigger id="base_currency">
+                  <SelectValue placeholder="Select currency" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((currency) => (
+                    <SelectItem key={currency.code} value={currency.code}>
+                      {currency.code} - {currency.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Members settle up in this currency. Expenses billed in other currencies are converted to it.
+              </p>
+            </div>
           </CardContent>
           <CardFooter className="flex justify-between border-t p-6">
             <Button
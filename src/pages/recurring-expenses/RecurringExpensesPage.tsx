@@ -4,6 +4,8 @@ import { RecurringExpenseList } from '@/components/recurring-expenses/RecurringE
 import { EditRecurringExpenseDialog } from '@/components/recurring-expenses/EditRecurringExpenseDialog';
 import { AddRecurringExpenseDialog } from '@/components/recurring-expenses/AddRecurringExpenseDialog';
 import { RecurringExpenseDetailSheet } from '@/components/recurring-expenses/RecurringExpenseDetailSheet'; // Import the new Sheet component
+import { RecurringForecastCard } from '@/components/recurring-expenses/RecurringForecastCard';
+import { RecurringDraftReviewQueue } from '@/components/recurring-expenses/RecurringDraftReviewQueue';
 import { RecurringExpense } from '@/integrations/supabase/types';
 import { useProperty } from '@/contexts/PropertyContext';
 import { Button } from '@/components/ui/button';
@@ -79,6 +81,9 @@ export function RecurringExpensesPage() {
                 )}
             </div>
 
+            {/* Variable-amount bills waiting for the payer to confirm */}
+            {selectedProperty && <RecurringDraftReviewQueue />}
+
             {/* Main Content Area - Render the List */}
             {/* Pass handlers down, including onViewDetails */}
             <RecurringExpenseList
@@ -87,6 +92,9 @@ export function RecurringExpensesPage() {
                 onViewDetails={handleViewDetails} // Pass detail handler
             />
 
+            {/* Cash-flow forecast from the active templates */}
+            {selectedProperty && <RecurringForecastCard />}
+
             {/* Render the Add/Duplicate Dialog (Controlled) */}
             <AddRecurringExpenseDialog
                 isOpen={isAddDialogOpen}
@@ -0,0 +1,255 @@
+// src/pages/reports/ReportsPage.tsx
+// v5 - P&L and tax tables, and the tax statement PDF, use the property's base currency.
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useExpenses } from '@/contexts/ExpenseContext';
+import { useIncome } from '@/lib/income';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, FileText, Loader2, TrendingUp } from 'lucide-react';
+import { addDays, format, parseISO } from 'date-fns';
+import { cn, formatCategoryName, formatCurrency } from '@/lib/utils';
+import { DEFAULT_BASE_CURRENCY } from '@/lib/currency';
+import { downloadFile } from '@/lib/expenseExport';
+import { buildProfitAndLoss } from '@/lib/profitAndLoss';
+import { buildTaxReport, renderTaxReportPdf, getTaxReportYears, DEDUCTIBLE_CATEGORIES, TAX_CATEGORY_LABELS } from '@/lib/taxReport';
+import { Profile } from '@/integrations/supabase/types';
+
+const RECEIPTS_BUCKET = 'expense-receipts'; // expense.receipt_url
+const DOCUMENTS_BUCKET = 'property-documents'; // documents.storage_path, as uploaded by DocumentContext
+const RECEIPT_LINK_TTL_DAYS = 365; // Statements are kept with the tax return, so links need to outlive the filing season
+
+const getDisplayName = (profile: Pick<Profile, 'first_name' | 'last_name' | 'email'> | null | undefined): string => {
+  if (!profile) return 'Former Member';
+  const name = [profile.first_name, profile.last_name].filter(Boolean).join(' ');
+  return name || profile.email || 'Unnamed User';
+};
+
+export function ReportsPage() {
+  const { user } = useAuth();
+  const { selectedProperty, propertyMembers } = useProperty();
+  const baseCurrency = selectedProperty?.base_currency || DEFAULT_BASE_CURRENCY;
+  const { combinedExpenses, isLoadingExpenses } = useExpenses();
+  const { incomes, isLoadingIncomes } = useIncome();
+  const { toast } = useToast();
+  const [pnlYear, setPnlYear] = useState<number>(new Date().getFullYear());
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [downloadingFor, setDownloadingFor] = useState<string | null>(null); // member id, or 'all'
+
+  useEffect(() => { document.title = `Reports | CoHaven`; }, []);
+
+  const members = useMemo(() => selectedProperty
+    ? propertyMembers.filter(m => m.property_id === selectedProperty.id).map(m => ({ user_id: m.user_id, name: getDisplayName(m.profile) }))
+    : [], [selectedProperty, propertyMembers]);
+
+  // Default to the most recent completed year with data, since statements are prepared after year end
+  const years = useMemo(() => {
+    const withData = getTaxReportYears(combinedExpenses);
+    const lastYear = new Date().getFullYear() - 1;
+    return withData.includes(lastYear) || withData.length === 0 ? Array.from(new Set([lastYear, ...withData])).sort((a, b) => b - a) : withData;
+  }, [combinedExpenses]);
+  useEffect(() => { if (selectedYear == null || !years.includes(selectedYear)) setSelectedYear(years[0] ?? null); }, [years, selectedYear]);
+
+  const pnlYears = useMemo(() => Array.from(new Set([new Date().getFullYear(), ...[...combinedExpenses, ...incomes].map(e => Number(e.date?.slice(0, 4))).filter(Boolean)]))
+    .sort((a, b) => b - a), [combinedExpenses, incomes]);
+  const pnl = useMemo(() => buildProfitAndLoss(combinedExpenses, incomes, `${pnlYear}-01-01`, `${pnlYear}-12-31`, members.map(m => m.user_id)),
+    [combinedExpenses, incomes, pnlYear, members]);
+  const memberNameOf = (userId: string) => members.find(m => m.user_id === userId)?.name ?? 'Former Member';
+  const signedClass = (value: number) => cn(value > 0 && "text-green-600", value < 0 && "text-red-600");
+
+  const report = useMemo(() => selectedYear == null ? null : buildTaxReport(combinedExpenses, selectedYear, members), [combinedExpenses, selectedYear, members]);
+
+  // Receipts come from the expense itself and from documents linked to it in the documents store
+  const fetchReceiptLinks = async (expenseIds: string[]): Promise<Record<string, string[]>> => {
+    if (expenseIds.length === 0 || !selectedProperty) return {};
+    const receiptPaths = combinedExpenses
+      .filter(e => expenseIds.includes(e.id) && !!e.receipt_url)
+      .map(e => ({ expenseId: e.id, path: e.receipt_url! }));
+    const { data: linkedDocs, error: docsError } = await supabase.from('documents').select('linked_expense_id, storage_path')
+      .eq('property_id', selectedProperty.id).in('linked_expense_id', expenseIds);
+    if (docsError) throw docsError;
+    const documentPaths = (linkedDocs ?? [])
+      .filter(doc => doc.linked_expense_id && doc.storage_path)
+      .map(doc => ({ expenseId: doc.linked_expense_id!, path: doc.storage_path }));
+
+    const links: Record<string, string[]> = {};
+    const signInto = async (bucket: string, paths: { expenseId: string; path: string }[]) => {
+      if (paths.length === 0) return;
+      const { data: signed, error } = await supabase.storage.from(bucket).createSignedUrls(Array.from(new Set(paths.map(p => p.path))), RECEIPT_LINK_TTL_DAYS * 24 * 60 * 60);
+      if (error) throw error;
+      paths.forEach(({ expenseId, path }) => {
+        const url = signed?.find(s => s.path === path)?.signedUrl;
+        if (url && !links[expenseId]?.includes(url)) links[expenseId] = [...(links[expenseId] ?? []), url];
+      });
+    };
+    await signInto(RECEIPTS_BUCKET, receiptPaths);
+    await signInto(DOCUMENTS_BUCKET, documentPaths);
+    return links;
+  };
+
+  const handleDownload = async (memberId: string | null) => {
+    if (!report || !selectedProperty) return;
+    setDownloadingFor(memberId ?? 'all');
+    try {
+      const included = report.members.filter(m => !memberId || m.userId === memberId);
+      const receiptLinks = await fetchReceiptLinks(Array.from(new Set(included.flatMap(m => m.items.map(i => i.expenseId)))));
+      const pdf = renderTaxReportPdf(report, { propertyName: selectedProperty.name, currency: baseCurrency, receiptLinks, receiptLinksExpireOn: addDays(new Date(), RECEIPT_LINK_TTL_DAYS) }, memberId ? [memberId] : undefined);
+      const slug = (memberId ? included[0]?.name : selectedProperty.name)?.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'statement';
+      downloadFile(pdf, `tax-statement-${report.year}-${slug}.pdf`, 'application/pdf');
+    } catch (err) {
+      console.error("Error generating tax report:", err);
+      toast({ variant: "destructive", title: "Report Failed", description: err instanceof Error ? err.message : "Could not generate the tax report." });
+    } finally {
+      setDownloadingFor(null);
+    }
+  };
+
+  if (!selectedProperty) {
+    return <div className="text-center py-10 text-muted-foreground">Select a property to view reports.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold tracking-tight">Reports</h1>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2"><TrendingUp className="h-5 w-5" /> Profit & Loss</CardTitle>
+            <CardDescription>Income against expenses for the year, and each member's share of the result.</CardDescription>
+          </div>
+          <Select value={String(pnlYear)} onValueChange={(value) => setPnlYear(Number(value))}>
+            <SelectTrigger className="w-[110px]"><SelectValue /></SelectTrigger>
+            <SelectContent>{pnlYears.map(year => <SelectItem key={year} value={String(year)}>{year}</SelectItem>)}</SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {(isLoadingExpenses && !combinedExpenses.length) || (isLoadingIncomes && !incomes.length) ? (
+            <div className="flex justify-center items-center py-10"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /></div>
+          ) : (
+            <>
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="rounded-md border p-4"><p className="text-sm text-muted-foreground">Income</p><p className="text-2xl font-bold text-green-600">{formatCurrency(pnl.totals.income, baseCurrency)}</p></div>
+                <div className="rounded-md border p-4"><p className="text-sm text-muted-foreground">Expenses</p><p className="text-2xl font-bold text-red-600">{formatCurrency(pnl.totals.expenses, baseCurrency)}</p></div>
+                <div className="rounded-md border p-4"><p className="text-sm text-muted-foreground">Net</p><p className={cn("text-2xl font-bold", signedClass(pnl.totals.net))}>{formatCurrency(pnl.totals.net, baseCurrency)}</p></div>
+              </div>
+              <div className="grid gap-6 lg:grid-cols-2">
+                <Table>
+                  <TableHeader><TableRow><TableHead>Month</TableHead><TableHead className="text-right">Income</TableHead><TableHead className="text-right">Expenses</TableHead><TableHead className="text-right">Net</TableHead></TableRow></TableHeader>
+                  <TableBody>
+                    {pnl.months.map(m => (
+                      <TableRow key={m.month}>
+                        <TableCell>{format(parseISO(`${m.month}-01`), 'MMM yyyy')}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(m.income, baseCurrency)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(m.expenses, baseCurrency)}</TableCell>
+                        <TableCell className={cn("text-right font-medium", signedClass(m.net))}>{formatCurrency(m.net, baseCurrency)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <div className="space-y-6">
+                  <Table>
+                    <TableHeader><TableRow><TableHead>Member</TableHead><TableHead className="text-right">Income Share</TableHead><TableHead className="text-right">Expense Share</TableHead><TableHead className="text-right">Net</TableHead></TableRow></TableHeader>
+                    <TableBody>
+                      {pnl.members.map(m => (
+                        <TableRow key={m.userId}>
+                          <TableCell className="font-medium">{m.userId === user?.id ? `${memberNameOf(m.userId)} (You)` : memberNameOf(m.userId)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(m.income, baseCurrency)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(m.expenses, baseCurrency)}</TableCell>
+                          <TableCell className={cn("text-right font-medium", signedClass(m.net))}>{formatCurrency(m.net, baseCurrency)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <Table>
+                    <TableHeader><TableRow><TableHead>Income by Source</TableHead><TableHead className="text-right">Amount</TableHead></TableRow></TableHeader>
+                    <TableBody>
+                      {Object.keys(pnl.incomeBySource).length === 0 && <TableRow><TableCell colSpan={2} className="text-center text-muted-foreground">No income recorded.</TableCell></TableRow>}
+                      {Object.entries(pnl.incomeBySource).map(([source, amount]) => <TableRow key={source}><TableCell>{formatCategoryName(source)}</TableCell><TableCell className="text-right">{formatCurrency(amount, baseCurrency)}</TableCell></TableRow>)}
+                    </TableBody>
+                  </Table>
+                  <Table>
+                    <TableHeader><TableRow><TableHead>Expenses by Category</TableHead><TableHead className="text-right">Amount</TableHead></TableRow></TableHeader>
+                    <TableBody>
+                      {Object.keys(pnl.expensesByCategory).length === 0 && <TableRow><TableCell colSpan={2} className="text-center text-muted-foreground">No expenses recorded.</TableCell></TableRow>}
+                      {Object.entries(pnl.expensesByCategory).sort((a, b) => b[1] - a[1]).map(([category, amount]) => <TableRow key={category}><TableCell>{formatCategoryName(category)}</TableCell><TableCell className="text-right">{formatCurrency(amount, baseCurrency)}</TableCell></TableRow>)}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2"><FileText className="h-5 w-5" /> Annual Tax Statement</CardTitle>
+            <CardDescription>Each co-owner's share of deductible costs (mortgage interest, taxes, insurance, HOA fees, maintenance and repairs) for the year.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={selectedYear != null ? String(selectedYear) : undefined} onValueChange={(value) => setSelectedYear(Number(value))}>
+              <SelectTrigger className="w-[110px]"><SelectValue placeholder="Year" /></SelectTrigger>
+              <SelectContent>{years.map(year => <SelectItem key={year} value={String(year)}>{year}</SelectItem>)}</SelectContent>
+            </Select>
+            <Button onClick={() => handleDownload(null)} disabled={!report || !!downloadingFor || members.length === 0}>
+              {downloadingFor === 'all' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />} All Statements
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoadingExpenses && !combinedExpenses.length ? (
+            <div className="flex justify-center items-center py-10"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /></div>
+          ) : report && (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    {DEDUCTIBLE_CATEGORIES.map(category => <TableHead key={category} className="text-right whitespace-nowrap">{TAX_CATEGORY_LABELS[category]}</TableHead>)}
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right"><span className="sr-only">Download</span></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.members.map(member => (
+                    <TableRow key={member.userId}>
+                      <TableCell className="font-medium whitespace-nowrap">{member.userId === user?.id ? `${member.name} (You)` : member.name}</TableCell>
+                      {DEDUCTIBLE_CATEGORIES.map(category => <TableCell key={category} className="text-right">{formatCurrency(member.byCategory[category], baseCurrency)}</TableCell>)}
+                      <TableCell className="text-right font-semibold">{formatCurrency(member.total, baseCurrency)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="outline" onClick={() => handleDownload(member.userId)} disabled={!!downloadingFor}>
+                          {downloadingFor === member.userId ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />} PDF
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Property Total</TableCell>
+                    {DEDUCTIBLE_CATEGORIES.map(category => <TableCell key={category} className="text-right">{formatCurrency(report.categoryTotals[category], baseCurrency)}</TableCell>)}
+                    <TableCell className="text-right">{formatCurrency(report.grandTotal, baseCurrency)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              </Table>
+              <p className="text-xs text-muted-foreground mt-3">Mortgage amounts are the payments as recorded; only the interest portion is deductible. Statements link to receipts attached to each expense or linked to it in Documents.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default ReportsPage;
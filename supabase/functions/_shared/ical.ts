@@ -0,0 +1,162 @@
+// supabase/functions/_shared/ical.ts
+// v1 - RFC 5545 iCalendar writing (all-day events) and VEVENT parsing.
+// Keep this file dependency-free: calendar-feed writes the feed with it and the web app parses imports with
+// it, so both agree on line folding, escaping and the exclusive DTEND of all-day events.
+
+// Dates here are 'YYYY-MM-DD' and inclusive on both ends, as on the calendar
+export interface IcsEventInput {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  start: string;
+  end: string;
+  status?: 'CONFIRMED' | 'TENTATIVE';
+}
+export interface ParsedIcsEvent {
+  uid: string | null;
+  summary: string;
+  description: string | null;
+  start: string | null; // null when DTSTART is missing or unreadable
+  end: string | null;
+  status: string | null; // STATUS as written, upper-cased
+  recurring: boolean; // Has an RRULE or RDATE; only its first occurrence is described here
+}
+
+// UIDs of the events calendar-feed writes; importing CoHaven's own feed would otherwise copy its stays back in
+export const COHAVEN_UID_DOMAIN = 'cohaven';
+export const cohavenEventUid = (kind: 'booking' | 'maintenance', id: string): string => `${kind}-${id}@${COHAVEN_UID_DOMAIN}`;
+export const isCohavenEventUid = (uid: string): boolean => uid.toLowerCase().endsWith(`@${COHAVEN_UID_DOMAIN}`);
+
+const pad = (n: number, width = 2): string => String(n).padStart(width, '0');
+const toUtcDate = (date: string): Date => new Date(`${date}T00:00:00Z`);
+const fromUtcDate = (d: Date): string => `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+const addDays = (date: string, days: number): string => fromUtcDate(new Date(toUtcDate(date).getTime() + days * 86400000));
+
+// --- Writing ---
+const escapeText = (text: string): string => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+const basicDate = (date: string): string => date.replace(/-/g, '');
+const utcStamp = (d: Date): string =>
+  `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1), never splitting a character
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (currentBytes + bytes > (parts.length ? 74 : 75)) { parts.push(current); current = ''; currentBytes = 0; }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function buildIcsCalendar(calendarName: string, events: IcsEventInput[], now: Date = new Date()): string {
+  const stamp = utcStamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//CoHaven//Property Calendar//EN', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${basicDate(event.start)}`,
+      `DTEND;VALUE=DATE:${basicDate(addDays(event.end, 1))}`, // All-day DTEND is exclusive
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      `STATUS:${event.status ?? 'CONFIRMED'}`, 'TRANSP:OPAQUE', 'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// --- Parsing ---
+const unescapeText = (text: string): string => text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+interface ContentLine { name: string; params: Record<string, string>; value: string; }
+
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) { colon = i; break; }
+  }
+  if (colon < 0) return null;
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf('=');
+    if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// DATE values and DATE-TIME values both give the calendar date as written; a UTC ('Z') time is not shifted
+// into the viewer's zone, which matches how listing sites publish check-in and check-out days
+function readDate(prop: ContentLine | undefined): { date: string; isDateTime: boolean; isMidnight: boolean } | null {
+  const match = prop?.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  if (Number.isNaN(toUtcDate(date).getTime()) || fromUtcDate(toUtcDate(date)) !== date) return null;
+  return { date, isDateTime: match[4] !== undefined, isMidnight: match[4] === undefined || `${match[4]}${match[5]}${match[6]}` === '000000' };
+}
+
+// Whole days only (e.g. 'P3D', 'P1W'); shorter durations end on the start day
+function durationDays(value: string | undefined): number {
+  const match = value?.trim().match(/^\+?P(?:(\d+)W)?(?:(\d+)D)?/);
+  return match ? Number(match[1] ?? 0) * 7 + Number(match[2] ?? 0) : 0;
+}
+
+function toParsedEvent(props: ContentLine[]): ParsedIcsEvent {
+  const get = (name: string) => props.find(p => p.name === name);
+  const start = readDate(get('DTSTART'));
+  const dtEnd = readDate(get('DTEND'));
+  let end: string | null = null;
+  if (start) {
+    if (dtEnd) {
+      // DTEND is exclusive; a stay ending at midnight (or an all-day DTEND) ends the day before
+      end = dtEnd.date > start.date && dtEnd.isMidnight ? addDays(dtEnd.date, -1) : dtEnd.date;
+    } else {
+      end = addDays(start.date, Math.max(durationDays(get('DURATION')?.value) - 1, 0));
+    }
+    if (end < start.date) end = start.date;
+  }
+  const description = get('DESCRIPTION');
+  return {
+    uid: get('UID')?.value.trim() || null,
+    summary: unescapeText(get('SUMMARY')?.value ?? '').trim(),
+    description: description ? unescapeText(description.value).trim() || null : null,
+    start: start?.date ?? null,
+    end,
+    status: get('STATUS')?.value.trim().toUpperCase() || null,
+    recurring: !!(get('RRULE') || get('RDATE')),
+  };
+}
+
+// Every VEVENT in the file, in order. Nested components (VALARM) and other components (VTODO, VTIMEZONE) are ignored.
+export function parseIcsEvents(text: string): ParsedIcsEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ParsedIcsEvent[] = [];
+  let props: ContentLine[] | null = null;
+  let nestedDepth = 0;
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+    const component = line.value.trim().toUpperCase();
+    if (line.name === 'BEGIN') {
+      if (props) nestedDepth++;
+      else if (component === 'VEVENT') props = [];
+    } else if (line.name === 'END') {
+      if (props && nestedDepth > 0) nestedDepth--;
+      else if (props && component === 'VEVENT') { events.push(toParsedEvent(props)); props = null; }
+    } else if (props && nestedDepth === 0) {
+      props.push(line);
+    }
+  }
+  return events;
+}
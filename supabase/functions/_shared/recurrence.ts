@@ -0,0 +1,296 @@
+// supabase/functions/_shared/recurrence.ts
+// v3 - Skip/pause exceptions: listOccurrences leaves out occurrences an exception covers.
+// Keep this file dependency-free: it is imported from both Deno and the Vite build, so generate-expenses
+// and the web app evaluate schedules identically.
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'biannually' | 'annually';
+export interface RecurrenceSchedule {
+  next_due_date: string; // First occurrence not yet turned into an expense
+  end_date: string | null; // Inclusive
+  frequency: string;
+  interval: number;
+  is_active: boolean;
+  start_date?: string; // DTSTART for recurrence_rule (falls back to next_due_date)
+  recurrence_rule?: string | null; // When set, replaces frequency/interval
+  exceptions?: RecurrenceException[]; // Occurrences not billed (recurring_expense_exceptions)
+}
+export interface RecurrenceException {
+  kind: 'skip' | 'pause';
+  start_date: string; // The skipped occurrence, or the first day of the pause
+  end_date: string | null; // Last day of the pause (inclusive); null for a skip
+}
+
+const MONTHS_PER_PERIOD: Record<string, number> = { monthly: 1, quarterly: 3, biannually: 6, annually: 12 };
+const DAYS_PER_PERIOD: Record<string, number> = { daily: 1, weekly: 7 };
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+const toDateString = (date: Date): string => `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+const parseDateString = (value: string): Date => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  if (!year || !month || !day) throw new Error(`Invalid date: ${value}`);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+const daysInMonth = (year: number, monthIndex: number): number => new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+/**
+ * Advances a due date by one schedule step.
+ * Month-based steps clamp to the end of shorter months (Jan 31 + 1 month = Feb 28), like date-fns addMonths.
+ * @param interval - Number of periods per step (e.g. 2 with 'monthly' is every other month).
+ */
+export function advanceDueDate(date: string, frequency: string, interval: number): string {
+  const step = Math.max(1, Math.floor(Number(interval) || 1));
+  const start = parseDateString(date);
+  if (frequency in DAYS_PER_PERIOD) {
+    start.setUTCDate(start.getUTCDate() + DAYS_PER_PERIOD[frequency] * step);
+    return toDateString(start);
+  }
+  if (!(frequency in MONTHS_PER_PERIOD)) throw new Error(`Unsupported frequency: ${frequency}`);
+  const totalMonths = start.getUTCFullYear() * 12 + start.getUTCMonth() + MONTHS_PER_PERIOD[frequency] * step;
+  const year = Math.floor(totalMonths / 12); const month = totalMonths % 12;
+  return toDateString(new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), daysInMonth(year, month)))));
+}
+
+// --- RRULE (RFC 5545 subset) ---
+// Supported parts: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, COUNT, UNTIL, BYDAY (with ordinals for
+// MONTHLY, and for YEARLY together with BYMONTH, where they count within the month), BYMONTHDAY
+// (negative = from month end), BYMONTH, BYSETPOS and WKST (weeks always start on Monday).
+// Examples: last business day of the month = FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1
+//           first and fifteenth            = FREQ=MONTHLY;BYMONTHDAY=1,15
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type RRuleWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+export interface RecurrenceRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay: { weekday: RRuleWeekday; ordinal: number | null }[]; // ordinal -1 = last in the month
+  byMonthDay: number[];
+  byMonth: number[]; // 1-12
+  bySetPos: number[];
+  count: number | null;
+  until: string | null; // 'yyyy-MM-dd', inclusive
+}
+
+export const RRULE_WEEKDAYS: RRuleWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const JS_DAY_TO_WEEKDAY: RRuleWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const IGNORED_PARTS = new Set(['WKST']);
+const MAX_PERIODS = 10000; // Safety cap on periods walked (27 years of days) for rules that rarely or never match
+
+const parseIntList = (name: string, value: string, min: number, max: number): number[] => value.split(',').map(part => {
+  const n = Number(part);
+  if (!Number.isInteger(n) || n === 0 || Math.abs(n) < min || Math.abs(n) > max) throw new Error(`Invalid ${name} value: ${part}`);
+  return n;
+});
+
+/** Parses an RRULE string ("FREQ=..." with or without the "RRULE:" prefix); throws an Error describing the first problem. */
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (!body) throw new Error('Recurrence rule is empty.');
+  const rule: RecurrenceRule = { freq: 'MONTHLY', interval: 1, byDay: [], byMonthDay: [], byMonth: [], bySetPos: [], count: null, until: null };
+  let hasFreq = false;
+  body.split(';').filter(Boolean).forEach(part => {
+    const [rawName, value = ''] = part.split('=');
+    const name = rawName.trim().toUpperCase();
+    const upper = value.trim().toUpperCase();
+    switch (name) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(upper as RRuleFrequency)) throw new Error(`Unsupported FREQ: ${value} (use DAILY, WEEKLY, MONTHLY or YEARLY).`);
+        rule.freq = upper as RRuleFrequency; hasFreq = true; break;
+      case 'INTERVAL':
+        rule.interval = Number(upper);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) throw new Error(`Invalid INTERVAL: ${value}`);
+        break;
+      case 'COUNT':
+        rule.count = Number(upper);
+        if (!Number.isInteger(rule.count) || rule.count < 1) throw new Error(`Invalid COUNT: ${value}`);
+        break;
+      case 'UNTIL': {
+        const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(upper) ?? /^(\d{4})-(\d{2})-(\d{2})$/.exec(upper);
+        if (!match) throw new Error(`Invalid UNTIL: ${value} (use YYYYMMDD).`);
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case 'BYDAY':
+        rule.byDay = upper.split(',').map(token => {
+          const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(token);
+          const ordinal = match?.[1] ? Number(match[1]) : null;
+          if (!match || ordinal === 0 || (ordinal !== null && Math.abs(ordinal) > 5)) throw new Error(`Invalid BYDAY value: ${token}`);
+          return { weekday: match[2] as RRuleWeekday, ordinal };
+        });
+        break;
+      case 'BYMONTHDAY': rule.byMonthDay = parseIntList('BYMONTHDAY', upper, 1, 31); break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntList('BYMONTH', upper, 1, 12);
+        if (rule.byMonth.some(m => m < 0)) throw new Error('BYMONTH values must be 1-12.');
+        break;
+      case 'BYSETPOS': rule.bySetPos = parseIntList('BYSETPOS', upper, 1, 366); break;
+      default:
+        if (!IGNORED_PARTS.has(name)) throw new Error(`Unsupported rule part: ${name}`);
+    }
+  });
+  if (!hasFreq) throw new Error('Recurrence rule needs a FREQ.');
+  if (rule.count !== null && rule.until !== null) throw new Error('Use either COUNT or UNTIL, not both.');
+  const hasOrdinals = rule.byDay.some(d => d.ordinal !== null);
+  if (hasOrdinals && (rule.freq === 'DAILY' || rule.freq === 'WEEKLY')) throw new Error('Numbered BYDAY values (e.g. -1FR) need FREQ=MONTHLY or YEARLY.');
+  if (hasOrdinals && rule.freq === 'YEARLY' && rule.byMonth.length === 0) throw new Error('Numbered BYDAY values in a YEARLY rule need BYMONTH.');
+  if (rule.freq === 'WEEKLY' && rule.byMonthDay.length > 0) throw new Error('BYMONTHDAY cannot be used with FREQ=WEEKLY.');
+  if (rule.bySetPos.length > 0 && rule.byDay.length === 0 && rule.byMonthDay.length === 0 && rule.byMonth.length === 0) throw new Error('BYSETPOS needs BYDAY, BYMONTHDAY or BYMONTH.');
+  return rule;
+}
+
+/** Serializes a rule in canonical order (no "RRULE:" prefix). */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay.length) parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${d.weekday}`).join(',')}`);
+  if (rule.bySetPos.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+// Days of one month matching BYMONTHDAY/BYDAY (both: intersection; neither: DTSTART's day)
+function monthCandidates(year: number, monthIndex: number, rule: RecurrenceRule, dtstart: Date): number[] {
+  const dim = daysInMonth(year, monthIndex);
+  if (!rule.byMonthDay.length && !rule.byDay.length) return dtstart.getUTCDate() <= dim ? [dtstart.getUTCDate()] : [];
+  const fromMonthDay = rule.byMonthDay.map(d => (d > 0 ? d : dim + d + 1)).filter(d => d >= 1 && d <= dim);
+  const fromWeekday: number[] = [];
+  rule.byDay.forEach(({ weekday, ordinal }) => {
+    const matching: number[] = [];
+    for (let day = 1; day <= dim; day++) if (JS_DAY_TO_WEEKDAY[new Date(Date.UTC(year, monthIndex, day)).getUTCDay()] === weekday) matching.push(day);
+    if (ordinal === null) fromWeekday.push(...matching);
+    else { const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal]; if (picked) fromWeekday.push(picked); }
+  });
+  const days = !rule.byDay.length ? fromMonthDay : !rule.byMonthDay.length ? fromWeekday : fromMonthDay.filter(d => fromWeekday.includes(d));
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+}
+
+// Candidate dates of the period `index` periods (of INTERVAL steps) after the one containing DTSTART, ascending
+function periodCandidates(rule: RecurrenceRule, dtstart: Date, index: number): Date[] {
+  const step = index * rule.interval;
+  const dates: Date[] = [];
+  const monthAllowed = (monthIndex: number) => !rule.byMonth.length || rule.byMonth.includes(monthIndex + 1);
+  const weekdayAllowed = (date: Date) => !rule.byDay.length || rule.byDay.some(d => d.weekday === JS_DAY_TO_WEEKDAY[date.getUTCDay()]);
+  if (rule.freq === 'DAILY') {
+    const date = new Date(Date.UTC(dtstart.getUTCFullYear(), dtstart.getUTCMonth(), dtstart.getUTCDate() + step));
+    const dim = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+    const monthDayAllowed = !rule.byMonthDay.length || rule.byMonthDay.some(d => (d > 0 ? d : dim + d + 1) === date.getUTCDate());
+    if (monthAllowed(date.getUTCMonth()) && weekdayAllowed(date) && monthDayAllowed) dates.push(date);
+  } else if (rule.freq === 'WEEKLY') {
+    const mondayOffset = (dtstart.getUTCDay() + 6) % 7;
+    const weekStart = Date.UTC(dtstart.getUTCFullYear(), dtstart.getUTCMonth(), dtstart.getUTCDate() - mondayOffset + step * 7);
+    const weekdays = rule.byDay.length ? rule.byDay.map(d => d.weekday) : [JS_DAY_TO_WEEKDAY[dtstart.getUTCDay()]];
+    RRULE_WEEKDAYS.forEach((weekday, offset) => {
+      const date = new Date(weekStart + offset * 86400000);
+      if (weekdays.includes(weekday) && monthAllowed(date.getUTCMonth())) dates.push(date);
+    });
+  } else if (rule.freq === 'MONTHLY') {
+    const totalMonths = dtstart.getUTCFullYear() * 12 + dtstart.getUTCMonth() + step;
+    const year = Math.floor(totalMonths / 12); const monthIndex = totalMonths % 12;
+    if (monthAllowed(monthIndex)) monthCandidates(year, monthIndex, rule, dtstart).forEach(day => dates.push(new Date(Date.UTC(year, monthIndex, day))));
+  } else {
+    const year = dtstart.getUTCFullYear() + step;
+    const months = rule.byMonth.length ? [...rule.byMonth].sort((a, b) => a - b).map(m => m - 1)
+      : (rule.byMonthDay.length || rule.byDay.length) ? Array.from({ length: 12 }, (_, i) => i) : [dtstart.getUTCMonth()];
+    months.forEach(monthIndex => monthCandidates(year, monthIndex, rule, dtstart).forEach(day => dates.push(new Date(Date.UTC(year, monthIndex, day)))));
+  }
+  if (!rule.bySetPos.length) return dates;
+  const picked = rule.bySetPos.map(pos => (pos > 0 ? dates[pos - 1] : dates[dates.length + pos])).filter((d): d is Date => !!d);
+  return Array.from(new Set(picked.map(d => d.getTime()))).sort((a, b) => a - b).map(t => new Date(t));
+}
+
+/**
+ * Walks a rule's occurrences from DTSTART (COUNT and UNTIL count from there) and returns those within
+ * the inclusive [from, to] range, in order.
+ * @param dtstart - 'yyyy-MM-dd'; occurrences before it are never produced.
+ * @param maxCount - Cap on the number of dates returned.
+ */
+export function ruleOccurrences(rule: string | RecurrenceRule, dtstart: string, from: string, to: string, maxCount = 1000): string[] {
+  const parsed = typeof rule === 'string' ? parseRecurrenceRule(rule) : rule;
+  const start = parseDateString(dtstart);
+  const result: string[] = [];
+  let produced = 0;
+  for (let index = 0; index < MAX_PERIODS; index++) {
+    for (const date of periodCandidates(parsed, start, index)) {
+      const value = toDateString(date);
+      if (value < dtstart) continue;
+      if (value > to || (parsed.until && value > parsed.until) || (parsed.count !== null && produced >= parsed.count)) return result;
+      produced++;
+      if (value >= from) { result.push(value); if (result.length >= maxCount) return result; }
+    }
+  }
+  return result;
+}
+
+/** Human-readable summary of a rule, e.g. "Monthly on the last weekday". Returns the raw text if it does not parse. */
+export function describeRecurrenceRule(text: string): string {
+  let rule: RecurrenceRule;
+  try { rule = parseRecurrenceRule(text); } catch { return text; }
+  const DAY_NAMES: Record<RRuleWeekday, string> = { MO: 'Monday', TU: 'Tuesday', WE: 'Wednesday', TH: 'Thursday', FR: 'Friday', SA: 'Saturday', SU: 'Sunday' };
+  const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  const ordinalWord = (n: number): string => ({ 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', [-1]: 'last', [-2]: 'second-to-last' } as Record<number, string>)[n] ?? `${n}th`;
+  const dayOfMonth = (n: number): string => n === -1 ? 'the last day' : n < 0 ? `${-n} days before month end` : `the ${n}${n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th'}`;
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  const parts = [rule.interval === 1 ? { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq] : `Every ${rule.interval} ${unit}s`];
+  if (rule.byMonth.length) parts.push(`in ${rule.byMonth.map(m => MONTH_NAMES[m - 1]).join(', ')}`);
+  const isWeekdaySet = rule.byDay.length === 5 && rule.byDay.every(d => d.ordinal === null && !['SA', 'SU'].includes(d.weekday));
+  const dayText = isWeekdaySet ? 'weekday' : rule.byDay.map(d => `${d.ordinal !== null ? `${ordinalWord(d.ordinal)} ` : ''}${DAY_NAMES[d.weekday]}`).join(', ');
+  if (rule.bySetPos.length && (rule.byDay.length || rule.byMonthDay.length)) {
+    parts.push(`on the ${rule.bySetPos.map(ordinalWord).join(' and ')} ${dayText || 'matching day'}${rule.byMonthDay.length ? ` among ${rule.byMonthDay.map(dayOfMonth).join(', ')}` : ''}`);
+  } else {
+    if (rule.byMonthDay.length) parts.push(`on ${rule.byMonthDay.map(dayOfMonth).join(' and ')}`);
+    const dayList = isWeekdaySet ? 'weekdays' : rule.byDay.map(d => d.ordinal !== null ? `the ${ordinalWord(d.ordinal)} ${DAY_NAMES[d.weekday]}` : `${DAY_NAMES[d.weekday]}s`).join(', ');
+    if (rule.byDay.length) parts.push(`${rule.byMonthDay.length ? 'when falling on' : 'on'} ${dayList}`);
+  }
+  if (rule.count !== null) parts.push(`for ${rule.count} occurrence${rule.count === 1 ? '' : 's'}`);
+  if (rule.until) parts.push(`until ${rule.until}`);
+  return parts.join(' ');
+}
+
+// --- Schedule Helpers (frequency/interval or recurrence_rule) ---
+
+/** The exception covering an occurrence date, if any. Excepted occurrences are not billed; the schedule carries on past them. */
+export function findRecurrenceException<E extends RecurrenceException>(exceptions: E[] | null | undefined, date: string): E | undefined {
+  const day = date.slice(0, 10);
+  return (exceptions ?? []).find(e => e.kind === 'skip' ? e.start_date === day : day >= e.start_date && (!e.end_date || day <= e.end_date));
+}
+
+const ruleStart = (schedule: RecurrenceSchedule): string => (schedule.start_date || schedule.next_due_date).slice(0, 10);
+
+/**
+ * The first due date on or after `date`. Rule-based schedules snap to the rule (next_due_date may predate
+ * a rule change); simple schedules treat `date` itself as due. null when a rule has no occurrences left.
+ */
+export function firstDueOnOrAfter(schedule: RecurrenceSchedule, date: string): string | null {
+  if (!schedule.recurrence_rule) return date.slice(0, 10);
+  return ruleOccurrences(schedule.recurrence_rule, ruleStart(schedule), date.slice(0, 10), '9999-12-31', 1)[0] ?? null;
+}
+
+/** The due date after `date` (an occurrence just billed); null when a rule has no occurrences left. end_date is left to the caller. */
+export function nextDueAfter(schedule: RecurrenceSchedule, date: string): string | null {
+  if (!schedule.recurrence_rule) return advanceDueDate(date, schedule.frequency, schedule.interval);
+  return ruleOccurrences(schedule.recurrence_rule, ruleStart(schedule), date.slice(0, 10), '9999-12-31', 2).find(d => d > date.slice(0, 10)) ?? null;
+}
+
+/**
+ * Lists the upcoming occurrences of a schedule dated within an inclusive range, starting from next_due_date.
+ * Inactive schedules have none; occurrences after end_date or covered by an exception are excluded.
+ * @param maxCount - Safety cap on the number of steps walked.
+ */
+export function listOccurrences(schedule: RecurrenceSchedule, from: string, to: string, maxCount = 1000): string[] {
+  if (!schedule.is_active || !schedule.next_due_date) return [];
+  const lastDate = schedule.end_date && schedule.end_date < to ? schedule.end_date : to;
+  if (schedule.recurrence_rule) {
+    const start = schedule.next_due_date.slice(0, 10) > from ? schedule.next_due_date.slice(0, 10) : from;
+    try { return ruleOccurrences(schedule.recurrence_rule, ruleStart(schedule), start, lastDate, maxCount).filter(d => !findRecurrenceException(schedule.exceptions, d)); } catch { return []; }
+  }
+  const occurrences: string[] = [];
+  let due = schedule.next_due_date.slice(0, 10);
+  for (let steps = 0; steps < maxCount && due <= lastDate; steps++) {
+    if (due >= from && !findRecurrenceException(schedule.exceptions, due)) occurrences.push(due);
+    due = advanceDueDate(due, schedule.frequency, schedule.interval);
+  }
+  return occurrences;
+}
@@ -0,0 +1,30 @@
+// supabase/functions/_shared/recurringTerms.ts
+// v1 - Versioned recurring expense terms: which amount, payer and split apply on an occurrence date.
+// Keep this file dependency-free: it is imported from both Deno and the Vite build, so generate-expenses
+// and the web app's forecast bill each occurrence on the same terms.
+
+export interface RecurringTerms {
+  amount: number;
+  paid_by_user_id: string | null;
+  split_method: string;
+  split_details: unknown;
+}
+export interface RecurringTermsVersion extends RecurringTerms { effective_from: string; } // 'YYYY-MM-DD'
+
+/**
+ * The version in force on `date`: the latest one effective on or before it. Occurrences before the
+ * first version (e.g. after start_date was moved earlier) use the earliest version.
+ */
+export function termsInForce<V extends { effective_from: string }>(versions: V[] | null | undefined, date: string): V | null {
+  if (!versions?.length) return null;
+  const day = date.slice(0, 10);
+  const sorted = [...versions].sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  return sorted.filter(v => v.effective_from.slice(0, 10) <= day).pop() ?? sorted[0];
+}
+
+/** The template with its amount, payer and split replaced by the version in force on `date` (unchanged when it has no versions). */
+export function withTermsInForce<T extends RecurringTerms>(template: T, versions: RecurringTermsVersion[] | null | undefined, date: string): T {
+  const version = termsInForce(versions, date);
+  if (!version) return template;
+  return { ...template, amount: Number(version.amount), paid_by_user_id: version.paid_by_user_id, split_method: version.split_method, split_details: version.split_details };
+}
@@ -0,0 +1,86 @@
+// supabase/functions/_shared/splits.ts
+// v3 - Added readEqualParticipants for equal splits with an explicit participant set.
+// Keep this file dependency-free: it is imported from both Deno and the Vite build.
+
+export interface WeightedShare { user_id: string; weight: number; }
+export interface AllocatedShare { user_id: string; amount: number; }
+
+/**
+ * Splits an amount across members in proportion to their weights, to the cent.
+ * Uses the largest-remainder method: everyone gets the floor of their exact cent share, then
+ * leftover cents go to the largest fractional remainders (ties broken by user_id), so the parts
+ * always sum exactly to the total and the same input always yields the same output.
+ * @param totalAmount - The amount to split (in currency units, e.g. dollars).
+ * @param shares - Members and their non-negative weights (e.g. share counts). Zero weights get 0.
+ * @returns Allocations in the same order as `shares`.
+ */
+export function allocateByWeights(totalAmount: number, shares: WeightedShare[]): AllocatedShare[] {
+  const totalCents = Math.round(totalAmount * 100);
+  const totalWeight = shares.reduce((sum, s) => sum + (s.weight > 0 ? s.weight : 0), 0);
+  if (totalWeight <= 0) throw new Error('Cannot split an amount when no member has a positive weight.');
+
+  const parts = shares.map((s, index) => {
+    const weight = s.weight > 0 ? s.weight : 0;
+    const exact = (totalCents * weight) / totalWeight;
+    const cents = Math.floor(exact);
+    return { index, user_id: s.user_id, cents, remainder: exact - cents };
+  });
+
+  let leftover = totalCents - parts.reduce((sum, p) => sum + p.cents, 0);
+  const byRemainder = [...parts].sort((a, b) => (b.remainder - a.remainder) || (a.user_id < b.user_id ? -1 : a.user_id > b.user_id ? 1 : 0));
+  // Remainders sum to `leftover` and are each < 1, so only members with a positive weight receive a cent
+  for (const part of byRemainder) {
+    if (leftover <= 0) break;
+    part.cents += 1; leftover -= 1;
+  }
+
+  return parts.map(p => ({ user_id: p.user_id, amount: p.cents / 100 }));
+}
+
+/**
+ * Reads per-member share counts from a recurring template's `split_details`.
+ * Accepts the record form written by the web app (`{ splits: { [userId]: shares } }`) as well as
+ * an array form (`{ splits: [{ user_id, shares }] }`).
+ * @param splitDetails - The raw JSON value of `recurring_expenses.split_details`.
+ * @returns Positive integer share counts keyed by user id.
+ */
+export function readShareSplits(splitDetails: unknown): Record<string, number> {
+  const result: Record<string, number> = {};
+  if (!splitDetails || typeof splitDetails !== 'object' || !('splits' in splitDetails)) return result;
+  const splits = (splitDetails as { splits: unknown }).splits;
+  const entries: Array<[string, unknown]> = Array.isArray(splits)
+    ? splits.map((s: { user_id?: string; shares?: unknown }) => [s?.user_id ?? '', s?.shares])
+    : (splits && typeof splits === 'object' ? Object.entries(splits as Record<string, unknown>) : []);
+  entries.forEach(([userId, value]) => {
+    const shares = Number(value);
+    if (userId && Number.isInteger(shares) && shares > 0) result[userId] = shares;
+  });
+  return result;
+}
+
+/**
+ * Reads the participant set of an 'equal' split (`{ type: 'equal', participants: [userId] }`).
+ * @param splitDetails - The raw JSON value of `recurring_expenses.split_details`.
+ * @returns The recorded user ids, or null when the template predates participant sets (split among all members).
+ */
+export function readEqualParticipants(splitDetails: unknown): string[] | null {
+  if (!splitDetails || typeof splitDetails !== 'object' || !('participants' in splitDetails)) return null;
+  const participants = (splitDetails as { participants: unknown }).participants;
+  return Array.isArray(participants) ? participants.filter((id): id is string => typeof id === 'string' && id.length > 0) : null;
+}
+
+export interface OwnershipStake { user_id: string; ownership_percentage: number | null; }
+export interface OwnershipSummary { stakes: WeightedShare[]; total: number; sumsTo100: boolean; }
+
+/**
+ * Collects the positive ownership stakes of a property's members, used as split weights.
+ * @param members - Rows of `property_members` (only user_id and ownership_percentage are read).
+ * @returns Stakes in input order, their total (rounded to 0.01) and whether they make up 100%.
+ */
+export function summarizeOwnershipStakes(members: OwnershipStake[]): OwnershipSummary {
+  const stakes = members
+    .map(m => ({ user_id: m.user_id, weight: Number(m.ownership_percentage) || 0 }))
+    .filter(s => s.user_id && s.weight > 0);
+  const total = Math.round(stakes.reduce((sum, s) => sum + s.weight, 0) * 100) / 100;
+  return { stakes, total, sumsTo100: Math.abs(total - 100) < 0.01 };
+}
@@ -0,0 +1,130 @@
+// supabase/functions/calendar-feed/index.ts
+// v2 - Serves a property's bookings and blocking maintenance as an RFC 5545 feed: GET ?token=<calendar_feed_tokens.token>. Maintenance days are the UTC date they are stored at.
+// Calendar apps cannot sign in, so JWT verification is off for this function (supabase/config.toml) and the
+// token is the only credential. It stops working once revoked or when its member leaves the property.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buildIcsCalendar, cohavenEventUid, IcsEventInput } from '../_shared/ical.ts';
+
+// Stays that ended more than this long ago are left out to keep the feed small
+const HISTORY_DAYS = 365;
+const FEED_BOOKING_STATUSES = ['pending', 'approved', 'confirmed', 'completed'];
+
+interface FeedBooking { id: string; user_id: string; start_date: string; end_date: string; status: string; num_guests: number | null; purpose: string | null; }
+interface FeedTask { id: string; title: string; description: string | null; scheduled_date_start: string; scheduled_date_end: string | null; }
+
+const errorMessage = (err: unknown): string => err instanceof Error ? err.message : String(err);
+
+function textResponse(body: string, status: number): Response {
+  return new Response(body, { headers: { "Content-Type": "text/plain; charset=utf-8" }, status });
+}
+
+function bookingEvent(booking: FeedBooking, guestName: string): IcsEventInput {
+  const guests = booking.num_guests ? `${booking.num_guests} guest${booking.num_guests === 1 ? '' : 's'}` : null;
+  return {
+    uid: cohavenEventUid('booking', booking.id),
+    summary: booking.status === 'pending' ? `${guestName} (pending)` : guestName,
+    description: [booking.purpose, guests].filter(Boolean).join('\n') || null,
+    start: booking.start_date,
+    end: booking.end_date,
+    status: booking.status === 'pending' ? 'TENTATIVE' : 'CONFIRMED',
+  };
+}
+
+// Maintenance schedules are stored at UTC midnight of the scheduled day (see toCalendarDayTimestamp in the app)
+const calendarDay = (timestamp: string): string => new Date(timestamp).toISOString().slice(0, 10);
+
+function maintenanceEvent(task: FeedTask): IcsEventInput {
+  const start = calendarDay(task.scheduled_date_start);
+  const end = calendarDay(task.scheduled_date_end ?? task.scheduled_date_start);
+  return { uid: cohavenEventUid('maintenance', task.id), summary: `Blocked: ${task.title}`, description: task.description, start, end: end < start ? start : end };
+}
+
+// --- Main Function Handler ---
+serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') return textResponse('Method not allowed', 405);
+  const token = new URL(req.url).searchParams.get('token')?.trim();
+  if (!token) return textResponse('Missing feed token', 401);
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables.");
+    }
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+    // --- Resolve the Token ---
+    const { data: feedToken, error: tokenError } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .select('id, property_id, user_id')
+      .eq('token', token)
+      .is('revoked_at', null)
+      .maybeSingle();
+    if (tokenError) throw new Error(`Error looking up feed token: ${tokenError.message}`);
+    // Same answer for unknown, revoked and orphaned tokens, so the response does not reveal which
+    if (!feedToken) return textResponse('Feed not found', 404);
+    const { data: membership, error: memberError } = await supabaseAdmin
+      .from('property_members')
+      .select('user_id')
+      .eq('property_id', feedToken.property_id)
+      .eq('user_id', feedToken.user_id)
+      .maybeSingle();
+    if (memberError) throw new Error(`Error checking membership: ${memberError.message}`);
+    if (!membership) return textResponse('Feed not found', 404);
+
+    // --- Fetch Calendar Entries ---
+    const since = new Date(Date.now() - HISTORY_DAYS * 86400000).toISOString().slice(0, 10);
+    const [propertyResult, bookingsResult, tasksResult] = await Promise.all([
+      supabaseAdmin.from('properties').select('name').eq('id', feedToken.property_id).single(),
+      supabaseAdmin.from('bookings')
+        .select('id, user_id, start_date, end_date, status, num_guests, purpose')
+        .eq('property_id', feedToken.property_id)
+        .in('status', FEED_BOOKING_STATUSES)
+        .gte('end_date', since)
+        .order('start_date'),
+      supabaseAdmin.from('maintenance_tasks')
+        .select('id, title, description, scheduled_date_start, scheduled_date_end')
+        .eq('property_id', feedToken.property_id)
+        .eq('blocks_booking', true)
+        .neq('status', 'completed')
+        .not('scheduled_date_start', 'is', null)
+        .order('scheduled_date_start'),
+    ]);
+    if (propertyResult.error) throw new Error(`Error fetching property: ${propertyResult.error.message}`);
+    if (bookingsResult.error) throw new Error(`Error fetching bookings: ${bookingsResult.error.message}`);
+    if (tasksResult.error) throw new Error(`Error fetching maintenance tasks: ${tasksResult.error.message}`);
+    const bookings = (bookingsResult.data ?? []) as FeedBooking[];
+    const tasks = ((tasksResult.data ?? []) as FeedTask[]).filter(t => calendarDay(t.scheduled_date_end ?? t.scheduled_date_start) >= since);
+
+    const guestIds = [...new Set(bookings.map(b => b.user_id))];
+    const { data: profiles } = guestIds.length
+      ? await supabaseAdmin.from('profiles').select('id, first_name, last_name').in('id', guestIds)
+      : { data: [] };
+    const guestName = (userId: string) => {
+      const profile = profiles?.find(p => p.id === userId);
+      return (profile && `${profile.first_name ?? ''} ${profile.last_name ?? ''}`.trim()) || 'Member stay';
+    };
+
+    const calendar = buildIcsCalendar(`${propertyResult.data.name} (CoHaven)`, [
+      ...bookings.map(b => bookingEvent(b, guestName(b.user_id))),
+      ...tasks.map(maintenanceEvent),
+    ]);
+
+    const { error: touchError } = await supabaseAdmin.from('calendar_feed_tokens').update({ last_used_at: new Date().toISOString() }).eq('id', feedToken.id);
+    if (touchError) console.error(`Failed to record feed use: ${touchError.message}`); // The feed is still served
+
+    return new Response(req.method === 'HEAD' ? null : calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="cohaven.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+      status: 200,
+    });
+  } catch (e) {
+    console.error("Error in calendar-feed function:", e);
+    return textResponse(`Could not build the calendar: ${errorMessage(e)}`, 500);
+  }
+})
@@ -2,7 +2,10 @@
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { addDays, addWeeks, addMonths, addQuarters, addYears, format } from 'https://esm.sh/date-fns@2.29.3';
+import { format } from 'https://esm.sh/date-fns@2.29.3';
+import { allocateByWeights, readEqualParticipants, readShareSplits, summarizeOwnershipStakes } from '../_shared/splits.ts';
+import { findRecurrenceException, firstDueOnOrAfter, nextDueAfter, RecurrenceException } from '../_shared/recurrence.ts';
+import { RecurringTermsVersion, termsInForce, withTermsInForce } from '../_shared/recurringTerms.ts';
 
 // Define types matching your database schema (simplified for function context)
 // Ideally, share types between frontend and functions, but keep simple here for clarity
@@ -13,32 +16,41 @@ interface RecurringExpense {
   amount: number;
   category: string;
   paid_by_user_id: string;
-  split_method: string; // 'equal', 'percentage', 'custom', 'payer_only'
+  split_method: string; // 'equal', 'percentage', 'custom', 'shares', 'payer_only', 'ownership'
   split_details: any | null; // JSONB - will need parsing
-  frequency: string; // 'daily', 'weekly', 'monthly', 'quarterly', 'annually'
+  frequency: string; // 'daily', 'weekly', 'monthly', 'quarterly', 'biannually', 'annually'
   interval: number;
   start_date: string; // date string 'YYYY-MM-DD'
   next_due_date: string; // date string 'YYYY-MM-DD'
   end_date: string | null; // date string 'YYYY-MM-DD'
+  is_active: boolean;
+  recurrence_rule: string | null; // RFC 5545 RRULE; when set it replaces frequency/interval (start_date is DTSTART)
+  amount_mode: 'fixed' | 'variable'; // 'variable' queues a draft for review instead of posting amount
+  estimate_method: 'last' | 'average'; // How a variable draft's estimate is worked out
   notes: string | null;
 }
 
+// Amount/payer/split versions; every occurrence is billed on the version in force on its date
+async function fetchTermsVersions(supabaseAdmin: SupabaseClient, recurringExpenseIds: string[]): Promise<Map<string, RecurringTermsVersion[]>> {
+  const byTemplate = new Map<string, RecurringTermsVersion[]>();
+  if (!recurringExpenseIds.length) return byTemplate;
+  const { data, error } = await supabaseAdmin
+    .from('recurring_expense_terms')
+    .select('recurring_expense_id, effective_from, amount, paid_by_user_id, split_method, split_details')
+    .in('recurring_expense_id', recurringExpenseIds);
+  if (error) throw new Error(`Error fetching recurring expense terms: ${error.message}`);
+  for (const row of data ?? []) {
+    byTemplate.set(row.recurring_expense_id, [...(byTemplate.get(row.recurring_expense_id) ?? []), row as RecurringTermsVersion]);
+  }
+  return byTemplate;
+}
+
 interface RpcSplitInput {
   user_id: string;
   amount: number;
   status: 'owed' | 'paid';
-}
-
-// --- Helper: Calculate Next Due Date ---
-function calculateNextDueDate(currentDueDate: Date, frequency: string, interval: number): Date {
-  switch (frequency) {
-    case 'daily': return addDays(currentDueDate, interval);
-    case 'weekly': return addWeeks(currentDueDate, interval);
-    case 'monthly': return addMonths(currentDueDate, interval);
-    case 'quarterly': return addQuarters(currentDueDate, interval);
-    case 'annually': return addYears(currentDueDate, interval);
-    default: throw new Error(`Unsupported frequency: ${frequency}`);
-  }
+  percentage?: number;
+  shares?: number;
 }
 
 // --- Helper: Calculate Splits for RPC ---
@@ -60,7 +72,7 @@ async function calculateSplitsForRpc(
 
     try {
         switch (split_method) {
-            case 'equal':
+            case 'equal': {
                 // Requires fetching current members of the property
                 // const { data: members, error: memberError } = await supabaseAdmin
                 //     .from('property_members')
@@ -70,8 +82,13 @@ async function calculateSplitsForRpc(
                 // if (memberError) throw new Error(`Failed to fetch property members: ${memberError.message}`);
                 // const memberIds = members?.map(m => m.user_id) ?? [];
 
-                // Use passed members for simplicity now
-                const memberIds = propertyMembers.map(m => m.user_id);
+                // Templates with a participant set split among those still in the property; older ones among all members
+                const participants = readEqualParticipants(split_details);
+                const currentMemberIds = propertyMembers.map(m => m.user_id);
+                const memberIds = participants ? participants.filter(id => currentMemberIds.includes(id)) : currentMemberIds;
+                if (participants && memberIds.length === 0) {
+                    throw new Error('None of the equal split participants are still members of the property.');
+                }
 
                 if (memberIds.length === 0) {
                     // If no members, assign full amount to payer? Or error? Assume assign to payer for now.
@@ -94,6 +111,7 @@ async function calculateSplitsForRpc(
                     });
                 }
                 break;
+            }
 
             case 'percentage':
                 if (!split_details || typeof split_details !== 'object' || !Array.isArray(split_details.splits)) {
@@ -149,6 +167,44 @@ async function calculateSplitsForRpc(
                 }
                 break;
 
+            case 'shares': {
+                // split_details.splits holds integer shares per member; cents are allocated deterministically
+                const shareSplits = readShareSplits(split_details);
+                const weightedMembers = Object.entries(shareSplits).map(([user_id, shares]) => ({ user_id, weight: shares }));
+                if (weightedMembers.length === 0) {
+                    throw new Error(`Invalid split_details for shares split: ${JSON.stringify(split_details)}`);
+                }
+                calculatedSplits = allocateByWeights(totalAmount, weightedMembers).map((allocation, index) => ({
+                    user_id: allocation.user_id,
+                    amount: allocation.amount,
+                    shares: weightedMembers[index].weight,
+                    status: allocation.user_id === payerId ? 'paid' : 'owed',
+                }));
+                break;
+            }
+
+            case 'ownership': {
+                // Stakes in effect on the due date (which becomes the expense date), replayed from the ownership ledger
+                const { data: stakesAsOf, error: stakesError } = await supabaseAdmin
+                    .rpc('ownership_stakes_as_of', { p_property_id: property_id, p_date: recurringExpense.next_due_date });
+                if (stakesError) throw new Error(`Failed to fetch ownership stakes for ${property_id}: ${stakesError.message}`);
+                const ledgerStakes = (stakesAsOf ?? []).map((row: { user_id: string; percentage: number }) => ({ user_id: row.user_id, ownership_percentage: row.percentage }));
+                const { stakes, total, sumsTo100 } = summarizeOwnershipStakes(ledgerStakes);
+                if (stakes.length === 0) {
+                    throw new Error(`No ownership stakes in effect on ${recurringExpense.next_due_date} for property ${property_id}; cannot split recurring expense ${recurringExpense.id} by ownership.`);
+                }
+                if (!sumsTo100) {
+                    console.warn(`Ownership stakes for property ${property_id} on ${recurringExpense.next_due_date} sum to ${total}%, not 100%. Splitting recurring expense ${recurringExpense.id} in proportion to the recorded stakes.`);
+                }
+                calculatedSplits = allocateByWeights(totalAmount, stakes).map((allocation, index) => ({
+                    user_id: allocation.user_id,
+                    amount: allocation.amount,
+                    percentage: Math.round((stakes[index].weight / total) * 10000) / 100,
+                    status: allocation.user_id === payerId ? 'paid' : 'owed',
+                }));
+                break;
+            }
+
             case 'payer_only':
                 calculatedSplits.push({ user_id: payerId, amount: totalAmount, status: 'paid' });
                 break;
@@ -171,10 +227,186 @@ async function calculateSplitsForRpc(
 }
 
 
+// --- Run Report ---
+// Every occurrence the run looked at ends up in exactly one list, so a caller (or a person reading
+// the scheduler logs) can see what was billed, what was deliberately left alone and what needs attention.
+interface CreatedItem { recurring_expense_id: string; description: string; occurrence_date: string; expense_id: string; }
+interface DraftedItem { recurring_expense_id: string; description: string; occurrence_date: string; draft_id: string; estimated_amount: number; }
+interface SkippedItem {
+  recurring_expense_id: string; description: string; occurrence_date: string | null;
+  reason: 'already_generated' | 'ended' | 'catch_up_limit' | 'skipped_by_exception' | 'paused';
+}
+interface WarningItem { recurring_expense_id: string; description: string; occurrence_date: string | null; message: string; }
+interface FailedItem { recurring_expense_id: string; description: string; occurrence_date: string | null; error: string; }
+interface RunReport {
+  run_date: string; // 'YYYY-MM-DD'; occurrences due on or before this date are generated
+  templates_processed: number;
+  created: CreatedItem[];
+  drafted: DraftedItem[]; // Variable-amount occurrences waiting for the payer to confirm the real figure
+  skipped: SkippedItem[];
+  failed: FailedItem[];
+  warnings: WarningItem[]; // Billed, but something needs a person to look at the template
+  duration_ms: number;
+}
+
+// Postgres unique_violation: the occurrence was already billed (expenses_recurring_occurrence_unique_idx)
+const UNIQUE_VIOLATION = '23505';
+// Per template per run; a daily template that is years overdue catches up over several runs instead of one long one
+const MAX_OCCURRENCES_PER_RUN = 366;
+
+const errorMessage = (err: unknown): string => err instanceof Error ? err.message : String(err);
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" }, status });
+}
+
+// --- Departed Participants ---
+// An equal split whose recorded participants include someone who has left the property is split among the
+// rest, and a maintenance task (one open task per template) asks the owners to review the participants.
+function findDepartedParticipants(recurring: RecurringExpense, propertyMembers: { user_id: string }[]): string[] {
+  if (recurring.split_method !== 'equal') return [];
+  const currentMemberIds = new Set(propertyMembers.map(m => m.user_id));
+  return (readEqualParticipants(recurring.split_details) ?? []).filter(id => !currentMemberIds.has(id));
+}
+
+async function openParticipantReviewTask(supabaseAdmin: SupabaseClient, recurring: RecurringExpense, departedIds: string[]): Promise<void> {
+  const { data: openTask, error: lookupError } = await supabaseAdmin
+    .from('maintenance_tasks')
+    .select('id')
+    .eq('recurring_expense_id', recurring.id)
+    .in('status', ['pending', 'in_progress'])
+    .limit(1)
+    .maybeSingle();
+  if (lookupError) throw new Error(`Failed to look up review task: ${lookupError.message}`);
+  if (openTask) return;
+  const { data: profiles } = await supabaseAdmin.from('profiles').select('id, first_name, last_name').in('id', departedIds);
+  const names = departedIds.map(id => {
+    const profile = profiles?.find(p => p.id === id);
+    return profile ? `${profile.first_name ?? ''} ${profile.last_name ?? ''}`.trim() : `a former member (${id.substring(0, 8)})`;
+  });
+  const { error: insertError } = await supabaseAdmin.from('maintenance_tasks').insert({
+    property_id: recurring.property_id,
+    recurring_expense_id: recurring.id,
+    title: `Review participants of "${recurring.description}"`,
+    description: `${names.join(', ')} ${names.length === 1 ? 'is' : 'are'} no longer a member of the property but still listed as a participant of this recurring expense's equal split. New occurrences are split among the remaining participants until the template is updated.`,
+    status: 'pending',
+    priority: 'medium',
+    blocks_booking: false,
+  });
+  if (insertError) throw new Error(`Failed to open review task: ${insertError.message}`);
+}
+
+// --- Variable-Amount Drafts ---
+// Templates with amount_mode 'variable' queue a draft with an estimate on each due date instead of posting
+// an expense. The payer (or an owner/co-owner) later posts it with the real figure through the draft action
+// below, so splits are calculated from the actual amount, the same way as for fixed templates.
+const ESTIMATE_WINDOW = 3; // Posted occurrences averaged by estimate_method 'average'
+
+// Only approved occurrences billed under the terms version in force on the due date count towards the estimate
+async function estimateVariableAmount(supabaseAdmin: SupabaseClient, recurring: RecurringExpense, version: RecurringTermsVersion | null): Promise<number> {
+  let query = supabaseAdmin
+    .from('expenses')
+    .select('amount')
+    .eq('recurring_expense_id', recurring.id)
+    .eq('status', 'approved');
+  if (version) query = query.gte('occurrence_date', version.effective_from);
+  const { data, error } = await query
+    .order('occurrence_date', { ascending: false })
+    .limit(recurring.estimate_method === 'average' ? ESTIMATE_WINDOW : 1);
+  if (error) throw new Error(`Failed to read previous amounts: ${error.message}`);
+  const amounts = (data ?? []).map((row: { amount: number }) => Number(row.amount)).filter(amount => Number.isFinite(amount) && amount > 0);
+  if (amounts.length === 0) return Number(version?.amount ?? recurring.amount); // Nothing approved under these terms yet: their typical amount
+  return Math.round((amounts.reduce((sum, amount) => sum + amount, 0) / amounts.length) * 100) / 100;
+}
+
+interface DraftActionRequest { action: 'post_draft' | 'dismiss_draft'; draft_id: string; amount?: number; receipt_url?: string | null; }
+
+// Called by the web app with the member's access token: { action, draft_id, amount?, receipt_url? }
+async function handleDraftAction(supabaseAdmin: SupabaseClient, req: Request, body: DraftActionRequest): Promise<Response> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return jsonResponse({ error: 'Sign in to review recurring bills.' }, 401);
+  const { data: authData, error: authError } = await supabaseAdmin.auth.getUser(token);
+  const user = authData?.user;
+  if (authError || !user) return jsonResponse({ error: 'Sign in to review recurring bills.' }, 401);
+
+  const { data: draft, error: draftError } = await supabaseAdmin
+    .from('recurring_expense_drafts')
+    .select('*, recurring_expense: recurring_expenses (*)')
+    .eq('id', body.draft_id)
+    .maybeSingle();
+  if (draftError) return jsonResponse({ error: `Failed to load draft: ${draftError.message}` }, 500);
+  if (!draft || !draft.recurring_expense) return jsonResponse({ error: 'Draft not found.' }, 404);
+  if (draft.status !== 'pending') return jsonResponse({ error: `This bill was already ${draft.status}.` }, 409);
+  // The draft is posted on the terms in force on its occurrence date
+  let termsByTemplate: Map<string, RecurringTermsVersion[]>;
+  try { termsByTemplate = await fetchTermsVersions(supabaseAdmin, [draft.recurring_expense.id]); }
+  catch (termsError) { return jsonResponse({ error: errorMessage(termsError) }, 500); }
+  const recurring = withTermsInForce(draft.recurring_expense as RecurringExpense, termsByTemplate.get(draft.recurring_expense.id), draft.occurrence_date);
+
+  // The payer has the bill; owners and co-owners can stand in for them. A payer who has left the property cannot.
+  const { data: membership } = await supabaseAdmin.from('property_members').select('role').eq('property_id', draft.property_id).eq('user_id', user.id).maybeSingle();
+  if (!membership) return jsonResponse({ error: 'You are not a member of this property.' }, 403);
+  if (user.id !== recurring.paid_by_user_id && !['owner', 'co_owner'].includes(membership.role)) return jsonResponse({ error: 'Only the payer or an owner can review this bill.' }, 403);
+  const resolution = { resolved_by: user.id, resolved_at: new Date().toISOString() };
+
+  if (body.action === 'dismiss_draft') {
+    const { error: dismissError } = await supabaseAdmin.from('recurring_expense_drafts').update({ status: 'dismissed', ...resolution }).eq('id', draft.id).eq('status', 'pending');
+    if (dismissError) return jsonResponse({ error: `Failed to dismiss draft: ${dismissError.message}` }, 500);
+    return jsonResponse({ draft_id: draft.id, status: 'dismissed' }, 200);
+  }
+
+  const amount = Math.round(Number(body.amount) * 100) / 100;
+  if (!Number.isFinite(amount) || amount <= 0) return jsonResponse({ error: 'Enter the billed amount.' }, 400);
+  // useRecurringDrafts uploads the bill to <property>/recurring/<draft>/ in the receipts bucket; anything else could point at another property's files
+  const receiptPath = body.receipt_url ?? null;
+  if (receiptPath !== null && (typeof receiptPath !== 'string' || !receiptPath.startsWith(`${draft.property_id}/recurring/${draft.id}/`) || receiptPath.split('/').includes('..'))) {
+    return jsonResponse({ error: 'The bill must be uploaded for this draft.' }, 400);
+  }
+  try {
+    const { data: members, error: memberError } = await supabaseAdmin.from('property_members').select('user_id').eq('property_id', draft.property_id);
+    if (memberError) throw new Error(`Failed to fetch property members for ${draft.property_id}: ${memberError.message}`);
+    const departedIds = findDepartedParticipants(recurring, members ?? []);
+    if (departedIds.length) await openParticipantReviewTask(supabaseAdmin, recurring, departedIds).catch(taskError => console.error(`Recurring expense ${recurring.id}:`, taskError));
+    const splitsForRpc = await calculateSplitsForRpc(supabaseAdmin, { ...recurring, amount, next_due_date: draft.occurrence_date }, members ?? []);
+    const { data: rpcData, error: rpcError } = await supabaseAdmin.rpc('add_expense_and_splits', {
+      p_property_id: recurring.property_id,
+      p_description: recurring.description,
+      p_amount: amount,
+      p_date: draft.occurrence_date,
+      p_category: recurring.category,
+      p_paid_by_user_id: recurring.paid_by_user_id,
+      p_split_method: recurring.split_method,
+      p_notes: recurring.notes,
+      p_splits: splitsForRpc,
+      p_receipt_url: receiptPath,
+      p_recurring_expense_id: recurring.id,
+      p_occurrence_date: draft.occurrence_date,
+    });
+    if (rpcError?.code === UNIQUE_VIOLATION) return jsonResponse({ error: 'This occurrence has already been posted.' }, 409);
+    if (rpcError) throw new Error(`RPC add_expense_and_splits failed: ${rpcError.message}`);
+    const expenseId: string | undefined = Array.isArray(rpcData) ? rpcData[0]?.id : rpcData;
+    if (!expenseId) throw new Error('RPC add_expense_and_splits returned no ID.');
+    const { error: updateError } = await supabaseAdmin
+      .from('recurring_expense_drafts')
+      .update({ status: 'posted', confirmed_amount: amount, expense_id: expenseId, ...resolution })
+      .eq('id', draft.id);
+    if (updateError) console.error(`Posted expense ${expenseId} but failed to close draft ${draft.id}: ${updateError.message}`); // A retry hits the unique index
+    // The confirmed amount was typed in by a member, so above the property's threshold it waits for approval
+    const { data: posted } = await supabaseAdmin.from('expenses').select('status').eq('id', expenseId).maybeSingle();
+    console.log(`Posted draft ${draft.id} of recurring expense ${recurring.id} as expense ${expenseId} (${amount}, ${posted?.status ?? 'unknown status'}).`);
+    return jsonResponse({ draft_id: draft.id, status: 'posted', expense_id: expenseId, expense_status: posted?.status ?? null }, 200);
+  } catch (postError) {
+    console.error(`Error posting draft ${draft.id}:`, postError);
+    return jsonResponse({ error: errorMessage(postError) }, 500);
+  }
+}
+
 // --- Main Function Handler ---
 serve(async (req) => {
   console.log('Starting generate-expenses function run...');
   const startTime = Date.now();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const report: RunReport = { run_date: today, templates_processed: 0, created: [], drafted: [], skipped: [], failed: [], warnings: [], duration_ms: 0 };
 
   try {
     // --- Create Supabase Admin Client ---
@@ -191,8 +423,21 @@ serve(async (req) => {
        auth: { persistSession: false } // Disable session persistence for server-side
     });
 
+    // --- Draft Review (web app) rather than the scheduled run ---
+    const body = req.method === 'POST' ? await req.json().catch(() => null) : null;
+    if (body?.draft_id && (body.action === 'post_draft' || body.action === 'dismiss_draft')) {
+      return await handleDraftAction(supabaseAdmin, req, body as DraftActionRequest);
+    }
+
+    // --- Ownership Cache: stakes recorded with a future effective date take effect today ---
+    const { data: refreshedStakes, error: refreshError } = await supabaseAdmin.rpc('refresh_ownership_percentages');
+    if (refreshError) {
+      console.error('Error refreshing ownership percentages:', refreshError);
+    } else if (refreshedStakes) {
+      console.log(`Refreshed ${refreshedStakes} member ownership percentage(s) from the ledger.`);
+    }
+
     // --- Fetch Due Recurring Expenses ---
-    const today = format(new Date(), 'yyyy-MM-dd');
     console.log(`Fetching recurring expenses due on or before: ${today}`);
 
     const { data: dueExpenses, error: fetchError } = await supabaseAdmin
@@ -205,133 +450,195 @@ serve(async (req) => {
       throw new Error(`Error fetching recurring expenses: ${fetchError.message}`);
     }
 
-    if (!dueExpenses || dueExpenses.length === 0) {
-      console.log("No recurring expenses due today.");
-      return new Response("No expenses due", { status: 200 });
+    console.log(`Found ${dueExpenses?.length ?? 0} recurring expense(s) to process.`);
+
+    // --- Fetch Terms Versions for the Due Templates ---
+    const termsByTemplate = await fetchTermsVersions(supabaseAdmin, (dueExpenses ?? []).map(r => r.id));
+
+    // --- Fetch Skip/Pause Exceptions for the Due Templates ---
+    // Excepted occurrences are passed over (and logged) but still advance the schedule
+    const exceptionsByTemplate = new Map<string, RecurrenceException[]>();
+    if (dueExpenses?.length) {
+      const { data: exceptionRows, error: exceptionError } = await supabaseAdmin
+        .from('recurring_expense_exceptions')
+        .select('recurring_expense_id, kind, start_date, end_date')
+        .in('recurring_expense_id', dueExpenses.map(r => r.id));
+      if (exceptionError) {
+        throw new Error(`Error fetching recurring expense exceptions: ${exceptionError.message}`);
+      }
+      for (const row of exceptionRows ?? []) {
+        exceptionsByTemplate.set(row.recurring_expense_id, [...(exceptionsByTemplate.get(row.recurring_expense_id) ?? []), row as RecurrenceException]);
+      }
     }
 
-    console.log(`Found ${dueExpenses.length} recurring expense(s) to process.`);
-    let processedCount = 0;
-    let errorCount = 0;
-
-    // --- Process Each Due Expense ---
-    for (const recurring of dueExpenses as RecurringExpense[]) {
+    // --- Process Each Due Recurring Expense ---
+    for (const recurring of (dueExpenses ?? []) as RecurringExpense[]) {
       console.log(`Processing recurring expense ID: ${recurring.id}, Description: ${recurring.description}`);
+      report.templates_processed++;
+      const item = { recurring_expense_id: recurring.id, description: recurring.description };
 
+      // --- Align to the Schedule: rule templates bill on the rule's first occurrence from next_due_date ---
+      let firstDue: string | null;
       try {
-        // --- Check End Date ---
-        if (recurring.end_date && recurring.next_due_date > recurring.end_date) {
-           console.log(`Recurring expense ${recurring.id} past its end date. Deactivating.`);
-           // Deactivate it - don't generate new expense
-           const { error: deactivateError } = await supabaseAdmin
-             .from('recurring_expenses')
-             .update({ is_active: false, updated_at: new Date().toISOString() })
-             .eq('id', recurring.id);
-           if (deactivateError) {
-              console.error(`Failed to deactivate recurring expense ${recurring.id}: ${deactivateError.message}`);
-              // Continue to next expense even if deactivation fails
-           }
-           continue; // Skip to the next recurring expense
-        }
+        firstDue = firstDueOnOrAfter(recurring, recurring.next_due_date);
+      } catch (ruleError) {
+        report.failed.push({ ...item, occurrence_date: recurring.next_due_date, error: `Invalid recurrence rule: ${errorMessage(ruleError)}` });
+        continue;
+      }
 
+      // --- Already Past End Date (or rule exhausted): deactivate without generating ---
+      if (firstDue === null || (recurring.end_date && firstDue > recurring.end_date)) {
+        console.log(`Recurring expense ${recurring.id} has no occurrences left before its end. Deactivating.`);
+        const { error: deactivateError } = await supabaseAdmin
+          .from('recurring_expenses')
+          .update({ is_active: false, updated_at: new Date().toISOString() })
+          .eq('id', recurring.id);
+        if (deactivateError) report.failed.push({ ...item, occurrence_date: null, error: `Failed to deactivate: ${deactivateError.message}` });
+        else report.skipped.push({ ...item, occurrence_date: null, reason: 'ended' });
+        continue;
+      }
 
-        // --- Fetch Property Members (Needed for 'equal' split) ---
-        // This adds overhead but is necessary for correct 'equal' split calculation
-         const { data: members, error: memberError } = await supabaseAdmin
-             .from('property_members')
-             .select('user_id')
-             .eq('property_id', recurring.property_id);
-
-         if (memberError) {
-             throw new Error(`Failed to fetch property members for ${recurring.property_id}: ${memberError.message}`);
-         }
-         const propertyMembers = members ?? [];
-
-
-        // --- Calculate Splits ---
-        const splitsForRpc = await calculateSplitsForRpc(supabaseAdmin, recurring, propertyMembers);
-
-        // --- Prepare RPC Arguments ---
-        const rpcArgs = {
-          p_property_id: recurring.property_id,
-          p_description: recurring.description,
-          p_amount: recurring.amount,
-          p_date: recurring.next_due_date, // Use the due date as the expense date
-          p_category: recurring.category,
-          p_paid_by_user_id: recurring.paid_by_user_id,
-          p_split_method: recurring.split_method,
-          p_notes: recurring.notes,
-          p_splits: splitsForRpc,
-          p_receipt_url: null // Recurring expenses generally don't have receipts attached automatically
-        };
-
-        // --- Call Add Expense RPC ---
-        console.log(`Calling add_expense_and_splits for recurring expense ${recurring.id}`);
-        const { data: newExpenseId, error: rpcError } = await supabaseAdmin.rpc('add_expense_and_splits', rpcArgs);
-
-        if (rpcError) {
-          throw new Error(`RPC add_expense_and_splits failed for recurring ${recurring.id}: ${rpcError.message}`);
-        }
-        if (!newExpenseId) {
-           throw new Error(`RPC add_expense_and_splits returned no ID for recurring ${recurring.id}`);
+      // --- Fetch Property Members (Needed for 'equal' split) ---
+      // Fetched once per template; membership is the same for every occurrence caught up in this run
+      const { data: members, error: memberError } = await supabaseAdmin
+        .from('property_members')
+        .select('user_id')
+        .eq('property_id', recurring.property_id);
+      if (memberError) {
+        report.failed.push({ ...item, occurrence_date: recurring.next_due_date, error: `Failed to fetch property members for ${recurring.property_id}: ${memberError.message}` });
+        continue;
+      }
+      const propertyMembers = members ?? [];
+
+      // --- Catch Up: one expense per occurrence until next_due_date is past today ---
+      let dueDate = firstDue;
+      let occurrenceCount = 0;
+      const estimates = new Map<string, number>(); // Variable templates: worked out once per terms version, drafts don't change it
+      let reviewRequested = false; // Departed participants are reported once per template per run
+      while (dueDate <= today) {
+        if (occurrenceCount >= MAX_OCCURRENCES_PER_RUN) {
+          console.warn(`Recurring expense ${recurring.id} hit the catch-up limit (${MAX_OCCURRENCES_PER_RUN}); continuing from ${dueDate} next run.`);
+          report.skipped.push({ ...item, occurrence_date: dueDate, reason: 'catch_up_limit' });
+          break;
         }
-
-        console.log(`Successfully generated new expense ${newExpenseId} for recurring ${recurring.id}.`);
-
-        // --- Calculate and Update Next Due Date ---
-        const currentDueDate = new Date(recurring.next_due_date + 'T00:00:00Z'); // Treat date as UTC midnight
-        const nextDueDate = calculateNextDueDate(currentDueDate, recurring.frequency, recurring.interval);
-        const nextDueDateString = format(nextDueDate, 'yyyy-MM-dd');
-
-        // Also check if the *new* next due date is past the end date
-        let shouldDeactivate = false;
-        if (recurring.end_date && nextDueDateString > recurring.end_date) {
-            console.log(`Next calculated due date (${nextDueDateString}) is past end date (${recurring.end_date}). Deactivating recurring expense ${recurring.id}.`);
-            shouldDeactivate = true;
+        occurrenceCount++;
+
+        try {
+          const exception = findRecurrenceException(exceptionsByTemplate.get(recurring.id), dueDate);
+          if (exception) {
+            console.log(`Occurrence ${dueDate} of recurring expense ${recurring.id} falls in a ${exception.kind} exception. Not billing it.`);
+            report.skipped.push({ ...item, occurrence_date: dueDate, reason: exception.kind === 'pause' ? 'paused' : 'skipped_by_exception' });
+          } else if (recurring.amount_mode === 'variable') {
+            const version = termsInForce(termsByTemplate.get(recurring.id), dueDate);
+            const estimatedAmount = estimates.get(version?.effective_from ?? '') ?? await estimateVariableAmount(supabaseAdmin, recurring, version);
+            estimates.set(version?.effective_from ?? '', estimatedAmount);
+            const { data: draft, error: draftError } = await supabaseAdmin
+              .from('recurring_expense_drafts')
+              .insert({ recurring_expense_id: recurring.id, property_id: recurring.property_id, occurrence_date: dueDate, estimated_amount: estimatedAmount })
+              .select('id')
+              .single();
+            if (draftError?.code === UNIQUE_VIOLATION) {
+              console.log(`Occurrence ${dueDate} of recurring expense ${recurring.id} already has a draft. Skipping.`);
+              report.skipped.push({ ...item, occurrence_date: dueDate, reason: 'already_generated' });
+            } else if (draftError) {
+              throw new Error(`Failed to queue draft: ${draftError.message}`);
+            } else {
+              console.log(`Queued draft ${draft.id} (estimate ${estimatedAmount}) for occurrence ${dueDate} of recurring ${recurring.id}.`);
+              report.drafted.push({ ...item, occurrence_date: dueDate, draft_id: draft.id, estimated_amount: estimatedAmount });
+            }
+          } else {
+            // Splits are calculated as of the occurrence (terms version and ownership stakes in force on its date)
+            const billed = withTermsInForce(recurring, termsByTemplate.get(recurring.id), dueDate);
+            const departedIds = findDepartedParticipants(billed, propertyMembers);
+            if (departedIds.length && !reviewRequested) {
+              reviewRequested = true;
+              console.warn(`Recurring expense ${recurring.id} has ${departedIds.length} participant(s) who left the property; splitting among the rest.`);
+              report.warnings.push({ ...item, occurrence_date: dueDate, message: `${departedIds.length} equal split participant(s) left the property; split among the remaining participants and opened a review task.` });
+              await openParticipantReviewTask(supabaseAdmin, recurring, departedIds).catch(taskError => console.error(`Recurring expense ${recurring.id}:`, taskError));
+            }
+            const splitsForRpc = await calculateSplitsForRpc(supabaseAdmin, { ...billed, next_due_date: dueDate }, propertyMembers);
+
+            const rpcArgs = {
+              p_property_id: recurring.property_id,
+              p_description: recurring.description,
+              p_amount: billed.amount,
+              p_date: dueDate, // Use the due date as the expense date
+              p_category: recurring.category,
+              p_paid_by_user_id: billed.paid_by_user_id,
+              p_split_method: billed.split_method,
+              p_notes: recurring.notes,
+              p_splits: splitsForRpc,
+              p_receipt_url: null, // Recurring expenses generally don't have receipts attached automatically
+              p_recurring_expense_id: recurring.id,
+              p_occurrence_date: dueDate,
+            };
+
+            const { data: rpcData, error: rpcError } = await supabaseAdmin.rpc('add_expense_and_splits', rpcArgs);
+            if (rpcError?.code === UNIQUE_VIOLATION) {
+              // A previous (possibly failed or overlapping) run already billed this occurrence; just move past it
+              console.log(`Occurrence ${dueDate} of recurring expense ${recurring.id} was already generated. Skipping.`);
+              report.skipped.push({ ...item, occurrence_date: dueDate, reason: 'already_generated' });
+            } else if (rpcError) {
+              throw new Error(`RPC add_expense_and_splits failed: ${rpcError.message}`);
+            } else {
+              const newExpenseId: string | undefined = Array.isArray(rpcData) ? rpcData[0]?.id : rpcData; // returns table (id)
+              if (!newExpenseId) throw new Error('RPC add_expense_and_splits returned no ID.');
+              console.log(`Generated expense ${newExpenseId} for occurrence ${dueDate} of recurring ${recurring.id}.`);
+              report.created.push({ ...item, occurrence_date: dueDate, expense_id: newExpenseId });
+            }
+          }
+        } catch (processError) {
+          // Leave next_due_date on the failed occurrence so the next run retries it rather than skipping a bill
+          console.error(`Error generating occurrence ${dueDate} of recurring expense ${recurring.id}:`, processError);
+          report.failed.push({ ...item, occurrence_date: dueDate, error: errorMessage(processError) });
+          break;
         }
 
-        console.log(`Updating recurring expense ${recurring.id}. Next due date: ${nextDueDateString}. Deactivating: ${shouldDeactivate}`);
+        // --- Advance next_due_date after every occurrence, so an interrupted run resumes where it stopped ---
+        // Shared with the web app's forecast and budget projections, so both agree on when the next bill falls
+        const nextDue = nextDueAfter(recurring, dueDate); // null once a rule's COUNT/UNTIL is used up
+        const nextDueDateString = nextDue ?? dueDate;
+        const shouldDeactivate = nextDue === null || (!!recurring.end_date && nextDue > recurring.end_date);
         const { error: updateError } = await supabaseAdmin
           .from('recurring_expenses')
-          .update({
-            next_due_date: nextDueDateString,
-            is_active: !shouldDeactivate, // Deactivate if needed
-            updated_at: new Date().toISOString()
-          })
+          .update({ next_due_date: nextDueDateString, is_active: !shouldDeactivate, updated_at: new Date().toISOString() })
           .eq('id', recurring.id);
-
         if (updateError) {
-          // Log error but don't necessarily fail the whole function run
+          // The occurrence is billed; the unique index turns the retry into an 'already_generated' skip
           console.error(`Failed to update next_due_date for recurring expense ${recurring.id}: ${updateError.message}`);
-           errorCount++; // Increment error count, but continue processing others
-        } else {
-           processedCount++;
+          report.failed.push({ ...item, occurrence_date: dueDate, error: `Failed to advance next_due_date: ${updateError.message}` });
+          break;
+        }
+        dueDate = nextDueDateString;
+        if (shouldDeactivate) {
+          console.log(`No occurrence of recurring expense ${recurring.id} remains on or before its end (next: ${nextDue ?? 'none'}, end date: ${recurring.end_date ?? 'none'}). Deactivated.`);
+          break;
         }
-
-      } catch (processError) {
-        // Catch errors processing a single recurring expense
-        console.error(`Error processing recurring expense ID ${recurring.id}:`, processError);
-        errorCount++;
-        // Continue to the next expense
       }
     } // End loop through dueExpenses
 
-    const duration = Date.now() - startTime;
-    console.log(`generate-expenses function finished in ${duration}ms. Processed: ${processedCount}, Errors: ${errorCount}`);
+    // --- Log Skipped/Failed Occurrences for the template history ---
+    // 'already_generated' is left out: that occurrence has its expense, so there is no gap to show
+    const propertyByTemplate = new Map(((dueExpenses ?? []) as RecurringExpense[]).map(r => [r.id, r.property_id]));
+    const logRows = [
+      ...report.skipped.filter(s => s.reason !== 'already_generated').map(s => ({ recurring_expense_id: s.recurring_expense_id, occurrence_date: s.occurrence_date, outcome: 'skipped', reason: s.reason })),
+      ...report.failed.map(f => ({ recurring_expense_id: f.recurring_expense_id, occurrence_date: f.occurrence_date, outcome: 'failed', reason: f.error })),
+    ].map(row => ({ ...row, property_id: propertyByTemplate.get(row.recurring_expense_id) }));
+    if (logRows.length > 0) {
+      const { error: logError } = await supabaseAdmin.from('recurring_expense_run_log').insert(logRows);
+      if (logError) console.error(`Failed to write recurring_expense_run_log: ${logError.message}`); // The report still carries every outcome
+    }
 
-    return new Response(JSON.stringify({ message: `Processed ${processedCount} expenses, ${errorCount} errors.` }), {
-      headers: { "Content-Type": "application/json" },
-      status: errorCount > 0 ? 500 : 200, // Indicate partial success if errors occurred
-    });
+    report.duration_ms = Date.now() - startTime;
+    console.log(`generate-expenses function finished in ${report.duration_ms}ms. Created: ${report.created.length}, Drafted: ${report.drafted.length}, Skipped: ${report.skipped.length}, Failed: ${report.failed.length}, Warnings: ${report.warnings.length}`);
+
+    return jsonResponse(report, report.failed.length > 0 ? 500 : 200); // 500 flags partial failure to the scheduler
 
   } catch (e) {
     // Catch major errors (e.g., client creation, initial fetch)
     console.error("Critical error in generate-expenses function:", e);
-    const duration = Date.now() - startTime;
-    console.log(`generate-expenses function failed critically after ${duration}ms.`);
-    return new Response(JSON.stringify({ error: e.message }), {
-      headers: { "Content-Type": "application/json" },
-      status: 500,
-    });
+    report.duration_ms = Date.now() - startTime;
+    console.log(`generate-expenses function failed critically after ${report.duration_ms}ms.`);
+    return jsonResponse({ ...report, error: errorMessage(e) }, 500);
   }
-})
\ No newline at end of file
+})
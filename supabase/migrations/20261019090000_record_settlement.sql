@@ -0,0 +1,89 @@
+-- supabase/migrations/20261019090000_record_settlement.sql
+-- Settlement log + record_settlement RPC: settles every outstanding split between two members in one step.
+
+create table if not exists public.settlements (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  from_user_id uuid not null references public.profiles(id),
+  to_user_id uuid not null references public.profiles(id),
+  amount numeric(12, 2) not null,
+  split_count integer not null default 0,
+  note text,
+  recorded_by uuid not null references public.profiles(id),
+  created_at timestamptz not null default now(),
+  constraint settlements_distinct_parties check (from_user_id <> to_user_id)
+);
+
+create index if not exists settlements_property_id_idx on public.settlements(property_id, created_at desc);
+
+alter table public.settlements enable row level security;
+
+create policy "Members can view settlements" on public.settlements
+  for select using (
+    exists (select 1 from public.property_members pm where pm.property_id = settlements.property_id and pm.user_id = auth.uid())
+  );
+
+-- Marks all outstanding splits between the two members paid (both directions, since the
+-- settlement covers the netted balance) and logs the net amount that changed hands.
+create or replace function public.record_settlement(
+  p_property_id uuid,
+  p_from_user_id uuid,
+  p_to_user_id uuid,
+  p_note text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller uuid := auth.uid();
+  v_caller_role member_role;
+  v_net numeric(12, 2);
+  v_count integer;
+  v_settlement_id uuid;
+begin
+  select role into v_caller_role from property_members where property_id = p_property_id and user_id = v_caller;
+  if v_caller_role is null then
+    return jsonb_build_object('error', 'You are not a member of this property.');
+  end if;
+  if v_caller not in (p_from_user_id, p_to_user_id) and v_caller_role <> 'owner' then
+    return jsonb_build_object('error', 'Only the two parties or a property owner can record this settlement.');
+  end if;
+
+  -- Net amount the "from" member owes the "to" member across outstanding splits
+  select
+    coalesce(sum(case when s.user_id = p_from_user_id then s.amount else -s.amount end), 0),
+    count(*)
+  into v_net, v_count
+  from expense_splits s
+  join expenses e on e.id = s.expense_id
+  where e.property_id = p_property_id
+    and coalesce(s.status, 'owed') <> 'paid' and not coalesce(s.is_paid, false)
+    and ((s.user_id = p_from_user_id and e.paid_by = p_to_user_id)
+      or (s.user_id = p_to_user_id and e.paid_by = p_from_user_id));
+
+  if v_count = 0 then
+    return jsonb_build_object('error', 'There are no outstanding splits between these members.');
+  end if;
+  if v_net <= 0 then
+    return jsonb_build_object('error', 'The paying member does not owe the receiving member anything.');
+  end if;
+
+  update expense_splits s
+  set status = 'paid', is_paid = true
+  from expenses e
+  where e.id = s.expense_id
+    and e.property_id = p_property_id
+    and coalesce(s.status, 'owed') <> 'paid' and not coalesce(s.is_paid, false)
+    and ((s.user_id = p_from_user_id and e.paid_by = p_to_user_id)
+      or (s.user_id = p_to_user_id and e.paid_by = p_from_user_id));
+
+  insert into settlements (property_id, from_user_id, to_user_id, amount, split_count, note, recorded_by)
+  values (p_property_id, p_from_user_id, p_to_user_id, v_net, v_count, p_note, v_caller)
+  returning id into v_settlement_id;
+
+  return jsonb_build_object('settlement_id', v_settlement_id, 'settled_splits', v_count, 'amount', v_net);
+end;
+$$;
+
+grant execute on function public.record_settlement(uuid, uuid, uuid, text) to authenticated;
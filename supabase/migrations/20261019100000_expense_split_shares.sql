@@ -0,0 +1,112 @@
+-- supabase/migrations/20261019100000_expense_split_shares.sql
+-- Expense RPCs persist per-split percentage and share counts (p_splits items may carry
+-- "percentage" / "shares" alongside user_id, amount and status).
+
+create or replace function public.add_expense_and_splits(
+  p_property_id uuid,
+  p_date date,
+  p_category expense_category,
+  p_amount numeric,
+  p_description text,
+  p_receipt_url text,
+  p_paid_by_user_id uuid,
+  p_split_method expense_split_method,
+  p_notes text,
+  p_splits jsonb
+) returns table (id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expense_id uuid;
+  v_split_total numeric;
+begin
+  -- auth.uid() is null for the service role (generate-expenses); end users must belong to the property
+  if auth.uid() is not null and not exists (select 1 from property_members where property_id = p_property_id and user_id = auth.uid()) then
+    raise exception 'You are not a member of this property.' using errcode = 'P0001';
+  end if;
+  if jsonb_typeof(p_splits) <> 'array' or jsonb_array_length(p_splits) = 0 then
+    raise exception 'At least one split is required.' using errcode = 'P0001';
+  end if;
+  if exists (select 1 from jsonb_array_elements(p_splits) s where s->>'user_id' is null or s->>'amount' is null or s->>'status' is null) then
+    raise exception 'Each split needs user_id, amount and status.' using errcode = 'P0001';
+  end if;
+  select sum((s->>'amount')::numeric) into v_split_total from jsonb_array_elements(p_splits) s;
+  if abs(v_split_total - p_amount) > 0.01 then
+    raise exception 'Split amounts (%) must add up to the expense amount (%).', v_split_total, p_amount using errcode = 'P0001';
+  end if;
+
+  insert into expenses (property_id, date, category, amount, description, receipt_url, paid_by, split_method, notes)
+  values (p_property_id, p_date, p_category, p_amount, p_description, p_receipt_url, p_paid_by_user_id, p_split_method, p_notes)
+  returning expenses.id into v_expense_id;
+
+  insert into expense_splits (expense_id, user_id, amount, percentage, shares, status, is_paid)
+  select v_expense_id,
+         (s->>'user_id')::uuid,
+         (s->>'amount')::numeric,
+         nullif(s->>'percentage', '')::numeric,
+         nullif(s->>'shares', '')::integer,
+         (s->>'status')::expense_split_status,
+         (s->>'status') = 'paid'
+  from jsonb_array_elements(p_splits) s;
+
+  return query select v_expense_id;
+end;
+$$;
+
+create or replace function public.update_expense_and_recalculate_splits(
+  p_expense_id uuid,
+  p_description text,
+  p_amount numeric,
+  p_date date,
+  p_category expense_category,
+  p_paid_by_user_id uuid,
+  p_split_method expense_split_method,
+  p_notes text,
+  p_splits jsonb,
+  p_receipt_url text default null
+) returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_property_id uuid;
+  v_split_total numeric;
+begin
+  select property_id into v_property_id from expenses where id = p_expense_id;
+  if v_property_id is null then
+    raise exception 'Expense not found.' using errcode = 'P0001';
+  end if;
+  if auth.uid() is not null and not exists (select 1 from property_members where property_id = v_property_id and user_id = auth.uid()) then
+    raise exception 'You are not a member of this property.' using errcode = 'P0001';
+  end if;
+  if jsonb_typeof(p_splits) <> 'array' or jsonb_array_length(p_splits) = 0 then
+    raise exception 'At least one split is required.' using errcode = 'P0001';
+  end if;
+  select sum((s->>'amount')::numeric) into v_split_total from jsonb_array_elements(p_splits) s;
+  if abs(v_split_total - p_amount) > 0.01 then
+    raise exception 'Split amounts (%) must add up to the expense amount (%).', v_split_total, p_amount using errcode = 'P0001';
+  end if;
+
+  update expenses
+  set description = p_description, amount = p_amount, date = p_date, category = p_category,
+      paid_by = p_paid_by_user_id, split_method = p_split_method, notes = p_notes,
+      receipt_url = coalesce(p_receipt_url, receipt_url), updated_at = now()
+  where id = p_expense_id;
+
+  delete from expense_splits where expense_id = p_expense_id;
+  insert into expense_splits (expense_id, user_id, amount, percentage, shares, status, is_paid)
+  select p_expense_id,
+         (s->>'user_id')::uuid,
+         (s->>'amount')::numeric,
+         nullif(s->>'percentage', '')::numeric,
+         nullif(s->>'shares', '')::integer,
+         (s->>'status')::expense_split_status,
+         (s->>'status') = 'paid'
+  from jsonb_array_elements(p_splits) s;
+
+  return true;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- supabase/migrations/20261019110000_ownership_split_method.sql
+-- Ownership split method: expense splits follow each member's property_members.ownership_percentage.
+-- Expenses store the resulting per-split percentage; recurring templates store only {"type": "ownership"}
+-- so generate-expenses re-reads the stakes for every occurrence.
+
+alter type expense_split_method add value if not exists 'ownership';
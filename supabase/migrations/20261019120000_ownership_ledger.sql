@@ -0,0 +1,156 @@
+-- supabase/migrations/20261019120000_ownership_ledger.sql
+-- Ownership ledger (cap table history). Every stake change is an event moving `percentage` points
+-- from one member to another on an effective date:
+--   * from + to   -> transfer between members (purchase, buy-out, gift, ...)
+--   * to only     -> new stake issued (initial allocation, upward adjustment)
+--   * from only   -> stake retired (downward adjustment)
+-- A member's stake on date D is what they received minus what they gave up on or before D.
+-- property_members.ownership_percentage is kept as a cache of today's stake.
+
+create type ownership_change_reason as enum ('initial', 'purchase', 'buy_out', 'gift', 'inheritance', 'adjustment');
+
+create table if not exists public.ownership_changes (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  from_user_id uuid references public.profiles(id),
+  to_user_id uuid references public.profiles(id),
+  percentage numeric(7, 4) not null,
+  reason ownership_change_reason not null,
+  effective_date date not null,
+  note text,
+  recorded_by uuid references public.profiles(id),
+  created_at timestamptz not null default now(),
+  constraint ownership_changes_has_party check (from_user_id is not null or to_user_id is not null),
+  constraint ownership_changes_distinct_parties check (from_user_id is null or to_user_id is null or from_user_id <> to_user_id),
+  constraint ownership_changes_percentage_range check (percentage > 0 and percentage <= 100)
+);
+
+create index if not exists ownership_changes_property_date_idx on public.ownership_changes(property_id, effective_date);
+
+alter table public.ownership_changes enable row level security;
+
+create policy "Members can view ownership changes" on public.ownership_changes
+  for select using (
+    exists (select 1 from public.property_members pm where pm.property_id = ownership_changes.property_id and pm.user_id = auth.uid())
+  );
+
+-- Opening balances: today's stakes become 'initial' entries dated when each member joined
+insert into public.ownership_changes (property_id, to_user_id, percentage, reason, effective_date, note)
+select pm.property_id, pm.user_id, pm.ownership_percentage, 'initial', pm.created_at::date, 'Opening balance'
+from public.property_members pm
+where pm.ownership_percentage > 0;
+
+-- New members added with a stake (e.g. the creator of a property at 100%) get an initial entry
+create or replace function public.log_initial_ownership() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(new.ownership_percentage, 0) > 0 then
+    insert into ownership_changes (property_id, to_user_id, percentage, reason, effective_date, recorded_by)
+    values (new.property_id, new.user_id, new.ownership_percentage, 'initial', current_date, auth.uid());
+  end if;
+  return new;
+end;
+$$;
+
+create trigger property_members_log_initial_ownership
+  after insert on public.property_members
+  for each row execute function public.log_initial_ownership();
+
+create or replace function public.ownership_stake_of(p_property_id uuid, p_user_id uuid, p_date date)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(case when to_user_id = p_user_id then percentage else -percentage end), 0)
+  from ownership_changes
+  where property_id = p_property_id and effective_date <= p_date and p_user_id in (from_user_id, to_user_id);
+$$;
+
+-- Stakes in effect on a date; used by generate-expenses for Ownership splits
+create or replace function public.ownership_stakes_as_of(p_property_id uuid, p_date date)
+returns table (user_id uuid, percentage numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select legs.user_id, sum(legs.delta)
+  from (
+    select to_user_id as user_id, percentage as delta from ownership_changes
+    where property_id = p_property_id and effective_date <= p_date and to_user_id is not null
+    union all
+    select from_user_id, -percentage from ownership_changes
+    where property_id = p_property_id and effective_date <= p_date and from_user_id is not null
+  ) legs
+  where auth.uid() is null or exists (select 1 from property_members pm where pm.property_id = p_property_id and pm.user_id = auth.uid())
+  group by legs.user_id
+  having sum(legs.delta) > 0.0001;
+$$;
+
+create or replace function public.record_ownership_change(
+  p_property_id uuid,
+  p_from_user_id uuid,
+  p_to_user_id uuid,
+  p_percentage numeric,
+  p_effective_date date,
+  p_reason ownership_change_reason,
+  p_note text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller uuid := auth.uid();
+  v_check_date date;
+  v_change_id uuid;
+begin
+  if not exists (select 1 from property_members where property_id = p_property_id and user_id = v_caller and role = 'owner') then
+    return jsonb_build_object('error', 'Only a property owner can record ownership changes.');
+  end if;
+  if p_from_user_id is null and p_to_user_id is null then
+    return jsonb_build_object('error', 'Choose who gives up and/or who receives the stake.');
+  end if;
+  if p_from_user_id = p_to_user_id then
+    return jsonb_build_object('error', 'A member cannot transfer a stake to themselves.');
+  end if;
+  if p_percentage is null or p_percentage <= 0 or p_percentage > 100 then
+    return jsonb_build_object('error', 'Percentage must be greater than 0 and at most 100.');
+  end if;
+  if exists (
+    select 1 from unnest(array[p_from_user_id, p_to_user_id]) as party(user_id)
+    where party.user_id is not null and not exists (select 1 from property_members pm where pm.property_id = p_property_id and pm.user_id = party.user_id)
+  ) then
+    return jsonb_build_object('error', 'Both parties must be members of this property.');
+  end if;
+
+  -- The change must keep every stake within 0-100% on its effective date and on every later ledger date
+  for v_check_date in
+    select p_effective_date
+    union
+    select distinct effective_date from ownership_changes where property_id = p_property_id and effective_date > p_effective_date
+  loop
+    if p_from_user_id is not null and ownership_stake_of(p_property_id, p_from_user_id, v_check_date) - p_percentage < -0.0001 then
+      return jsonb_build_object('error', format('The seller would hold less than 0%% on %s.', v_check_date));
+    end if;
+    if p_to_user_id is not null and ownership_stake_of(p_property_id, p_to_user_id, v_check_date) + p_percentage > 100.0001 then
+      return jsonb_build_object('error', format('The buyer would hold more than 100%% on %s.', v_check_date));
+    end if;
+  end loop;
+
+  insert into ownership_changes (property_id, from_user_id, to_user_id, percentage, reason, effective_date, note, recorded_by)
+  values (p_property_id, p_from_user_id, p_to_user_id, p_percentage, p_reason, p_effective_date, nullif(trim(p_note), ''), v_caller)
+  returning id into v_change_id;
+
+  update property_members pm
+  set ownership_percentage = ownership_stake_of(p_property_id, pm.user_id, current_date)
+  where pm.property_id = p_property_id and pm.user_id in (p_from_user_id, p_to_user_id);
+
+  return jsonb_build_object('change_id', v_change_id);
+end;
+$$;
@@ -0,0 +1,151 @@
+-- supabase/migrations/20261019130000_income_ledger.sql
+-- Income ledger: rental payouts, guest fees and forfeited deposits, each distributed to members
+-- by ownership stake or a custom split. get_property_finances now reads income from this table.
+
+create type income_source as enum ('rental_platform', 'guest_fee', 'deposit_forfeiture', 'other');
+create type income_distribution_method as enum ('ownership', 'custom');
+
+create table if not exists public.incomes (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  date date not null,
+  amount numeric(12, 2) not null,
+  source income_source not null,
+  description text,
+  distribution_method income_distribution_method not null,
+  notes text,
+  created_by uuid references public.profiles(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  constraint incomes_amount_positive check (amount > 0)
+);
+
+create table if not exists public.income_distributions (
+  id uuid primary key default gen_random_uuid(),
+  income_id uuid not null references public.incomes(id) on delete cascade,
+  user_id uuid not null references public.profiles(id),
+  amount numeric(12, 2) not null,
+  percentage numeric(7, 4),
+  created_at timestamptz not null default now(),
+  constraint income_distributions_unique_member unique (income_id, user_id)
+);
+
+create index if not exists incomes_property_date_idx on public.incomes(property_id, date desc);
+create index if not exists income_distributions_income_id_idx on public.income_distributions(income_id);
+
+alter table public.incomes enable row level security;
+alter table public.income_distributions enable row level security;
+
+create policy "Members can view incomes" on public.incomes
+  for select using (
+    exists (select 1 from public.property_members pm where pm.property_id = incomes.property_id and pm.user_id = auth.uid())
+  );
+
+create policy "Owners and recorders can delete incomes" on public.incomes
+  for delete using (
+    created_by = auth.uid()
+    or exists (select 1 from public.property_members pm where pm.property_id = incomes.property_id and pm.user_id = auth.uid() and pm.role = 'owner')
+  );
+
+create policy "Members can view income distributions" on public.income_distributions
+  for select using (
+    exists (
+      select 1 from public.incomes i
+      join public.property_members pm on pm.property_id = i.property_id
+      where i.id = income_distributions.income_id and pm.user_id = auth.uid()
+    )
+  );
+
+create or replace function public.add_income_and_distributions(
+  p_property_id uuid,
+  p_date date,
+  p_amount numeric,
+  p_source income_source,
+  p_description text,
+  p_distribution_method income_distribution_method,
+  p_notes text,
+  p_distributions jsonb
+) returns table (id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_income_id uuid;
+  v_total numeric;
+begin
+  if not exists (select 1 from property_members where property_id = p_property_id and user_id = auth.uid()) then
+    raise exception 'You are not a member of this property.' using errcode = 'P0001';
+  end if;
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Income amount must be greater than zero.' using errcode = 'P0001';
+  end if;
+  if jsonb_typeof(p_distributions) <> 'array' or jsonb_array_length(p_distributions) = 0 then
+    raise exception 'At least one distribution is required.' using errcode = 'P0001';
+  end if;
+  if exists (
+    select 1 from jsonb_array_elements(p_distributions) d
+    where d->>'user_id' is null or d->>'amount' is null
+       or not exists (select 1 from property_members pm where pm.property_id = p_property_id and pm.user_id = (d->>'user_id')::uuid)
+  ) then
+    raise exception 'Each distribution needs an amount and a member of this property.' using errcode = 'P0001';
+  end if;
+  select sum((d->>'amount')::numeric) into v_total from jsonb_array_elements(p_distributions) d;
+  if abs(v_total - p_amount) > 0.01 then
+    raise exception 'Distributed amounts (%) must add up to the income amount (%).', v_total, p_amount using errcode = 'P0001';
+  end if;
+
+  insert into incomes (property_id, date, amount, source, description, distribution_method, notes, created_by)
+  values (p_property_id, p_date, p_amount, p_source, nullif(trim(p_description), ''), p_distribution_method, nullif(trim(p_notes), ''), auth.uid())
+  returning incomes.id into v_income_id;
+
+  insert into income_distributions (income_id, user_id, amount, percentage)
+  select v_income_id, (d->>'user_id')::uuid, (d->>'amount')::numeric, nullif(d->>'percentage', '')::numeric
+  from jsonb_array_elements(p_distributions) d;
+
+  return query select v_income_id;
+end;
+$$;
+
+grant execute on function public.add_income_and_distributions(uuid, date, numeric, income_source, text, income_distribution_method, text, jsonb) to authenticated;
+
+-- Income, expenses and net for a date range (inclusive), with expenses broken down by category.
+-- Dropped first because the previous version may have had a different return type.
+drop function if exists public.get_property_finances(uuid, date, date);
+create function public.get_property_finances(p_property_id uuid, p_start_date date, p_end_date date)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_income numeric(12, 2);
+  v_expenses numeric(12, 2);
+  v_by_category jsonb;
+begin
+  if not exists (select 1 from property_members where property_id = p_property_id and user_id = auth.uid()) then
+    raise exception 'You are not a member of this property.' using errcode = 'P0001';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_income
+  from incomes where property_id = p_property_id and date between p_start_date and p_end_date;
+
+  select coalesce(sum(category_total), 0), coalesce(jsonb_object_agg(category, category_total), '{}'::jsonb)
+  into v_expenses, v_by_category
+  from (
+    select category, sum(amount) as category_total
+    from expenses where property_id = p_property_id and date between p_start_date and p_end_date
+    group by category
+  ) per_category;
+
+  return jsonb_build_object(
+    'total_income', v_income,
+    'total_expenses', v_expenses,
+    'net_income', v_income - v_expenses,
+    'expenses_by_category', v_by_category
+  );
+end;
+$$;
+
+grant execute on function public.get_property_finances(uuid, date, date) to authenticated;
@@ -0,0 +1,197 @@
+-- supabase/migrations/20261019140000_multi_currency.sql
+-- Multi-currency expenses: each property has a base currency, and an expense may be entered in
+-- another currency with the exchange rate used. expenses.amount (and every split) stays in the
+-- base currency so balances, settlements and reports are unaffected; the entered amount is kept
+-- in original_amount. exchange_rates is a per-property table of dated rates members can pick from.
+
+alter table public.properties add column if not exists base_currency text not null default 'USD';
+alter table public.properties add constraint properties_base_currency_format check (base_currency ~ '^[A-Z]{3}$');
+
+alter table public.expenses
+  add column if not exists currency text, -- null: the property's base currency (expenses recorded before this migration)
+  add column if not exists original_amount numeric(12, 2),
+  add column if not exists exchange_rate numeric(18, 8), -- base currency units per 1 unit of currency
+  add column if not exists exchange_rate_source text;
+alter table public.expenses add constraint expenses_currency_format check (currency is null or currency ~ '^[A-Z]{3}$');
+alter table public.expenses add constraint expenses_exchange_rate_positive check (exchange_rate is null or exchange_rate > 0);
+alter table public.expenses add constraint expenses_exchange_rate_source_valid check (exchange_rate_source is null or exchange_rate_source in ('manual', 'table'));
+
+create table if not exists public.exchange_rates (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  base_currency text not null,
+  currency text not null,
+  rate numeric(18, 8) not null, -- base_currency units per 1 unit of currency
+  rate_date date not null,
+  created_by uuid references public.profiles(id),
+  created_at timestamptz not null default now(),
+  constraint exchange_rates_rate_positive check (rate > 0),
+  constraint exchange_rates_currency_format check (currency ~ '^[A-Z]{3}$' and base_currency ~ '^[A-Z]{3}$' and currency <> base_currency),
+  constraint exchange_rates_unique_day unique (property_id, base_currency, currency, rate_date)
+);
+
+create index if not exists exchange_rates_lookup_idx on public.exchange_rates(property_id, currency, rate_date desc);
+
+alter table public.exchange_rates enable row level security;
+
+create policy "Members can view exchange rates" on public.exchange_rates
+  for select using (
+    exists (select 1 from public.property_members pm where pm.property_id = exchange_rates.property_id and pm.user_id = auth.uid())
+  );
+
+create policy "Members can add exchange rates" on public.exchange_rates
+  for insert with check (
+    created_by = auth.uid()
+    and exists (select 1 from public.property_members pm where pm.property_id = exchange_rates.property_id and pm.user_id = auth.uid())
+  );
+
+create policy "Owners and recorders can delete exchange rates" on public.exchange_rates
+  for delete using (
+    created_by = auth.uid()
+    or exists (select 1 from public.property_members pm where pm.property_id = exchange_rates.property_id and pm.user_id = auth.uid() and pm.role = 'owner')
+  );
+
+-- The expense RPCs gain currency parameters (with defaults, so existing callers such as
+-- generate-expenses and the CSV import keep working and record base-currency expenses).
+drop function if exists public.add_expense_and_splits(uuid, date, expense_category, numeric, text, text, uuid, expense_split_method, text, jsonb);
+drop function if exists public.update_expense_and_recalculate_splits(uuid, text, numeric, date, expense_category, uuid, expense_split_method, text, jsonb, text);
+
+create or replace function public.add_expense_and_splits(
+  p_property_id uuid,
+  p_date date,
+  p_category expense_category,
+  p_amount numeric,
+  p_description text,
+  p_receipt_url text,
+  p_paid_by_user_id uuid,
+  p_split_method expense_split_method,
+  p_notes text,
+  p_splits jsonb,
+  p_currency text default null,
+  p_original_amount numeric default null,
+  p_exchange_rate numeric default null,
+  p_exchange_rate_source text default null
+) returns table (id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expense_id uuid;
+  v_split_total numeric;
+  v_base_currency text;
+begin
+  -- auth.uid() is null for the service role (generate-expenses); end users must belong to the property
+  if auth.uid() is not null and not exists (select 1 from property_members where property_id = p_property_id and user_id = auth.uid()) then
+    raise exception 'You are not a member of this property.' using errcode = 'P0001';
+  end if;
+  if jsonb_typeof(p_splits) <> 'array' or jsonb_array_length(p_splits) = 0 then
+    raise exception 'At least one split is required.' using errcode = 'P0001';
+  end if;
+  if exists (select 1 from jsonb_array_elements(p_splits) s where s->>'user_id' is null or s->>'amount' is null or s->>'status' is null) then
+    raise exception 'Each split needs user_id, amount and status.' using errcode = 'P0001';
+  end if;
+  select sum((s->>'amount')::numeric) into v_split_total from jsonb_array_elements(p_splits) s;
+  if abs(v_split_total - p_amount) > 0.01 then
+    raise exception 'Split amounts (%) must add up to the expense amount (%).', v_split_total, p_amount using errcode = 'P0001';
+  end if;
+  select base_currency into v_base_currency from properties where properties.id = p_property_id;
+  if p_currency is not null and p_currency <> v_base_currency and (p_exchange_rate is null or p_exchange_rate <= 0) then
+    raise exception 'An exchange rate to % is required for % expenses.', v_base_currency, p_currency using errcode = 'P0001';
+  end if;
+
+  insert into expenses (property_id, date, category, amount, description, receipt_url, paid_by, split_method, notes,
+                        currency, original_amount, exchange_rate, exchange_rate_source)
+  values (p_property_id, p_date, p_category, p_amount, p_description, p_receipt_url, p_paid_by_user_id, p_split_method, p_notes,
+          coalesce(p_currency, v_base_currency), coalesce(p_original_amount, p_amount),
+          case when coalesce(p_currency, v_base_currency) = v_base_currency then 1 else p_exchange_rate end,
+          case when coalesce(p_currency, v_base_currency) = v_base_currency then null else coalesce(p_exchange_rate_source, 'manual') end)
+  returning expenses.id into v_expense_id;
+
+  insert into expense_splits (expense_id, user_id, amount, percentage, shares, status, is_paid)
+  select v_expense_id,
+         (s->>'user_id')::uuid,
+         (s->>'amount')::numeric,
+         nullif(s->>'percentage', '')::numeric,
+         nullif(s->>'shares', '')::integer,
+         (s->>'status')::expense_split_status,
+         (s->>'status') = 'paid'
+  from jsonb_array_elements(p_splits) s;
+
+  return query select v_expense_id;
+end;
+$$;
+
+create or replace function public.update_expense_and_recalculate_splits(
+  p_expense_id uuid,
+  p_description text,
+  p_amount numeric,
+  p_date date,
+  p_category expense_category,
+  p_paid_by_user_id uuid,
+  p_split_method expense_split_method,
+  p_notes text,
+  p_splits jsonb,
+  p_receipt_url text default null,
+  p_currency text default null,
+  p_original_amount numeric default null,
+  p_exchange_rate numeric default null,
+  p_exchange_rate_source text default null
+) returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_property_id uuid;
+  v_split_total numeric;
+  v_base_currency text;
+  v_currency text;
+begin
+  select property_id into v_property_id from expenses where id = p_expense_id;
+  if v_property_id is null then
+    raise exception 'Expense not found.' using errcode = 'P0001';
+  end if;
+  if auth.uid() is not null and not exists (select 1 from property_members where property_id = v_property_id and user_id = auth.uid()) then
+    raise exception 'You are not a member of this property.' using errcode = 'P0001';
+  end if;
+  if jsonb_typeof(p_splits) <> 'array' or jsonb_array_length(p_splits) = 0 then
+    raise exception 'At least one split is required.' using errcode = 'P0001';
+  end if;
+  select sum((s->>'amount')::numeric) into v_split_total from jsonb_array_elements(p_splits) s;
+  if abs(v_split_total - p_amount) > 0.01 then
+    raise exception 'Split amounts (%) must add up to the expense amount (%).', v_split_total, p_amount using errcode = 'P0001';
+  end if;
+  select base_currency into v_base_currency from properties where id = v_property_id;
+  v_currency := coalesce(p_currency, v_base_currency);
+  if v_currency <> v_base_currency and (p_exchange_rate is null or p_exchange_rate <= 0) then
+    raise exception 'An exchange rate to % is required for % expenses.', v_base_currency, v_currency using errcode = 'P0001';
+  end if;
+
+  update expenses
+  set description = p_description, amount = p_amount, date = p_date, category = p_category,
+      paid_by = p_paid_by_user_id, split_method = p_split_method, notes = p_notes,
+      receipt_url = coalesce(p_receipt_url, receipt_url),
+      currency = v_currency, original_amount = coalesce(p_original_amount, p_amount),
+      exchange_rate = case when v_currency = v_base_currency then 1 else p_exchange_rate end,
+      exchange_rate_source = case when v_currency = v_base_currency then null else coalesce(p_exchange_rate_source, 'manual') end,
+      updated_at = now()
+  where id = p_expense_id;
+
+  delete from expense_splits where expense_id = p_expense_id;
+  insert into expense_splits (expense_id, user_id, amount, percentage, shares, status, is_paid)
+  select p_expense_id,
+         (s->>'user_id')::uuid,
+         (s->>'amount')::numeric,
+         nullif(s->>'percentage', '')::numeric,
+         nullif(s->>'shares', '')::integer,
+         (s->>'status')::expense_split_status,
+         (s->>'status') = 'paid'
+  from jsonb_array_elements(p_splits) s;
+
+  return true;
+end;
+$$;
+
+grant execute on function public.add_expense_and_splits(uuid, date, expense_category, numeric, text, text, uuid, expense_split_method, text, jsonb, text, numeric, numeric, text) to authenticated, service_role;
+grant execute on function public.update_expense_and_recalculate_splits(uuid, text, numeric, date, expense_category, uuid, expense_split_method, text, jsonb, text, text, numeric, numeric, text) to authenticated;
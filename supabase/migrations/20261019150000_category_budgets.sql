@@ -0,0 +1,48 @@
+-- supabase/migrations/20261019150000_category_budgets.sql
+-- Per-property, per-category budgets for a calendar year, set monthly or annually. alert_threshold is
+-- the percentage of the period's budget at which the dashboard warns (e.g. 80 = warn at 80% spent).
+
+create type budget_period as enum ('monthly', 'annual');
+
+create table if not exists public.category_budgets (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  category expense_category not null,
+  year integer not null,
+  period budget_period not null,
+  amount numeric(12, 2) not null, -- Per month for 'monthly', per year for 'annual'; in the property's base currency
+  alert_threshold numeric(5, 2) not null default 80,
+  notes text,
+  created_by uuid references public.profiles(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  constraint category_budgets_amount_positive check (amount > 0),
+  constraint category_budgets_threshold_range check (alert_threshold > 0 and alert_threshold <= 200),
+  constraint category_budgets_year_range check (year between 2000 and 2100),
+  constraint category_budgets_unique_category_year unique (property_id, category, year)
+);
+
+create index if not exists category_budgets_property_year_idx on public.category_budgets(property_id, year);
+
+alter table public.category_budgets enable row level security;
+
+create policy "Members can view budgets" on public.category_budgets
+  for select using (
+    exists (select 1 from public.property_members pm where pm.property_id = category_budgets.property_id and pm.user_id = auth.uid())
+  );
+
+-- Budgets are agreed by the owners; guests can see them but not change them
+create policy "Owners and co-owners can add budgets" on public.category_budgets
+  for insert with check (
+    exists (select 1 from public.property_members pm where pm.property_id = category_budgets.property_id and pm.user_id = auth.uid() and pm.role in ('owner', 'co_owner'))
+  );
+
+create policy "Owners and co-owners can update budgets" on public.category_budgets
+  for update using (
+    exists (select 1 from public.property_members pm where pm.property_id = category_budgets.property_id and pm.user_id = auth.uid() and pm.role in ('owner', 'co_owner'))
+  );
+
+create policy "Owners and co-owners can delete budgets" on public.category_budgets
+  for delete using (
+    exists (select 1 from public.property_members pm where pm.property_id = category_budgets.property_id and pm.user_id = auth.uid() and pm.role in ('owner', 'co_owner'))
+  );
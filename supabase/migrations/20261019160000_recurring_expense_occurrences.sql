@@ -0,0 +1,92 @@
+-- supabase/migrations/20261019160000_recurring_expense_occurrences.sql
+-- Links each expense generated by generate-expenses back to its recurring expense and the occurrence
+-- (due date) it bills. The partial unique index makes generation idempotent: a retried or overlapping
+-- run that tries to bill the same occurrence again fails with a unique violation instead of
+-- double-billing, and the function reports it as skipped. Deleting the recurring expense keeps its
+-- generated expenses (the link is set null; occurrence_date is kept for reference).
+
+alter table public.expenses
+  add column if not exists recurring_expense_id uuid references public.recurring_expenses(id) on delete set null,
+  add column if not exists occurrence_date date;
+
+create unique index if not exists expenses_recurring_occurrence_unique_idx
+  on public.expenses(recurring_expense_id, occurrence_date)
+  where recurring_expense_id is not null;
+
+-- add_expense_and_splits gains the two link parameters (defaulted, so user-entered expenses are unchanged)
+drop function if exists public.add_expense_and_splits(uuid, date, expense_category, numeric, text, text, uuid, expense_split_method, text, jsonb, text, numeric, numeric, text);
+
+create or replace function public.add_expense_and_splits(
+  p_property_id uuid,
+  p_date date,
+  p_category expense_category,
+  p_amount numeric,
+  p_description text,
+  p_receipt_url text,
+  p_paid_by_user_id uuid,
+  p_split_method expense_split_method,
+  p_notes text,
+  p_splits jsonb,
+  p_currency text default null,
+  p_original_amount numeric default null,
+  p_exchange_rate numeric default null,
+  p_exchange_rate_source text default null,
+  p_recurring_expense_id uuid default null,
+  p_occurrence_date date default null
+) returns table (id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expense_id uuid;
+  v_split_total numeric;
+  v_base_currency text;
+begin
+  -- auth.uid() is null for the service role (generate-expenses); end users must belong to the property
+  if auth.uid() is not null and not exists (select 1 from property_members where property_id = p_property_id and user_id = auth.uid()) then
+    raise exception 'You are not a member of this property.' using errcode = 'P0001';
+  end if;
+  if jsonb_typeof(p_splits) <> 'array' or jsonb_array_length(p_splits) = 0 then
+    raise exception 'At least one split is required.' using errcode = 'P0001';
+  end if;
+  if exists (select 1 from jsonb_array_elements(p_splits) s where s->>'user_id' is null or s->>'amount' is null or s->>'status' is null) then
+    raise exception 'Each split needs user_id, amount and status.' using errcode = 'P0001';
+  end if;
+  select sum((s->>'amount')::numeric) into v_split_total from jsonb_array_elements(p_splits) s;
+  if abs(v_split_total - p_amount) > 0.01 then
+    raise exception 'Split amounts (%) must add up to the expense amount (%).', v_split_total, p_amount using errcode = 'P0001';
+  end if;
+  select base_currency into v_base_currency from properties where properties.id = p_property_id;
+  if p_currency is not null and p_currency <> v_base_currency and (p_exchange_rate is null or p_exchange_rate <= 0) then
+    raise exception 'An exchange rate to % is required for % expenses.', v_base_currency, p_currency using errcode = 'P0001';
+  end if;
+
+  if (p_recurring_expense_id is null) <> (p_occurrence_date is null) then
+    raise exception 'A generated expense needs both its recurring expense and occurrence date.' using errcode = 'P0001';
+  end if;
+
+  insert into expenses (property_id, date, category, amount, description, receipt_url, paid_by, split_method, notes,
+                        currency, original_amount, exchange_rate, exchange_rate_source, recurring_expense_id, occurrence_date)
+  values (p_property_id, p_date, p_category, p_amount, p_description, p_receipt_url, p_paid_by_user_id, p_split_method, p_notes,
+          coalesce(p_currency, v_base_currency), coalesce(p_original_amount, p_amount),
+          case when coalesce(p_currency, v_base_currency) = v_base_currency then 1 else p_exchange_rate end,
+          case when coalesce(p_currency, v_base_currency) = v_base_currency then null else coalesce(p_exchange_rate_source, 'manual') end,
+          p_recurring_expense_id, p_occurrence_date)
+  returning expenses.id into v_expense_id;
+
+  insert into expense_splits (expense_id, user_id, amount, percentage, shares, status, is_paid)
+  select v_expense_id,
+         (s->>'user_id')::uuid,
+         (s->>'amount')::numeric,
+         nullif(s->>'percentage', '')::numeric,
+         nullif(s->>'shares', '')::integer,
+         (s->>'status')::expense_split_status,
+         (s->>'status') = 'paid'
+  from jsonb_array_elements(p_splits) s;
+
+  return query select v_expense_id;
+end;
+$$;
+
+grant execute on function public.add_expense_and_splits(uuid, date, expense_category, numeric, text, text, uuid, expense_split_method, text, jsonb, text, numeric, numeric, text, uuid, date) to authenticated, service_role;
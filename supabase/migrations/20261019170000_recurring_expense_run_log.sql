@@ -0,0 +1,25 @@
+-- supabase/migrations/20261019170000_recurring_expense_run_log.sql
+-- Occurrences generate-expenses did not bill, so a template's history can show gaps alongside the
+-- expenses it generated (those are found through expenses.recurring_expense_id). One row per
+-- skipped or failed occurrence per run; a failed occurrence that a later run bills keeps its row,
+-- and the history hides it once the expense exists. Written only by the service role.
+
+create table if not exists public.recurring_expense_run_log (
+  id uuid primary key default gen_random_uuid(),
+  recurring_expense_id uuid not null references public.recurring_expenses(id) on delete cascade,
+  property_id uuid not null references public.properties(id) on delete cascade,
+  occurrence_date date, -- null when the run skipped the template as a whole (e.g. already past its end date)
+  outcome text not null,
+  reason text not null, -- Skip reason ('ended', 'catch_up_limit') or the error message
+  created_at timestamptz not null default now(),
+  constraint recurring_expense_run_log_outcome_valid check (outcome in ('skipped', 'failed'))
+);
+
+create index if not exists recurring_expense_run_log_template_idx on public.recurring_expense_run_log(recurring_expense_id, created_at desc);
+
+alter table public.recurring_expense_run_log enable row level security;
+
+create policy "Members can view recurring run log" on public.recurring_expense_run_log
+  for select using (
+    exists (select 1 from public.property_members pm where pm.property_id = recurring_expense_run_log.property_id and pm.user_id = auth.uid())
+  );
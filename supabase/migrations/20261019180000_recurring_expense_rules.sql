@@ -0,0 +1,14 @@
+-- supabase/migrations/20261019180000_recurring_expense_rules.sql
+-- Optional RFC 5545 RRULE (e.g. 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1' for the last business
+-- day) on recurring expenses. When set it replaces frequency/interval, with start_date as DTSTART;
+-- frequency stays filled as a coarse fallback for older clients. Rules are parsed and evaluated by
+-- supabase/functions/_shared/recurrence.ts in both generate-expenses and the web app, so the database
+-- only checks the basic shape.
+
+alter table public.recurring_expenses add column if not exists recurrence_rule text;
+
+alter table public.recurring_expenses drop constraint if exists recurring_expenses_recurrence_rule_shape;
+alter table public.recurring_expenses add constraint recurring_expenses_recurrence_rule_shape
+  check (recurrence_rule is null or (length(recurrence_rule) <= 500 and recurrence_rule ~* '(^|;|:)FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;|$)'));
+
+comment on column public.recurring_expenses.recurrence_rule is 'RFC 5545 RRULE (without DTSTART); overrides frequency/interval when set.';
@@ -0,0 +1,38 @@
+-- supabase/migrations/20261019190000_variable_amount_recurring_drafts.sql
+-- Variable-amount recurring bills (utilities): instead of posting the template amount, generate-expenses
+-- queues a draft per occurrence with an estimate (the last posted amount, or the average of recent ones).
+-- The payer, or an owner/co-owner, posts the draft with the real figure (and optionally the bill) through
+-- generate-expenses, which only then calculates the splits. Drafts are written only by the service role.
+
+alter table public.recurring_expenses add column if not exists amount_mode text not null default 'fixed';
+alter table public.recurring_expenses add column if not exists estimate_method text not null default 'last';
+
+alter table public.recurring_expenses drop constraint if exists recurring_expenses_amount_mode_valid;
+alter table public.recurring_expenses add constraint recurring_expenses_amount_mode_valid check (amount_mode in ('fixed', 'variable'));
+alter table public.recurring_expenses drop constraint if exists recurring_expenses_estimate_method_valid;
+alter table public.recurring_expenses add constraint recurring_expenses_estimate_method_valid check (estimate_method in ('last', 'average'));
+
+create table if not exists public.recurring_expense_drafts (
+  id uuid primary key default gen_random_uuid(),
+  recurring_expense_id uuid not null references public.recurring_expenses(id) on delete cascade,
+  property_id uuid not null references public.properties(id) on delete cascade,
+  occurrence_date date not null,
+  estimated_amount numeric(12, 2) not null,
+  status text not null default 'pending',
+  confirmed_amount numeric(12, 2), -- The real figure, once posted
+  expense_id uuid references public.expenses(id) on delete set null, -- The posted expense
+  resolved_by uuid references auth.users(id) on delete set null,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint recurring_expense_drafts_status_valid check (status in ('pending', 'posted', 'dismissed')),
+  constraint recurring_expense_drafts_occurrence_unique unique (recurring_expense_id, occurrence_date) -- One draft per occurrence, so reruns are idempotent
+);
+
+create index if not exists recurring_expense_drafts_pending_idx on public.recurring_expense_drafts(property_id, occurrence_date) where status = 'pending';
+
+alter table public.recurring_expense_drafts enable row level security;
+
+create policy "Members can view recurring expense drafts" on public.recurring_expense_drafts
+  for select using (
+    exists (select 1 from public.property_members pm where pm.property_id = recurring_expense_drafts.property_id and pm.user_id = auth.uid())
+  );
@@ -0,0 +1,48 @@
+-- supabase/migrations/20261019200000_recurring_expense_exceptions.sql
+-- Per-template exceptions: skip a single occurrence (e.g. the HOA waives a month) or pause between two
+-- dates, resuming automatically afterwards. generate-expenses does not bill (or draft) an occurrence an
+-- exception covers, and logs it as skipped; the web app's forecast and budget projections leave it out.
+-- The schedule itself is unchanged, so next_due_date still moves past excepted occurrences.
+
+create table if not exists public.recurring_expense_exceptions (
+  id uuid primary key default gen_random_uuid(),
+  recurring_expense_id uuid not null references public.recurring_expenses(id) on delete cascade,
+  property_id uuid not null references public.properties(id) on delete cascade,
+  kind text not null,
+  start_date date not null, -- The skipped occurrence, or the first day of the pause
+  end_date date, -- Last day of the pause (inclusive); null for a skip
+  reason text,
+  created_by uuid default auth.uid() references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  constraint recurring_expense_exceptions_kind_valid check (kind in ('skip', 'pause')),
+  constraint recurring_expense_exceptions_dates_valid check (
+    (kind = 'skip' and end_date is null) or (kind = 'pause' and end_date is not null and end_date >= start_date)
+  )
+);
+
+create index if not exists recurring_expense_exceptions_template_idx on public.recurring_expense_exceptions(recurring_expense_id, start_date);
+
+alter table public.recurring_expense_exceptions enable row level security;
+
+create policy "Members can view recurring exceptions" on public.recurring_expense_exceptions
+  for select using (
+    exists (select 1 from public.property_members pm where pm.property_id = recurring_expense_exceptions.property_id and pm.user_id = auth.uid())
+  );
+
+-- Skipping or pausing a shared bill changes what everyone owes, so only owners and co-owners manage exceptions
+create policy "Owners and co-owners can add recurring exceptions" on public.recurring_expense_exceptions
+  for insert with check (
+    exists (select 1 from public.property_members pm where pm.property_id = recurring_expense_exceptions.property_id and pm.user_id = auth.uid() and pm.role in ('owner', 'co_owner'))
+    and exists (select 1 from public.recurring_expenses r where r.id = recurring_expense_exceptions.recurring_expense_id and r.property_id = recurring_expense_exceptions.property_id)
+  );
+
+create policy "Owners and co-owners can update recurring exceptions" on public.recurring_expense_exceptions
+  for update using (
+    exists (select 1 from public.property_members pm where pm.property_id = recurring_expense_exceptions.property_id and pm.user_id = auth.uid() and pm.role in ('owner', 'co_owner'))
+  );
+
+create policy "Owners and co-owners can delete recurring exceptions" on public.recurring_expense_exceptions
+  for delete using (
+    exists (select 1 from public.property_members pm where pm.property_id = recurring_expense_exceptions.property_id and pm.user_id = auth.uid() and pm.role in ('owner', 'co_owner'))
+  );
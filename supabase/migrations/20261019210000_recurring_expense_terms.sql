@@ -0,0 +1,65 @@
+-- supabase/migrations/20261019210000_recurring_expense_terms.sql
+-- Versioned template terms. Each version holds the amount, payer and split that apply from its
+-- effective_from date, so a renewal at a new premium does not rewrite earlier occurrences or the forecast
+-- before it. generate-expenses bills every occurrence on the version in force on its date.
+-- recurring_expenses.amount/paid_by_user_id/split_method/split_details keep mirroring the latest version.
+
+create table if not exists public.recurring_expense_terms (
+  id uuid primary key default gen_random_uuid(),
+  recurring_expense_id uuid not null references public.recurring_expenses(id) on delete cascade,
+  property_id uuid not null references public.properties(id) on delete cascade,
+  effective_from date not null,
+  amount numeric(12, 2) not null,
+  paid_by_user_id uuid references auth.users(id) on delete set null,
+  split_method text not null,
+  split_details jsonb,
+  created_by uuid default auth.uid() references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  constraint recurring_expense_terms_amount_positive check (amount > 0),
+  constraint recurring_expense_terms_effective_unique unique (recurring_expense_id, effective_from)
+);
+
+-- The first version takes effect on the template's start date
+create or replace function public.create_initial_recurring_expense_terms()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.recurring_expense_terms (recurring_expense_id, property_id, effective_from, amount, paid_by_user_id, split_method, split_details, created_by)
+  values (new.id, new.property_id, new.start_date, new.amount, new.paid_by_user_id, new.split_method, new.split_details, new.created_by)
+  on conflict (recurring_expense_id, effective_from) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists recurring_expenses_initial_terms on public.recurring_expenses;
+create trigger recurring_expenses_initial_terms
+  after insert on public.recurring_expenses
+  for each row execute function public.create_initial_recurring_expense_terms();
+
+-- Backfill: existing templates get one version with their current terms
+insert into public.recurring_expense_terms (recurring_expense_id, property_id, effective_from, amount, paid_by_user_id, split_method, split_details, created_by)
+select r.id, r.property_id, r.start_date, r.amount, r.paid_by_user_id, r.split_method, r.split_details, r.created_by
+from public.recurring_expenses r
+on conflict (recurring_expense_id, effective_from) do nothing;
+
+alter table public.recurring_expense_terms enable row level security;
+
+create policy "Members can view recurring terms" on public.recurring_expense_terms
+  for select using (
+    exists (select 1 from public.property_members pm where pm.property_id = recurring_expense_terms.property_id and pm.user_id = auth.uid())
+  );
+
+-- Whoever can edit a template can change its terms
+create policy "Members can add recurring terms" on public.recurring_expense_terms
+  for insert with check (
+    exists (select 1 from public.property_members pm where pm.property_id = recurring_expense_terms.property_id and pm.user_id = auth.uid())
+    and exists (select 1 from public.recurring_expenses r where r.id = recurring_expense_terms.recurring_expense_id and r.property_id = recurring_expense_terms.property_id)
+  );
+
+create policy "Members can update recurring terms" on public.recurring_expense_terms
+  for update using (
+    exists (select 1 from public.property_members pm where pm.property_id = recurring_expense_terms.property_id and pm.user_id = auth.uid())
+  );
@@ -0,0 +1,11 @@
+-- supabase/migrations/20261019220000_recurring_participant_review_tasks.sql
+-- Equal-split recurring templates now record their participants in split_details
+-- ({ type: 'equal', participants: [user_id] }) instead of splitting among whoever is a member on the
+-- due date. When a participant has left the property, generate-expenses splits among the remaining
+-- participants and opens a maintenance task asking someone to review the template. The link below
+-- lets it keep a single open review task per template.
+
+alter table public.maintenance_tasks
+  add column if not exists recurring_expense_id uuid references public.recurring_expenses(id) on delete set null;
+
+create index if not exists maintenance_tasks_recurring_expense_idx on public.maintenance_tasks(recurring_expense_id) where recurring_expense_id is not null;
@@ -0,0 +1,160 @@
+-- supabase/migrations/20261019230000_expense_approval.sql
+-- Approval for large purchases. A property can set approval_threshold (null = off); an expense above it
+-- is saved with status 'pending_approval' and only counts toward balances once an owner or co-owner
+-- approves it. Rejected expenses stay on record but never count. Expenses generated from recurring
+-- templates were agreed when the template was set up and are approved on insert.
+
+alter table public.properties
+  add column if not exists approval_threshold numeric(12, 2);
+
+alter table public.properties
+  add constraint properties_approval_threshold_positive check (approval_threshold is null or approval_threshold > 0);
+
+alter table public.expenses
+  add column if not exists reviewed_by uuid references public.profiles(id) on delete set null,
+  add column if not exists reviewed_at timestamptz,
+  add column if not exists review_note text;
+
+-- Existing expenses predate the workflow and keep counting toward balances
+update public.expenses set status = 'approved' where status is null or status not in ('approved', 'pending_approval', 'rejected');
+
+-- Sets status on insert, and again whenever the amount changes (an approved 500 edited to 5,000 needs a fresh
+-- review). Any other status change has to come from review_expense or the service role.
+create or replace function public.apply_expense_approval_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_threshold numeric(12, 2);
+begin
+  if tg_op = 'UPDATE' and new.status is distinct from old.status
+     and auth.uid() is not null and coalesce(current_setting('cohaven.reviewing_expense', true), '') <> 'on' then
+    raise exception 'Use review_expense to approve or reject an expense.' using errcode = 'P0001';
+  end if;
+  if tg_op = 'UPDATE' and new.amount = old.amount then
+    return new;
+  end if;
+
+  select approval_threshold into v_threshold from properties where id = new.property_id;
+  new.status := case when v_threshold is not null and new.amount > v_threshold and new.recurring_expense_id is null then 'pending_approval' else 'approved' end;
+  new.reviewed_by := null; new.reviewed_at := null; new.review_note := null;
+  return new;
+end;
+$$;
+
+drop trigger if exists expenses_apply_approval_status on public.expenses;
+create trigger expenses_apply_approval_status
+  before insert or update of amount, status on public.expenses
+  for each row execute function public.apply_expense_approval_status();
+
+-- Approve or reject a pending expense. Owners and co-owners only; when another owner or co-owner exists,
+-- a member cannot approve an expense they paid themselves.
+create or replace function public.review_expense(
+  p_expense_id uuid,
+  p_approve boolean,
+  p_note text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller uuid := auth.uid();
+  v_expense expenses%rowtype;
+  v_caller_role member_role;
+  v_status text := case when p_approve then 'approved' else 'rejected' end;
+begin
+  select * into v_expense from expenses where id = p_expense_id;
+  if v_expense.id is null then
+    return jsonb_build_object('error', 'Expense not found.');
+  end if;
+  select role into v_caller_role from property_members where property_id = v_expense.property_id and user_id = v_caller;
+  if v_caller_role is null or v_caller_role not in ('owner', 'co_owner') then
+    return jsonb_build_object('error', 'Only an owner or co-owner can review expenses.');
+  end if;
+  if v_expense.status is distinct from 'pending_approval' then
+    return jsonb_build_object('error', 'This expense is not awaiting approval.');
+  end if;
+  if p_approve and v_expense.paid_by = v_caller and exists (
+    select 1 from property_members where property_id = v_expense.property_id and user_id <> v_caller and role in ('owner', 'co_owner')
+  ) then
+    return jsonb_build_object('error', 'Another owner or co-owner must approve an expense you paid.');
+  end if;
+
+  perform set_config('cohaven.reviewing_expense', 'on', true);
+  update expenses
+  set status = v_status, reviewed_by = v_caller, reviewed_at = now(), review_note = nullif(btrim(p_note), ''), updated_at = now()
+  where id = p_expense_id;
+  perform set_config('cohaven.reviewing_expense', 'off', true);
+
+  return jsonb_build_object('expense_id', p_expense_id, 'status', v_status);
+end;
+$$;
+
+grant execute on function public.review_expense(uuid, boolean, text) to authenticated;
+
+-- record_settlement: splits on expenses that are awaiting approval or were rejected are not owed yet
+create or replace function public.record_settlement(
+  p_property_id uuid,
+  p_from_user_id uuid,
+  p_to_user_id uuid,
+  p_note text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller uuid := auth.uid();
+  v_caller_role member_role;
+  v_net numeric(12, 2);
+  v_count integer;
+  v_settlement_id uuid;
+begin
+  select role into v_caller_role from property_members where property_id = p_property_id and user_id = v_caller;
+  if v_caller_role is null then
+    return jsonb_build_object('error', 'You are not a member of this property.');
+  end if;
+  if v_caller not in (p_from_user_id, p_to_user_id) and v_caller_role <> 'owner' then
+    return jsonb_build_object('error', 'Only the two parties or a property owner can record this settlement.');
+  end if;
+
+  -- Net amount the "from" member owes the "to" member across outstanding splits
+  select
+    coalesce(sum(case when s.user_id = p_from_user_id then s.amount else -s.amount end), 0),
+    count(*)
+  into v_net, v_count
+  from expense_splits s
+  join expenses e on e.id = s.expense_id
+  where e.property_id = p_property_id
+    and coalesce(e.status, 'approved') not in ('pending_approval', 'rejected')
+    and coalesce(s.status, 'owed') <> 'paid' and not coalesce(s.is_paid, false)
+    and ((s.user_id = p_from_user_id and e.paid_by = p_to_user_id)
+      or (s.user_id = p_to_user_id and e.paid_by = p_from_user_id));
+
+  if v_count = 0 then
+    return jsonb_build_object('error', 'There are no outstanding splits between these members.');
+  end if;
+  if v_net <= 0 then
+    return jsonb_build_object('error', 'The paying member does not owe the receiving member anything.');
+  end if;
+
+  update expense_splits s
+  set status = 'paid', is_paid = true
+  from expenses e
+  where e.id = s.expense_id
+    and e.property_id = p_property_id
+    and coalesce(e.status, 'approved') not in ('pending_approval', 'rejected')
+    and coalesce(s.status, 'owed') <> 'paid' and not coalesce(s.is_paid, false)
+    and ((s.user_id = p_from_user_id and e.paid_by = p_to_user_id)
+      or (s.user_id = p_to_user_id and e.paid_by = p_from_user_id));
+
+  insert into settlements (property_id, from_user_id, to_user_id, amount, split_count, note, recorded_by)
+  values (p_property_id, p_from_user_id, p_to_user_id, v_net, v_count, p_note, v_caller)
+  returning id into v_settlement_id;
+
+  return jsonb_build_object('settlement_id', v_settlement_id, 'settled_splits', v_count, 'amount', v_net);
+end;
+$$;
@@ -0,0 +1,35 @@
+-- supabase/migrations/20261019240000_expense_vendor_categories.sql
+-- Vendor -> category memory for receipt scanning. When an expense is saved from a scanned receipt, the
+-- vendor read from it is remembered with the chosen category, so the next receipt from that vendor at
+-- the same property gets the category picked automatically. vendor_key is the normalized vendor name.
+
+create table if not exists public.expense_vendor_categories (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  vendor_key text not null,
+  vendor_name text not null, -- As last read from a receipt, for display
+  category expense_category not null,
+  updated_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint expense_vendor_categories_key_not_blank check (btrim(vendor_key) <> ''),
+  constraint expense_vendor_categories_unique_vendor unique (property_id, vendor_key)
+);
+
+alter table public.expense_vendor_categories enable row level security;
+
+create policy "Members can view vendor categories" on public.expense_vendor_categories
+  for select using (
+    exists (select 1 from public.property_members pm where pm.property_id = expense_vendor_categories.property_id and pm.user_id = auth.uid())
+  );
+
+create policy "Members can add vendor categories" on public.expense_vendor_categories
+  for insert with check (
+    exists (select 1 from public.property_members pm where pm.property_id = expense_vendor_categories.property_id and pm.user_id = auth.uid())
+  );
+
+-- The latest choice wins, whoever made it
+create policy "Members can update vendor categories" on public.expense_vendor_categories
+  for update using (
+    exists (select 1 from public.property_members pm where pm.property_id = expense_vendor_categories.property_id and pm.user_id = auth.uid())
+  );
@@ -0,0 +1,91 @@
+-- supabase/migrations/20261019250000_booking_conflicts.sql
+-- Booking conflicts are enforced in the database, so two members booking at once cannot both get the dates.
+--  * A booking that overlaps a confirmed stay ('approved' or 'confirmed') is refused, naming that stay.
+--  * A booking that overlaps a maintenance task with blocks_booking set is saved as 'pending' with
+--    conflict_note explaining why; only an owner or co-owner can then approve it.
+-- Dates are inclusive on both ends, as on the calendar. Cancelled, rejected and completed bookings and
+-- completed maintenance tasks do not hold dates.
+
+alter table public.bookings
+  add column if not exists conflict_note text;
+
+create index if not exists bookings_property_dates_idx on public.bookings(property_id, start_date, end_date);
+
+create or replace function public.check_booking_conflicts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stay record;
+  v_task record;
+  v_dates_changed boolean := tg_op = 'INSERT' or new.start_date <> old.start_date or new.end_date <> old.end_date or new.property_id <> old.property_id;
+  v_caller_role member_role;
+begin
+  if new.status not in ('pending', 'approved', 'confirmed') then
+    return new;
+  end if;
+  if not v_dates_changed and new.status = old.status then
+    return new;
+  end if;
+  if new.end_date < new.start_date then
+    raise exception 'A stay must end on or after the day it starts.' using errcode = '22007';
+  end if;
+
+  -- One booking change per property at a time; the second of two concurrent requests sees the first
+  perform pg_advisory_xact_lock(hashtext('bookings:' || new.property_id::text));
+
+  select b.start_date, b.end_date, coalesce(nullif(btrim(concat_ws(' ', p.first_name, p.last_name)), ''), 'another member') as guest_name
+  into v_stay
+  from bookings b
+  left join profiles p on p.id = b.user_id
+  where b.property_id = new.property_id
+    and b.id <> new.id
+    and b.status in ('approved', 'confirmed')
+    and b.start_date <= new.end_date and b.end_date >= new.start_date
+  order by b.start_date
+  limit 1;
+  if found then
+    raise exception 'These dates overlap %''s confirmed stay from % to %.', v_stay.guest_name,
+      to_char(v_stay.start_date, 'Mon FMDD, YYYY'), to_char(v_stay.end_date, 'Mon FMDD, YYYY')
+      using errcode = '23P01';
+  end if;
+
+  if v_dates_changed then
+    select t.title, t.scheduled_date_start::date as start_date, coalesce(t.scheduled_date_end, t.scheduled_date_start)::date as end_date
+    into v_task
+    from maintenance_tasks t
+    where t.property_id = new.property_id
+      and t.blocks_booking
+      and t.status <> 'completed'
+      and t.scheduled_date_start is not null
+      and t.scheduled_date_start::date <= new.end_date
+      and coalesce(t.scheduled_date_end, t.scheduled_date_start)::date >= new.start_date
+    order by t.scheduled_date_start
+    limit 1;
+    if found then
+      new.status := 'pending';
+      new.conflict_note := format('Overlaps maintenance "%s" from %s to %s, which blocks bookings.', v_task.title,
+        to_char(v_task.start_date, 'Mon FMDD, YYYY'), to_char(v_task.end_date, 'Mon FMDD, YYYY'));
+    else
+      new.conflict_note := null;
+    end if;
+    return new;
+  end if;
+
+  -- Status-only change: approving a flagged booking is an owner or co-owner's call
+  if new.status in ('approved', 'confirmed') and new.conflict_note is not null and auth.uid() is not null then
+    select role into v_caller_role from property_members where property_id = new.property_id and user_id = auth.uid();
+    if v_caller_role is null or v_caller_role not in ('owner', 'co_owner') then
+      raise exception 'An owner or co-owner must approve this booking. %', new.conflict_note using errcode = '42501';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_check_conflicts on public.bookings;
+create trigger bookings_check_conflicts
+  before insert or update of start_date, end_date, status, property_id on public.bookings
+  for each row execute function public.check_booking_conflicts();
@@ -0,0 +1,56 @@
+-- supabase/migrations/20261019260000_usage_entitlements.sql
+-- Fair-share usage. Each year the owners share usage_nights_per_year weighted nights, split by
+-- ownership_percentage. Nights inside a peak or holiday season count at that season's weight (a 2.0
+-- holiday night uses two nights of entitlement); where seasons overlap, the heaviest weight applies.
+-- usage_enforcement decides whether a booking over the member's remaining nights is only warned about
+-- or refused. Null usage_nights_per_year turns entitlements off.
+
+alter table public.properties
+  add column if not exists usage_nights_per_year integer,
+  add column if not exists usage_enforcement text not null default 'warn';
+
+alter table public.properties
+  add constraint properties_usage_nights_positive check (usage_nights_per_year is null or usage_nights_per_year between 1 and 366),
+  add constraint properties_usage_enforcement_valid check (usage_enforcement in ('warn', 'block'));
+
+create table if not exists public.usage_seasons (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  name text not null,
+  kind text not null,
+  start_date date not null,
+  end_date date not null, -- Inclusive
+  weight numeric(4, 2) not null, -- Entitlement nights used per night stayed
+  created_by uuid default auth.uid() references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  constraint usage_seasons_kind_valid check (kind in ('peak', 'holiday')),
+  constraint usage_seasons_dates_valid check (end_date >= start_date),
+  constraint usage_seasons_weight_range check (weight > 0 and weight <= 10),
+  constraint usage_seasons_name_not_blank check (btrim(name) <> '')
+);
+
+create index if not exists usage_seasons_property_dates_idx on public.usage_seasons(property_id, start_date);
+
+alter table public.usage_seasons enable row level security;
+
+create policy "Members can view usage seasons" on public.usage_seasons
+  for select using (
+    exists (select 1 from public.property_members pm where pm.property_id = usage_seasons.property_id and pm.user_id = auth.uid())
+  );
+
+-- Seasons change what every owner's nights are worth, so only owners and co-owners manage them
+create policy "Owners and co-owners can add usage seasons" on public.usage_seasons
+  for insert with check (
+    exists (select 1 from public.property_members pm where pm.property_id = usage_seasons.property_id and pm.user_id = auth.uid() and pm.role in ('owner', 'co_owner'))
+  );
+
+create policy "Owners and co-owners can update usage seasons" on public.usage_seasons
+  for update using (
+    exists (select 1 from public.property_members pm where pm.property_id = usage_seasons.property_id and pm.user_id = auth.uid() and pm.role in ('owner', 'co_owner'))
+  );
+
+create policy "Owners and co-owners can delete usage seasons" on public.usage_seasons
+  for delete using (
+    exists (select 1 from public.property_members pm where pm.property_id = usage_seasons.property_id and pm.user_id = auth.uid() and pm.role in ('owner', 'co_owner'))
+  );
@@ -0,0 +1,198 @@
+-- supabase/migrations/20261019270000_peak_week_drafts.sql
+-- Peak-week draft. Each year the owners list the premium weeks (Christmas, Thanksgiving, the 4th of July)
+-- and owners and co-owners pick them in turn, snake-draft style: the first round runs in pick_order and
+-- each following round reverses it. Every pick is saved as a confirmed booking. The next year's order is
+-- last year's rotated by one (the first picker goes last), so drafts are the rotation history.
+
+create table if not exists public.peak_drafts (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  year integer not null,
+  pick_order uuid[] not null, -- First-round order; later rounds snake back and forth
+  status text not null default 'open',
+  created_by uuid default auth.uid() references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz,
+  constraint peak_drafts_status_valid check (status in ('open', 'completed')),
+  constraint peak_drafts_year_range check (year between 2000 and 2100),
+  constraint peak_drafts_order_not_empty check (cardinality(pick_order) > 0),
+  constraint peak_drafts_unique_year unique (property_id, year)
+);
+
+create table if not exists public.peak_draft_weeks (
+  id uuid primary key default gen_random_uuid(),
+  draft_id uuid not null references public.peak_drafts(id) on delete cascade,
+  property_id uuid not null references public.properties(id) on delete cascade,
+  name text not null,
+  start_date date not null,
+  end_date date not null, -- Inclusive
+  picked_by uuid references public.profiles(id) on delete set null,
+  pick_number integer, -- 1 for the first pick of the draft
+  booking_id uuid references public.bookings(id) on delete set null,
+  picked_at timestamptz,
+  constraint peak_draft_weeks_dates_valid check (end_date >= start_date),
+  constraint peak_draft_weeks_name_not_blank check (btrim(name) <> ''),
+  constraint peak_draft_weeks_unique_pick unique (draft_id, pick_number)
+);
+
+create index if not exists peak_draft_weeks_draft_idx on public.peak_draft_weeks(draft_id, start_date);
+
+alter table public.peak_drafts enable row level security;
+alter table public.peak_draft_weeks enable row level security;
+
+create policy "Members can view peak drafts" on public.peak_drafts
+  for select using (
+    exists (select 1 from public.property_members pm where pm.property_id = peak_drafts.property_id and pm.user_id = auth.uid())
+  );
+
+create policy "Members can view peak draft weeks" on public.peak_draft_weeks
+  for select using (
+    exists (select 1 from public.property_members pm where pm.property_id = peak_draft_weeks.property_id and pm.user_id = auth.uid())
+  );
+
+-- Drafts are created and picked through the functions below; an open draft can be called off (bookings already
+-- made from it stay). Completed drafts are kept, as next year's order comes from them.
+create policy "Owners and co-owners can delete open peak drafts" on public.peak_drafts
+  for delete using (
+    status = 'open'
+    and exists (select 1 from public.property_members pm where pm.property_id = peak_drafts.property_id and pm.user_id = auth.uid() and pm.role in ('owner', 'co_owner'))
+  );
+
+-- Whose turn pick p_pick_number (1-based) is: odd rounds run in pick_order, even rounds in reverse
+create or replace function public.peak_draft_picker(p_pick_order uuid[], p_pick_number integer)
+returns uuid
+language sql
+immutable
+as $$
+  select case when ((p_pick_number - 1) / cardinality(p_pick_order)) % 2 = 0
+    then p_pick_order[(p_pick_number - 1) % cardinality(p_pick_order) + 1]
+    else p_pick_order[cardinality(p_pick_order) - (p_pick_number - 1) % cardinality(p_pick_order)]
+  end;
+$$;
+
+create or replace function public.create_peak_draft(
+  p_property_id uuid,
+  p_year integer,
+  p_weeks jsonb -- [{ "name": text, "start_date": date, "end_date": date }]
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller_role member_role;
+  v_participants uuid[];
+  v_previous_order uuid[];
+  v_order uuid[];
+  v_draft_id uuid;
+  v_week jsonb;
+begin
+  select role into v_caller_role from property_members where property_id = p_property_id and user_id = auth.uid();
+  if v_caller_role is null or v_caller_role not in ('owner', 'co_owner') then
+    return jsonb_build_object('error', 'Only an owner or co-owner can set up the peak-week draft.');
+  end if;
+  if exists (select 1 from peak_drafts where property_id = p_property_id and year = p_year) then
+    return jsonb_build_object('error', format('There is already a peak-week draft for %s.', p_year));
+  end if;
+  if p_weeks is null or jsonb_typeof(p_weeks) <> 'array' or jsonb_array_length(p_weeks) = 0 then
+    return jsonb_build_object('error', 'Add at least one peak week.');
+  end if;
+  for v_week in select * from jsonb_array_elements(p_weeks) loop
+    if coalesce(btrim(v_week->>'name'), '') = '' or (v_week->>'start_date') is null or (v_week->>'end_date') is null
+      or (v_week->>'end_date')::date < (v_week->>'start_date')::date then
+      return jsonb_build_object('error', 'Each peak week needs a name and an end date on or after its start date.');
+    end if;
+  end loop;
+  if exists (
+    select 1 from jsonb_array_elements(p_weeks) with ordinality a(w, i)
+    join jsonb_array_elements(p_weeks) with ordinality b(w, i) on a.i < b.i
+    where (a.w->>'start_date')::date <= (b.w->>'end_date')::date and (a.w->>'end_date')::date >= (b.w->>'start_date')::date
+  ) then
+    return jsonb_build_object('error', 'Peak weeks cannot overlap each other.');
+  end if;
+
+  -- Largest stake first the first time; after that, last draft's order rotated by one
+  select array_agg(user_id order by coalesce(ownership_percentage, 0) desc, created_at, user_id) into v_participants
+  from property_members where property_id = p_property_id and role in ('owner', 'co_owner');
+  select pick_order into v_previous_order from peak_drafts
+  where property_id = p_property_id and year < p_year order by year desc limit 1;
+  if v_previous_order is null then
+    v_order := v_participants;
+  else
+    -- Members who left drop out; new owners join at the end of the order
+    select coalesce(array_agg(u order by n), '{}') into v_order
+    from unnest(v_previous_order[2:] || v_previous_order[1:1]) with ordinality t(u, n)
+    where u = any(v_participants);
+    select v_order || coalesce(array_agg(u order by n), '{}') into v_order
+    from unnest(v_participants) with ordinality t(u, n)
+    where not (u = any(v_order));
+  end if;
+
+  insert into peak_drafts (property_id, year, pick_order) values (p_property_id, p_year, v_order)
+  returning id into v_draft_id;
+  insert into peak_draft_weeks (draft_id, property_id, name, start_date, end_date)
+  select v_draft_id, p_property_id, btrim(w->>'name'), (w->>'start_date')::date, (w->>'end_date')::date
+  from jsonb_array_elements(p_weeks) w;
+
+  return jsonb_build_object('draft_id', v_draft_id, 'pick_order', to_jsonb(v_order));
+end;
+$$;
+
+-- Picks a week for whoever's turn it is. Owners and co-owners may pick for a member who is away.
+create or replace function public.make_peak_draft_pick(p_week_id uuid) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller uuid := auth.uid();
+  v_caller_role member_role;
+  v_week peak_draft_weeks%rowtype;
+  v_draft peak_drafts%rowtype;
+  v_pick_number integer;
+  v_picker uuid;
+  v_booking_id uuid;
+begin
+  select * into v_week from peak_draft_weeks where id = p_week_id;
+  if v_week.id is null then
+    return jsonb_build_object('error', 'Peak week not found.');
+  end if;
+  -- Locking the draft serializes picks, so two members cannot take the same turn
+  select * into v_draft from peak_drafts where id = v_week.draft_id for update;
+  select * into v_week from peak_draft_weeks where id = p_week_id;
+  if v_draft.status <> 'open' then
+    return jsonb_build_object('error', 'This draft is already complete.');
+  end if;
+  if v_week.picked_by is not null then
+    return jsonb_build_object('error', 'That week has already been picked.');
+  end if;
+
+  select count(*) + 1 into v_pick_number from peak_draft_weeks where draft_id = v_draft.id and pick_number is not null;
+  v_picker := peak_draft_picker(v_draft.pick_order, v_pick_number);
+  select role into v_caller_role from property_members where property_id = v_draft.property_id and user_id = v_caller;
+  if v_caller is distinct from v_picker and (v_caller_role is null or v_caller_role not in ('owner', 'co_owner')) then
+    return jsonb_build_object('error', 'It is not your turn to pick.');
+  end if;
+
+  begin
+    insert into bookings (property_id, user_id, start_date, end_date, num_guests, status, purpose, notes, approved_by)
+    values (v_draft.property_id, v_picker, v_week.start_date, v_week.end_date, 1, 'confirmed', v_week.name,
+      format('Peak-week draft %s, pick %s', v_draft.year, v_pick_number), v_caller)
+    returning id into v_booking_id;
+  exception when sqlstate '23P01' then
+    return jsonb_build_object('error', sqlerrm);
+  end;
+
+  update peak_draft_weeks
+  set picked_by = v_picker, pick_number = v_pick_number, booking_id = v_booking_id, picked_at = now()
+  where id = p_week_id;
+  if not exists (select 1 from peak_draft_weeks where draft_id = v_draft.id and picked_by is null) then
+    update peak_drafts set status = 'completed', completed_at = now() where id = v_draft.id;
+  end if;
+
+  return jsonb_build_object('week_id', p_week_id, 'booking_id', v_booking_id, 'pick_number', v_pick_number, 'user_id', v_picker);
+end;
+$$;
+
+grant execute on function public.create_peak_draft(uuid, integer, jsonb) to authenticated;
+grant execute on function public.make_peak_draft_pick(uuid) to authenticated;
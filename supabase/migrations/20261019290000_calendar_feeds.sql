@@ -0,0 +1,41 @@
+-- supabase/migrations/20261019290000_calendar_feeds.sql
+-- iCalendar sync.
+--  * Feed: each member can create a secret token per property. The calendar-feed edge function serves that
+--    property's bookings and blocking maintenance as .ics to whoever holds the token, so calendar apps can
+--    subscribe without signing in. Revoking the token (or leaving the property) stops the feed.
+--  * Import: events from another calendar (e.g. a rental listing) become blocking maintenance entries.
+--    ical_uid keeps the source event's UID, so importing the same calendar again skips what is already in.
+
+create table if not exists public.calendar_feed_tokens (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  -- 244 random bits from two v4 UUIDs; the feed URL is the only credential
+  token text not null unique default replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+-- One live feed link per member and property; resetting the link revokes the old one first
+create unique index if not exists calendar_feed_tokens_active_idx on public.calendar_feed_tokens(property_id, user_id) where revoked_at is null;
+
+alter table public.calendar_feed_tokens enable row level security;
+
+create policy "Members can view their own feed tokens" on public.calendar_feed_tokens
+  for select using (user_id = auth.uid());
+
+create policy "Members can create their own feed tokens" on public.calendar_feed_tokens
+  for insert with check (
+    user_id = auth.uid() and revoked_at is null
+    and exists (select 1 from public.property_members pm where pm.property_id = calendar_feed_tokens.property_id and pm.user_id = auth.uid())
+  );
+
+create policy "Members can revoke their own feed tokens" on public.calendar_feed_tokens
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid() and revoked_at is not null);
+
+alter table public.maintenance_tasks
+  add column if not exists ical_uid text; -- UID of the imported event; null for tasks created in CoHaven
+
+alter table public.maintenance_tasks
+  add constraint maintenance_tasks_ical_uid_key unique (property_id, ical_uid);
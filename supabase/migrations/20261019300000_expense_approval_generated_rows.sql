@@ -0,0 +1,113 @@
+-- supabase/migrations/20261019300000_expense_approval_generated_rows.sql
+-- Closes two ways around expense approval.
+--  * The approval trigger let any expense linked to a recurring template through as approved, including rows
+--    members inserted or edited themselves. Only rows generate-expenses (the service role) posts at the
+--    template's agreed amount are exempt now; a variable bill posted from a draft carries an amount someone
+--    typed in and is reviewed like any other expense.
+--  * add_expense_and_splits refuses the recurring link parameters from signed-in callers.
+
+create or replace function public.apply_expense_approval_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_threshold numeric(12, 2);
+  v_pre_approved boolean;
+begin
+  if tg_op = 'UPDATE' and new.status is distinct from old.status
+     and auth.uid() is not null and coalesce(current_setting('cohaven.reviewing_expense', true), '') <> 'on' then
+    raise exception 'Use review_expense to approve or reject an expense.' using errcode = 'P0001';
+  end if;
+  if tg_op = 'UPDATE' and new.amount = old.amount then
+    return new;
+  end if;
+
+  v_pre_approved := auth.uid() is null and new.recurring_expense_id is not null
+    and not exists (select 1 from recurring_expense_drafts d where d.recurring_expense_id = new.recurring_expense_id and d.occurrence_date = new.occurrence_date);
+  select approval_threshold into v_threshold from properties where id = new.property_id;
+  new.status := case when v_threshold is not null and new.amount > v_threshold and not v_pre_approved then 'pending_approval' else 'approved' end;
+  new.reviewed_by := null; new.reviewed_at := null; new.review_note := null;
+  return new;
+end;
+$$;
+
+create or replace function public.add_expense_and_splits(
+  p_property_id uuid,
+  p_date date,
+  p_category expense_category,
+  p_amount numeric,
+  p_description text,
+  p_receipt_url text,
+  p_paid_by_user_id uuid,
+  p_split_method expense_split_method,
+  p_notes text,
+  p_splits jsonb,
+  p_currency text default null,
+  p_original_amount numeric default null,
+  p_exchange_rate numeric default null,
+  p_exchange_rate_source text default null,
+  p_recurring_expense_id uuid default null,
+  p_occurrence_date date default null
+) returns table (id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expense_id uuid;
+  v_split_total numeric;
+  v_base_currency text;
+begin
+  -- auth.uid() is null for the service role (generate-expenses); end users must belong to the property
+  if auth.uid() is not null and not exists (select 1 from property_members where property_id = p_property_id and user_id = auth.uid()) then
+    raise exception 'You are not a member of this property.' using errcode = 'P0001';
+  end if;
+  -- Only generate-expenses bills occurrences; a member-entered expense linked to a template would skip approval
+  if auth.uid() is not null and (p_recurring_expense_id is not null or p_occurrence_date is not null) then
+    raise exception 'Expenses for a recurring occurrence are created by the scheduler.' using errcode = 'P0001';
+  end if;
+  if jsonb_typeof(p_splits) <> 'array' or jsonb_array_length(p_splits) = 0 then
+    raise exception 'At least one split is required.' using errcode = 'P0001';
+  end if;
+  if exists (select 1 from jsonb_array_elements(p_splits) s where s->>'user_id' is null or s->>'amount' is null or s->>'status' is null) then
+    raise exception 'Each split needs user_id, amount and status.' using errcode = 'P0001';
+  end if;
+  select sum((s->>'amount')::numeric) into v_split_total from jsonb_array_elements(p_splits) s;
+  if abs(v_split_total - p_amount) > 0.01 then
+    raise exception 'Split amounts (%) must add up to the expense amount (%).', v_split_total, p_amount using errcode = 'P0001';
+  end if;
+  select base_currency into v_base_currency from properties where properties.id = p_property_id;
+  if p_currency is not null and p_currency <> v_base_currency and (p_exchange_rate is null or p_exchange_rate <= 0) then
+    raise exception 'An exchange rate to % is required for % expenses.', v_base_currency, p_currency using errcode = 'P0001';
+  end if;
+
+  if (p_recurring_expense_id is null) <> (p_occurrence_date is null) then
+    raise exception 'A generated expense needs both its recurring expense and occurrence date.' using errcode = 'P0001';
+  end if;
+
+  insert into expenses (property_id, date, category, amount, description, receipt_url, paid_by, split_method, notes,
+                        currency, original_amount, exchange_rate, exchange_rate_source, recurring_expense_id, occurrence_date)
+  values (p_property_id, p_date, p_category, p_amount, p_description, p_receipt_url, p_paid_by_user_id, p_split_method, p_notes,
+          coalesce(p_currency, v_base_currency), coalesce(p_original_amount, p_amount),
+          case when coalesce(p_currency, v_base_currency) = v_base_currency then 1 else p_exchange_rate end,
+          case when coalesce(p_currency, v_base_currency) = v_base_currency then null else coalesce(p_exchange_rate_source, 'manual') end,
+          p_recurring_expense_id, p_occurrence_date)
+  returning expenses.id into v_expense_id;
+
+  insert into expense_splits (expense_id, user_id, amount, percentage, shares, status, is_paid)
+  select v_expense_id,
+         (s->>'user_id')::uuid,
+         (s->>'amount')::numeric,
+         nullif(s->>'percentage', '')::numeric,
+         nullif(s->>'shares', '')::integer,
+         (s->>'status')::expense_split_status,
+         (s->>'status') = 'paid'
+  from jsonb_array_elements(p_splits) s;
+
+  return query select v_expense_id;
+end;
+$$;
+
+grant execute on function public.add_expense_and_splits(uuid, date, expense_category, numeric, text, text, uuid, expense_split_method, text, jsonb, text, numeric, numeric, text, uuid, date) to authenticated, service_role;
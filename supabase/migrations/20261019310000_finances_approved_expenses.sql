@@ -0,0 +1,40 @@
+-- supabase/migrations/20261019310000_finances_approved_expenses.sql
+-- get_property_finances (the dashboard snapshot) leaves out expenses awaiting approval or rejected, like
+-- balances and record_settlement already do.
+
+create or replace function public.get_property_finances(p_property_id uuid, p_start_date date, p_end_date date)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_income numeric(12, 2);
+  v_expenses numeric(12, 2);
+  v_by_category jsonb;
+begin
+  if not exists (select 1 from property_members where property_id = p_property_id and user_id = auth.uid()) then
+    raise exception 'You are not a member of this property.' using errcode = 'P0001';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_income
+  from incomes where property_id = p_property_id and date between p_start_date and p_end_date;
+
+  select coalesce(sum(category_total), 0), coalesce(jsonb_object_agg(category, category_total), '{}'::jsonb)
+  into v_expenses, v_by_category
+  from (
+    select category, sum(amount) as category_total
+    from expenses where property_id = p_property_id and date between p_start_date and p_end_date
+      and coalesce(status, 'approved') not in ('pending_approval', 'rejected')
+    group by category
+  ) per_category;
+
+  return jsonb_build_object(
+    'total_income', v_income,
+    'total_expenses', v_expenses,
+    'net_income', v_income - v_expenses,
+    'expenses_by_category', v_by_category
+  );
+end;
+$$;
@@ -0,0 +1,88 @@
+-- supabase/migrations/20261019320000_maintenance_calendar_days.sql
+-- Maintenance schedules are whole days, but the app used to save them as local midnight in the member's
+-- timezone, so a plain ::date cast (UTC) put a block that starts on the 19th in Berlin on the 18th. The app
+-- now saves the picked day at 00:00 UTC, and the conflict check reads the UTC date explicitly so it does not
+-- depend on the session's TimeZone setting.
+
+-- Existing rows: local midnight is within 12 hours of the intended day's UTC midnight, so round to it
+update public.maintenance_tasks
+set scheduled_date_start = date_trunc('day', (scheduled_date_start at time zone 'utc') + interval '12 hours') at time zone 'utc'
+where scheduled_date_start is not null and (scheduled_date_start at time zone 'utc')::time <> '00:00';
+
+update public.maintenance_tasks
+set scheduled_date_end = date_trunc('day', (scheduled_date_end at time zone 'utc') + interval '12 hours') at time zone 'utc'
+where scheduled_date_end is not null and (scheduled_date_end at time zone 'utc')::time <> '00:00';
+
+create or replace function public.check_booking_conflicts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stay record;
+  v_task record;
+  v_dates_changed boolean := tg_op = 'INSERT' or new.start_date <> old.start_date or new.end_date <> old.end_date or new.property_id <> old.property_id;
+  v_caller_role member_role;
+begin
+  if new.status not in ('pending', 'approved', 'confirmed') then
+    return new;
+  end if;
+  if not v_dates_changed and new.status = old.status then
+    return new;
+  end if;
+  if new.end_date < new.start_date then
+    raise exception 'A stay must end on or after the day it starts.' using errcode = '22007';
+  end if;
+
+  -- One booking change per property at a time; the second of two concurrent requests sees the first
+  perform pg_advisory_xact_lock(hashtext('bookings:' || new.property_id::text));
+
+  select b.start_date, b.end_date, coalesce(nullif(btrim(concat_ws(' ', p.first_name, p.last_name)), ''), 'another member') as guest_name
+  into v_stay
+  from bookings b
+  left join profiles p on p.id = b.user_id
+  where b.property_id = new.property_id
+    and b.id <> new.id
+    and b.status in ('approved', 'confirmed')
+    and b.start_date <= new.end_date and b.end_date >= new.start_date
+  order by b.start_date
+  limit 1;
+  if found then
+    raise exception 'These dates overlap %''s confirmed stay from % to %.', v_stay.guest_name,
+      to_char(v_stay.start_date, 'Mon FMDD, YYYY'), to_char(v_stay.end_date, 'Mon FMDD, YYYY')
+      using errcode = '23P01';
+  end if;
+
+  if v_dates_changed then
+    select t.title, (t.scheduled_date_start at time zone 'utc')::date as start_date, (coalesce(t.scheduled_date_end, t.scheduled_date_start) at time zone 'utc')::date as end_date
+    into v_task
+    from maintenance_tasks t
+    where t.property_id = new.property_id
+      and t.blocks_booking
+      and t.status <> 'completed'
+      and t.scheduled_date_start is not null
+      and (t.scheduled_date_start at time zone 'utc')::date <= new.end_date
+      and (coalesce(t.scheduled_date_end, t.scheduled_date_start) at time zone 'utc')::date >= new.start_date
+    order by t.scheduled_date_start
+    limit 1;
+    if found then
+      new.status := 'pending';
+      new.conflict_note := format('Overlaps maintenance "%s" from %s to %s, which blocks bookings.', v_task.title,
+        to_char(v_task.start_date, 'Mon FMDD, YYYY'), to_char(v_task.end_date, 'Mon FMDD, YYYY'));
+    else
+      new.conflict_note := null;
+    end if;
+    return new;
+  end if;
+
+  -- Status-only change: approving a flagged booking is an owner or co-owner's call
+  if new.status in ('approved', 'confirmed') and new.conflict_note is not null and auth.uid() is not null then
+    select role into v_caller_role from property_members where property_id = new.property_id and user_id = auth.uid();
+    if v_caller_role is null or v_caller_role not in ('owner', 'co_owner') then
+      raise exception 'An owner or co-owner must approve this booking. %', new.conflict_note using errcode = '42501';
+    end if;
+  end if;
+  return new;
+end;
+$$;
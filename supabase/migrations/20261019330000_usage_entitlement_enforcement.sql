@@ -0,0 +1,86 @@
+-- supabase/migrations/20261019330000_usage_entitlement_enforcement.sql
+-- usage_enforcement = 'block' is enforced in the database, next to the booking conflict trigger, so a stay
+-- past the booker's remaining nights is refused however it is saved. The rules follow
+-- src/lib/usageEntitlement.ts: the entitlement is the member's ownership share of usage_nights_per_year,
+-- nights are weighted by the heaviest season covering them, and pending, approved, confirmed and completed
+-- stays hold nights (pending nights already past do not). Pending request-window preferences are
+-- alternatives until the lottery runs, so they do not hold nights against each other.
+
+-- Entitlement nights one night costs: the heaviest season covering it, or 1 for a regular night
+create or replace function public.usage_night_weight(p_property_id uuid, p_night date)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(max(weight), 1) from usage_seasons where property_id = p_property_id and p_night between start_date and end_date;
+$$;
+
+create or replace function public.check_booking_usage_entitlement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_nights_per_year integer;
+  v_enforcement text;
+  v_percentage numeric;
+  v_entitlement numeric;
+  v_year integer;
+  v_cost numeric;
+  v_held numeric;
+  v_remaining numeric;
+begin
+  if new.status not in ('pending', 'approved', 'confirmed') then
+    return new;
+  end if;
+  -- Approving or confirming a stay that already held its nights does not change the count
+  if tg_op = 'UPDATE' and new.start_date = old.start_date and new.end_date = old.end_date and new.user_id = old.user_id
+     and new.property_id = old.property_id and old.status in ('pending', 'approved', 'confirmed') then
+    return new;
+  end if;
+
+  select usage_nights_per_year, usage_enforcement into v_nights_per_year, v_enforcement from properties where id = new.property_id;
+  if v_nights_per_year is null or v_enforcement <> 'block' then
+    return new;
+  end if;
+  select ownership_percentage into v_percentage from property_members where property_id = new.property_id and user_id = new.user_id;
+  if coalesce(v_percentage, 0) <= 0 then
+    return new; -- No stake, no entitlement to count against
+  end if;
+  v_entitlement := round(v_nights_per_year * v_percentage / 100, 2);
+
+  -- bookings_check_conflicts (which runs first) holds the property's advisory lock, so concurrent stays see each other
+  for v_year in select distinct extract(year from n.night)::integer from generate_series(new.start_date, new.end_date, interval '1 day') n(night) loop
+    select coalesce(sum(usage_night_weight(new.property_id, n.night::date)), 0) into v_cost
+    from generate_series(new.start_date, new.end_date, interval '1 day') n(night)
+    where extract(year from n.night) = v_year;
+
+    select coalesce(sum(usage_night_weight(new.property_id, n.night::date)), 0) into v_held
+    from bookings b
+    cross join lateral generate_series(b.start_date, b.end_date, interval '1 day') n(night)
+    where b.property_id = new.property_id
+      and b.user_id = new.user_id
+      and b.id <> new.id
+      and b.status in ('pending', 'approved', 'confirmed', 'completed')
+      and not (b.status = 'pending' and b.request_window_id is not null)
+      and not (b.status = 'pending' and n.night::date < current_date)
+      and extract(year from n.night) = v_year;
+
+    v_remaining := v_entitlement - v_held;
+    if v_cost > greatest(v_remaining, 0) then
+      raise exception 'This stay uses % night% of your % entitlement; you have % left. Shorten the stay or ask an owner to raise the nights per year.',
+        trim_scale(v_cost), case when v_cost = 1 then '' else 's' end, v_year, trim_scale(greatest(v_remaining, 0))
+        using errcode = '23514';
+    end if;
+  end loop;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_check_usage_entitlement on public.bookings;
+create trigger bookings_check_usage_entitlement
+  before insert or update of start_date, end_date, status, user_id, property_id on public.bookings
+  for each row execute function public.check_booking_usage_entitlement();
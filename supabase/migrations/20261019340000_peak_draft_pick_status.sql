@@ -0,0 +1,64 @@
+-- supabase/migrations/20261019340000_peak_draft_pick_status.sql
+-- make_peak_draft_pick reported every pick as a confirmed stay, but the booking conflict trigger holds a week
+-- that overlaps blocking maintenance as 'pending' with a conflict_note. The pick now returns the booking's
+-- status and note so the app can say so, and a stay past the picker's blocked usage entitlement is refused
+-- like an overlapping stay.
+
+create or replace function public.make_peak_draft_pick(p_week_id uuid) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller uuid := auth.uid();
+  v_caller_role member_role;
+  v_week peak_draft_weeks%rowtype;
+  v_draft peak_drafts%rowtype;
+  v_pick_number integer;
+  v_picker uuid;
+  v_booking_id uuid;
+  v_booking_status text;
+  v_conflict_note text;
+begin
+  select * into v_week from peak_draft_weeks where id = p_week_id;
+  if v_week.id is null then
+    return jsonb_build_object('error', 'Peak week not found.');
+  end if;
+  -- Locking the draft serializes picks, so two members cannot take the same turn
+  select * into v_draft from peak_drafts where id = v_week.draft_id for update;
+  select * into v_week from peak_draft_weeks where id = p_week_id;
+  if v_draft.status <> 'open' then
+    return jsonb_build_object('error', 'This draft is already complete.');
+  end if;
+  if v_week.picked_by is not null then
+    return jsonb_build_object('error', 'That week has already been picked.');
+  end if;
+
+  select count(*) + 1 into v_pick_number from peak_draft_weeks where draft_id = v_draft.id and pick_number is not null;
+  v_picker := peak_draft_picker(v_draft.pick_order, v_pick_number);
+  select role into v_caller_role from property_members where property_id = v_draft.property_id and user_id = v_caller;
+  if v_caller is distinct from v_picker and (v_caller_role is null or v_caller_role not in ('owner', 'co_owner')) then
+    return jsonb_build_object('error', 'It is not your turn to pick.');
+  end if;
+
+  begin
+    insert into bookings (property_id, user_id, start_date, end_date, num_guests, status, purpose, notes, approved_by)
+    values (v_draft.property_id, v_picker, v_week.start_date, v_week.end_date, 1, 'confirmed', v_week.name,
+      format('Peak-week draft %s, pick %s', v_draft.year, v_pick_number), v_caller)
+    returning id, status, conflict_note into v_booking_id, v_booking_status, v_conflict_note;
+  exception when sqlstate '23P01' or sqlstate '23514' then -- A confirmed stay overlaps, or the picker is out of nights
+    return jsonb_build_object('error', sqlerrm);
+  end;
+
+  update peak_draft_weeks
+  set picked_by = v_picker, pick_number = v_pick_number, booking_id = v_booking_id, picked_at = now()
+  where id = p_week_id;
+  if not exists (select 1 from peak_draft_weeks where draft_id = v_draft.id and picked_by is null) then
+    update peak_drafts set status = 'completed', completed_at = now() where id = v_draft.id;
+  end if;
+
+  -- The pick stands, but a week overlapping blocking maintenance is held as pending until an owner approves it
+  return jsonb_build_object('week_id', p_week_id, 'booking_id', v_booking_id, 'pick_number', v_pick_number, 'user_id', v_picker,
+    'booking_status', v_booking_status, 'conflict_note', v_conflict_note);
+end;
+$$;
@@ -0,0 +1,243 @@
+-- supabase/migrations/20261019350000_request_window_seed_commitment.sql
+-- Request window lotteries could be steered.
+--  * The seed was chosen by (or visible to) the owner opening the window, who could try seeds against the
+--    entrants until the draw favoured someone. The seed is now generated by the database and kept in
+--    booking_request_window_seeds, which members cannot read; the window only shows seed_hash (SHA-256 of
+--    the seed) while open. close_booking_request_window copies the seed onto the window with the draw, so
+--    anyone can check it against the hash they saw and repeat the draw.
+--  * check_booking_request_window let any row with request_window_id set through, so a member could insert
+--    a "preference" directly, outside the window's rules. New links to a window are only accepted while
+--    submit_booking_preferences sets the transaction-local cohaven.submitting_preferences flag.
+
+-- The window row is inserted after its seed (see commit_request_window_seed), hence the deferred check
+create table if not exists public.booking_request_window_seeds (
+  window_id uuid primary key references public.booking_request_windows(id) on delete cascade deferrable initially deferred,
+  seed text not null
+);
+
+-- No policies: only the security definer functions below read or write seeds
+alter table public.booking_request_window_seeds enable row level security;
+
+alter table public.booking_request_windows
+  add column if not exists seed_hash text;
+
+alter table public.booking_request_windows
+  alter column seed drop not null,
+  alter column seed drop default,
+  drop constraint if exists booking_request_windows_seed_not_blank;
+
+-- Open windows get a fresh seed, since their creator may have seen or picked the old one
+insert into public.booking_request_window_seeds (window_id, seed)
+select id, replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '') from public.booking_request_windows where status = 'open'
+on conflict (window_id) do nothing;
+update public.booking_request_windows w set seed = null, seed_hash = encode(sha256(convert_to(s.seed, 'UTF8')), 'hex')
+from public.booking_request_window_seeds s where s.window_id = w.id and w.status = 'open';
+update public.booking_request_windows set seed_hash = encode(sha256(convert_to(seed, 'UTF8')), 'hex') where status = 'closed';
+
+alter table public.booking_request_windows
+  alter column seed_hash set not null,
+  add constraint booking_request_windows_seed_revealed check ((status = 'open') = (seed is null));
+
+-- Whatever the insert says, the database draws the seed and publishes only its hash
+create or replace function public.commit_request_window_seed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_seed text := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+begin
+  insert into booking_request_window_seeds (window_id, seed) values (new.id, v_seed);
+  new.seed := null;
+  new.seed_hash := encode(sha256(convert_to(v_seed, 'UTF8')), 'hex');
+  return new;
+end;
+$$;
+
+drop trigger if exists booking_request_windows_commit_seed on public.booking_request_windows;
+create trigger booking_request_windows_commit_seed
+  before insert on public.booking_request_windows
+  for each row execute function public.commit_request_window_seed();
+
+create or replace function public.check_booking_request_window()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_window booking_request_windows%rowtype;
+begin
+  -- Preferences only come from submit_booking_preferences, which checks them against the window's rules
+  if new.request_window_id is not null and (tg_op = 'INSERT' or new.request_window_id is distinct from old.request_window_id) then
+    if coalesce(current_setting('cohaven.submitting_preferences', true), '') <> 'on' then
+      raise exception 'Submit preferences for a request window through the window.' using errcode = '42501';
+    end if;
+    return new;
+  end if;
+  if new.status not in ('pending', 'approved', 'confirmed') then
+    return new;
+  end if;
+  select * into v_window from booking_request_windows
+  where property_id = new.property_id and status = 'open' and stay_start <= new.end_date and stay_end >= new.start_date
+  order by stay_start limit 1;
+  if found then
+    raise exception 'These dates are in the "%" request window; submit your preferences there before it closes on %.', v_window.name,
+      to_char(v_window.closes_at, 'Mon FMDD, YYYY') using errcode = '23P01';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_check_request_window on public.bookings;
+create trigger bookings_check_request_window
+  before insert or update of start_date, end_date, request_window_id on public.bookings
+  for each row execute function public.check_booking_request_window();
+
+create or replace function public.submit_booking_preferences(p_window_id uuid, p_preferences jsonb) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller uuid := auth.uid();
+  v_window booking_request_windows%rowtype;
+  v_pref jsonb;
+  v_rank integer;
+begin
+  select * into v_window from booking_request_windows where id = p_window_id;
+  if v_window.id is null then
+    return jsonb_build_object('error', 'Request window not found.');
+  end if;
+  if not exists (select 1 from property_members where property_id = v_window.property_id and user_id = v_caller) then
+    return jsonb_build_object('error', 'Only members of this property can request these dates.');
+  end if;
+  if v_window.status <> 'open' or now() >= v_window.closes_at then
+    return jsonb_build_object('error', 'This request window has closed.');
+  end if;
+  if p_preferences is null or jsonb_typeof(p_preferences) <> 'array' or jsonb_array_length(p_preferences) not between 1 and 3 then
+    return jsonb_build_object('error', 'Submit between one and three preferences.');
+  end if;
+  for v_pref in select * from jsonb_array_elements(p_preferences) loop
+    if (v_pref->>'start_date') is null or (v_pref->>'end_date') is null or (v_pref->>'end_date')::date < (v_pref->>'start_date')::date
+      or (v_pref->>'start_date')::date < v_window.stay_start or (v_pref->>'end_date')::date > v_window.stay_end then
+      return jsonb_build_object('error', format('Each preference must fall between %s and %s.', to_char(v_window.stay_start, 'Mon FMDD'), to_char(v_window.stay_end, 'Mon FMDD, YYYY')));
+    end if;
+  end loop;
+
+  delete from bookings where request_window_id = p_window_id and user_id = v_caller and status = 'pending';
+  perform set_config('cohaven.submitting_preferences', 'on', true);
+  for v_pref, v_rank in select value, ordinality from jsonb_array_elements(p_preferences) with ordinality loop
+    insert into bookings (property_id, user_id, start_date, end_date, num_guests, status, purpose, request_window_id, preference_rank)
+    values (v_window.property_id, v_caller, (v_pref->>'start_date')::date, (v_pref->>'end_date')::date,
+      greatest(coalesce((v_pref->>'num_guests')::integer, 1), 1), 'pending', v_window.name, p_window_id, v_rank);
+  end loop;
+  perform set_config('cohaven.submitting_preferences', 'off', true);
+
+  return jsonb_build_object('window_id', p_window_id, 'preferences', jsonb_array_length(p_preferences));
+end;
+$$;
+
+create or replace function public.close_booking_request_window(p_window_id uuid) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller uuid := auth.uid();
+  v_caller_role member_role;
+  v_window booking_request_windows%rowtype;
+  v_entrant record;
+  v_granted bookings%rowtype;
+  v_request record;
+  v_winner record;
+  v_draw jsonb := '[]'::jsonb;
+  v_entrants integer;
+  v_seed text;
+begin
+  select * into v_window from booking_request_windows where id = p_window_id for update;
+  if v_window.id is null then
+    return jsonb_build_object('error', 'Request window not found.');
+  end if;
+  select role into v_caller_role from property_members where property_id = v_window.property_id and user_id = v_caller;
+  if v_caller_role is null or v_caller_role not in ('owner', 'co_owner') then
+    return jsonb_build_object('error', 'Only an owner or co-owner can run the lottery.');
+  end if;
+  if v_window.status <> 'open' then
+    return jsonb_build_object('error', 'The lottery for this window has already run.');
+  end if;
+  if now() < v_window.closes_at then
+    return jsonb_build_object('error', format('Members can submit preferences until %s.', to_char(v_window.closes_at, 'Mon FMDD, YYYY')));
+  end if;
+
+  select seed into v_seed from booking_request_window_seeds where window_id = p_window_id;
+  if v_seed is null then
+    return jsonb_build_object('error', 'This window has no committed lottery seed.');
+  end if;
+
+  -- Closing first lets the approvals below through the request-window check; the seed is revealed with the draw
+  update booking_request_windows set status = 'closed', seed = v_seed, closed_by = v_caller, closed_at = now() where id = p_window_id;
+  select count(distinct user_id) into v_entrants from bookings where request_window_id = p_window_id and status = 'pending';
+
+  for v_entrant in
+    with entrants as (
+      select distinct user_id from bookings where request_window_id = p_window_id and status = 'pending'
+    ), usage as (
+      select e.user_id, coalesce(sum(least(b.end_date, v_window.stay_start - 1) - greatest(b.start_date, v_window.stay_start - 365) + 1), 0)::integer as past_nights
+      from entrants e
+      left join bookings b on b.user_id = e.user_id and b.property_id = v_window.property_id
+        and b.status in ('approved', 'confirmed', 'completed')
+        and b.start_date < v_window.stay_start and b.end_date >= v_window.stay_start - 365
+      group by e.user_id
+    ), draws as (
+      select user_id, past_nights, 1.0 / (1 + past_nights / 7.0) as weight,
+        (('x' || substr(md5(v_seed || ':' || user_id::text), 1, 8))::bit(32)::bigint + 1) / 4294967297.0 as u
+      from usage
+    )
+    select user_id, past_nights, weight, row_number() over (order by ln(u) / weight desc, user_id) as position
+    from draws order by position
+  loop
+    select b.* into v_granted from bookings b
+    where b.request_window_id = p_window_id and b.user_id = v_entrant.user_id and b.status = 'pending'
+      and not exists (
+        select 1 from bookings c where c.property_id = b.property_id and c.id <> b.id and c.status in ('approved', 'confirmed')
+          and c.start_date <= b.end_date and c.end_date >= b.start_date
+      )
+    order by b.preference_rank limit 1;
+    if v_granted.id is not null then
+      update bookings
+      set status = 'approved', approved_by = v_caller, updated_at = now(),
+        decision_note = format('Granted in the "%s" lottery: drawn %s of %s, preference %s.', v_window.name, v_entrant.position, v_entrants, v_granted.preference_rank)
+      where id = v_granted.id;
+    end if;
+    v_draw := v_draw || jsonb_build_object('user_id', v_entrant.user_id, 'past_nights', v_entrant.past_nights,
+      'weight', round(v_entrant.weight, 4), 'position', v_entrant.position, 'booking_id', v_granted.id);
+  end loop;
+
+  for v_request in select * from bookings where request_window_id = p_window_id and status = 'pending' loop
+    select b.start_date, b.end_date, b.user_id, coalesce(nullif(btrim(concat_ws(' ', p.first_name, p.last_name)), ''), 'another member') as guest_name,
+      (select (d->>'position')::integer from jsonb_array_elements(v_draw) d where (d->>'user_id')::uuid = b.user_id) as position
+    into v_winner
+    from bookings b left join profiles p on p.id = b.user_id
+    where b.property_id = v_request.property_id and b.id <> v_request.id and b.status in ('approved', 'confirmed')
+      and b.start_date <= v_request.end_date and b.end_date >= v_request.start_date
+    order by b.start_date limit 1;
+    update bookings
+    set status = 'rejected', updated_at = now(),
+      decision_note = case
+        when exists (select 1 from bookings g where g.request_window_id = p_window_id and g.user_id = v_request.user_id and g.status = 'approved')
+          then format('Not needed: a higher preference of yours was granted in the "%s" lottery.', v_window.name)
+        when v_winner.user_id is not null and v_winner.position is not null
+          then format('Lost the "%s" lottery: these dates went to %s, drawn %s of %s.', v_window.name, v_winner.guest_name, v_winner.position, v_entrants)
+        when v_winner.user_id is not null
+          then format('These dates overlap %s''s confirmed stay from %s to %s.', v_winner.guest_name, to_char(v_winner.start_date, 'Mon FMDD, YYYY'), to_char(v_winner.end_date, 'Mon FMDD, YYYY'))
+        else format('Not granted in the "%s" lottery.', v_window.name)
+      end
+    where id = v_request.id;
+  end loop;
+
+  update booking_request_windows set draw = v_draw where id = p_window_id;
+  return jsonb_build_object('window_id', p_window_id, 'granted', (select count(*) from jsonb_array_elements(v_draw) d where d->>'booking_id' is not null), 'entrants', v_entrants);
+end;
+$$;
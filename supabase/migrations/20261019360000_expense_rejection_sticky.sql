@@ -0,0 +1,81 @@
+-- supabase/migrations/20261019360000_expense_rejection_sticky.sql
+-- Editing a rejected expense's amount re-ran the threshold check, so lowering it under the threshold quietly
+-- approved it. A rejected expense now keeps its status through edits; review_expense can approve it on a
+-- second look (the same rules apply as for a pending one).
+
+create or replace function public.apply_expense_approval_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_threshold numeric(12, 2);
+  v_pre_approved boolean;
+begin
+  if tg_op = 'UPDATE' and new.status is distinct from old.status
+     and auth.uid() is not null and coalesce(current_setting('cohaven.reviewing_expense', true), '') <> 'on' then
+    raise exception 'Use review_expense to approve or reject an expense.' using errcode = 'P0001';
+  end if;
+  if tg_op = 'UPDATE' and new.amount = old.amount then
+    return new;
+  end if;
+  -- A rejected expense stays rejected whatever its new amount, until an owner or co-owner reviews it again
+  if tg_op = 'UPDATE' and old.status = 'rejected' and new.status = 'rejected' then
+    return new;
+  end if;
+
+  v_pre_approved := auth.uid() is null and new.recurring_expense_id is not null
+    and not exists (select 1 from recurring_expense_drafts d where d.recurring_expense_id = new.recurring_expense_id and d.occurrence_date = new.occurrence_date);
+  select approval_threshold into v_threshold from properties where id = new.property_id;
+  new.status := case when v_threshold is not null and new.amount > v_threshold and not v_pre_approved then 'pending_approval' else 'approved' end;
+  new.reviewed_by := null; new.reviewed_at := null; new.review_note := null;
+  return new;
+end;
+$$;
+
+-- review_expense also takes a rejected expense, to approve it
+create or replace function public.review_expense(
+  p_expense_id uuid,
+  p_approve boolean,
+  p_note text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller uuid := auth.uid();
+  v_expense expenses%rowtype;
+  v_caller_role member_role;
+  v_status text := case when p_approve then 'approved' else 'rejected' end;
+begin
+  select * into v_expense from expenses where id = p_expense_id;
+  if v_expense.id is null then
+    return jsonb_build_object('error', 'Expense not found.');
+  end if;
+  select role into v_caller_role from property_members where property_id = v_expense.property_id and user_id = v_caller;
+  if v_caller_role is null or v_caller_role not in ('owner', 'co_owner') then
+    return jsonb_build_object('error', 'Only an owner or co-owner can review expenses.');
+  end if;
+  if v_expense.status = 'rejected' and not p_approve then
+    return jsonb_build_object('error', 'This expense has already been rejected.');
+  end if;
+  if v_expense.status is distinct from 'pending_approval' and v_expense.status is distinct from 'rejected' then
+    return jsonb_build_object('error', 'This expense is not awaiting approval.');
+  end if;
+  if p_approve and v_expense.paid_by = v_caller and exists (
+    select 1 from property_members where property_id = v_expense.property_id and user_id <> v_caller and role in ('owner', 'co_owner')
+  ) then
+    return jsonb_build_object('error', 'Another owner or co-owner must approve an expense you paid.');
+  end if;
+
+  perform set_config('cohaven.reviewing_expense', 'on', true);
+  update expenses
+  set status = v_status, reviewed_by = v_caller, reviewed_at = now(), review_note = nullif(btrim(p_note), ''), updated_at = now()
+  where id = p_expense_id;
+  perform set_config('cohaven.reviewing_expense', 'off', true);
+
+  return jsonb_build_object('expense_id', p_expense_id, 'status', v_status);
+end;
+$$;
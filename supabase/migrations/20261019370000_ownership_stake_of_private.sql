@@ -0,0 +1,5 @@
+-- supabase/migrations/20261019370000_ownership_stake_of_private.sql
+-- ownership_stake_of answers for any member of any property, so it is no longer callable over the API;
+-- record_ownership_change (and other security definer functions) call it from inside.
+
+revoke execute on function public.ownership_stake_of(uuid, uuid, date) from public, anon, authenticated;
@@ -0,0 +1,29 @@
+-- supabase/migrations/20261019380000_ownership_cache_refresh.sql
+-- A ledger entry dated in the future leaves property_members.ownership_percentage on today's stake, so the
+-- cache is refreshed each day (by the scheduled generate-expenses run) to pick up entries whose effective
+-- date has arrived.
+
+-- Brings the cached stakes of a property (or of every property) in line with the ledger as of today
+create or replace function public.refresh_ownership_percentages(p_property_id uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_updated integer;
+begin
+  update property_members pm
+  set ownership_percentage = ownership_stake_of(pm.property_id, pm.user_id, current_date)
+  where (p_property_id is null or pm.property_id = p_property_id)
+    and pm.ownership_percentage is distinct from ownership_stake_of(pm.property_id, pm.user_id, current_date);
+  get diagnostics v_updated = row_count;
+  return v_updated;
+end;
+$$;
+
+revoke execute on function public.refresh_ownership_percentages(uuid) from public, anon, authenticated;
+grant execute on function public.refresh_ownership_percentages(uuid) to service_role;
+
+-- Entries already in effect that the cache missed
+select public.refresh_ownership_percentages();
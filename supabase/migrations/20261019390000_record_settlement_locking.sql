@@ -0,0 +1,74 @@
+-- supabase/migrations/20261019390000_record_settlement_locking.sql
+-- record_settlement read the outstanding splits and then marked them paid in a second statement, so two
+-- settlements (or an expense edit) running alongside could settle the same splits twice or record a net that
+-- no longer matched what was marked paid. It now takes the property's settlement lock and marks paid exactly
+-- the split rows it locked and summed.
+
+create or replace function public.record_settlement(
+  p_property_id uuid,
+  p_from_user_id uuid,
+  p_to_user_id uuid,
+  p_note text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller uuid := auth.uid();
+  v_caller_role member_role;
+  v_net numeric(12, 2);
+  v_count integer;
+  v_settlement_id uuid;
+  v_split_ids uuid[];
+begin
+  select role into v_caller_role from property_members where property_id = p_property_id and user_id = v_caller;
+  if v_caller_role is null then
+    return jsonb_build_object('error', 'You are not a member of this property.');
+  end if;
+  if v_caller not in (p_from_user_id, p_to_user_id) and v_caller_role <> 'owner' then
+    return jsonb_build_object('error', 'Only the two parties or a property owner can record this settlement.');
+  end if;
+
+  -- Settlements on a property are recorded one at a time, and the outstanding splits (and their expenses) are
+  -- locked until commit, so a concurrent settlement or expense edit cannot change what is being settled
+  perform pg_advisory_xact_lock(hashtext('settlements:' || p_property_id::text));
+  select coalesce(array_agg(locked.id), '{}') into v_split_ids
+  from (
+    select s.id
+    from expense_splits s
+    join expenses e on e.id = s.expense_id
+    where e.property_id = p_property_id
+      and coalesce(e.status, 'approved') not in ('pending_approval', 'rejected')
+      and coalesce(s.status, 'owed') <> 'paid' and not coalesce(s.is_paid, false)
+      and ((s.user_id = p_from_user_id and e.paid_by = p_to_user_id)
+        or (s.user_id = p_to_user_id and e.paid_by = p_from_user_id))
+    for update of s, e
+  ) locked;
+
+  -- Net amount the "from" member owes the "to" member across outstanding splits
+  select
+    coalesce(sum(case when s.user_id = p_from_user_id then s.amount else -s.amount end), 0),
+    count(*)
+  into v_net, v_count
+  from expense_splits s
+  where s.id = any(v_split_ids);
+
+  if v_count = 0 then
+    return jsonb_build_object('error', 'There are no outstanding splits between these members.');
+  end if;
+  if v_net <= 0 then
+    return jsonb_build_object('error', 'The paying member does not owe the receiving member anything.');
+  end if;
+
+  update expense_splits s
+  set status = 'paid', is_paid = true
+  where s.id = any(v_split_ids);
+
+  insert into settlements (property_id, from_user_id, to_user_id, amount, split_count, note, recorded_by)
+  values (p_property_id, p_from_user_id, p_to_user_id, v_net, v_count, p_note, v_caller)
+  returning id into v_settlement_id;
+
+  return jsonb_build_object('settlement_id', v_settlement_id, 'settled_splits', v_count, 'amount', v_net);
+end;
+$$;
@@ -23,4 +23,14 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  build: {
+    rollupOptions: {
+      output: {
+        // Tesseract fetches "<langPath>/eng.traineddata.gz", so the receipt OCR language data keeps its file name
+        assetFileNames: (asset) => asset.names?.some(name => name.endsWith('.traineddata.gz'))
+          ? 'assets/tessdata/[name][extname]'
+          : 'assets/[name]-[hash][extname]',
+      },
+    },
+  },
 }));
\ No newline at end of file